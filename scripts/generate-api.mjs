@@ -0,0 +1,334 @@
+#!/usr/bin/env node
+//
+// Typed API client generator.
+//
+// How it works:
+// - Reads the backend contract from openapi/openapi.json (OpenAPI 3.0 or 3.1, JSON).
+// - Emits src/core/api/generated/schemas.ts: one Zod schema and one inferred
+//   type per components/schemas entry (ApiUserSchema / ApiUser).
+// - Emits src/core/api/generated/client.ts: one function per operation, named
+//   after its operationId, built on AxiosService. Path params, query params and
+//   request bodies are typed; JSON responses are validated with the Zod schema.
+// - Request bodies and JSON responses must be $refs to components/schemas, so
+//   every payload has a named type the datasources can import.
+//
+// Usage:
+//   bun run generate:api          regenerate the client after a spec change
+//   bun run check:api             exit 1 if the generated files are out of date
+//
+// Supported schema subset: string (enum, format uuid / email / date-time,
+// minLength, maxLength, pattern), integer, number (minimum, maximum), boolean
+// (single-value enum becomes a literal), array (minItems, maxItems), object
+// (properties, required), oneOf / anyOf, nullable and type: [x, 'null'].
+//
+
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const SPEC_PATH = resolve(ROOT, 'openapi/openapi.json');
+const OUTPUT_DIR = resolve(ROOT, 'src/core/api/generated');
+const CHECK = process.argv.includes('--check');
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+const METHODS_WITH_BODY = new Set(['post', 'put', 'patch']);
+const HEADER = [
+    '// Fichier généré par scripts/generate-api.mjs depuis openapi/openapi.json : ne pas modifier.',
+    '// Regénérer avec `bun run generate:api` après chaque changement du contrat.',
+    '',
+].join('\n');
+
+const spec = JSON.parse(readFileSync(SPEC_PATH, 'utf8'));
+const componentSchemas = spec.components?.schemas ?? {};
+
+const fail = (message) => {
+    console.error(`generate-api: ${message}`);
+    process.exit(1);
+};
+
+// ---------------------------------------------------------------- naming
+
+const pascalCase = (value) => value.replace(/(^|[^a-zA-Z0-9]+)([a-zA-Z0-9])/g, (_, __, char) => char.toUpperCase());
+const typeName = (name) => `Api${pascalCase(name)}`;
+const schemaName = (name) => `${typeName(name)}Schema`;
+const propertyKey = (key) => (/^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key));
+const quote = (value) => `'${String(value).replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+const refName = (ref) => {
+    const match = /^#\/components\/schemas\/(.+)$/.exec(ref);
+    if (!match || !componentSchemas[match[1]]) {
+        fail(`unresolved $ref ${ref}`);
+    }
+    return match[1];
+};
+
+// ---------------------------------------------------------------- schemas
+
+const isNullable = (schema) => schema.nullable === true || (Array.isArray(schema.type) && schema.type.includes('null'));
+const baseType = (schema) => {
+    if (Array.isArray(schema.type)) {
+        return schema.type.find((type) => type !== 'null');
+    }
+    return schema.type ?? (schema.properties ? 'object' : undefined);
+};
+
+const indent = (depth) => '    '.repeat(depth);
+
+// Objects are rendered one property per line, nested objects one level deeper
+const zodFor = (schema, context, depth = 0) => {
+    if (schema.$ref) {
+        return schemaName(refName(schema.$ref));
+    }
+
+    let expression;
+    const variants = schema.oneOf ?? schema.anyOf;
+    if (variants) {
+        expression = `z.union([${variants.map((variant) => zodFor(variant, context, depth)).join(', ')}])`;
+    } else {
+        switch (baseType(schema)) {
+            case 'string':
+                if (schema.enum) {
+                    expression = `z.enum([${schema.enum.map(quote).join(', ')}])`;
+                    break;
+                }
+                expression = 'z.string()';
+                if (schema.format === 'uuid') expression += '.uuid()';
+                if (schema.format === 'email') expression += '.email()';
+                if (schema.format === 'date-time') expression += '.datetime()';
+                if (schema.minLength !== undefined) expression += `.min(${schema.minLength})`;
+                if (schema.maxLength !== undefined) expression += `.max(${schema.maxLength})`;
+                if (schema.pattern !== undefined) expression += `.regex(new RegExp(${JSON.stringify(schema.pattern)}))`;
+                break;
+            case 'integer':
+            case 'number':
+                expression = baseType(schema) === 'integer' ? 'z.number().int()' : 'z.number()';
+                if (schema.minimum !== undefined) expression += `.min(${schema.minimum})`;
+                if (schema.maximum !== undefined) expression += `.max(${schema.maximum})`;
+                break;
+            case 'boolean':
+                expression = schema.enum?.length === 1 ? `z.literal(${schema.enum[0]})` : 'z.boolean()';
+                break;
+            case 'array':
+                if (!schema.items) fail(`${context}: array without items`);
+                expression = `z.array(${zodFor(schema.items, `${context}[]`, depth)})`;
+                if (schema.minItems !== undefined) expression += `.min(${schema.minItems})`;
+                if (schema.maxItems !== undefined) expression += `.max(${schema.maxItems})`;
+                break;
+            case 'object': {
+                const required = new Set(schema.required ?? []);
+                const properties = Object.entries(schema.properties ?? {}).map(([key, property]) => {
+                    const optional = required.has(key) ? '' : '.optional()';
+                    return `${indent(depth + 1)}${propertyKey(key)}: ${zodFor(property, `${context}.${key}`, depth + 1)}${optional},`;
+                });
+                expression = properties.length > 0 ? `z.object({\n${properties.join('\n')}\n${indent(depth)}})` : 'z.object({})';
+                break;
+            }
+            default:
+                fail(`${context}: unsupported schema ${JSON.stringify(schema)}`);
+        }
+    }
+
+    return isNullable(schema) ? `${expression}.nullable()` : expression;
+};
+
+// TypeScript type of a parameter (query or path)
+const tsFor = (schema, context) => {
+    if (schema.$ref) {
+        return typeName(refName(schema.$ref));
+    }
+    const nullable = isNullable(schema) ? ' | null' : '';
+    switch (baseType(schema)) {
+        case 'string':
+            return (schema.enum ? schema.enum.map(quote).join(' | ') : 'string') + nullable;
+        case 'integer':
+        case 'number':
+            return `number${nullable}`;
+        case 'boolean':
+            return `boolean${nullable}`;
+        case 'array':
+            return `${tsFor(schema.items, context)}[]${nullable}`;
+        default:
+            return fail(`${context}: unsupported parameter type ${JSON.stringify(schema)}`);
+    }
+};
+
+// $refs used by a schema, to emit components in dependency order
+const collectRefs = (schema, refs = new Set()) => {
+    if (!schema || typeof schema !== 'object') {
+        return refs;
+    }
+    if (schema.$ref) {
+        refs.add(refName(schema.$ref));
+        return refs;
+    }
+    Object.values(schema).forEach((value) => {
+        if (Array.isArray(value)) value.forEach((item) => collectRefs(item, refs));
+        else if (typeof value === 'object') collectRefs(value, refs);
+    });
+    return refs;
+};
+
+const sortComponents = () => {
+    const sorted = [];
+    const state = new Map();    // name -> 'visiting' | 'done'
+
+    const visit = (name, trail) => {
+        if (state.get(name) === 'done') return;
+        if (state.get(name) === 'visiting') fail(`circular $ref: ${[...trail, name].join(' -> ')}`);
+        state.set(name, 'visiting');
+        collectRefs(componentSchemas[name]).forEach((dependency) => visit(dependency, [...trail, name]));
+        state.set(name, 'done');
+        sorted.push(name);
+    };
+
+    Object.keys(componentSchemas).sort().forEach((name) => visit(name, []));
+    return sorted;
+};
+
+const renderSchemas = () => {
+    const blocks = sortComponents().map((name) => {
+        const schema = componentSchemas[name];
+        const doc = schema.description ? `/** ${schema.description} */\n` : '';
+        return `${doc}export const ${schemaName(name)} = ${zodFor(schema, name)};\n`
+            + `export type ${typeName(name)} = z.infer<typeof ${schemaName(name)}>;\n`;
+    });
+
+    return `${HEADER}import { z } from 'zod';\n\n${blocks.join('\n')}`;
+};
+
+// ---------------------------------------------------------------- operations
+
+const jsonSchemaOf = (content, context) => {
+    const schema = content?.['application/json']?.schema;
+    if (schema && !schema.$ref) {
+        fail(`${context}: inline schema, declare it under components/schemas`);
+    }
+    return schema ? refName(schema.$ref) : null;
+};
+
+const successResponse = (operation, context) => {
+    const code = Object.keys(operation.responses ?? {}).sort().find((status) => /^2\d\d$/.test(status));
+    if (!code) fail(`${context}: no 2xx response`);
+    return jsonSchemaOf(operation.responses[code].content, `${context} ${code}`);
+};
+
+const collectOperations = () => {
+    const operations = [];
+    Object.entries(spec.paths ?? {}).forEach(([path, pathItem]) => {
+        HTTP_METHODS.forEach((method) => {
+            const operation = pathItem[method];
+            if (!operation) return;
+
+            const context = `${method.toUpperCase()} ${path}`;
+            if (!operation.operationId) fail(`${context}: missing operationId`);
+
+            const parameters = [...(pathItem.parameters ?? []), ...(operation.parameters ?? [])];
+            operations.push({
+                id: operation.operationId,
+                method,
+                path,
+                summary: operation.summary ?? '',
+                pathParams: parameters.filter((parameter) => parameter.in === 'path'),
+                queryParams: parameters.filter((parameter) => parameter.in === 'query'),
+                body: operation.requestBody ? jsonSchemaOf(operation.requestBody.content, `${context} body`) : null,
+                bodyRequired: operation.requestBody?.required === true,
+                response: successResponse(operation, context),
+            });
+        });
+    });
+
+    const duplicate = operations.find((operation, index) => operations.findIndex((other) => other.id === operation.id) !== index);
+    if (duplicate) fail(`duplicate operationId ${duplicate.id}`);
+    return operations.sort((a, b) => a.path.localeCompare(b.path) || HTTP_METHODS.indexOf(a.method) - HTTP_METHODS.indexOf(b.method));
+};
+
+const renderClient = () => {
+    const operations = collectOperations();
+    const usedTypes = new Set();
+    const usedSchemas = new Set();
+    const queryTypes = [];
+
+    const functions = operations.map((operation) => {
+        const params = [];
+        const queryTypeName = `${pascalCase(operation.id)}Query`;
+
+        if (operation.pathParams.length > 0) {
+            const fields = operation.pathParams.map((parameter) => `${propertyKey(parameter.name)}: ${tsFor(parameter.schema ?? {}, `${operation.id}.${parameter.name}`)}`);
+            params.push(`path: { ${fields.join('; ')} }`);
+        }
+        if (operation.queryParams.length > 0) {
+            const fields = operation.queryParams.map((parameter) => {
+                const type = tsFor(parameter.schema ?? {}, `${operation.id}.${parameter.name}`);
+                collectRefs(parameter.schema).forEach((name) => usedTypes.add(typeName(name)));
+                const doc = parameter.description ? `    /** ${parameter.description} */\n` : '';
+                return `${doc}    ${propertyKey(parameter.name)}${parameter.required ? '' : '?'}: ${type};`;
+            });
+            queryTypes.push(`export interface ${queryTypeName} {\n${fields.join('\n')}\n}\n`);
+            const optional = operation.queryParams.every((parameter) => !parameter.required);
+            params.push(optional ? `query: ${queryTypeName} = {}` : `query: ${queryTypeName}`);
+        }
+        if (operation.body) {
+            usedTypes.add(typeName(operation.body));
+            params.push(`body${operation.bodyRequired ? '' : '?'}: ${typeName(operation.body)}`);
+        }
+        params.push('config?: AxiosRequestConfig');
+
+        const pathArg = operation.pathParams.length > 0 ? 'path' : '{}';
+        let url = quote(operation.path);
+        if (operation.queryParams.length > 0) url = `buildApiUrl(${quote(operation.path)}, ${pathArg}, query)`;
+        else if (operation.pathParams.length > 0) url = `buildApiUrl(${quote(operation.path)}, path)`;
+        const call = METHODS_WITH_BODY.has(operation.method)
+            ? `AxiosService.getInstance().${operation.method}(${url}, ${operation.body ? 'body' : 'undefined'}, config)`
+            : `AxiosService.getInstance().${operation.method}(${url}, config)`;
+
+        const doc = `/**\n * ${operation.summary ? `${operation.summary} -- ` : ''}${operation.method.toUpperCase()} ${operation.path}\n */\n`;
+        if (!operation.response) {
+            return `${doc}export const ${operation.id} = async (${params.join(', ')}): Promise<void> => {\n`
+                + `    await ${call};\n`
+                + '};\n';
+        }
+
+        usedTypes.add(typeName(operation.response));
+        usedSchemas.add(schemaName(operation.response));
+        return `${doc}export const ${operation.id} = async (${params.join(', ')}): Promise<${typeName(operation.response)}> => {\n`
+            + `    const response = await ${call};\n`
+            + `    return parseApiResponse(${schemaName(operation.response)}, response.data, '${operation.id}');\n`
+            + '};\n';
+    });
+
+    const schemaImports = [...[...usedSchemas].sort(), ...[...usedTypes].sort().map((name) => `type ${name}`)];
+    const imports = [
+        "import type { AxiosRequestConfig } from 'axios';",
+        "import AxiosService from '../../services/axiosService';",
+        "import { buildApiUrl, parseApiResponse } from '../apiRuntime';",
+        `import {\n${schemaImports.map((name) => `    ${name},`).join('\n')}\n} from './schemas';`,
+    ].join('\n');
+
+    return `${HEADER}${imports}\n\n${[...queryTypes, ...functions].join('\n')}`;
+};
+
+// ---------------------------------------------------------------- output
+
+const files = {
+    'schemas.ts': renderSchemas(),
+    'client.ts': renderClient(),
+};
+
+if (CHECK) {
+    const stale = Object.entries(files).filter(([name, content]) => {
+        try {
+            return readFileSync(resolve(OUTPUT_DIR, name), 'utf8') !== content;
+        } catch {
+            return true;
+        }
+    });
+    if (stale.length > 0) {
+        fail(`out of date: ${stale.map(([name]) => name).join(', ')} (run bun run generate:api)`);
+    }
+    console.log('generate-api: generated client is up to date');
+} else {
+    mkdirSync(OUTPUT_DIR, { recursive: true });
+    Object.entries(files).forEach(([name, content]) => writeFileSync(resolve(OUTPUT_DIR, name), content));
+    console.log(`generate-api: wrote ${Object.keys(files).join(', ')} to ${OUTPUT_DIR}`);
+}
@@ -0,0 +1,174 @@
+#!/usr/bin/env node
+//
+// Local OpenID Connect provider for development and manual testing.
+//
+// How it works:
+// - Serves discovery, authorize, token (authorization_code + PKCE S256,
+//   refresh_token with rotation), JWKS and end-session endpoints.
+// - /authorize approves every request immediately: no login form.
+// - Tokens are ES256 JWTs signed with a key generated at startup, so
+//   sessions do not survive a restart of the stub.
+//
+// Usage:
+//   bun run stub:idp
+//   VITE_OIDC_PROVIDERS='[{"id":"stub","label":"Stub IdP","issuer":"http://localhost:4000","clientId":"template-app"}]'
+//
+// Environment:
+//   STUB_IDP_PORT        (default 4000)
+//   STUB_IDP_EMAIL       (default stub.user@example.com)
+//   STUB_IDP_ROLE        (default USER)
+//   STUB_IDP_TOKEN_TTL   access/id token lifetime in seconds (default 900)
+//
+
+import { createServer } from 'node:http';
+import { createHash, generateKeyPairSync, randomBytes, sign } from 'node:crypto';
+
+const PORT = Number(process.env.STUB_IDP_PORT) || 4000;
+const ISSUER = `http://localhost:${PORT}`;
+const EMAIL = process.env.STUB_IDP_EMAIL || 'stub.user@example.com';
+const ROLE = process.env.STUB_IDP_ROLE || 'USER';
+const TOKEN_TTL = Number(process.env.STUB_IDP_TOKEN_TTL) || 900;
+
+const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+const KID = randomBytes(8).toString('hex');
+const JWKS = { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KID, alg: 'ES256', use: 'sig' }] };
+
+const codes = new Map();          // code -> { clientId, redirectUri, codeChallenge, nonce }
+const refreshTokens = new Map();  // refresh token -> clientId
+
+const base64Url = (value) => Buffer.from(value).toString('base64url');
+
+const signJwt = (payload) => {
+    const header = base64Url(JSON.stringify({ alg: 'ES256', typ: 'JWT', kid: KID }));
+    const body = base64Url(JSON.stringify(payload));
+    const signature = sign('sha256', Buffer.from(`${header}.${body}`), { key: privateKey, dsaEncoding: 'ieee-p1363' });
+    return `${header}.${body}.${signature.toString('base64url')}`;
+};
+
+const issueTokens = (clientId, nonce) => {
+    const now = Math.floor(Date.now() / 1000);
+    const claims = { iss: ISSUER, aud: clientId, sub: `stub-${EMAIL}`, email: EMAIL, iat: now, exp: now + TOKEN_TTL };
+    const refreshToken = randomBytes(32).toString('base64url');
+    refreshTokens.set(refreshToken, clientId);
+
+    return {
+        token_type: 'Bearer',
+        expires_in: TOKEN_TTL,
+        access_token: signJwt({ ...claims, role: ROLE, permissions: [] }),
+        id_token: signJwt(nonce ? { ...claims, nonce } : claims),
+        refresh_token: refreshToken,
+    };
+};
+
+const send = (res, status, body, headers = {}) => {
+    res.writeHead(status, {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Headers': 'Content-Type',
+        'Cache-Control': 'no-store',
+        ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+        ...headers,
+    });
+    res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readForm = (req) => new Promise((resolve) => {
+    let raw = '';
+    req.on('data', (chunk) => { raw += chunk; });
+    req.on('end', () => resolve(new URLSearchParams(raw)));
+});
+
+const handleAuthorize = (res, params) => {
+    const redirectUri = params.get('redirect_uri');
+    if (!redirectUri || !params.get('client_id')) {
+        return send(res, 400, { error: 'invalid_request', error_description: 'client_id and redirect_uri are required' });
+    }
+
+    const target = new URL(redirectUri);
+    target.searchParams.set('state', params.get('state') ?? '');
+
+    if (params.get('response_type') !== 'code' || params.get('code_challenge_method') !== 'S256' || !params.get('code_challenge')) {
+        target.searchParams.set('error', 'invalid_request');
+        target.searchParams.set('error_description', 'response_type=code with a S256 code_challenge is required');
+        return send(res, 302, undefined, { Location: target.toString() });
+    }
+
+    const code = randomBytes(24).toString('base64url');
+    codes.set(code, {
+        clientId: params.get('client_id'),
+        redirectUri,
+        codeChallenge: params.get('code_challenge'),
+        nonce: params.get('nonce'),
+    });
+
+    target.searchParams.set('code', code);
+    send(res, 302, undefined, { Location: target.toString() });
+};
+
+const handleToken = async (req, res) => {
+    const form = await readForm(req);
+
+    if (form.get('grant_type') === 'authorization_code') {
+        const pending = codes.get(form.get('code'));
+        codes.delete(form.get('code'));   // Single use, even on failure
+
+        const verifier = form.get('code_verifier') ?? '';
+        const challenge = createHash('sha256').update(verifier).digest('base64url');
+
+        if (!pending || pending.clientId !== form.get('client_id') || pending.redirectUri !== form.get('redirect_uri') || pending.codeChallenge !== challenge) {
+            return send(res, 400, { error: 'invalid_grant' });
+        }
+        return send(res, 200, issueTokens(pending.clientId, pending.nonce));
+    }
+
+    if (form.get('grant_type') === 'refresh_token') {
+        const clientId = refreshTokens.get(form.get('refresh_token'));
+        refreshTokens.delete(form.get('refresh_token'));   // Rotation
+
+        if (!clientId || clientId !== form.get('client_id')) {
+            return send(res, 400, { error: 'invalid_grant' });
+        }
+        return send(res, 200, issueTokens(clientId, null));
+    }
+
+    send(res, 400, { error: 'unsupported_grant_type' });
+};
+
+const server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', ISSUER);
+    console.log(`${req.method} ${url.pathname}`);
+
+    if (req.method === 'OPTIONS') {
+        return send(res, 204, undefined, { 'Access-Control-Allow-Methods': 'GET, POST, OPTIONS' });
+    }
+
+    switch (`${req.method} ${url.pathname}`) {
+        case 'GET /.well-known/openid-configuration':
+            return send(res, 200, {
+                issuer: ISSUER,
+                authorization_endpoint: `${ISSUER}/authorize`,
+                token_endpoint: `${ISSUER}/token`,
+                jwks_uri: `${ISSUER}/jwks`,
+                end_session_endpoint: `${ISSUER}/logout`,
+                response_types_supported: ['code'],
+                grant_types_supported: ['authorization_code', 'refresh_token'],
+                code_challenge_methods_supported: ['S256'],
+                id_token_signing_alg_values_supported: ['ES256'],
+            });
+        case 'GET /authorize':
+            return handleAuthorize(res, url.searchParams);
+        case 'POST /token':
+            return handleToken(req, res);
+        case 'GET /jwks':
+            return send(res, 200, JWKS);
+        case 'GET /logout': {
+            const redirect = url.searchParams.get('post_logout_redirect_uri');
+            return redirect ? send(res, 302, undefined, { Location: redirect }) : send(res, 200, { status: 'logged_out' });
+        }
+        default:
+            return send(res, 404, { error: 'not_found' });
+    }
+});
+
+server.listen(PORT, () => {
+    console.log(`Stub IdP listening on ${ISSUER} (user ${EMAIL}, role ${ROLE})`);
+});
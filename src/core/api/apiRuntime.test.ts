@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { buildApiUrl, parseApiResponse, isApiValidationError } from './apiRuntime';
+import { ApiUserListResponseSchema } from './generated/schemas';
+
+// --- Tests ---
+
+describe('apiRuntime', () => {
+    it('encode les parametres de chemin et trie la query string', () => {
+        expect(buildApiUrl('/auth/sessions/{id}', { id: 'a/b' })).toBe('/auth/sessions/a%2Fb');
+        expect(buildApiUrl('/api/users', {}, { search: 'jean dupont', page: 2, role: undefined }))
+            .toBe('/api/users?page=2&search=jean+dupont');
+    });
+
+    it('convertit une reponse non conforme au contrat en VALIDATION_ERROR', () => {
+        const received = { data: [], meta: { totalPages: 1 } };
+
+        let error: unknown = null;
+        try {
+            parseApiResponse(ApiUserListResponseSchema, received, 'getUsers');
+        } catch (caught) {
+            error = caught;
+        }
+
+        expect(isApiValidationError(error)).toBe(true);
+        expect((error as { details: { receivedData: unknown } }).details.receivedData).toBe(received);
+    });
+});
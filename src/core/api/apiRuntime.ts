@@ -0,0 +1,59 @@
+import { z } from 'zod';
+import { ValidationError } from '../types/AppError';
+import { zodIssues } from '../utils/errorMapper';
+import { createQueryKey } from '../services/queryCache';
+
+/**
+ * Fonctions utilisées par le client généré (src/core/api/generated/client.ts).
+ * Les DataSources appellent le client généré, jamais ces fonctions directement.
+ */
+
+/**
+ * URL d'une opération : paramètres de chemin encodés, query string triée (identique à la clé de QueryCache)
+ */
+export const buildApiUrl = (
+    template: string,
+    pathParams: Record<string, string | number> = {},
+    query: object = {}
+): string => {
+    const path = template.replace(/\{(\w+)\}/g, (_, name: string) => {
+        if (pathParams[name] === undefined) {
+            throw new ValidationError(
+                `Paramètre de chemin manquant : ${name}`,
+                [{ path: name, message: 'Paramètre requis' }],
+                'missing_path_param'
+            );
+        }
+        return encodeURIComponent(String(pathParams[name]));
+    });
+
+    return createQueryKey(path, query);
+};
+
+/**
+ * Validation Zod de la réponse d'une opération.
+ * Même forme d'erreur que les DTO (`ValidationError`, code `VALIDATION_ERROR`) : les DataSources la propagent
+ * telle quelle ou la convertissent en code métier.
+ */
+export const parseApiResponse = <T>(schema: z.ZodType<T>, data: unknown, operationId: string): T => {
+    const result = schema.safeParse(data);
+    if (result.success) {
+        return result.data;
+    }
+
+    const errorMessage = result.error.issues.map((issue) =>
+        `${issue.path.join('.')}: ${issue.message}`
+    ).join(', ');
+
+    throw new ValidationError(
+        `Réponse invalide pour ${operationId}: ${errorMessage}`,
+        zodIssues(result.error),
+        { zodErrors: result.error.issues, receivedData: data }
+    );
+};
+
+/**
+ * Réponse non conforme au schéma OpenAPI
+ */
+export const isApiValidationError = (error: unknown): error is ValidationError =>
+    error instanceof ValidationError;
@@ -0,0 +1,206 @@
+// Fichier généré par scripts/generate-api.mjs depuis openapi/openapi.json : ne pas modifier.
+// Regénérer avec `bun run generate:api` après chaque changement du contrat.
+import type { AxiosRequestConfig } from 'axios';
+import AxiosService from '../../services/axiosService';
+import { buildApiUrl, parseApiResponse } from '../apiRuntime';
+import {
+    ApiAuthTokensSchema,
+    ApiLoginResponseSchema,
+    ApiRecoveryCodesSchema,
+    ApiRefreshResponseSchema,
+    ApiSessionListResponseSchema,
+    ApiTwoFactorEnrollmentSchema,
+    ApiUserListResponseSchema,
+    ApiUserSchema,
+    type ApiAuthTokens,
+    type ApiChangePasswordRequest,
+    type ApiConfirmTwoFactorRequest,
+    type ApiCreateUserRequest,
+    type ApiForgotPasswordRequest,
+    type ApiImpersonateRequest,
+    type ApiLoginRequest,
+    type ApiLoginResponse,
+    type ApiRecoveryCodes,
+    type ApiRefreshResponse,
+    type ApiRefreshTokenRequest,
+    type ApiRegisterRequest,
+    type ApiResetPasswordRequest,
+    type ApiSessionListResponse,
+    type ApiTwoFactorEnrollment,
+    type ApiUpdateProfileRequest,
+    type ApiUpdateUserRequest,
+    type ApiUser,
+    type ApiUserListResponse,
+    type ApiUserStatus,
+    type ApiVerifySecondFactorRequest,
+} from './schemas';
+
+export interface GetUsersQuery {
+    page?: number;
+    search?: string;
+    status?: ApiUserStatus;
+    role?: string;
+}
+
+export interface RevokeSessionsQuery {
+    /** others : toutes sauf la session courante */
+    scope?: 'others';
+}
+
+/**
+ * Liste paginée des utilisateurs -- GET /api/users
+ */
+export const getUsers = async (query: GetUsersQuery = {}, config?: AxiosRequestConfig): Promise<ApiUserListResponse> => {
+    const response = await AxiosService.getInstance().get(buildApiUrl('/api/users', {}, query), config);
+    return parseApiResponse(ApiUserListResponseSchema, response.data, 'getUsers');
+};
+
+/**
+ * Créer un utilisateur -- POST /api/users
+ */
+export const createUser = async (body: ApiCreateUserRequest, config?: AxiosRequestConfig): Promise<void> => {
+    await AxiosService.getInstance().post('/api/users', body, config);
+};
+
+/**
+ * Détail d'un utilisateur -- GET /api/users/{id}
+ */
+export const getUserById = async (path: { id: string }, config?: AxiosRequestConfig): Promise<ApiUser> => {
+    const response = await AxiosService.getInstance().get(buildApiUrl('/api/users/{id}', path), config);
+    return parseApiResponse(ApiUserSchema, response.data, 'getUserById');
+};
+
+/**
+ * Mettre à jour un utilisateur -- PUT /api/users/{id}
+ */
+export const updateUser = async (path: { id: string }, body: ApiUpdateUserRequest, config?: AxiosRequestConfig): Promise<void> => {
+    await AxiosService.getInstance().put(buildApiUrl('/api/users/{id}', path), body, config);
+};
+
+/**
+ * Supprimer un utilisateur -- DELETE /api/users/{id}
+ */
+export const deleteUser = async (path: { id: string }, config?: AxiosRequestConfig): Promise<void> => {
+    await AxiosService.getInstance().delete(buildApiUrl('/api/users/{id}', path), config);
+};
+
+/**
+ * Démarrer l'enrôlement TOTP -- POST /auth/2fa/enroll
+ */
+export const startTwoFactorEnrollment = async (config?: AxiosRequestConfig): Promise<ApiTwoFactorEnrollment> => {
+    const response = await AxiosService.getInstance().post('/auth/2fa/enroll', undefined, config);
+    return parseApiResponse(ApiTwoFactorEnrollmentSchema, response.data, 'startTwoFactorEnrollment');
+};
+
+/**
+ * Confirmer l'enrôlement TOTP -- POST /auth/2fa/enroll/confirm
+ */
+export const confirmTwoFactorEnrollment = async (body: ApiConfirmTwoFactorRequest, config?: AxiosRequestConfig): Promise<ApiRecoveryCodes> => {
+    const response = await AxiosService.getInstance().post('/auth/2fa/enroll/confirm', body, config);
+    return parseApiResponse(ApiRecoveryCodesSchema, response.data, 'confirmTwoFactorEnrollment');
+};
+
+/**
+ * Vérifier le second facteur -- POST /auth/2fa/verify
+ */
+export const verifySecondFactor = async (body: ApiVerifySecondFactorRequest, config?: AxiosRequestConfig): Promise<ApiAuthTokens> => {
+    const response = await AxiosService.getInstance().post('/auth/2fa/verify', body, config);
+    return parseApiResponse(ApiAuthTokensSchema, response.data, 'verifySecondFactor');
+};
+
+/**
+ * Demander un lien de réinitialisation -- POST /auth/forgot-password
+ */
+export const requestPasswordReset = async (body: ApiForgotPasswordRequest, config?: AxiosRequestConfig): Promise<void> => {
+    await AxiosService.getInstance().post('/auth/forgot-password', body, config);
+};
+
+/**
+ * Ouvrir une session en tant qu'un autre utilisateur (ADMIN) -- POST /auth/impersonate
+ */
+export const impersonate = async (body: ApiImpersonateRequest, config?: AxiosRequestConfig): Promise<ApiAuthTokens> => {
+    const response = await AxiosService.getInstance().post('/auth/impersonate', body, config);
+    return parseApiResponse(ApiAuthTokensSchema, response.data, 'impersonate');
+};
+
+/**
+ * Connexion par email et mot de passe -- POST /auth/login
+ */
+export const login = async (body: ApiLoginRequest, config?: AxiosRequestConfig): Promise<ApiLoginResponse> => {
+    const response = await AxiosService.getInstance().post('/auth/login', body, config);
+    return parseApiResponse(ApiLoginResponseSchema, response.data, 'login');
+};
+
+/**
+ * Révoquer le refresh token -- POST /auth/logout
+ */
+export const logout = async (body: ApiRefreshTokenRequest, config?: AxiosRequestConfig): Promise<void> => {
+    await AxiosService.getInstance().post('/auth/logout', body, config);
+};
+
+/**
+ * Profil de l'utilisateur connecté -- GET /auth/me
+ */
+export const getProfile = async (config?: AxiosRequestConfig): Promise<ApiUser> => {
+    const response = await AxiosService.getInstance().get('/auth/me', config);
+    return parseApiResponse(ApiUserSchema, response.data, 'getProfile');
+};
+
+/**
+ * Modifier le profil (mot de passe actuel requis) -- PATCH /auth/me
+ */
+export const updateProfile = async (body: ApiUpdateProfileRequest, config?: AxiosRequestConfig): Promise<ApiUser> => {
+    const response = await AxiosService.getInstance().patch('/auth/me', body, config);
+    return parseApiResponse(ApiUserSchema, response.data, 'updateProfile');
+};
+
+/**
+ * Changer le mot de passe -- POST /auth/me/password
+ */
+export const changePassword = async (body: ApiChangePasswordRequest, config?: AxiosRequestConfig): Promise<void> => {
+    await AxiosService.getInstance().post('/auth/me/password', body, config);
+};
+
+/**
+ * Renouveler le token d'accès -- POST /auth/refresh
+ */
+export const refreshToken = async (body: ApiRefreshTokenRequest, config?: AxiosRequestConfig): Promise<ApiRefreshResponse> => {
+    const response = await AxiosService.getInstance().post('/auth/refresh', body, config);
+    return parseApiResponse(ApiRefreshResponseSchema, response.data, 'refreshToken');
+};
+
+/**
+ * Créer un compte -- POST /auth/register
+ */
+export const register = async (body: ApiRegisterRequest, config?: AxiosRequestConfig): Promise<void> => {
+    await AxiosService.getInstance().post('/auth/register', body, config);
+};
+
+/**
+ * Réinitialiser le mot de passe -- POST /auth/reset-password
+ */
+export const resetPassword = async (body: ApiResetPasswordRequest, config?: AxiosRequestConfig): Promise<void> => {
+    await AxiosService.getInstance().post('/auth/reset-password', body, config);
+};
+
+/**
+ * Sessions actives de l'utilisateur -- GET /auth/sessions
+ */
+export const getSessions = async (config?: AxiosRequestConfig): Promise<ApiSessionListResponse> => {
+    const response = await AxiosService.getInstance().get('/auth/sessions', config);
+    return parseApiResponse(ApiSessionListResponseSchema, response.data, 'getSessions');
+};
+
+/**
+ * Révoquer des sessions -- DELETE /auth/sessions
+ */
+export const revokeSessions = async (query: RevokeSessionsQuery = {}, config?: AxiosRequestConfig): Promise<void> => {
+    await AxiosService.getInstance().delete(buildApiUrl('/auth/sessions', {}, query), config);
+};
+
+/**
+ * Révoquer une session -- DELETE /auth/sessions/{id}
+ */
+export const revokeSession = async (path: { id: string }, config?: AxiosRequestConfig): Promise<void> => {
+    await AxiosService.getInstance().delete(buildApiUrl('/auth/sessions/{id}', path), config);
+};
@@ -0,0 +1,173 @@
+// Fichier généré par scripts/generate-api.mjs depuis openapi/openapi.json : ne pas modifier.
+// Regénérer avec `bun run generate:api` après chaque changement du contrat.
+import { z } from 'zod';
+
+export const ApiAuthTokensSchema = z.object({
+    accessToken: z.string().min(1),
+    refreshToken: z.string().min(1),
+});
+export type ApiAuthTokens = z.infer<typeof ApiAuthTokensSchema>;
+
+export const ApiChangePasswordRequestSchema = z.object({
+    currentPassword: z.string(),
+    newPassword: z.string(),
+});
+export type ApiChangePasswordRequest = z.infer<typeof ApiChangePasswordRequestSchema>;
+
+export const ApiConfirmTwoFactorRequestSchema = z.object({
+    code: z.string(),
+});
+export type ApiConfirmTwoFactorRequest = z.infer<typeof ApiConfirmTwoFactorRequestSchema>;
+
+export const ApiCreateUserRequestSchema = z.object({
+    firstName: z.string(),
+    lastName: z.string(),
+    email: z.string().email(),
+    password: z.string().min(6),
+    role: z.string().optional(),
+    phoneNumber: z.string().optional(),
+    status: z.string().optional(),
+});
+export type ApiCreateUserRequest = z.infer<typeof ApiCreateUserRequestSchema>;
+
+export const ApiForgotPasswordRequestSchema = z.object({
+    email: z.string(),
+});
+export type ApiForgotPasswordRequest = z.infer<typeof ApiForgotPasswordRequestSchema>;
+
+export const ApiImpersonateRequestSchema = z.object({
+    userId: z.string(),
+});
+export type ApiImpersonateRequest = z.infer<typeof ApiImpersonateRequestSchema>;
+
+export const ApiLoginRequestSchema = z.object({
+    email: z.string(),
+    password: z.string(),
+});
+export type ApiLoginRequest = z.infer<typeof ApiLoginRequestSchema>;
+
+export const ApiSecondFactorMethodSchema = z.enum(['totp', 'recovery_code']);
+export type ApiSecondFactorMethod = z.infer<typeof ApiSecondFactorMethodSchema>;
+
+export const ApiSecondFactorChallengeSchema = z.object({
+    secondFactorRequired: z.literal(true),
+    challengeId: z.string().min(1),
+    methods: z.array(ApiSecondFactorMethodSchema).min(1).optional(),
+});
+export type ApiSecondFactorChallenge = z.infer<typeof ApiSecondFactorChallengeSchema>;
+
+export const ApiLoginResponseSchema = z.union([ApiSecondFactorChallengeSchema, ApiAuthTokensSchema]);
+export type ApiLoginResponse = z.infer<typeof ApiLoginResponseSchema>;
+
+export const ApiPaginationMetaSchema = z.object({
+    totalPages: z.number().int().min(0),
+    currentPage: z.number().int().min(1),
+    totalItems: z.number().int().min(0),
+});
+export type ApiPaginationMeta = z.infer<typeof ApiPaginationMetaSchema>;
+
+export const ApiRecoveryCodesSchema = z.object({
+    recoveryCodes: z.array(z.string()).optional(),
+});
+export type ApiRecoveryCodes = z.infer<typeof ApiRecoveryCodesSchema>;
+
+export const ApiRefreshResponseSchema = z.object({
+    accessToken: z.string().min(1),
+    refreshToken: z.string().min(1).optional(),
+});
+export type ApiRefreshResponse = z.infer<typeof ApiRefreshResponseSchema>;
+
+export const ApiRefreshTokenRequestSchema = z.object({
+    refreshToken: z.string(),
+});
+export type ApiRefreshTokenRequest = z.infer<typeof ApiRefreshTokenRequestSchema>;
+
+export const ApiRegisterRequestSchema = z.object({
+    firstName: z.string(),
+    lastName: z.string(),
+    email: z.string(),
+    password: z.string(),
+});
+export type ApiRegisterRequest = z.infer<typeof ApiRegisterRequestSchema>;
+
+export const ApiResetPasswordRequestSchema = z.object({
+    token: z.string(),
+    password: z.string(),
+});
+export type ApiResetPasswordRequest = z.infer<typeof ApiResetPasswordRequestSchema>;
+
+export const ApiSessionSchema = z.object({
+    id: z.string().min(1),
+    device: z.string().nullable().optional(),
+    browser: z.string().nullable().optional(),
+    os: z.string().nullable().optional(),
+    ip_address: z.string().nullable().optional(),
+    location: z.string().nullable().optional(),
+    created_at: z.string().datetime(),
+    last_seen_at: z.string().datetime(),
+    is_current: z.boolean().optional(),
+});
+export type ApiSession = z.infer<typeof ApiSessionSchema>;
+
+/** Tableau direct ou enveloppe { data: [...] } selon la version de l'API */
+export const ApiSessionListResponseSchema = z.union([z.array(ApiSessionSchema), z.object({
+    data: z.array(ApiSessionSchema),
+})]);
+export type ApiSessionListResponse = z.infer<typeof ApiSessionListResponseSchema>;
+
+export const ApiTwoFactorEnrollmentSchema = z.object({
+    otpauthUrl: z.string().min(1),
+    secret: z.string().min(1),
+    qrCodeDataUrl: z.string().optional(),
+});
+export type ApiTwoFactorEnrollment = z.infer<typeof ApiTwoFactorEnrollmentSchema>;
+
+export const ApiUpdateProfileRequestSchema = z.object({
+    firstName: z.string(),
+    lastName: z.string(),
+    phone: z.string().nullable(),
+    currentPassword: z.string(),
+});
+export type ApiUpdateProfileRequest = z.infer<typeof ApiUpdateProfileRequestSchema>;
+
+export const ApiUpdateUserRequestSchema = z.object({
+    firstName: z.string().optional(),
+    lastName: z.string().optional(),
+    email: z.string().email().optional(),
+    password: z.string().min(6).optional(),
+    role: z.string().optional(),
+    phoneNumber: z.string().optional(),
+    status: z.string().optional(),
+});
+export type ApiUpdateUserRequest = z.infer<typeof ApiUpdateUserRequestSchema>;
+
+export const ApiUserRoleSchema = z.enum(['ADMIN', 'USER', 'MODERATOR']);
+export type ApiUserRole = z.infer<typeof ApiUserRoleSchema>;
+
+export const ApiUserSchema = z.object({
+    id: z.string().uuid(),
+    first_name: z.string().min(1).max(100),
+    last_name: z.string().min(1).max(100),
+    email: z.string().email(),
+    phone: z.string().nullable().optional(),
+    role: ApiUserRoleSchema,
+    created_at: z.string().datetime(),
+    updated_at: z.string().datetime(),
+});
+export type ApiUser = z.infer<typeof ApiUserSchema>;
+
+export const ApiUserListResponseSchema = z.object({
+    data: z.array(ApiUserSchema),
+    meta: ApiPaginationMetaSchema,
+});
+export type ApiUserListResponse = z.infer<typeof ApiUserListResponseSchema>;
+
+export const ApiUserStatusSchema = z.enum(['ACTIVE', 'INACTIVE', 'SUSPENDED']);
+export type ApiUserStatus = z.infer<typeof ApiUserStatusSchema>;
+
+export const ApiVerifySecondFactorRequestSchema = z.object({
+    challengeId: z.string(),
+    code: z.string(),
+    method: ApiSecondFactorMethodSchema,
+});
+export type ApiVerifySecondFactorRequest = z.infer<typeof ApiVerifySecondFactorRequestSchema>;
@@ -1,8 +1,14 @@
 import React from 'react';
 import { NavLink, useNavigate } from 'react-router-dom';
-import { Button } from '@heroui/react';
+import { Button, Dropdown } from '@heroui/react';
 import { useThemeStore } from '../store/themeStore';
 import { useAuth } from '../hooks/useAuth';
+import { useImpersonation } from '../hooks/useImpersonation';
+import { useAppConfig } from '../hooks/useAppConfig';
+import { AccessRequirement, canAccess, USERS_MANAGEMENT } from '../policies/accessPolicy';
+import IdleTimeoutDialog from './IdleTimeoutDialog';
+import SyncStatusIndicator from './SyncStatusIndicator';
+import SyncIssuesBanner from './SyncIssuesBanner';
 
 const SunIcon = () => (
     <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none"
@@ -28,6 +34,13 @@ const LogoutIcon = () => (
     </svg>
 );
 
+const ChevronDownIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none"
+        stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <polyline points="6 9 12 15 18 9" />
+    </svg>
+);
+
 const navLinkClass = ({ isActive }: { isActive: boolean }) =>
     [
         'text-sm font-medium px-3 py-1.5 rounded-md transition-colors',
@@ -36,6 +49,27 @@ const navLinkClass = ({ isActive }: { isActive: boolean }) =>
             : 'text-secondary hover:text-primary hover:bg-[rgb(var(--bg-border)/0.5)]',
     ].join(' ');
 
+interface NavItem extends AccessRequirement {
+    to: string;
+    label: string;
+    end?: boolean;
+}
+
+// Liens de navigation, filtres selon les droits de l'utilisateur connecte
+const NAV_ITEMS: NavItem[] = [
+    { to: '/', label: 'Accueil', end: true },
+    { to: '/users', label: 'Utilisateurs', ...USERS_MANAGEMENT },
+];
+
+// Pages personnelles, regroupees dans le menu du profil
+const PROFILE_MENU_ITEMS = [
+    { to: '/account', label: 'Mon compte' },
+    { to: '/security/two-factor', label: 'Double authentification' },
+    { to: '/security/sessions', label: 'Sessions' },
+];
+
+const LOGOUT_KEY = 'logout';
+
 interface AppLayoutProps {
     children: React.ReactNode;
 }
@@ -44,16 +78,55 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
     // Selecteurs individuels Zustand pour eviter les re-renders inutiles
     const theme = useThemeStore((s) => s.theme);
     const toggleTheme = useThemeStore((s) => s.toggleTheme);
-    const { isAuthenticated, logout } = useAuth();
+    const { isAuthenticated, user, profile, logout } = useAuth();
+    const impersonation = useImpersonation();
+    const { appName } = useAppConfig();
     const navigate = useNavigate();
 
+    // Nom complet une fois le profil charge (/auth/me), email du token en attendant
+    const displayName = profile ? `${profile.firstName} ${profile.lastName}` : user?.email;
+
     const handleLogout = async () => {
         await logout();
         navigate('/login');
     };
 
+    // Retour a la session de l'administrateur, sur la page d'ou l'impersonation a ete lancee
+    const handleStopImpersonation = async () => {
+        await impersonation.stop();
+        navigate('/users');
+    };
+
+    const handleProfileAction = (key: React.Key) => {
+        if (key === LOGOUT_KEY) {
+            handleLogout();
+            return;
+        }
+        navigate(String(key));
+    };
+
     return (
         <div className="min-h-screen flex flex-col page-bg">
+            {/* Bandeau d'impersonation, visible sur toutes les pages tant que la session d'origine est mise de cote */}
+            {isAuthenticated && impersonation.isImpersonating && (
+                <div role="status" className="bg-amber-100 text-amber-900 border-b border-amber-300">
+                    <div className="max-w-6xl mx-auto px-4 py-2 flex items-center justify-between gap-4 text-sm">
+                        <span>
+                            Vous consultez l'application en tant que <span className="font-semibold">{displayName}</span>
+                            {impersonation.error && <span className="ml-2 text-red-700">{impersonation.error}</span>}
+                        </span>
+                        <Button
+                            variant="secondary"
+                            size="sm"
+                            onPress={handleStopImpersonation}
+                            isDisabled={impersonation.isPending}
+                        >
+                            Arreter l'impersonation
+                        </Button>
+                    </div>
+                </div>
+            )}
+
             {/* Topbar */}
             <header
                 className="sticky top-0 z-50 w-full border-b border-base"
@@ -63,22 +136,24 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
                     {/* Logo + nav */}
                     <div className="flex items-center gap-6">
                         <span className="font-bold text-sm tracking-tight text-primary">
-                            MonApp
+                            {appName}
                         </span>
                         {isAuthenticated && (
                             <nav className="flex items-center gap-1">
-                                <NavLink to="/" end className={navLinkClass}>
-                                    Accueil
-                                </NavLink>
-                                <NavLink to="/users" className={navLinkClass}>
-                                    Utilisateurs
-                                </NavLink>
+                                {NAV_ITEMS.filter((item) => canAccess(user, item)).map((item) => (
+                                    <NavLink key={item.to} to={item.to} end={item.end} className={navLinkClass}>
+                                        {item.label}
+                                    </NavLink>
+                                ))}
                             </nav>
                         )}
                     </div>
 
                     {/* Actions */}
                     <div className="flex items-center gap-2">
+                        {/* Modifications hors ligne en attente de synchronisation */}
+                        {isAuthenticated && <SyncStatusIndicator />}
+
                         <button
                             onClick={toggleTheme}
                             aria-label={theme === 'dark' ? 'Passer en mode clair' : 'Passer en mode sombre'}
@@ -88,28 +163,48 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
                         </button>
 
                         {isAuthenticated && (
-                            <Button
-                                variant="ghost"
-                                size="sm"
-                                onPress={handleLogout}
-                            >
-                                <LogoutIcon />
-                                <span className="ml-1.5">Deconnexion</span>
-                            </Button>
+                            <Dropdown>
+                                <Dropdown.Trigger
+                                    aria-label="Menu du profil"
+                                    className="flex items-center gap-1.5 text-sm font-medium px-3 py-1.5 rounded-md text-secondary hover:text-primary hover:bg-[rgb(var(--bg-border)/0.5)] transition-colors"
+                                >
+                                    <span className="max-w-48 truncate">{displayName}</span>
+                                    <ChevronDownIcon />
+                                </Dropdown.Trigger>
+                                <Dropdown.Popover placement="bottom end">
+                                    <Dropdown.Menu onAction={handleProfileAction}>
+                                        {PROFILE_MENU_ITEMS.map((item) => (
+                                            <Dropdown.Item key={item.to} id={item.to} textValue={item.label}>
+                                                {item.label}
+                                            </Dropdown.Item>
+                                        ))}
+                                        <Dropdown.Item id={LOGOUT_KEY} textValue="Deconnexion" variant="danger">
+                                            <LogoutIcon />
+                                            <span>Deconnexion</span>
+                                        </Dropdown.Item>
+                                    </Dropdown.Menu>
+                                </Dropdown.Popover>
+                            </Dropdown>
                         )}
                     </div>
                 </div>
             </header>
 
+            {/* Modifications hors ligne refusees au rejeu (conflits) */}
+            {isAuthenticated && <SyncIssuesBanner />}
+
             {/* Contenu principal */}
             <main className="flex-1">
                 {children}
             </main>
 
+            {/* Avertissement d'inactivite (sessions ouvertes uniquement) */}
+            {isAuthenticated && <IdleTimeoutDialog />}
+
             {/* Footer discret */}
             <footer className="border-t border-base py-4">
                 <div className="max-w-6xl mx-auto px-4 text-center text-xs text-muted">
-                    MonApp — Clean Architecture React Template
+                    {appName} — Clean Architecture React Template
                 </div>
             </footer>
         </div>
@@ -0,0 +1,28 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import Can from './Can';
+import { useAuthStore } from '../store/authStore';
+import { ROLES } from '../policies/accessPolicy';
+
+// --- Tests ---
+
+describe('Can', () => {
+    beforeEach(() => {
+        useAuthStore.setState({
+            user: { userId: 'user-1', email: 'jean.dupont@example.com', role: ROLES.MODERATOR, permissions: ['users:read'], iat: 0, exp: 0 },
+        });
+    });
+
+    it('affiche son contenu pour un role autorise', () => {
+        render(<Can roles={[ROLES.ADMIN, ROLES.MODERATOR]}>Moderer</Can>);
+
+        expect(screen.getByText('Moderer')).toBeInTheDocument();
+    });
+
+    it('affiche le fallback sans la permission requise', () => {
+        render(<Can permissions={['users:delete']} fallback="Lecture seule">Supprimer</Can>);
+
+        expect(screen.queryByText('Supprimer')).not.toBeInTheDocument();
+        expect(screen.getByText('Lecture seule')).toBeInTheDocument();
+    });
+});
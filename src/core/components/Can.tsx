@@ -0,0 +1,20 @@
+import React from 'react';
+import { usePermission } from '../hooks/usePermission';
+import { AccessRequirement } from '../policies/accessPolicy';
+
+interface CanProps extends AccessRequirement {
+    children: React.ReactNode;
+    fallback?: React.ReactNode;
+}
+
+/**
+ * Affiche son contenu uniquement si l'utilisateur a les roles / permissions requis.
+ * Exemple : <Can roles={[ROLES.ADMIN]}><Button>Supprimer</Button></Can>
+ */
+const Can: React.FC<CanProps> = ({ roles, permissions, fallback = null, children }) => {
+    const isAllowed = usePermission({ roles, permissions });
+
+    return <>{isAllowed ? children : fallback}</>;
+};
+
+export default Can;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { Button } from '@heroui/react';
+import { TypedAppError } from '../types/AppError';
+import { RUNTIME_CONFIG_URL } from '../services/configService';
+
+interface ConfigErrorPageProps {
+    error: TypedAppError;
+}
+
+/**
+ * Ecran affiche a la place de l'application quand la configuration de demarrage est invalide
+ * ou injoignable. Rendu hors du routeur et sans service initialise.
+ */
+const ConfigErrorPage: React.FC<ConfigErrorPageProps> = ({ error }) => {
+    const issues = error.kind === 'validation' ? error.issues : [];
+
+    return (
+        <div className="min-h-screen flex flex-col items-center justify-center text-center px-4">
+            <h2 className="text-2xl font-bold mb-2">Configuration invalide</h2>
+            <p className="text-secondary text-sm mb-6 max-w-md">
+                L'application ne peut pas demarrer. Verifiez le fichier <code>{RUNTIME_CONFIG_URL}</code> deploye
+                avec cette version (ou <code>window.__APP_CONFIG__</code>).
+            </p>
+            <div className="bg-red-50 text-red-700 border border-red-200 rounded-lg px-4 py-3 text-sm mb-6 max-w-md w-full text-left">
+                <p className="font-medium">{error.message}</p>
+                {issues.length > 0 && (
+                    <ul className="mt-2 list-disc pl-5">
+                        {issues.map((issue) => (
+                            <li key={`${issue.path}:${issue.message}`}>
+                                {issue.path && <code>{issue.path}</code>}{issue.path && ' : '}{issue.message}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+            <Button variant="primary" onPress={() => window.location.reload()}>
+                Recharger
+            </Button>
+        </div>
+    );
+};
+
+export default ConfigErrorPage;
@@ -1,5 +1,10 @@
 import { Component, ErrorInfo, ReactNode } from 'react';
 import { Button } from '@heroui/react';
+import Logger from '../services/logger';
+import { createRequestId, getRequestId } from '../utils/requestId';
+import ErrorReference from './ErrorReference';
+
+const log = Logger.getInstance().scope('ui');
 
 interface ErrorBoundaryProps {
     children: ReactNode;
@@ -9,24 +14,29 @@ interface ErrorBoundaryProps {
 interface ErrorBoundaryState {
     hasError: boolean;
     error: Error | null;
+    reference: string | null;   // Requete en cause (AppError) ou identifiant genere, journalise avec l'erreur
 }
 
 class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
     constructor(props: ErrorBoundaryProps) {
         super(props);
-        this.state = { hasError: false, error: null };
+        this.state = { hasError: false, error: null, reference: null };
     }
 
     static getDerivedStateFromError(error: Error): ErrorBoundaryState {
-        return { hasError: true, error };
+        return { hasError: true, error, reference: getRequestId(error) ?? createRequestId() };
     }
 
     componentDidCatch(error: Error, errorInfo: ErrorInfo): void {
-        console.error('ErrorBoundary caught an error:', error, errorInfo);
+        log.error('Erreur de rendu interceptee par ErrorBoundary', {
+            requestId: this.state.reference ?? undefined,
+            error,
+            componentStack: errorInfo.componentStack,
+        });
     }
 
     handleReset = (): void => {
-        this.setState({ hasError: false, error: null });
+        this.setState({ hasError: false, error: null, reference: null });
     };
 
     render(): ReactNode {
@@ -40,6 +50,7 @@ class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
                     <h2 className="text-2xl font-bold mb-4">Une erreur est survenue</h2>
                     <div className="bg-red-50 text-red-700 border border-red-200 rounded-lg px-4 py-3 text-sm mb-6 max-w-md w-full">
                         {this.state.error?.message || 'Erreur inattendue'}
+                        <ErrorReference reference={this.state.reference} />
                     </div>
                     <div className="flex gap-3">
                         <Button variant="primary" onPress={this.handleReset}>
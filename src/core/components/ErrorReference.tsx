@@ -0,0 +1,40 @@
+import React, { useState } from 'react';
+
+interface ErrorReferenceProps {
+    reference: string | null | undefined;
+}
+
+/**
+ * Reference d'une erreur (identifiant de correlation de la requete) a communiquer au support.
+ * Copiable en un clic ; rien n'est affiche sans reference.
+ */
+const ErrorReference: React.FC<ErrorReferenceProps> = ({ reference }) => {
+    const [copied, setCopied] = useState(false);
+
+    if (!reference) {
+        return null;
+    }
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(reference);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch {
+            // Presse-papiers indisponible : la reference reste selectionnable a la main
+        }
+    };
+
+    return (
+        <div className="mt-1 flex flex-wrap items-center gap-2 text-xs opacity-80">
+            <span>
+                Reference : <code className="font-mono select-all">{reference}</code>
+            </span>
+            <button type="button" onClick={handleCopy} className="underline hover:no-underline">
+                {copied ? 'Copiee' : 'Copier'}
+            </button>
+        </div>
+    );
+};
+
+export default ErrorReference;
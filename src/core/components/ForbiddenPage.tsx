@@ -0,0 +1,22 @@
+import React from 'react';
+import { Button } from '@heroui/react';
+import { useNavigate } from 'react-router-dom';
+
+const ForbiddenPage: React.FC = () => {
+    const navigate = useNavigate();
+
+    return (
+        <div className="min-h-screen flex flex-col items-center justify-center text-center px-4">
+            <h1 className="text-9xl font-bold text-muted">403</h1>
+            <h2 className="text-2xl font-semibold mt-4 mb-2 text-primary">Acces refuse</h2>
+            <p className="text-secondary mb-8">
+                Vous n'avez pas les droits necessaires pour acceder a cette page.
+            </p>
+            <Button variant="primary" onPress={() => navigate('/')}>
+                Retour a l'accueil
+            </Button>
+        </div>
+    );
+};
+
+export default ForbiddenPage;
@@ -0,0 +1,63 @@
+import React, { useEffect } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { AlertDialog, Button } from '@heroui/react';
+import { useIdleStore } from '../store/idleStore';
+import { useAuthStore } from '../store/authStore';
+import { formatCountdown } from '../hooks/useCountdown';
+
+/**
+ * Avertissement avant deconnexion pour inactivite.
+ * A l'expiration du delai, deconnecte l'utilisateur et redirige vers /login
+ * en preservant la page courante pour y revenir apres reconnexion.
+ */
+const IdleTimeoutDialog: React.FC = () => {
+    // Selecteurs individuels pour eviter les re-renders inutiles
+    const status = useIdleStore((s) => s.status);
+    const remainingSeconds = useIdleStore((s) => s.remainingSeconds);
+    const staySignedIn = useIdleStore((s) => s.staySignedIn);
+    const logout = useAuthStore((s) => s.logout);
+    const navigate = useNavigate();
+    const location = useLocation();
+
+    const handleLogout = async () => {
+        await logout();
+        navigate('/login', { replace: true, state: { from: location, reason: 'idle' } });
+    };
+
+    useEffect(() => {
+        if (status === 'timed-out') {
+            handleLogout();
+        }
+    }, [status]); // eslint-disable-line react-hooks/exhaustive-deps
+
+    return (
+        <AlertDialog.Backdrop isOpen={status === 'warning'}>
+            <AlertDialog.Container>
+                <AlertDialog.Dialog>
+                    <AlertDialog.Header>
+                        <AlertDialog.Icon status="warning" />
+                        <AlertDialog.Heading>Session inactive</AlertDialog.Heading>
+                    </AlertDialog.Header>
+                    <AlertDialog.Body>
+                        <p className="text-secondary">
+                            Vous allez etre deconnecte pour inactivite dans{' '}
+                            <span className="font-semibold text-primary tabular-nums" aria-live="polite">
+                                {formatCountdown(remainingSeconds)}
+                            </span>.
+                        </p>
+                    </AlertDialog.Body>
+                    <AlertDialog.Footer>
+                        <Button variant="ghost" onPress={handleLogout}>
+                            Se deconnecter
+                        </Button>
+                        <Button variant="primary" onPress={staySignedIn} autoFocus>
+                            Rester connecte
+                        </Button>
+                    </AlertDialog.Footer>
+                </AlertDialog.Dialog>
+            </AlertDialog.Container>
+        </AlertDialog.Backdrop>
+    );
+};
+
+export default IdleTimeoutDialog;
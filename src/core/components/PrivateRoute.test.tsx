@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { MemoryRouter, Route, Routes, useLocation } from 'react-router-dom';
+import PrivateRoute from './PrivateRoute';
+import { useAuthStore } from '../store/authStore';
+import { TokenPayload } from '../types/AuthTypes';
+
+// --- Helpers ---
+
+const user = (role: string, permissions: string[] = []): TokenPayload => ({
+    userId: 'user-1',
+    email: 'jean.dupont@example.com',
+    role,
+    permissions,
+    iat: 0,
+    exp: 0,
+});
+
+const LoginProbe = () => {
+    const { state } = useLocation();
+    return <p>Login depuis {state?.from?.pathname} ({state?.reason ?? 'aucune raison'})</p>;
+};
+
+const renderAt = (path: string, requirement: { roles?: string[]; permissions?: string[] } = {}) =>
+    render(
+        <MemoryRouter initialEntries={[path]}>
+            <Routes>
+                <Route path="/login" element={<LoginProbe />} />
+                <Route path="/users" element={<PrivateRoute {...requirement}><p>Contenu protege</p></PrivateRoute>} />
+            </Routes>
+        </MemoryRouter>
+    );
+
+// --- Tests ---
+
+describe('PrivateRoute', () => {
+    beforeEach(() => {
+        useAuthStore.setState({ isLoading: false, isAuthenticated: false, user: null, sessionExpired: false });
+    });
+
+    it('redirige vers /login en conservant la page demandee et la raison', () => {
+        useAuthStore.setState({ sessionExpired: true });
+
+        renderAt('/users');
+
+        expect(screen.getByText('Login depuis /users (expired)')).toBeInTheDocument();
+    });
+
+    it('affiche la page 403 si le role ou une permission manque', () => {
+        useAuthStore.setState({ isAuthenticated: true, user: user('USER', ['users:read']) });
+
+        renderAt('/users', { roles: ['ADMIN'] });
+        expect(screen.getByText('403')).toBeInTheDocument();
+    });
+
+    it('affiche le contenu si les exigences sont satisfaites', () => {
+        useAuthStore.setState({ isAuthenticated: true, user: user('ADMIN', ['users:read', 'users:write']) });
+
+        renderAt('/users', { roles: ['ADMIN', 'MODERATOR'], permissions: ['users:write'] });
+        expect(screen.getByText('Contenu protege')).toBeInTheDocument();
+    });
+});
@@ -2,8 +2,10 @@ import React from 'react';
 import { Navigate, useLocation } from 'react-router-dom';
 import { useAuthStore } from '../store/authStore';
 import { Spinner } from '@heroui/react';
+import { AccessRequirement, canAccess } from '../policies/accessPolicy';
+import ForbiddenPage from './ForbiddenPage';
 
-interface PrivateRouteProps {
+interface PrivateRouteProps extends AccessRequirement {
     children: React.ReactNode;
 }
 
@@ -11,10 +13,13 @@ interface PrivateRouteProps {
  * Composant guard pour les routes protegees.
  * Redirige vers /login si l'utilisateur n'est pas authentifie.
  * Preserve l'URL de destination pour rediriger apres login.
+ * Avec `roles` / `permissions`, affiche la page 403 si l'utilisateur n'y a pas acces.
  */
-const PrivateRoute: React.FC<PrivateRouteProps> = ({ children }) => {
+const PrivateRoute: React.FC<PrivateRouteProps> = ({ roles, permissions, children }) => {
     // Selecteurs individuels pour eviter les re-renders inutiles
     const isAuthenticated = useAuthStore((s) => s.isAuthenticated);
+    const user = useAuthStore((s) => s.user);
+    const sessionExpired = useAuthStore((s) => s.sessionExpired);
     const isLoading = useAuthStore((s) => s.isLoading);
     const location = useLocation();
 
@@ -28,8 +33,18 @@ const PrivateRoute: React.FC<PrivateRouteProps> = ({ children }) => {
     }
 
     if (!isAuthenticated) {
-        // Preserver l'URL pour rediriger apres login
-        return <Navigate to="/login" state={{ from: location }} replace />;
+        // Preserver l'URL pour rediriger apres login, et la raison pour l'afficher
+        return (
+            <Navigate
+                to="/login"
+                state={{ from: location, reason: sessionExpired ? 'expired' : undefined }}
+                replace
+            />
+        );
+    }
+
+    if (!canAccess(user, { roles, permissions })) {
+        return <ForbiddenPage />;
     }
 
     return <>{children}</>;
@@ -0,0 +1,35 @@
+import React from 'react';
+import { Button } from '@heroui/react';
+import { useSyncStore } from '../store/syncStore';
+
+/**
+ * Modifications refusees par le serveur au rejeu (conflits), jusqu'a ce que l'utilisateur les ferme
+ */
+const SyncIssuesBanner: React.FC = () => {
+    const syncIssues = useSyncStore((s) => s.issues);
+    const dismissSyncIssues = useSyncStore((s) => s.dismissIssues);
+
+    if (syncIssues.length === 0) {
+        return null;
+    }
+
+    return (
+        <div role="alert" className="bg-red-50 text-red-800 border-b border-red-200">
+            <div className="max-w-6xl mx-auto px-4 py-2 flex items-start justify-between gap-4 text-sm">
+                <div>
+                    <p className="font-semibold">Modifications hors ligne non appliquees</p>
+                    <ul className="list-disc ml-5">
+                        {syncIssues.map((issue, index) => (
+                            <li key={index}>{issue}</li>
+                        ))}
+                    </ul>
+                </div>
+                <Button variant="secondary" size="sm" onPress={dismissSyncIssues}>
+                    Fermer
+                </Button>
+            </div>
+        </div>
+    );
+};
+
+export default SyncIssuesBanner;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { Button } from '@heroui/react';
+import { useSyncStore } from '../store/syncStore';
+
+const STATUS_LABELS = {
+    idle: 'En attente de synchronisation',
+    offline: 'Hors ligne',
+    syncing: 'Synchronisation...',
+    error: 'Synchronisation interrompue',
+} as const;
+
+/**
+ * Modifications faites hors ligne : nombre en attente et etat du rejeu (topbar)
+ */
+const SyncStatusIndicator: React.FC = () => {
+    // Selecteurs individuels pour eviter les re-renders inutiles
+    const pendingChanges = useSyncStore((s) => s.pendingChanges);
+    const syncStatus = useSyncStore((s) => s.status);
+    const retry = useSyncStore((s) => s.retry);
+
+    if (pendingChanges === 0 && syncStatus !== 'offline') {
+        return null;
+    }
+
+    return (
+        <div role="status" className="flex items-center gap-2 text-xs text-secondary">
+            <span className={syncStatus === 'error' ? 'text-red-600' : undefined}>
+                {STATUS_LABELS[syncStatus]}
+                {pendingChanges > 0 && ` -- ${pendingChanges} modification${pendingChanges > 1 ? 's' : ''} en attente`}
+            </span>
+            {syncStatus === 'error' && (
+                <Button variant="ghost" size="sm" onPress={retry}>
+                    Reessayer
+                </Button>
+            )}
+        </div>
+    );
+};
+
+export default SyncStatusIndicator;
@@ -0,0 +1,14 @@
+import ConfigService, { AppConfig, FeatureToggle } from '../services/configService';
+
+/**
+ * Hook useAppConfig : configuration chargee au demarrage (URL de l'API, nom, version, fonctionnalites).
+ * Elle ne change pas pendant la session : aucune souscription n'est necessaire.
+ */
+export const useAppConfig = (): AppConfig => ConfigService.getInstance().get();
+
+/**
+ * Hook useFeature : indique si une fonctionnalite est activee pour cet environnement
+ */
+export const useFeature = (feature: FeatureToggle): boolean => ConfigService.getInstance().isFeatureEnabled(feature);
+
+export default useAppConfig;
@@ -1,7 +1,7 @@
 import { useAuthStore } from '../store/authStore';
 import { Either, left, right } from '@sweet-monads/either';
-import { AppError } from '../types/AppError';
-import { LoginCredentials } from '../types/AuthTypes';
+import { TypedAppError, UnauthorizedError, UnknownError } from '../types/AppError';
+import { LoginCredentials, SecondFactorMethod } from '../types/AuthTypes';
 
 /**
  * Hook useAuth qui utilise Zustand pour la gestion de l'authentification.
@@ -14,35 +14,61 @@ export const useAuth = () => {
     const isAuthenticated = useAuthStore((s) => s.isAuthenticated);
     const isLoading = useAuthStore((s) => s.isLoading);
     const user = useAuthStore((s) => s.user);
+    const profile = useAuthStore((s) => s.profile);
     const error = useAuthStore((s) => s.error);
+    const errorReference = useAuthStore((s) => s.errorReference);
+    const pendingSecondFactor = useAuthStore((s) => s.pendingSecondFactor);
+    const lockedUntil = useAuthStore((s) => s.lockedUntil);
     const storeLogin = useAuthStore((s) => s.login);
+    const storeVerifySecondFactor = useAuthStore((s) => s.verifySecondFactor);
+    const storeCancelSecondFactor = useAuthStore((s) => s.cancelSecondFactor);
     const storeLogout = useAuthStore((s) => s.logout);
     const storeCheckAuth = useAuthStore((s) => s.checkAuth);
     const storeClearError = useAuthStore((s) => s.clearError);
+    const storeRefreshLockout = useAuthStore((s) => s.refreshLockout);
 
     // Wrapper login pour retourner Either (compatibilite architecture)
-    const login = async (email: string, password: string): Promise<Either<AppError, boolean>> => {
+    // right(false) : mot de passe accepte, second facteur attendu (pendingSecondFactor)
+    const login = async (email: string, password: string): Promise<Either<TypedAppError, boolean>> => {
         try {
             const credentials: LoginCredentials = { email, password };
             await storeLogin(credentials);
 
+            const { isAuthenticated: isAuth, pendingSecondFactor: pending, error: err } = useAuthStore.getState();
+            if (isAuth) {
+                return right(true);
+            }
+            if (pending) {
+                return right(false);
+            }
+            return left(new UnauthorizedError(err || 'Erreur de connexion', 'login_failed'));
+        } catch (err) {
+            return left(new UnknownError('Erreur de connexion', err));
+        }
+    };
+
+    // Wrapper second facteur : right(true) une fois la session ouverte
+    const verifySecondFactor = async (code: string, method: SecondFactorMethod): Promise<Either<TypedAppError, boolean>> => {
+        try {
+            await storeVerifySecondFactor(code, method);
+
             const { isAuthenticated: isAuth, error: err } = useAuthStore.getState();
             if (isAuth) {
                 return right(true);
             }
-            return left(new AppError(err || 'Erreur de connexion', '401', 'login_failed'));
+            return left(new UnauthorizedError(err || 'Code invalide', 'second_factor_failed'));
         } catch (err) {
-            return left(new AppError('Erreur de connexion', '500', err));
+            return left(new UnknownError('Erreur de verification', err));
         }
     };
 
     // Wrapper logout pour retourner Either (compatibilite architecture)
-    const logout = async (): Promise<Either<AppError, boolean>> => {
+    const logout = async (): Promise<Either<TypedAppError, boolean>> => {
         try {
             await storeLogout();
             return right(true);
         } catch (err) {
-            return left(new AppError('Erreur de deconnexion', '500', err));
+            return left(new UnknownError('Erreur de deconnexion', err));
         }
     };
 
@@ -50,12 +76,19 @@ export const useAuth = () => {
         isAuthenticated,
         isLoading,
         user,
+        profile,
         error,
+        errorReference,
+        pendingSecondFactor,
+        lockedUntil,
         login,
+        verifySecondFactor,
+        cancelSecondFactor: storeCancelSecondFactor,
         logout,
         checkAuth: storeCheckAuth,
         refreshUser: storeCheckAuth,
         clearError: storeClearError,
+        refreshLockout: storeRefreshLockout,
     };
 };
 
@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react';
+
+const secondsUntil = (until: number | null): number =>
+    until ? Math.max(0, Math.ceil((until - Date.now()) / 1000)) : 0;
+
+/**
+ * Formate une duree en secondes sous la forme m:ss
+ */
+export const formatCountdown = (seconds: number): string => {
+    const minutes = Math.floor(seconds / 60);
+    const rest = seconds % 60;
+    return `${minutes}:${rest.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Hook useCountdown -- secondes restantes avant `until` (timestamp en ms), mises a jour chaque seconde.
+ * Retourne 0 si `until` est null ou depasse.
+ *
+ * Usage :
+ *   const remainingSeconds = useCountdown(lockedUntil);
+ */
+export const useCountdown = (until: number | null): number => {
+    const [remaining, setRemaining] = useState(() => secondsUntil(until));
+
+    useEffect(() => {
+        setRemaining(secondsUntil(until));
+        if (!until) {
+            return;
+        }
+
+        const intervalId = setInterval(() => {
+            const next = secondsUntil(until);
+            setRemaining(next);
+            if (next === 0) {
+                clearInterval(intervalId);
+            }
+        }, 1000);
+
+        return () => clearInterval(intervalId);
+    }, [until]);
+
+    return remaining;
+};
+
+export default useCountdown;
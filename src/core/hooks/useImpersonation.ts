@@ -0,0 +1,40 @@
+import { useState } from 'react';
+import { useAuthStore } from '../store/authStore';
+
+/**
+ * Hook useImpersonation : "voir en tant que" un utilisateur (support, administrateurs).
+ * `isPending` couvre le demarrage et l'arret, pour desactiver les boutons pendant la bascule de session.
+ *
+ * Usage :
+ *   const { isImpersonating, impersonate, stop } = useImpersonation();
+ */
+export const useImpersonation = () => {
+    const isImpersonating = useAuthStore((s) => s.isImpersonating);
+    const error = useAuthStore((s) => s.impersonationError);
+    const storeImpersonate = useAuthStore((s) => s.impersonate);
+    const storeStopImpersonation = useAuthStore((s) => s.stopImpersonation);
+
+    const [isPending, setIsPending] = useState(false);
+
+    const impersonate = async (userId: string): Promise<boolean> => {
+        setIsPending(true);
+        try {
+            return await storeImpersonate(userId);
+        } finally {
+            setIsPending(false);
+        }
+    };
+
+    const stop = async (): Promise<void> => {
+        setIsPending(true);
+        try {
+            await storeStopImpersonation();
+        } finally {
+            setIsPending(false);
+        }
+    };
+
+    return { isImpersonating, error, isPending, impersonate, stop };
+};
+
+export default useImpersonation;
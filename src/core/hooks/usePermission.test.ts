@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { usePermission } from './usePermission';
+import { useAuthStore } from '../store/authStore';
+
+// --- Tests ---
+
+describe('usePermission', () => {
+    it('refuse l acces sans utilisateur connecte, meme sans exigence', () => {
+        useAuthStore.setState({ user: null });
+
+        expect(renderHook(() => usePermission()).result.current).toBe(false);
+    });
+
+    it('se met a jour quand l utilisateur change', () => {
+        useAuthStore.setState({ user: { userId: 'user-1', email: 'a@example.com', role: 'USER', iat: 0, exp: 0 } });
+        const { result } = renderHook(() => usePermission({ roles: ['ADMIN'] }));
+        expect(result.current).toBe(false);
+
+        act(() => {
+            useAuthStore.setState({ user: { userId: 'admin-1', email: 'b@example.com', role: 'ADMIN', iat: 0, exp: 0 } });
+        });
+        expect(result.current).toBe(true);
+    });
+});
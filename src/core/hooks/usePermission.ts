@@ -0,0 +1,13 @@
+import { useAuthStore } from '../store/authStore';
+import { AccessRequirement, canAccess } from '../policies/accessPolicy';
+
+/**
+ * Hook usePermission : indique si l'utilisateur connecte satisfait les exigences d'acces.
+ * A utiliser pour masquer ou desactiver des actions (voir aussi le composant <Can>).
+ */
+export const usePermission = (requirement: AccessRequirement = {}): boolean => {
+    const user = useAuthStore((s) => s.user);
+    return canAccess(user, requirement);
+};
+
+export default usePermission;
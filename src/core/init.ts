@@ -1,25 +1,180 @@
 import AxiosInterceptor from './services/axiosInterceptor';
-import { useAuthStore } from './store/authStore';
+import AxiosService from './services/axiosService';
+import { RetryPolicy } from './services/retryPolicy';
+import AuthSyncService from './services/authSyncService';
+import TokenRefreshScheduler from './services/tokenRefreshScheduler';
+import IdleService, { IdleTimeoutConfig } from './services/idleService';
+import TokenService, { TokenValidationOptions } from './services/tokenService';
+import OfflineMutationQueue from './services/offlineMutationQueue';
+import Logger, { DEFAULT_LOG_LEVEL, DEFAULT_SCOPE_LEVELS, LogLevelSetting, LogSink } from './services/logger';
+import MockBackend, { MockBackendOptions } from './mocks/mockBackend';
+import { TokenStorage, TokenStorageStrategy, createTokenStorage } from './services/tokenStorage';
+import { AuthStoreDependencies, configureAuthStore, useAuthStore } from './store/authStore';
+
+export interface AppInitOptions {
+    /**
+     * Session et use cases de la feature auth (createAuthModule), fournis par la racine de l'application :
+     * le coeur n'instancie aucune classe des features
+     */
+    auth: AuthStoreDependencies;
+
+    /**
+     * URL de l'API (defaut : VITE_API_BASE_URL, fixee au build).
+     * Renseignee depuis la configuration d'execution chargee par ConfigService
+     */
+    apiBaseUrl?: string;
+
+    /**
+     * Strategie de stockage des tokens (defaut : 'local'),
+     * ou une implementation personnalisee de TokenStorage
+     */
+    tokenStorage?: TokenStorageStrategy | TokenStorage;
+
+    /**
+     * Claims attendus (iss, aud) et cle publique / JWKS pour verifier la signature des tokens
+     */
+    tokenValidation?: TokenValidationOptions;
+
+    /**
+     * Deconnexion apres inactivite (desactivee si absent)
+     */
+    idleTimeout?: IdleTimeoutConfig;
+
+    /**
+     * Nouvelles tentatives des requetes HTTP sur erreur transitoire (defaut : 2, methodes idempotentes)
+     */
+    httpRetry?: Partial<RetryPolicy>;
+
+    /**
+     * En-tete de correlation envoye avec chaque requete (defaut : 'X-Request-ID', null pour ne pas l'envoyer)
+     */
+    requestIdHeader?: string | null;
+
+    /**
+     * Journalisation : niveau minimal (defaut : 'warn' en production, 'debug' sinon),
+     * niveaux par scope (defaut en production : 'info' pour 'http', ignore si `level` est fixe)
+     * et destinations des entrees (defaut : console)
+     */
+    logging?: {
+        level?: LogLevelSetting;
+        scopeLevels?: Record<string, LogLevelSetting>;
+        sinks?: LogSink[];
+    };
+
+    /**
+     * Backend simule en memoire a la place de l'API (developpement sans serveur, demonstrations).
+     * Jamais en production : les comptes de demonstration y sont publics
+     */
+    mockBackend?: MockBackendOptions;
+}
+
+const log = Logger.getInstance().scope('init');
 
 /**
  * Initialise les services de base de l'application
  * À appeler au démarrage de l'application
  */
-export const initializeApp = (): void => {
+export const initializeApp = (options: AppInitOptions): void => {
     try {
+        // Journalisation en premier : les services demarres ensuite l'utilisent.
+        // Chaque entree porte la route courante et l'utilisateur du token (TokenPayload)
+        Logger.getInstance().configure({
+            level: options.logging?.level ?? DEFAULT_LOG_LEVEL,
+            // Un niveau fixe explicitement (VITE_LOG_LEVEL) s'applique a tous les scopes
+            scopeLevels: options.logging?.scopeLevels ?? (options.logging?.level ? {} : DEFAULT_SCOPE_LEVELS),
+            sinks: options.logging?.sinks,
+            context: () => ({
+                route: window.location.pathname,
+                userId: useAuthStore.getState().user?.userId,
+            }),
+        });
+
+        // Configurer le stockage des tokens avant toute lecture (checkAuth, intercepteurs)
+        const { tokenStorage = 'local' } = options;
+        TokenService.getInstance().configureStorage(
+            typeof tokenStorage === 'string' ? createTokenStorage(tokenStorage) : tokenStorage
+        );
+        // Backend simule : ses tokens sont signes par une cle locale que la cle publique / JWKS configuree
+        // ne peut pas verifier, la verification de signature est desactivee (iss / aud restent controles)
+        const tokenValidation: TokenValidationOptions = options.mockBackend
+            ? { ...options.tokenValidation, publicKey: undefined, jwks: undefined }
+            : options.tokenValidation ?? {};
+        TokenService.getInstance().configureValidation(tokenValidation);
+
+        if (options.apiBaseUrl) {
+            AxiosService.getInstance().configureBaseUrl(options.apiBaseUrl);
+        }
+
+        // Nouvelles tentatives sur erreur transitoire (502, 503, reseau...), avant les premieres requetes
+        AxiosService.getInstance().configureRetry(options.httpRetry ?? {});
+        if (options.requestIdHeader !== undefined) {
+            AxiosService.getInstance().configureRequestIdHeader(options.requestIdHeader);
+        }
+
+        // Backend simule : installe avant la premiere requete (checkAuth, refresh)
+        if (options.mockBackend) {
+            MockBackend.getInstance().install(options.mockBackend);
+        }
+
+        // Session de la feature auth : token valide pour l'intercepteur, refresh planifie, actions du store
+        const { session } = options.auth;
+        configureAuthStore(options.auth);
+        TokenRefreshScheduler.getInstance().configure(session);
+
         // Initialiser les intercepteurs Axios pour la gestion automatique des tokens
         const axiosInterceptor = AxiosInterceptor.getInstance();
-        axiosInterceptor.initialize();
+        axiosInterceptor.initialize(session);
+
+        IdleService.getInstance().configure(options.idleTimeout ?? null);
+
+        // Fournisseurs d'identite externes, configures par createAuthModule
+        useAuthStore.getState().loadExternalProviders();
+
+        // Synchroniser la session avec les autres onglets (tokens partages uniquement en localStorage)
+        AuthSyncService.getInstance().start({ sharedTokenStorage: tokenStorage === 'local' });
+
+        // Rejeu des modifications faites hors ligne au retour du reseau
+        OfflineMutationQueue.getInstance().start();
 
         // Vérifier l'authentification au démarrage (accès direct au store Zustand)
         useAuthStore.getState().checkAuth();
 
-        console.info('Services de base initialises avec succes');
-        console.info('   - Intercepteurs Axios configures');
-        console.info('   - Gestion automatique des tokens activee');
-        console.info('   - Verification d\'authentification demarree');
+        // Refresh proactif du token avant expiration (sans attendre une requete ou un 401)
+        TokenRefreshScheduler.getInstance().start();
+
+        // Detection d'inactivite, uniquement pour une session deja ouverte (sinon demarree au login)
+        if (useAuthStore.getState().isAuthenticated) {
+            IdleService.getInstance().start();
+        }
+
+        log.info('Services de base initialises avec succes');
+        log.info(`   - Stockage des tokens : ${typeof tokenStorage === 'string' ? tokenStorage : 'personnalise'}`);
+        log.info('   - Intercepteurs Axios configures');
+        log.info(`   - API : ${AxiosService.getInstance().getAxiosInstance().defaults.baseURL}`);
+        if (MockBackend.getInstance().isInstalled()) {
+            log.warn('   - Backend simule actif : aucune requete n\'est envoyee a l\'API');
+        }
+        log.info(`   - Nouvelles tentatives HTTP : ${options.httpRetry?.retries ?? 'par defaut'}`);
+        log.info('   - Gestion automatique des tokens activee');
+        if (tokenValidation.publicKey || tokenValidation.jwks) {
+            log.info('   - Verification de signature des tokens activee');
+        } else if (options.tokenValidation?.publicKey || options.tokenValidation?.jwks) {
+            log.warn('   - Verification de signature des tokens desactivee : backend simule actif');
+        }
+        const { externalProviders } = useAuthStore.getState();
+        if (externalProviders.length) {
+            log.info(`   - Fournisseurs d'identite : ${externalProviders.map((provider) => provider.label).join(', ')}`);
+        }
+        log.info('   - Synchronisation de session entre onglets activee');
+        log.info('   - File des modifications hors ligne activee');
+        log.info('   - Refresh planifie des tokens active');
+        if (IdleService.getInstance().isEnabled()) {
+            log.info('   - Deconnexion apres inactivite activee');
+        }
+        log.info(`   - Journalisation : niveau ${Logger.getInstance().getLevel()}`);
+        log.info('   - Verification d\'authentification demarree');
     } catch (error) {
-        console.error('Erreur lors de l\'initialisation des services:', error);
+        log.error('Erreur lors de l\'initialisation des services', { error });
         throw error;
     }
 };
@@ -32,9 +187,15 @@ export const cleanupApp = (): void => {
         const axiosInterceptor = AxiosInterceptor.getInstance();
         axiosInterceptor.destroy();
 
-        console.info('Nettoyage des services termine');
+        AuthSyncService.getInstance().stop();
+        OfflineMutationQueue.getInstance().stop();
+        TokenRefreshScheduler.getInstance().stop();
+        IdleService.getInstance().stop();
+        Logger.getInstance().flush();
+
+        log.info('Nettoyage des services termine');
     } catch (error) {
-        console.error('Erreur lors du nettoyage des services:', error);
+        log.error('Erreur lors du nettoyage des services', { error });
     }
 };
 
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'vitest';
+import { MockBackend } from './mockBackend';
+import { MOCK_ACCOUNTS, MOCK_PASSWORD } from './mockUsers';
+import * as api from '../api/generated/client';
+import AxiosInterceptor from '../services/axiosInterceptor';
+import TokenService from '../services/tokenService';
+import QueryCache from '../services/queryCache';
+import { UsersDataSource } from '../../features/users/data/datasources/UsersDataSource';
+import SessionService from '../../features/auth/domain/services/SessionService';
+import { AppError } from '../types/AppError';
+
+// --- Helpers ---
+
+const loginAs = async (email: string) => {
+    const tokens = await api.login({ email, password: MOCK_PASSWORD });
+    if (!('accessToken' in tokens)) {
+        throw new Error('Second facteur inattendu');
+    }
+    TokenService.getInstance().setTokens(tokens.accessToken, tokens.refreshToken);
+    return tokens;
+};
+
+// --- Tests ---
+
+describe('MockBackend', () => {
+    const backend = MockBackend.getInstance();
+    const dataSource = new UsersDataSource();
+
+    beforeAll(() => {
+        backend.install();
+        AxiosInterceptor.getInstance().initialize(SessionService.getInstance());
+    });
+
+    afterAll(() => {
+        backend.uninstall();
+    });
+
+    beforeEach(() => {
+        backend.reset();
+        QueryCache.getInstance().clear();
+        TokenService.getInstance().clearTokens();
+    });
+
+    it('sert la liste paginee et filtree au DataSource reel, avec le token de session', async () => {
+        await loginAs(MOCK_ACCOUNTS.admin);
+
+        const page = await dataSource.getUsers({ page: 2, role: 'USER', status: 'ACTIVE' });
+
+        expect(page.currentPage).toBe(2);
+        expect(page.totalItems).toBe(backend.getUsers().filter((user) => user.role === 'USER' && user.status === 'ACTIVE').length);
+        expect(page.data.every((user) => user.role === 'USER')).toBe(true);
+    });
+
+    it('applique les mutations au jeu de donnees en memoire', async () => {
+        await loginAs(MOCK_ACCOUNTS.admin);
+
+        await dataSource.createUser({ firstName: 'Marie', lastName: 'Curie', email: 'marie.curie@example.com', password: 'radium' });
+        const { data: [created] } = await dataSource.getUsers({ page: 1, search: 'curie' });
+
+        expect(created.email).toBe('marie.curie@example.com');
+        await expect(dataSource.createUser({ firstName: 'Marie', lastName: 'Curie', email: 'marie.curie@example.com', password: 'radium' }))
+            .rejects.toMatchObject({ message: 'Un utilisateur existe déjà avec cet email' });
+    });
+
+    it('refuse un refresh token deja utilise (rotation) et les requetes sans token', async () => {
+        const { refreshToken } = await loginAs(MOCK_ACCOUNTS.user);
+
+        await expect(api.refreshToken({ refreshToken })).resolves.toHaveProperty('accessToken');
+        await expect(api.refreshToken({ refreshToken })).rejects.toMatchObject({ response: { status: 401 } });
+
+        TokenService.getInstance().clearTokens();
+        await expect(dataSource.getUsers({ page: 1 })).rejects.toBeInstanceOf(AppError);
+    });
+
+    it('injecte une erreur ponctuelle sur la route ciblee', async () => {
+        await loginAs(MOCK_ACCOUNTS.admin);
+        backend.failNext({ status: 500, method: 'get', path: '/api/users', message: 'Panne simulee' });
+
+        await expect(dataSource.getUsers({ page: 1 })).rejects.toMatchObject({ message: 'Panne simulee' });
+        await expect(dataSource.getUsers({ page: 1 })).resolves.toHaveProperty('data.length', 10);
+    });
+});
@@ -0,0 +1,542 @@
+import { AxiosAdapter, AxiosDefaults, AxiosError, AxiosHeaders, AxiosResponse, CanceledError, InternalAxiosRequestConfig } from 'axios';
+import { z } from 'zod';
+import AxiosService from '../services/axiosService';
+import Logger from '../services/logger';
+import {
+    ApiCreateUserRequestSchema,
+    ApiLoginRequestSchema,
+    ApiRefreshTokenRequestSchema,
+    ApiUpdateUserRequestSchema,
+    ApiUser,
+    ApiUserRoleSchema,
+    ApiUserStatusSchema,
+} from '../api/generated/schemas';
+import { encodeBase64Url, parseJwt } from '../utils/jwt';
+import { MockUserRecord, createMockUsers } from './mockUsers';
+
+const log = Logger.getInstance().scope('mockBackend');
+
+export interface MockBackendOptions {
+    latencyMs?: number | [number, number];  // Délai fixe ou aléatoire entre deux bornes (défaut : 0)
+    errorRate?: number;                     // Proportion de réponses 500 aléatoires, de 0 à 1 (défaut : 0)
+    pageSize?: number;                      // Taille des pages de GET /api/users (défaut : 10)
+    tokenTtlSeconds?: number;               // Durée de vie des tokens d'accès (défaut : 15 min)
+    issuer?: string;                        // Claim `iss` des tokens (à aligner sur VITE_JWT_ISSUER)
+    audience?: string;                      // Claim `aud` des tokens (à aligner sur VITE_JWT_AUDIENCE)
+    users?: MockUserRecord[];               // Jeu de données initial (défaut : createMockUsers())
+}
+
+/**
+ * Échec injecté sur la prochaine requête correspondante (méthode et/ou chemin), consommé une seule fois.
+ * `network` simule une requête jamais arrivée au serveur (ERR_NETWORK, sans réponse).
+ */
+export interface MockFailure {
+    status: number | 'network';
+    method?: string;
+    path?: string | RegExp;
+    message?: string;
+}
+
+interface MockRequest {
+    method: string;
+    path: string;
+    query: URLSearchParams;
+    body: unknown;
+    headers: AxiosHeaders;
+}
+
+interface MockResponse {
+    status: number;
+    data?: unknown;
+}
+
+type MockHandler = (request: MockRequest, params: string[]) => Promise<MockResponse> | MockResponse;
+
+interface MockRoute {
+    method: string;
+    pattern: RegExp;
+    handler: MockHandler;
+}
+
+// Clé HMAC fixe : les tokens restent valides après un rechargement de la page (pas un secret)
+const SIGNING_SECRET = 'mock-backend-development-only';
+const REFRESH_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const now = (): number => Math.floor(Date.now() / 1000);
+
+const toApiUser = (user: MockUserRecord): ApiUser => ({
+    id: user.id,
+    first_name: user.firstName,
+    last_name: user.lastName,
+    email: user.email,
+    phone: user.phone,
+    role: user.role,
+    created_at: user.createdAt,
+    updated_at: user.updatedAt,
+});
+
+const error = (status: number, message: string, details?: unknown): MockResponse => ({
+    status,
+    data: { message, ...(details !== undefined && { details }) },
+});
+
+const invalidBody = (result: z.ZodSafeParseError<unknown>): MockResponse =>
+    error(400, 'Requête invalide', result.error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message })));
+
+/**
+ * Backend simulé installé comme adapter de l'instance Axios d'AxiosService.
+ * - /auth/login, /auth/refresh, /auth/logout : JWT HS256 signés localement, refresh tokens à rotation
+ * - /api/users : CRUD complet, recherche, filtres rôle / statut et pagination sur un jeu de données en mémoire
+ * - Latence configurable, erreurs aléatoires ou ponctuelles (failNext) pour tester les états d'erreur
+ *
+ * Les intercepteurs (Bearer, refresh sur 401, identifiant de corrélation, nouvelles tentatives) restent actifs :
+ * seule la couche réseau est remplacée. Utilisable tel quel dans les tests Vitest (install / reset / uninstall).
+ */
+export class MockBackend {
+    private static instance: MockBackend;
+    private options: MockBackendOptions = {};
+    private users: MockUserRecord[] = [];
+    private revokedRefreshTokens = new Set<string>();
+    private failures: MockFailure[] = [];
+    private previousAdapter: AxiosDefaults['adapter'] | null = null;
+    private installed = false;
+    private signingKey: Promise<CryptoKey> | null = null;
+    private readonly routes: MockRoute[] = [
+        { method: 'post', pattern: /^\/auth\/login$/, handler: (request) => this.login(request) },
+        { method: 'post', pattern: /^\/auth\/refresh$/, handler: (request) => this.refresh(request) },
+        { method: 'post', pattern: /^\/auth\/logout$/, handler: (request) => this.logout(request) },
+        { method: 'get', pattern: /^\/api\/users$/, handler: (request) => this.withAuth(request, () => this.listUsers(request)) },
+        { method: 'post', pattern: /^\/api\/users$/, handler: (request) => this.withAuth(request, () => this.createUser(request)) },
+        { method: 'get', pattern: /^\/api\/users\/([^/]+)$/, handler: (request, [id]) => this.withAuth(request, () => this.getUser(id)) },
+        { method: 'put', pattern: /^\/api\/users\/([^/]+)$/, handler: (request, [id]) => this.withAuth(request, () => this.updateUser(id, request)) },
+        { method: 'delete', pattern: /^\/api\/users\/([^/]+)$/, handler: (request, [id]) => this.withAuth(request, () => this.deleteUser(id)) },
+    ];
+
+    private constructor() { }
+
+    public static getInstance(): MockBackend {
+        if (!MockBackend.instance) {
+            MockBackend.instance = new MockBackend();
+        }
+        return MockBackend.instance;
+    }
+
+    /**
+     * Remplace l'adapter réseau d'AxiosService et réinitialise le jeu de données
+     */
+    public install(options: MockBackendOptions = {}): void {
+        const axiosInstance = AxiosService.getInstance().getAxiosInstance();
+        if (!this.installed) {
+            this.previousAdapter = axiosInstance.defaults.adapter;
+            axiosInstance.defaults.adapter = this.adapter;
+            this.installed = true;
+        }
+
+        this.configure(options);
+        this.reset();
+        log.info('Backend simule installe', { users: this.users.length });
+    }
+
+    /**
+     * Restaure l'adapter réseau d'origine
+     */
+    public uninstall(): void {
+        if (!this.installed) {
+            return;
+        }
+        AxiosService.getInstance().getAxiosInstance().defaults.adapter = this.previousAdapter ?? undefined;
+        this.previousAdapter = null;
+        this.installed = false;
+    }
+
+    public isInstalled(): boolean {
+        return this.installed;
+    }
+
+    /**
+     * Modifie la latence, le taux d'erreur ou les claims sans réinitialiser les données
+     */
+    public configure(options: MockBackendOptions): void {
+        this.options = { ...this.options, ...options };
+    }
+
+    /**
+     * Restaure le jeu de données initial, les sessions et les échecs programmés
+     */
+    public reset(): void {
+        this.users = (this.options.users ?? createMockUsers()).map((user) => ({ ...user }));
+        this.revokedRefreshTokens.clear();
+        this.failures = [];
+    }
+
+    /**
+     * Programme un échec sur la prochaine requête correspondante
+     */
+    public failNext(failure: MockFailure): void {
+        this.failures.push(failure);
+    }
+
+    /**
+     * Copie des utilisateurs en mémoire (assertions de tests)
+     */
+    public getUsers(): MockUserRecord[] {
+        return this.users.map((user) => ({ ...user }));
+    }
+
+    // --- Adapter ---
+
+    private readonly adapter: AxiosAdapter = async (config) => {
+        await this.delay(config);
+
+        const request = this.toRequest(config);
+        const failure = this.takeFailure(request);
+        if (failure?.status === 'network') {
+            throw new AxiosError('Network Error', AxiosError.ERR_NETWORK, config, {});
+        }
+
+        let result: MockResponse;
+        if (failure) {
+            result = error(failure.status, failure.message ?? 'Erreur simulée');
+        } else if (Math.random() < (this.options.errorRate ?? 0)) {
+            result = error(500, 'Erreur serveur simulée');
+        } else {
+            result = await this.route(request);
+        }
+
+        const response: AxiosResponse = {
+            data: result.data ?? '',
+            status: result.status,
+            statusText: '',
+            headers: new AxiosHeaders(),
+            config,
+            request: {},
+        };
+
+        // Même règle que l'adapter HTTP d'Axios : les statuts refusés par validateStatus sont rejetés
+        if (config.validateStatus && !config.validateStatus(response.status)) {
+            throw new AxiosError(
+                `Request failed with status code ${response.status}`,
+                response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+                config,
+                {},
+                response
+            );
+        }
+        return response;
+    };
+
+    private async route(request: MockRequest): Promise<MockResponse> {
+        for (const route of this.routes) {
+            const match = route.method === request.method ? route.pattern.exec(request.path) : null;
+            if (match) {
+                return route.handler(request, match.slice(1).map(decodeURIComponent));
+            }
+        }
+        log.warn(`Route non simulee : ${request.method.toUpperCase()} ${request.path}`);
+        return error(404, `Route non simulée : ${request.method.toUpperCase()} ${request.path}`);
+    }
+
+    private toRequest(config: InternalAxiosRequestConfig): MockRequest {
+        const url = new URL(config.url ?? '', 'http://mock.local');
+        let body: unknown = config.data;
+        if (typeof body === 'string' && body !== '') {
+            try {
+                body = JSON.parse(body);
+            } catch {
+                // Corps non JSON transmis tel quel
+            }
+        }
+
+        return {
+            method: (config.method ?? 'get').toLowerCase(),
+            path: url.pathname,
+            query: url.searchParams,
+            body,
+            headers: AxiosHeaders.from(config.headers as AxiosHeaders),
+        };
+    }
+
+    private takeFailure(request: MockRequest): MockFailure | undefined {
+        const index = this.failures.findIndex((failure) =>
+            (!failure.method || failure.method.toLowerCase() === request.method)
+            && (!failure.path || (typeof failure.path === 'string' ? failure.path === request.path : failure.path.test(request.path)))
+        );
+        return index === -1 ? undefined : this.failures.splice(index, 1)[0];
+    }
+
+    /**
+     * Latence simulée, interrompue par l'annulation de la requête (AbortSignal)
+     */
+    private delay(config: InternalAxiosRequestConfig): Promise<void> {
+        const { latencyMs = 0 } = this.options;
+        const duration = Array.isArray(latencyMs)
+            ? latencyMs[0] + Math.random() * (latencyMs[1] - latencyMs[0])
+            : latencyMs;
+        const signal = config.signal as AbortSignal | undefined;
+
+        return new Promise((resolve, reject) => {
+            const cancel = () => reject(new CanceledError(undefined, undefined, config));
+            if (signal?.aborted) {
+                cancel();
+                return;
+            }
+            if (duration <= 0) {
+                resolve();
+                return;
+            }
+            const timer = setTimeout(() => {
+                signal?.removeEventListener?.('abort', onAbort);
+                resolve();
+            }, duration);
+            const onAbort = () => {
+                clearTimeout(timer);
+                cancel();
+            };
+            signal?.addEventListener?.('abort', onAbort, { once: true });
+        });
+    }
+
+    // --- Authentification ---
+
+    private async login(request: MockRequest): Promise<MockResponse> {
+        const parsed = ApiLoginRequestSchema.safeParse(request.body);
+        if (!parsed.success) {
+            return invalidBody(parsed);
+        }
+
+        const user = this.findByEmail(parsed.data.email);
+        if (!user || user.password !== parsed.data.password) {
+            return error(401, 'Email ou mot de passe incorrect');
+        }
+        if (user.status !== 'ACTIVE') {
+            return error(403, 'Compte désactivé');
+        }
+        return { status: 200, data: await this.issueTokens(user) };
+    }
+
+    private async refresh(request: MockRequest): Promise<MockResponse> {
+        const parsed = ApiRefreshTokenRequestSchema.safeParse(request.body);
+        if (!parsed.success) {
+            return invalidBody(parsed);
+        }
+
+        const payload = await this.verify(parsed.data.refreshToken, 'refresh');
+        const user = payload && this.users.find((item) => item.id === payload.sub);
+        if (!payload || !user || this.revokedRefreshTokens.has(String(payload.jti))) {
+            return error(401, 'Refresh token invalide ou expiré');
+        }
+
+        // Rotation : l'ancien refresh token n'est plus accepté
+        this.revokedRefreshTokens.add(String(payload.jti));
+        return { status: 200, data: await this.issueTokens(user) };
+    }
+
+    private async logout(request: MockRequest): Promise<MockResponse> {
+        const parsed = ApiRefreshTokenRequestSchema.safeParse(request.body);
+        const payload = parsed.success ? await this.verify(parsed.data.refreshToken, 'refresh') : null;
+        if (payload) {
+            this.revokedRefreshTokens.add(String(payload.jti));
+        }
+        return { status: 204 };
+    }
+
+    private async withAuth(request: MockRequest, handler: () => MockResponse): Promise<MockResponse> {
+        const authorization = request.headers.get('Authorization');
+        const token = typeof authorization === 'string' ? authorization.replace(/^Bearer\s+/i, '') : '';
+        const payload = token ? await this.verify(token, 'access') : null;
+
+        if (!payload || !this.users.some((user) => user.id === payload.sub)) {
+            return error(401, 'Token invalide ou expiré');
+        }
+        return handler();
+    }
+
+    private async issueTokens(user: MockUserRecord): Promise<{ accessToken: string; refreshToken: string }> {
+        const issuedAt = now();
+        const { issuer, audience, tokenTtlSeconds = 15 * 60 } = this.options;
+
+        const [accessToken, refreshToken] = await Promise.all([
+            this.sign({
+                sub: user.id,
+                userId: user.id,
+                email: user.email,
+                role: user.role,
+                permissions: [],
+                typ: 'access',
+                iat: issuedAt,
+                exp: issuedAt + tokenTtlSeconds,
+                ...(issuer && { iss: issuer }),
+                ...(audience && { aud: audience }),
+            }),
+            this.sign({
+                sub: user.id,
+                jti: crypto.randomUUID(),
+                typ: 'refresh',
+                iat: issuedAt,
+                exp: issuedAt + REFRESH_TTL_SECONDS,
+            }),
+        ]);
+        return { accessToken, refreshToken };
+    }
+
+    private async sign(payload: Record<string, unknown>): Promise<string> {
+        const encoder = new TextEncoder();
+        const header = encodeBase64Url(encoder.encode(JSON.stringify({ alg: 'HS256', typ: 'JWT' })));
+        const body = encodeBase64Url(encoder.encode(JSON.stringify(payload)));
+        const signature = await crypto.subtle.sign('HMAC', await this.getSigningKey(), encoder.encode(`${header}.${body}`));
+        return `${header}.${body}.${encodeBase64Url(new Uint8Array(signature))}`;
+    }
+
+    /**
+     * Payload d'un token signé par ce backend, du type attendu et non expiré (null sinon)
+     */
+    private async verify(token: string, type: 'access' | 'refresh'): Promise<Record<string, unknown> | null> {
+        const parts = parseJwt(token);
+        if (!parts || parts.header.alg !== 'HS256' || parts.payload.typ !== type) {
+            return null;
+        }
+
+        const valid = await crypto.subtle.verify(
+            'HMAC',
+            await this.getSigningKey(),
+            parts.signature as BufferSource,
+            new TextEncoder().encode(parts.signingInput)
+        );
+        const exp = parts.payload.exp;
+        return valid && typeof exp === 'number' && exp > now() ? parts.payload : null;
+    }
+
+    private getSigningKey(): Promise<CryptoKey> {
+        this.signingKey ??= crypto.subtle.importKey(
+            'raw',
+            new TextEncoder().encode(SIGNING_SECRET),
+            { name: 'HMAC', hash: 'SHA-256' },
+            false,
+            ['sign', 'verify']
+        );
+        return this.signingKey;
+    }
+
+    // --- Utilisateurs ---
+
+    private listUsers(request: MockRequest): MockResponse {
+        const search = request.query.get('search')?.trim().toLowerCase();
+        const role = request.query.get('role');
+        const status = request.query.get('status');
+        const pageSize = this.options.pageSize ?? 10;
+
+        const filtered = this.users.filter((user) =>
+            (!search || [user.firstName, user.lastName, user.email].some((value) => value.toLowerCase().includes(search)))
+            && (!role || user.role === role)
+            && (!status || user.status === status)
+        );
+
+        const totalPages = Math.ceil(filtered.length / pageSize);
+        const currentPage = Math.max(1, Number(request.query.get('page')) || 1);
+        const start = (currentPage - 1) * pageSize;
+
+        return {
+            status: 200,
+            data: {
+                data: filtered.slice(start, start + pageSize).map(toApiUser),
+                meta: { totalPages, currentPage, totalItems: filtered.length },
+            },
+        };
+    }
+
+    private getUser(id: string): MockResponse {
+        const user = this.users.find((item) => item.id === id);
+        return user ? { status: 200, data: toApiUser(user) } : error(404, 'Utilisateur non trouvé');
+    }
+
+    private createUser(request: MockRequest): MockResponse {
+        const parsed = ApiCreateUserRequestSchema.safeParse(request.body);
+        if (!parsed.success) {
+            return invalidBody(parsed);
+        }
+
+        const { role, status } = parsed.data;
+        const enumError = this.checkEnums(role, status);
+        if (enumError) {
+            return enumError;
+        }
+        if (this.findByEmail(parsed.data.email)) {
+            return error(409, 'Un utilisateur existe déjà avec cet email');
+        }
+
+        const date = new Date().toISOString();
+        this.users.push({
+            id: crypto.randomUUID(),
+            firstName: parsed.data.firstName,
+            lastName: parsed.data.lastName,
+            email: parsed.data.email,
+            phone: parsed.data.phoneNumber || null,
+            role: ApiUserRoleSchema.catch('USER').parse(role),
+            status: ApiUserStatusSchema.catch('ACTIVE').parse(status),
+            password: parsed.data.password,
+            createdAt: date,
+            updatedAt: date,
+        });
+        return { status: 201 };
+    }
+
+    private updateUser(id: string, request: MockRequest): MockResponse {
+        const user = this.users.find((item) => item.id === id);
+        if (!user) {
+            return error(404, 'Utilisateur non trouvé');
+        }
+
+        const parsed = ApiUpdateUserRequestSchema.safeParse(request.body);
+        if (!parsed.success) {
+            return invalidBody(parsed);
+        }
+
+        const { firstName, lastName, email, password, role, phoneNumber, status } = parsed.data;
+        const enumError = this.checkEnums(role, status);
+        if (enumError) {
+            return enumError;
+        }
+        const existing = email ? this.findByEmail(email) : undefined;
+        if (existing && existing !== user) {
+            return error(409, 'Un utilisateur existe déjà avec cet email');
+        }
+
+        Object.assign(user, {
+            ...(firstName && { firstName }),
+            ...(lastName && { lastName }),
+            ...(email && { email }),
+            ...(password && { password }),
+            ...(role && { role }),
+            ...(status && { status }),
+            ...(phoneNumber !== undefined && { phone: phoneNumber || null }),
+            updatedAt: new Date().toISOString(),
+        });
+        return { status: 200 };
+    }
+
+    private deleteUser(id: string): MockResponse {
+        const index = this.users.findIndex((item) => item.id === id);
+        if (index === -1) {
+            return error(404, 'Utilisateur non trouvé');
+        }
+        this.users.splice(index, 1);
+        return { status: 204 };
+    }
+
+    private checkEnums(role?: string, status?: string): MockResponse | null {
+        if (role && !ApiUserRoleSchema.safeParse(role).success) {
+            return error(400, `Rôle inconnu : ${role}`);
+        }
+        if (status && !ApiUserStatusSchema.safeParse(status).success) {
+            return error(400, `Statut inconnu : ${status}`);
+        }
+        return null;
+    }
+
+    private findByEmail(email: string): MockUserRecord | undefined {
+        const normalized = email.trim().toLowerCase();
+        return this.users.find((user) => user.email.toLowerCase() === normalized);
+    }
+}
+
+export default MockBackend;
@@ -0,0 +1,72 @@
+import { ApiUserRole, ApiUserStatus } from '../api/generated/schemas';
+
+/**
+ * Utilisateur tel que conservé par le backend simulé (mot de passe en clair : données de démonstration uniquement)
+ */
+export interface MockUserRecord {
+    id: string;
+    firstName: string;
+    lastName: string;
+    email: string;
+    phone: string | null;
+    role: ApiUserRole;
+    status: ApiUserStatus;
+    password: string;
+    createdAt: string;      // ISO 8601
+    updatedAt: string;      // ISO 8601
+}
+
+// Mot de passe de tous les comptes du jeu de données
+export const MOCK_PASSWORD = 'password';
+
+// Comptes de connexion, un par rôle
+export const MOCK_ACCOUNTS = {
+    admin: 'admin@example.com',
+    moderator: 'moderator@example.com',
+    user: 'user@example.com',
+} as const;
+
+const FIRST_NAMES = ['Marie', 'Paul', 'Camille', 'Lucas', 'Chloé', 'Hugo', 'Léa', 'Louis', 'Manon', 'Jules', 'Inès', 'Arthur'];
+const LAST_NAMES = ['Martin', 'Bernard', 'Dubois', 'Thomas', 'Robert', 'Richard', 'Petit', 'Durand', 'Leroy', 'Moreau', 'Simon'];
+const STATUSES: ApiUserStatus[] = ['ACTIVE', 'ACTIVE', 'ACTIVE', 'INACTIVE', 'SUSPENDED'];
+
+const SEED_DATE = Date.UTC(2024, 0, 15, 9);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// UUID v4 déterministe : les identifiants restent stables d'un chargement à l'autre
+const seedId = (index: number): string => `00000000-0000-4000-8000-${String(index + 1).padStart(12, '0')}`;
+
+const normalize = (value: string): string => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const seedUser = (index: number, overrides: Partial<MockUserRecord> = {}): MockUserRecord => {
+    const firstName = FIRST_NAMES[index % FIRST_NAMES.length];
+    const lastName = LAST_NAMES[(index * 7) % LAST_NAMES.length];
+    const date = new Date(SEED_DATE + index * DAY_MS).toISOString();
+
+    return {
+        id: seedId(index),
+        firstName,
+        lastName,
+        email: `${normalize(firstName)}.${normalize(lastName)}${index}@example.com`,
+        phone: index % 3 === 0 ? null : `+3360000${String(index).padStart(4, '0')}`,
+        role: index % 10 === 0 ? 'MODERATOR' : 'USER',
+        status: STATUSES[index % STATUSES.length],
+        password: MOCK_PASSWORD,
+        createdAt: date,
+        updatedAt: date,
+        ...overrides,
+    };
+};
+
+/**
+ * Jeu de données initial : un compte par rôle puis des utilisateurs générés (toujours identiques)
+ */
+export const createMockUsers = (count = 42): MockUserRecord[] => {
+    const accounts: Partial<MockUserRecord>[] = [
+        { firstName: 'Alice', lastName: 'Admin', email: MOCK_ACCOUNTS.admin, role: 'ADMIN', status: 'ACTIVE' },
+        { firstName: 'Max', lastName: 'Moderateur', email: MOCK_ACCOUNTS.moderator, role: 'MODERATOR', status: 'ACTIVE' },
+        { firstName: 'Ugo', lastName: 'Utilisateur', email: MOCK_ACCOUNTS.user, role: 'USER', status: 'ACTIVE' },
+    ];
+
+    return Array.from({ length: count }, (_, index) => seedUser(index, accounts[index]));
+};
@@ -0,0 +1,60 @@
+import { TokenPayload } from "../types/AuthTypes";
+
+/**
+ * Rôles connus de l'application (valeur du claim `role` du JWT)
+ */
+export const ROLES = {
+    ADMIN: 'ADMIN',
+    MODERATOR: 'MODERATOR',
+    USER: 'USER',
+} as const;
+
+export type Role = typeof ROLES[keyof typeof ROLES];
+
+/**
+ * Exigences d'accès d'une route, d'une action ou d'un composant.
+ * - roles : l'utilisateur doit avoir l'un des rôles listés
+ * - permissions : l'utilisateur doit avoir toutes les permissions listées
+ */
+export interface AccessRequirement {
+    roles?: readonly string[];
+    permissions?: readonly string[];
+}
+
+/**
+ * Gestion des utilisateurs : partagée par la route /users et son lien de navigation
+ */
+export const USERS_MANAGEMENT: AccessRequirement = { roles: [ROLES.ADMIN] };
+
+/**
+ * Fournit l'utilisateur courant (null si non connecté).
+ * Injecté dans les use cases pour qu'ils appliquent les règles d'accès
+ * sans dépendre du store ou des services d'authentification.
+ */
+export type CurrentUserProvider = () => TokenPayload | null;
+
+export const hasRole = (user: TokenPayload | null, roles: readonly string[]): boolean => {
+    if (!user) {
+        return false;
+    }
+    return roles.length === 0 || roles.includes(user.role);
+};
+
+export const hasPermissions = (user: TokenPayload | null, permissions: readonly string[]): boolean => {
+    if (!user) {
+        return false;
+    }
+    const granted = user.permissions ?? [];
+    return permissions.every((permission) => granted.includes(permission));
+};
+
+/**
+ * Vérifie qu'un utilisateur satisfait les exigences (rôles ET permissions).
+ * Sans exigence, un utilisateur connecté a toujours accès.
+ */
+export const canAccess = (user: TokenPayload | null, requirement: AccessRequirement = {}): boolean => {
+    if (!user) {
+        return false;
+    }
+    return hasRole(user, requirement.roles ?? []) && hasPermissions(user, requirement.permissions ?? []);
+};
@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { AppRouteTable } from './routes';
+import { useAuthStore } from './store/authStore';
+import { TokenPayload } from './types/AuthTypes';
+
+// --- Mocks ---
+
+// Le themeStore lit la preference systeme des l'import des pages, absente de jsdom
+vi.hoisted(() => {
+    window.matchMedia = ((query: string) => ({ matches: false, media: query })) as unknown as typeof window.matchMedia;
+});
+
+// --- Helpers ---
+
+const user = (role: string): TokenPayload => ({
+    userId: 'user-1',
+    email: 'jean.dupont@example.com',
+    role,
+    iat: 0,
+    exp: 0,
+});
+
+const renderAt = (path: string) =>
+    render(
+        <MemoryRouter initialEntries={[path]}>
+            <AppRouteTable />
+        </MemoryRouter>
+    );
+
+// --- Tests ---
+
+describe('AppRouteTable', () => {
+    beforeEach(() => {
+        useAuthStore.setState({ isLoading: false, isAuthenticated: false, user: null, sessionExpired: false });
+    });
+
+    it('affiche la page 403 a un USER qui ouvre /users', () => {
+        useAuthStore.setState({ isAuthenticated: true, user: user('USER') });
+
+        renderAt('/users');
+
+        expect(screen.getByText('403')).toBeInTheDocument();
+        expect(screen.getByText('Acces refuse')).toBeInTheDocument();
+    });
+});
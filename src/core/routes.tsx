@@ -5,37 +5,72 @@ import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import ErrorBoundary from './components/ErrorBoundary';
 import PrivateRoute from './components/PrivateRoute';
 import NotFoundPage from './components/NotFoundPage';
+import ForbiddenPage from './components/ForbiddenPage';
 import AppLayout from './components/AppLayout';
+import { useFeature } from './hooks/useAppConfig';
+import { USERS_MANAGEMENT } from './policies/accessPolicy';
 
 // Feature pages
 import HomePage from '../features/users/presentation/pages/HomePage';
 import UsersPage from '../features/users/presentation/pages/UsersPage';
 import LoginPage from '../features/auth/presentation/pages/LoginPage';
+import RegisterPage from '../features/auth/presentation/pages/RegisterPage';
+import ForgotPasswordPage from '../features/auth/presentation/pages/ForgotPasswordPage';
+import ResetPasswordPage from '../features/auth/presentation/pages/ResetPasswordPage';
+import AuthCallbackPage from '../features/auth/presentation/pages/AuthCallbackPage';
+import AccountPage from '../features/auth/presentation/pages/AccountPage';
+import TwoFactorEnrollmentPage from '../features/auth/presentation/pages/TwoFactorEnrollmentPage';
+import SessionsPage from '../features/sessions/presentation/pages/SessionsPage';
+
+/**
+ * Table des routes, separee du router pour pouvoir la monter dans un MemoryRouter (tests)
+ */
+export const AppRouteTable: React.FC = () => {
+    // Fonctionnalites desactivees par la configuration : routes absentes (404)
+    const canRegister = useFeature('registration');
+    const canResetPassword = useFeature('passwordReset');
 
-const AppRoutes: React.FC = () => {
     return (
-        <ErrorBoundary>
-            <Router>
-                <AppLayout>
-                    <Routes>
-                        {/* Routes publiques */}
-                        <Route path="/login" element={<LoginPage />} />
-
-                        {/* Routes protegees */}
-                        <Route path="/" element={
-                            <PrivateRoute><HomePage /></PrivateRoute>
-                        } />
-                        <Route path="/users" element={
-                            <PrivateRoute><UsersPage /></PrivateRoute>
-                        } />
-
-                        {/* 404 catch-all */}
-                        <Route path="*" element={<NotFoundPage />} />
-                    </Routes>
-                </AppLayout>
-            </Router>
-        </ErrorBoundary>
+        <Routes>
+            {/* Routes publiques */}
+            <Route path="/login" element={<LoginPage />} />
+            {canRegister && <Route path="/register" element={<RegisterPage />} />}
+            {canResetPassword && <Route path="/forgot-password" element={<ForgotPasswordPage />} />}
+            {canResetPassword && <Route path="/reset-password/:token" element={<ResetPasswordPage />} />}
+            <Route path="/auth/callback" element={<AuthCallbackPage />} />
+
+            {/* Routes protegees */}
+            <Route path="/" element={
+                <PrivateRoute><HomePage /></PrivateRoute>
+            } />
+            <Route path="/users" element={
+                <PrivateRoute {...USERS_MANAGEMENT}><UsersPage /></PrivateRoute>
+            } />
+            <Route path="/account" element={
+                <PrivateRoute><AccountPage /></PrivateRoute>
+            } />
+            <Route path="/security/two-factor" element={
+                <PrivateRoute><TwoFactorEnrollmentPage /></PrivateRoute>
+            } />
+            <Route path="/security/sessions" element={
+                <PrivateRoute><SessionsPage /></PrivateRoute>
+            } />
+
+            {/* 403 / 404 catch-all */}
+            <Route path="/forbidden" element={<ForbiddenPage />} />
+            <Route path="*" element={<NotFoundPage />} />
+        </Routes>
     );
 };
 
+const AppRoutes: React.FC = () => (
+    <ErrorBoundary>
+        <Router>
+            <AppLayout>
+                <AppRouteTable />
+            </AppLayout>
+        </Router>
+    </ErrorBoundary>
+);
+
 export default AppRoutes;
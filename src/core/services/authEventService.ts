@@ -0,0 +1,55 @@
+import Logger from './logger';
+
+const log = Logger.getInstance().scope('authEvents');
+
+/**
+ * Evenements d'authentification internes a l'onglet.
+ * Emis par les services (intercepteur Axios, refresh planifie), traites par authStore.
+ */
+export type AuthEvent =
+    | { type: 'session-expired' };
+
+type AuthEventListener = (event: AuthEvent) => void;
+
+export interface IAuthEventService {
+    emit(event: AuthEvent): void;
+    subscribe(listener: AuthEventListener): () => void;
+}
+
+/**
+ * Canal d'evenements d'authentification.
+ * Les services n'ont pas a connaitre le store ni le router : ils signalent l'evenement,
+ * authStore met a jour l'etat et les composants de routing redirigent.
+ */
+export class AuthEventService implements IAuthEventService {
+    private static instance: AuthEventService;
+    private listeners = new Set<AuthEventListener>();
+
+    private constructor() { }
+
+    public static getInstance(): AuthEventService {
+        if (!AuthEventService.instance) {
+            AuthEventService.instance = new AuthEventService();
+        }
+        return AuthEventService.instance;
+    }
+
+    public emit(event: AuthEvent): void {
+        this.listeners.forEach((listener) => {
+            try {
+                listener(event);
+            } catch (error) {
+                log.error('Erreur dans un listener d\'evenement d\'authentification', { error });
+            }
+        });
+    }
+
+    public subscribe(listener: AuthEventListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+}
+
+export default AuthEventService;
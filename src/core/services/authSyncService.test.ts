@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach, afterEach, MockInstance } from 'vitest';
+import { AuthSyncEvent, AuthSyncService } from './authSyncService';
+
+// --- Helpers ---
+
+const STORAGE_KEY = 'app-auth-sync';
+const tokens = { accessToken: 'access', refreshToken: 'refresh' };
+
+// Messages ecrits par le repli storage (la cle est retiree aussitot apres l'ecriture)
+const writtenMessages = (setItem: MockInstance<Storage['setItem']>): Array<{ sourceId: string; event: AuthSyncEvent }> =>
+    setItem.mock.calls
+        .filter(([key]) => key === STORAGE_KEY)
+        .map(([, value]) => JSON.parse(value));
+
+// --- Tests ---
+
+describe('AuthSyncService (repli storage)', () => {
+    const authSync = AuthSyncService.getInstance();
+    let setItem: MockInstance<Storage['setItem']>;
+
+    beforeEach(() => {
+        vi.stubGlobal('BroadcastChannel', undefined);
+        setItem = vi.spyOn(Storage.prototype, 'setItem');
+    });
+
+    afterEach(() => {
+        authSync.stop();
+        setItem.mockRestore();
+        vi.unstubAllGlobals();
+    });
+
+    it('diffuse les evenements sans les tokens avec un stockage partage', () => {
+        authSync.start({ sharedTokenStorage: true });
+
+        authSync.publish({ type: 'token-refresh', tokens, impersonating: false });
+        authSync.publish({ type: 'login', tokens });
+
+        expect(writtenMessages(setItem).map((message) => message.event)).toEqual([
+            { type: 'token-refresh', impersonating: false },
+            { type: 'login' },
+        ]);
+    });
+
+    it('ne diffuse que la deconnexion et l activite avec un stockage propre a l onglet', () => {
+        authSync.start({ sharedTokenStorage: false });
+
+        authSync.publish({ type: 'refresh-started', impersonating: false });
+        authSync.publish({ type: 'token-refresh', tokens, impersonating: false });
+        authSync.publish({ type: 'impersonation-started' });
+        authSync.publish({ type: 'logout' });
+
+        expect(writtenMessages(setItem).map((message) => message.event)).toEqual([{ type: 'logout' }]);
+    });
+
+    it('transmet aux abonnes les evenements des autres onglets uniquement', () => {
+        authSync.start();
+        const listener = vi.fn();
+        const unsubscribe = authSync.subscribe(listener);
+
+        authSync.publish({ type: 'logout' });
+        const [ownMessage] = writtenMessages(setItem);
+        window.dispatchEvent(new StorageEvent('storage', { key: STORAGE_KEY, newValue: JSON.stringify(ownMessage) }));
+        window.dispatchEvent(new StorageEvent('storage', {
+            key: STORAGE_KEY,
+            newValue: JSON.stringify({ ...ownMessage, sourceId: 'autre-onglet' }),
+        }));
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener).toHaveBeenCalledWith({ type: 'logout' });
+        unsubscribe();
+    });
+});
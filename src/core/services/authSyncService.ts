@@ -0,0 +1,198 @@
+import { AuthTokens, ProviderTokens } from "../types/AuthTypes";
+import Logger from "./logger";
+
+const log = Logger.getInstance().scope("authSync");
+
+/**
+ * Evenements d'authentification partages entre les onglets.
+ * `impersonating` indique la session concernee par un refresh : un onglet dont la session
+ * differe (stockage propre a l'onglet) l'ignore. `providerId` accompagne les tokens d'une session externe.
+ */
+export type AuthSyncEvent =
+    | { type: 'login'; tokens?: AuthTokens | ProviderTokens; providerId?: string }
+    | { type: 'logout' }
+    | { type: 'token-refresh'; tokens?: AuthTokens | ProviderTokens; providerId?: string; impersonating?: boolean }
+    | { type: 'refresh-started'; impersonating?: boolean }
+    | { type: 'refresh-failed'; impersonating?: boolean }
+    | { type: 'impersonation-started' }
+    | { type: 'impersonation-stopped' }
+    | { type: 'activity'; at: number };
+
+interface AuthSyncMessage {
+    sourceId: string;
+    timestamp: number;
+    event: AuthSyncEvent;
+}
+
+type AuthSyncListener = (event: AuthSyncEvent) => void;
+
+export interface AuthSyncOptions {
+    /**
+     * Tokens dans un stockage partage par les onglets ('local', defaut).
+     * Sinon ('session', 'memory', 'hybrid'), le repli storage ne peut pas les partager
+     */
+    sharedTokenStorage?: boolean;
+}
+
+export interface IAuthSyncService {
+    start(options?: AuthSyncOptions): void;
+    stop(): void;
+    publish(event: AuthSyncEvent): void;
+    subscribe(listener: AuthSyncListener): () => void;
+}
+
+const CHANNEL_NAME = 'app-auth-sync';
+const STORAGE_KEY = 'app-auth-sync';
+
+/**
+ * Synchronisation de la session entre les onglets du meme navigateur.
+ * Utilise BroadcastChannel, avec repli sur l'evenement `storage` pour les navigateurs
+ * qui ne le supportent pas. Dans ce mode degrade, les tokens ne transitent jamais
+ * par localStorage : avec un stockage partage, les onglets relisent les tokens ecrits par l'emetteur ;
+ * avec un stockage propre a l'onglet, chaque onglet garde sa session et seuls la deconnexion
+ * et l'activite sont diffusees.
+ */
+export class AuthSyncService implements IAuthSyncService {
+    private static instance: AuthSyncService;
+    private readonly tabId = Math.random().toString(36).slice(2, 11);
+    private channel: BroadcastChannel | null = null;
+    private listeners = new Set<AuthSyncListener>();
+    private isStarted = false;
+    private sharedTokenStorage = true;
+
+    private constructor() { }
+
+    public static getInstance(): AuthSyncService {
+        if (!AuthSyncService.instance) {
+            AuthSyncService.instance = new AuthSyncService();
+        }
+        return AuthSyncService.instance;
+    }
+
+    /**
+     * Commence l'ecoute des autres onglets
+     */
+    public start(options: AuthSyncOptions = {}): void {
+        if (this.isStarted || typeof window === 'undefined') {
+            return;
+        }
+
+        this.sharedTokenStorage = options.sharedTokenStorage ?? true;
+
+        if (typeof BroadcastChannel !== 'undefined') {
+            this.channel = new BroadcastChannel(CHANNEL_NAME);
+            this.channel.onmessage = (event: MessageEvent<AuthSyncMessage>) => this.handleMessage(event.data);
+        } else {
+            window.addEventListener('storage', this.handleStorageEvent);
+        }
+
+        this.isStarted = true;
+    }
+
+    /**
+     * Arrete l'ecoute et ferme le canal
+     */
+    public stop(): void {
+        if (!this.isStarted) {
+            return;
+        }
+
+        if (this.channel) {
+            this.channel.close();
+            this.channel = null;
+        } else {
+            window.removeEventListener('storage', this.handleStorageEvent);
+        }
+
+        this.isStarted = false;
+    }
+
+    /**
+     * Diffuse un evenement aux autres onglets (l'onglet emetteur ne le recoit pas)
+     */
+    public publish(event: AuthSyncEvent): void {
+        if (!this.isStarted) {
+            return;
+        }
+
+        const message: AuthSyncMessage = { sourceId: this.tabId, timestamp: Date.now(), event };
+
+        try {
+            if (this.channel) {
+                this.channel.postMessage(message);
+                return;
+            }
+
+            // Repli storage : l'ecriture declenche `storage` dans les autres onglets, sans les tokens
+            const fallbackEvent = this.toFallbackEvent(event);
+            if (!fallbackEvent) {
+                return;
+            }
+            const safeMessage: AuthSyncMessage = { ...message, event: fallbackEvent };
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(safeMessage));
+            localStorage.removeItem(STORAGE_KEY);
+        } catch (error) {
+            log.warn('Impossible de diffuser l\'evenement d\'authentification', { error });
+        }
+    }
+
+    /**
+     * S'abonne aux evenements des autres onglets
+     */
+    public subscribe(listener: AuthSyncListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private handleStorageEvent = (event: StorageEvent): void => {
+        if (event.key !== STORAGE_KEY || !event.newValue) {
+            return;
+        }
+
+        try {
+            this.handleMessage(JSON.parse(event.newValue) as AuthSyncMessage);
+        } catch {
+            // Message illisible, ignore
+        }
+    };
+
+    private handleMessage(message: AuthSyncMessage | undefined): void {
+        if (!message || message.sourceId === this.tabId || !message.event) {
+            return;
+        }
+
+        this.listeners.forEach((listener) => {
+            try {
+                listener(message.event);
+            } catch (error) {
+                log.error('Erreur dans un listener de synchronisation d\'authentification', { error });
+            }
+        });
+    }
+
+    /**
+     * Evenement diffuse par le repli storage, null s'il ne doit pas l'etre.
+     * Stockage propre a l'onglet : un autre onglet ne peut pas relire les tokens de l'emetteur,
+     * un login, un refresh ou une impersonation n'y concernent donc que l'onglet emetteur
+     */
+    private toFallbackEvent(event: AuthSyncEvent): AuthSyncEvent | null {
+        if (this.sharedTokenStorage) {
+            return this.withoutTokens(event);
+        }
+        return event.type === 'logout' || event.type === 'activity' ? event : null;
+    }
+
+    private withoutTokens(event: AuthSyncEvent): AuthSyncEvent {
+        if (event.type === 'login') {
+            return { type: event.type };
+        }
+        if (event.type === 'token-refresh') {
+            return { type: event.type, impersonating: event.impersonating };
+        }
+        return event;
+    }
+}
+
+export default AuthSyncService;
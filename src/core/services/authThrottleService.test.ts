@@ -0,0 +1,60 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AuthThrottleService, THROTTLE_SCOPES, loginScope } from './authThrottleService';
+import { RateLimitError, UnauthorizedError } from '../types/AppError';
+
+// --- Tests ---
+
+describe('AuthThrottleService', () => {
+    const throttle = AuthThrottleService.getInstance();
+    const scope = loginScope('Jean@Example.com');
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2024-01-01T08:00:00Z'));
+        localStorage.clear();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('laisse quelques essais libres puis double l attente a chaque echec', () => {
+        const now = Date.now();
+
+        expect(throttle.registerFailure(scope)).toBeNull();
+        expect(throttle.registerFailure(scope)).toBeNull();
+        expect(throttle.registerFailure(scope)).toBe(now + 5_000);
+
+        vi.advanceTimersByTime(5_000);
+        expect(throttle.getLockedUntil(scope)).toBeNull();
+        expect(throttle.registerFailure(scope)).toBe(Date.now() + 10_000);
+    });
+
+    it('applique le Retry-After d un 429 sur la portee globale', () => {
+        const error = new RateLimitError('Trop de tentatives', 120);
+
+        const lockedUntil = throttle.registerError(error, scope, THROTTLE_SCOPES.LOGIN);
+
+        expect(lockedUntil).toBe(Date.now() + 120_000);
+        expect(throttle.getLockedUntil(loginScope('autre@example.com'), THROTTLE_SCOPES.LOGIN)).toBe(lockedUntil);
+    });
+
+    it('persiste l etat sans stocker l email en clair', () => {
+        throttle.registerError(new UnauthorizedError('Identifiants invalides', 'invalid_credentials'), scope);
+
+        const raw = localStorage.getItem('auth_throttle') ?? '';
+        expect(Object.values(JSON.parse(raw))).toHaveLength(1);
+        expect(raw).not.toContain('jean@example.com');
+    });
+
+    it('efface echecs et blocages apres une authentification reussie', () => {
+        throttle.registerFailure(scope);
+        throttle.registerFailure(scope);
+        throttle.registerFailure(scope);
+
+        throttle.reset(scope);
+
+        expect(throttle.getLockedUntil(scope)).toBeNull();
+        expect(throttle.registerFailure(scope)).toBeNull();
+    });
+});
@@ -0,0 +1,184 @@
+/**
+ * Limitation des tentatives d'authentification côté client.
+ * Chaque écran utilise sa propre portée (ex. `login:<email>`, `second-factor`, `password-reset`) :
+ * - échecs consécutifs (401) : attente exponentielle au-delà de quelques essais libres
+ * - 429 : attente imposée par le serveur (Retry-After)
+ * L'état est persisté pour survivre à un rechargement de la page.
+ */
+import { AppError, RateLimitError } from "../types/AppError";
+import Logger from './logger';
+
+const log = Logger.getInstance().scope('authThrottle');
+
+// Portées partagées par les écrans d'authentification
+export const THROTTLE_SCOPES = {
+    LOGIN: 'login',                     // 429 sur /auth/login (quota global, pas lié à un compte)
+    SECOND_FACTOR: 'second-factor',
+    PASSWORD_RESET: 'password-reset',
+} as const;
+
+/**
+ * Portée des échecs de login d'un compte
+ */
+export const loginScope = (email: string): string => `${THROTTLE_SCOPES.LOGIN}:${email.trim().toLowerCase()}`;
+
+interface ThrottleEntry {
+    failures: number;       // Échecs consécutifs
+    lastFailureAt: number;
+    lockedUntil: number;    // Timestamp (ms), 0 si aucun blocage
+}
+
+type ThrottleState = Record<string, ThrottleEntry>;
+
+export interface IAuthThrottleService {
+    getLockedUntil(...scopes: string[]): number | null;
+    registerFailure(scope: string): number | null;
+    registerRateLimit(scope: string, retryAfterSeconds: number | null): number;
+    registerError(error: AppError, scope: string, rateLimitScope?: string): number | null;
+    reset(...scopes: string[]): void;
+}
+
+export class AuthThrottleService implements IAuthThrottleService {
+    private static instance: AuthThrottleService;
+    private readonly STORAGE_KEY = 'auth_throttle';
+
+    private readonly FREE_ATTEMPTS = 3;                    // Échecs tolérés avant la première attente
+    private readonly BASE_DELAY_MS = 5 * 1000;             // Première attente, doublée à chaque échec suivant
+    private readonly MAX_DELAY_MS = 15 * 60 * 1000;        // Plafond de l'attente exponentielle
+    private readonly FAILURE_WINDOW_MS = 60 * 60 * 1000;   // Compteur remis à zéro après une heure sans échec
+    private readonly DEFAULT_RETRY_AFTER_MS = 30 * 1000;   // 429 sans Retry-After
+
+    private constructor() { }
+
+    public static getInstance(): AuthThrottleService {
+        if (!AuthThrottleService.instance) {
+            AuthThrottleService.instance = new AuthThrottleService();
+        }
+        return AuthThrottleService.instance;
+    }
+
+    /**
+     * Fin du blocage le plus long parmi les portées données (null si aucune n'est bloquée)
+     */
+    public getLockedUntil(...scopes: string[]): number | null {
+        const state = this.read();
+        const now = Date.now();
+        const lockedUntil = Math.max(0, ...scopes.map((scope) => state[this.keyOf(scope)]?.lockedUntil ?? 0));
+
+        return lockedUntil > now ? lockedUntil : null;
+    }
+
+    /**
+     * Enregistre un échec (identifiants ou code refusés). Retourne la fin du blocage éventuel.
+     */
+    public registerFailure(scope: string): number | null {
+        const state = this.read();
+        const key = this.keyOf(scope);
+        const now = Date.now();
+
+        const previous = state[key];
+        const failures = previous && now - previous.lastFailureAt < this.FAILURE_WINDOW_MS
+            ? previous.failures + 1
+            : 1;
+
+        const delay = failures >= this.FREE_ATTEMPTS
+            ? Math.min(this.MAX_DELAY_MS, this.BASE_DELAY_MS * 2 ** (failures - this.FREE_ATTEMPTS))
+            : 0;
+
+        state[key] = {
+            failures,
+            lastFailureAt: now,
+            lockedUntil: Math.max(previous?.lockedUntil ?? 0, delay > 0 ? now + delay : 0),
+        };
+        this.write(state);
+
+        return this.getLockedUntil(scope);
+    }
+
+    /**
+     * Enregistre un refus 429. Retourne la fin du blocage.
+     */
+    public registerRateLimit(scope: string, retryAfterSeconds: number | null): number {
+        const state = this.read();
+        const key = this.keyOf(scope);
+        const now = Date.now();
+        const lockedUntil = now + (retryAfterSeconds !== null ? retryAfterSeconds * 1000 : this.DEFAULT_RETRY_AFTER_MS);
+
+        state[key] = {
+            failures: state[key]?.failures ?? 0,
+            lastFailureAt: state[key]?.lastFailureAt ?? now,
+            lockedUntil: Math.max(state[key]?.lockedUntil ?? 0, lockedUntil),
+        };
+        this.write(state);
+
+        return state[key].lockedUntil;
+    }
+
+    /**
+     * Applique une erreur d'authentification : 429 -> attente imposée (sur `rateLimitScope`),
+     * 401 -> échec consécutif (sur `scope`). Retourne la fin du blocage éventuel.
+     */
+    public registerError(error: AppError, scope: string, rateLimitScope: string = scope): number | null {
+        if (error instanceof RateLimitError) {
+            this.registerRateLimit(rateLimitScope, error.retryAfterSeconds);
+        } else if (error.kind === 'unauthorized') {
+            this.registerFailure(scope);
+        }
+        return this.getLockedUntil(scope, rateLimitScope);
+    }
+
+    /**
+     * Efface les échecs et blocages (après une authentification réussie)
+     */
+    public reset(...scopes: string[]): void {
+        const state = this.read();
+        scopes.forEach((scope) => delete state[this.keyOf(scope)]);
+        this.write(state);
+    }
+
+    /**
+     * Les portées peuvent contenir un email : seule une empreinte est stockée
+     */
+    private keyOf(scope: string): string {
+        let hash = 0x811c9dc5;
+        for (let i = 0; i < scope.length; i++) {
+            hash ^= scope.charCodeAt(i);
+            hash = Math.imul(hash, 0x01000193);
+        }
+        return (hash >>> 0).toString(36);
+    }
+
+    private read(): ThrottleState {
+        try {
+            const raw = localStorage.getItem(this.STORAGE_KEY);
+            const state: ThrottleState = raw ? JSON.parse(raw) : {};
+            const now = Date.now();
+
+            // Purge des entrées périmées (ni blocage en cours, ni échec récent)
+            Object.keys(state).forEach((key) => {
+                const entry = state[key];
+                if (entry.lockedUntil <= now && now - entry.lastFailureAt >= this.FAILURE_WINDOW_MS) {
+                    delete state[key];
+                }
+            });
+            return state;
+        } catch {
+            return {};
+        }
+    }
+
+    private write(state: ThrottleState): void {
+        try {
+            if (Object.keys(state).length === 0) {
+                localStorage.removeItem(this.STORAGE_KEY);
+            } else {
+                localStorage.setItem(this.STORAGE_KEY, JSON.stringify(state));
+            }
+        } catch (error) {
+            // Stockage indisponible : pas de limitation côté client, le serveur reste seul juge
+            log.warn('Erreur lors de la persistance des tentatives d\'authentification', { error });
+        }
+    }
+}
+
+export default AuthThrottleService;
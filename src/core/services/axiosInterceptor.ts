@@ -1,6 +1,10 @@
 import { InternalAxiosRequestConfig, AxiosError } from "axios";
-import AuthService from "./authService";
 import AxiosService from "./axiosService";
+import AuthEventService from "./authEventService";
+import Logger from "./logger";
+import { IAuthSession } from "../types/AuthTypes";
+
+const log = Logger.getInstance().scope("authInterceptor");
 
 interface QueueItem {
     resolve: (value: any) => void;
@@ -9,8 +13,8 @@ interface QueueItem {
 
 export class AxiosInterceptor {
     private static instance: AxiosInterceptor;
-    private authService = AuthService.getInstance();
     private axiosService = AxiosService.getInstance();
+    private authEvents = AuthEventService.getInstance();
     private isRefreshing = false;
     private failedQueue: QueueItem[] = [];
     private isInitialized = false;
@@ -25,9 +29,10 @@ export class AxiosInterceptor {
     }
 
     /**
-     * Initialise les intercepteurs Axios pour la gestion automatique des tokens
+     * Initialise les intercepteurs Axios pour la gestion automatique des tokens.
+     * `session` (SessionService de la feature auth) fournit le token valide et coordonne le refresh.
      */
-    public initialize(): void {
+    public initialize(session: Pick<IAuthSession, 'getValidToken' | 'refreshToken'>): void {
         if (this.isInitialized) {
             return;
         }
@@ -43,14 +48,14 @@ export class AxiosInterceptor {
                 }
 
                 try {
-                    const tokenResult = await this.authService.getValidToken();
+                    const tokenResult = await session.getValidToken();
 
                     if (tokenResult.isRight()) {
                         config.headers = config.headers || {};
                         config.headers.Authorization = `Bearer ${tokenResult.value}`;
                     }
                 } catch (error) {
-                    console.warn('Impossible de récupérer un token valide pour la requête:', error);
+                    log.warn('Impossible de récupérer un token valide pour la requête', { error, requestId: config.requestId });
                 }
 
                 return config;
@@ -79,7 +84,7 @@ export class AxiosInterceptor {
                 // Ne pas retry une requête déjà retryée
                 if (originalRequest._retry) {
                     // Si c'est déjà un retry qui échoue, déconnecter l'utilisateur
-                    await this.handleAuthenticationFailure();
+                    this.handleAuthenticationFailure();
                     return Promise.reject(error);
                 }
 
@@ -102,7 +107,7 @@ export class AxiosInterceptor {
                 this.isRefreshing = true;
 
                 try {
-                    const refreshResult = await this.authService.refreshToken();
+                    const refreshResult = await session.refreshToken();
 
                     if (refreshResult.isRight()) {
                         const newToken = refreshResult.value.accessToken;
@@ -119,13 +124,13 @@ export class AxiosInterceptor {
                     } else {
                         // Le refresh a échoué
                         this.processQueue(refreshResult.value, null);
-                        await this.handleAuthenticationFailure();
+                        this.handleAuthenticationFailure();
                         return Promise.reject(refreshResult.value);
                     }
                 } catch (refreshError) {
                     // Erreur lors du refresh
                     this.processQueue(refreshError, null);
-                    await this.handleAuthenticationFailure();
+                    this.handleAuthenticationFailure();
                     return Promise.reject(refreshError);
                 } finally {
                     this.isRefreshing = false;
@@ -155,30 +160,16 @@ export class AxiosInterceptor {
      * Vérifie si l'URL est une route d'authentification
      */
     private isAuthRoute(url: string): boolean {
-        const authRoutes = ['/auth/login', '/auth/refresh', '/auth/logout', '/auth/register'];
+        const authRoutes = ['/auth/login', '/auth/refresh', '/auth/logout', '/auth/register', '/auth/forgot-password', '/auth/reset-password', '/auth/2fa/verify'];
         return authRoutes.some(route => url.includes(route));
     }
 
     /**
-     * Gère l'échec d'authentification (déconnexion et redirection)
+     * Gère l'échec d'authentification : signale l'expiration de la session.
+     * La déconnexion (authStore) et la redirection (router) sont faites par les abonnés.
      */
-    private async handleAuthenticationFailure(): Promise<void> {
-        try {
-            // Déconnecter l'utilisateur
-            await this.authService.logout();
-
-            // Redirection vers la page de login
-            // Éviter la redirection si on est déjà sur la page de login
-            if (!window.location.pathname.includes('/login')) {
-                const currentPath = window.location.pathname + window.location.search;
-                const redirectUrl = encodeURIComponent(currentPath);
-                window.location.href = `/login?redirect=${redirectUrl}`;
-            }
-        } catch (error) {
-            console.error('Erreur lors de la gestion de l\'échec d\'authentification:', error);
-            // En cas d'erreur, forcer la redirection vers login
-            window.location.href = '/login';
-        }
+    private handleAuthenticationFailure(): void {
+        this.authEvents.emit({ type: 'session-expired' });
     }
 
     /**
@@ -1,9 +1,17 @@
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { DEFAULT_RETRY_POLICY, RetryOption, RetryPolicy, getRetryDelay, resolveRetryPolicy } from './retryPolicy';
+import Logger from './logger';
+import { createRequestId } from '../utils/requestId';
 
-// Augmentation du type de configuration Axios pour ajouter des champs de debug
+// Augmentation du type de configuration Axios : nouvelles tentatives et champs de debug
 declare module 'axios' {
+    export interface AxiosRequestConfig {
+        retry?: RetryOption;    // Surcharge de la politique de nouvelles tentatives pour cette requête
+        requestId?: string;     // Identique pour toutes les tentatives d'une même requête, envoyé dans l'en-tête de corrélation
+        attempt?: number;       // Numéro de la tentative (1 pour la première)
+    }
+
     export interface InternalAxiosRequestConfig {
-        requestId?: string;
         startTime?: number;
     }
 }
@@ -14,12 +22,37 @@ export interface IAxiosService {
     put<T = any>(url: string, data?: any, config?: AxiosRequestConfig): Promise<AxiosResponse<T>>;
     patch<T = any>(url: string, data?: any, config?: AxiosRequestConfig): Promise<AxiosResponse<T>>;
     delete<T = any>(url: string, config?: AxiosRequestConfig): Promise<AxiosResponse<T>>;
+    configureRetry(policy: Partial<RetryPolicy>): void;
+    configureRequestIdHeader(header: string | null): void;
+    configureBaseUrl(baseUrl: string): void;
     getAxiosInstance(): AxiosInstance;
 }
 
+// En-tête de corrélation envoyé au serveur et relu sur sa réponse (les logs serveur portent le même identifiant)
+export const DEFAULT_REQUEST_ID_HEADER = 'X-Request-ID';
+
+const log = Logger.getInstance().scope('http');
+
+// Attente interrompue par l'annulation : la tentative suivante est alors rejetée par Axios (CanceledError).
+// L'écouteur est retiré à l'échéance : un signal de longue durée ne les accumule pas d'une requête à l'autre
+const waitBeforeRetry = (delay: number, signal?: AxiosRequestConfig['signal']): Promise<void> =>
+    new Promise((resolve) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            resolve();
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener?.('abort', onAbort);
+            resolve();
+        }, delay);
+        signal?.addEventListener?.('abort', onAbort, { once: true });
+    });
+
 class AxiosService implements IAxiosService {
     private static instance: AxiosService;
     private axiosInstance: AxiosInstance;
+    private retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+    private requestIdHeader: string | null = DEFAULT_REQUEST_ID_HEADER;
 
     private constructor() {
         this.axiosInstance = axios.create({
@@ -48,6 +81,28 @@ class AxiosService implements IAxiosService {
         return this.axiosInstance;
     }
 
+    /**
+     * Remplace la politique de nouvelles tentatives par défaut (surchargeable par requête via `retry`)
+     */
+    public configureRetry(policy: Partial<RetryPolicy>): void {
+        this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...policy };
+    }
+
+    /**
+     * Nom de l'en-tête de corrélation (null : identifiant conservé côté client uniquement).
+     * Un serveur d'une autre origine doit l'autoriser (CORS) et l'exposer pour que son écho soit lu.
+     */
+    public configureRequestIdHeader(header: string | null): void {
+        this.requestIdHeader = header;
+    }
+
+    /**
+     * URL de l'API lue dans la configuration d'exécution (remplace VITE_API_BASE_URL fixée au build)
+     */
+    public configureBaseUrl(baseUrl: string): void {
+        this.axiosInstance.defaults.baseURL = baseUrl;
+    }
+
     /**
      * Configuration des intercepteurs de base
      */
@@ -55,54 +110,121 @@ class AxiosService implements IAxiosService {
         // Intercepteur de requete basique
         this.axiosInstance.interceptors.request.use(
             (config: InternalAxiosRequestConfig) => {
-                // Ajout d'un ID de requete pour le debugging
-                config.requestId = Math.random().toString(36).slice(2, 11);
+                // Ajout d'un ID de requete pour le debugging (conserve entre les tentatives)
+                config.requestId = config.requestId ?? createRequestId();
+                config.attempt = config.attempt ?? 1;
                 config.startTime = Date.now();
+                if (this.requestIdHeader) {
+                    config.headers[this.requestIdHeader] = config.requestId;
+                }
 
                 return config;
             },
             (error) => {
-                console.error('Erreur dans l\'intercepteur de requete:', error);
+                log.error('Erreur dans l\'intercepteur de requete', { error });
                 return Promise.reject(error);
             }
         );
 
-        // Intercepteur de reponse basique
+        // Intercepteur de reponse basique : duree de chaque tentative, reussie ou non
         this.axiosInstance.interceptors.response.use(
-            (response) => response,
+            (response) => {
+                this.logTiming(response.config, response.status);
+                return response;
+            },
             (error) => {
-                // Log des erreurs pour debugging
-                const config = error.config as InternalAxiosRequestConfig | undefined;
-                const duration = Date.now() - (config?.startTime ?? 0);
-                console.error(`Erreur requete ${config?.requestId} apres ${duration}ms:`, {
-                    status: error.response?.status,
-                    message: error.response?.data?.message || error.message,
-                    url: config?.url,
-                });
-
+                // Identifiant reporté sur l'erreur : les DataSources le recopient dans l'AppError (référence support)
+                error.requestId = this.readServerRequestId(error.response?.headers) ?? error.config?.requestId;
+                this.logTiming(error.config, error.response?.status, error);
                 return Promise.reject(error);
             }
         );
     }
 
+    /**
+     * Identifiant renvoyé par le serveur (peut différer de celui envoyé, ex : généré par un proxy)
+     */
+    private readServerRequestId(headers: unknown): string | undefined {
+        if (!this.requestIdHeader || !headers || typeof headers !== 'object') {
+            return undefined;
+        }
+        const name = this.requestIdHeader.toLowerCase();
+        const getter = (headers as { get?: (key: string) => unknown }).get;
+        const value = typeof getter === 'function' ? getter.call(headers, name) : (headers as Record<string, unknown>)[name];
+        return typeof value === 'string' && value !== '' ? value : undefined;
+    }
+
+    /**
+     * Journalise une tentative : info si reussie (conservee en production, voir DEFAULT_SCOPE_LEVELS),
+     * warn sur refus (4xx), error sur echec serveur ou reseau.
+     * Une annulation (requete remplacee) n'est qu'une information de debug.
+     */
+    private logTiming(config: InternalAxiosRequestConfig | undefined, status?: number, error?: any): void {
+        const method = config?.method?.toUpperCase() ?? 'GET';
+        const durationMs = Date.now() - (config?.startTime ?? Date.now());
+        const context = {
+            requestId: error?.requestId ?? config?.requestId,
+            attempt: config?.attempt ?? 1,
+            method,
+            url: config?.url,
+            status,
+            durationMs,
+        };
+        const message = `${method} ${config?.url} ${status ?? 'sans reponse'} en ${durationMs}ms`;
+
+        if (!error) {
+            log.info(message, context);
+        } else if (error.name === 'CanceledError') {
+            log.debug(`${method} ${config?.url} annulee apres ${durationMs}ms`, context);
+        } else if (status === undefined || status >= 500) {
+            log.error(message, { ...context, error, serverMessage: error.response?.data?.message });
+        } else {
+            log.warn(message, { ...context, serverMessage: error.response?.data?.message });
+        }
+    }
+
     public async get<T = any>(url: string, config?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
-        return this.axiosInstance.get<T>(url, config);
+        return this.request<T>({ ...config, method: 'get', url });
     }
 
     public async post<T = any>(url: string, data?: any, config?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
-        return this.axiosInstance.post<T>(url, data, config);
+        return this.request<T>({ ...config, method: 'post', url, data });
     }
 
     public async put<T = any>(url: string, data?: any, config?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
-        return this.axiosInstance.put<T>(url, data, config);
+        return this.request<T>({ ...config, method: 'put', url, data });
     }
 
     public async patch<T = any>(url: string, data?: any, config?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
-        return this.axiosInstance.patch<T>(url, data, config);
+        return this.request<T>({ ...config, method: 'patch', url, data });
     }
 
     public async delete<T = any>(url: string, config?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
-        return this.axiosInstance.delete<T>(url, config);
+        return this.request<T>({ ...config, method: 'delete', url });
+    }
+
+    /**
+     * Envoie la requête et la rejoue sur erreur transitoire selon la politique de nouvelles tentatives.
+     * Chaque tentative traverse toute la chaîne d'intercepteurs : le 401 (refresh puis rejeu unique)
+     * est traité par AxiosInterceptor à l'intérieur d'une tentative et n'est jamais rejoué ici.
+     */
+    private async request<T>(config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+        const policy = resolveRetryPolicy(this.retryPolicy, config.method, config.retry);
+        const requestId = config.requestId ?? createRequestId();
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await this.axiosInstance.request<T>({ ...config, requestId, attempt });
+            } catch (error) {
+                const delay = getRetryDelay(error, attempt, policy);
+                if (delay === null || config.signal?.aborted) {
+                    throw error;
+                }
+
+                log.warn(`Requete ${requestId} : tentative ${attempt + 1} dans ${delay}ms`, { requestId, attempt: attempt + 1, delayMs: delay });
+                await waitBeforeRetry(delay, config.signal);
+            }
+        }
     }
 }
 
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ConfigService } from './configService';
+import { ValidationError } from '../types/AppError';
+
+// --- Helpers ---
+
+const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+// --- Tests ---
+
+describe('ConfigService', () => {
+    const configService = ConfigService.getInstance();
+
+    beforeEach(() => {
+        vi.stubEnv('VITE_API_BASE_URL', 'http://build.example.com');
+        vi.stubEnv('VITE_APP_NAME', 'Build');
+        vi.stubEnv('VITE_TOKEN_STORAGE', 'session');
+    });
+
+    afterEach(() => {
+        delete window.__APP_CONFIG__;
+        vi.unstubAllEnvs();
+        vi.unstubAllGlobals();
+    });
+
+    it('fusionne /config.json sur les valeurs du build', async () => {
+        const fetchMock = vi.fn().mockResolvedValue(jsonResponse({
+            apiBaseUrl: 'https://api.example.com',
+            features: { registration: false },
+            auth: { idleTimeoutMinutes: 15 },
+        }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        const config = (await configService.load()).unwrap();
+
+        expect(fetchMock).toHaveBeenCalledWith('/config.json', expect.objectContaining({ cache: 'no-store' }));
+        expect(config).toMatchObject({
+            apiBaseUrl: 'https://api.example.com',
+            appName: 'Build',
+            features: { registration: false, passwordReset: true },
+            auth: { tokenStorage: 'session', idleTimeoutMinutes: 15, providers: [] },
+        });
+        expect(configService.isFeatureEnabled('registration')).toBe(false);
+    });
+
+    it('utilise les valeurs du build sans /config.json et prefere window.__APP_CONFIG__', async () => {
+        vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('', { status: 404 })));
+
+        expect((await configService.load()).unwrap().apiBaseUrl).toBe('http://build.example.com');
+
+        window.__APP_CONFIG__ = { appName: 'Injecte' };
+        expect((await configService.load()).unwrap().appName).toBe('Injecte');
+        expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('refuse une configuration invalide en listant les champs en cause', async () => {
+        vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse({
+            apiBaseUrl: 'pas-une-url',
+            auth: { tokenStorage: 'cookie' },
+        })));
+
+        const error = (await configService.load()).value;
+
+        expect(error).toBeInstanceOf(ValidationError);
+        expect((error as ValidationError).issues.map((issue) => issue.path)).toEqual(['apiBaseUrl', 'auth.tokenStorage']);
+    });
+});
@@ -0,0 +1,210 @@
+import { Either, left, right } from "@sweet-monads/either";
+import { z } from "zod";
+import { NetworkError, ServerError, TypedAppError, ValidationError } from "../types/AppError";
+import { TOKEN_STORAGE_STRATEGIES, TokenStorageStrategy } from "./tokenStorage";
+import { zodIssues } from "../utils/errorMapper";
+import { OidcProviderConfigSchema } from "../types/ConfigTypes";
+import Logger from "./logger";
+
+const log = Logger.getInstance().scope("config");
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Clé publique / JWKS : chaîne (PEM ou JSON) ou objet JWK
+const JsonWebKeySchema = z.custom<JsonWebKey>(
+    (value) => isPlainObject(value) && typeof value.kty === 'string',
+    'Clé JWK invalide (kty manquant)'
+);
+
+/**
+ * Fonctionnalités activables par environnement. Les toggles non listés sont acceptés (booléens).
+ */
+const FeatureTogglesSchema = z.object({
+    registration: z.boolean().default(true),     // Inscription en libre-service (/register)
+    passwordReset: z.boolean().default(true),    // Mot de passe oublié (/forgot-password)
+}).catchall(z.boolean());
+
+/**
+ * Configuration de l'application, identique pour toutes les images : chaque environnement fournit
+ * ses valeurs à l'exécution. Tous les champs ont une valeur par défaut.
+ */
+export const AppConfigSchema = z.object({
+    apiBaseUrl: z.string().url().default('http://localhost:3000'),
+    appName: z.string().min(1).default('MonApp'),
+    appVersion: z.string().min(1).default('0.0.0'),
+    environment: z.string().min(1).default('development'),
+    features: FeatureTogglesSchema.prefault({}),
+    auth: z.object({
+        tokenStorage: z.enum(TOKEN_STORAGE_STRATEGIES as [TokenStorageStrategy, ...TokenStorageStrategy[]]).default('local'),
+        issuer: z.string().min(1).optional(),
+        audience: z.string().min(1).optional(),
+        publicKey: z.union([z.string().min(1), JsonWebKeySchema]).optional(),
+        jwks: z.union([z.string().min(1), z.object({ keys: z.array(JsonWebKeySchema) })]).optional(),
+        providers: z.array(OidcProviderConfigSchema).default([]),
+        idleTimeoutMinutes: z.number().min(0).default(0),           // 0 : désactivée
+        idleWarningSeconds: z.number().positive().default(60),
+    }).prefault({}),
+});
+
+export type AppConfig = z.infer<typeof AppConfigSchema>;
+export type FeatureToggle = keyof AppConfig['features'];
+
+// Configuration utilisée avant load() (tests, composants rendus hors application)
+const DEFAULT_APP_CONFIG: AppConfig = AppConfigSchema.parse({});
+
+export const RUNTIME_CONFIG_URL = '/config.json';
+
+export interface IConfigService {
+    load(): Promise<Either<TypedAppError, AppConfig>>;
+    get(): AppConfig;
+    isFeatureEnabled(feature: FeatureToggle): boolean;
+}
+
+// --- Sources ---
+
+/**
+ * Fusion récursive des objets : `override` l'emporte, les tableaux sont remplacés
+ */
+const merge = (base: Record<string, unknown>, override: Record<string, unknown>): Record<string, unknown> =>
+    Object.entries(override).reduce((result, [key, value]) => ({
+        ...result,
+        [key]: isPlainObject(value) && isPlainObject(result[key])
+            ? merge(result[key] as Record<string, unknown>, value)
+            : value,
+    }), base);
+
+const withoutEmpty = (values: Record<string, unknown>): Record<string, unknown> =>
+    Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined && value !== ''));
+
+const parseJsonValue = (value: string | undefined): unknown => {
+    if (!value) {
+        return undefined;
+    }
+    try {
+        return JSON.parse(value);
+    } catch {
+        return value;       // Rejeté par le schéma, avec le chemin de la variable en cause
+    }
+};
+
+const parseNumber = (value: string | undefined): number | string | undefined =>
+    value === undefined || value === '' || Number.isNaN(Number(value)) ? value : Number(value);
+
+/**
+ * Valeurs fixées au build (VITE_*), utilisées en l'absence de configuration d'exécution
+ */
+const configFromEnv = (): Record<string, unknown> => {
+    const env = import.meta.env;
+    const features = parseJsonValue(env.VITE_FEATURES);
+
+    return withoutEmpty({
+        apiBaseUrl: env.VITE_API_BASE_URL,
+        appName: env.VITE_APP_NAME,
+        appVersion: env.VITE_APP_VERSION,
+        environment: env.VITE_ENV,
+        features,
+        auth: withoutEmpty({
+            tokenStorage: env.VITE_TOKEN_STORAGE,
+            issuer: env.VITE_JWT_ISSUER,
+            audience: env.VITE_JWT_AUDIENCE,
+            publicKey: env.VITE_JWT_PUBLIC_KEY,
+            jwks: env.VITE_JWT_JWKS,
+            providers: parseJsonValue(env.VITE_OIDC_PROVIDERS),
+            idleTimeoutMinutes: parseNumber(env.VITE_IDLE_TIMEOUT_MINUTES),
+            idleWarningSeconds: parseNumber(env.VITE_IDLE_WARNING_SECONDS),
+        }),
+    });
+};
+
+/**
+ * Configuration chargée au démarrage, avant initializeApp().
+ * Ordre de priorité : `window.__APP_CONFIG__` (script injecté par l'hébergement), puis `/config.json`,
+ * puis les valeurs VITE_* du build. Un `/config.json` absent (404) n'est pas une erreur ;
+ * un fichier illisible ou une valeur invalide l'est : l'application affiche l'écran d'erreur de démarrage.
+ */
+export class ConfigService implements IConfigService {
+    private static instance: ConfigService;
+    private config: AppConfig | null = null;
+
+    private constructor() { }
+
+    public static getInstance(): ConfigService {
+        if (!ConfigService.instance) {
+            ConfigService.instance = new ConfigService();
+        }
+        return ConfigService.instance;
+    }
+
+    public async load(): Promise<Either<TypedAppError, AppConfig>> {
+        const runtime = await this.readRuntimeConfig();
+        if (runtime.isLeft()) {
+            return left(runtime.value);
+        }
+
+        const source = runtime.value === null ? 'VITE_*' : 'configuration d\'exécution';
+        const result = AppConfigSchema.safeParse(merge(configFromEnv(), runtime.value ?? {}));
+        if (!result.success) {
+            return left(new ValidationError(
+                `Configuration invalide (${source})`,
+                zodIssues(result.error),
+                { zodErrors: result.error.issues }
+            ));
+        }
+
+        this.config = result.data;
+        log.info('Configuration chargee', { source, environment: result.data.environment });
+        return right(result.data);
+    }
+
+    public get(): AppConfig {
+        return this.config ?? DEFAULT_APP_CONFIG;
+    }
+
+    public isFeatureEnabled(feature: FeatureToggle): boolean {
+        return this.get().features[feature] ?? false;
+    }
+
+    /**
+     * Objet de configuration d'exécution, null s'il n'y en a pas
+     */
+    private async readRuntimeConfig(): Promise<Either<TypedAppError, Record<string, unknown> | null>> {
+        const injected = window.__APP_CONFIG__;
+        if (injected !== undefined) {
+            return isPlainObject(injected)
+                ? right(injected)
+                : left(new ValidationError('Configuration invalide : window.__APP_CONFIG__ doit être un objet'));
+        }
+
+        let response: Response;
+        try {
+            // Jamais de cache : un changement de configuration s'applique au prochain chargement
+            response = await fetch(RUNTIME_CONFIG_URL, { cache: 'no-store', headers: { Accept: 'application/json' } });
+        } catch (error) {
+            return left(new NetworkError(`Configuration injoignable (${RUNTIME_CONFIG_URL})`, error));
+        }
+
+        if (response.status === 404) {
+            return right(null);
+        }
+        if (!response.ok) {
+            return left(new ServerError(`Configuration indisponible (${RUNTIME_CONFIG_URL}, HTTP ${response.status})`, response.status));
+        }
+
+        // Serveur de développement : une URL inconnue renvoie index.html
+        if (!(response.headers.get('content-type') ?? '').includes('json')) {
+            return right(null);
+        }
+
+        try {
+            const body: unknown = await response.json();
+            return isPlainObject(body)
+                ? right(body)
+                : left(new ValidationError(`Configuration invalide : ${RUNTIME_CONFIG_URL} doit contenir un objet JSON`));
+        } catch (error) {
+            return left(new ValidationError(`Configuration invalide : ${RUNTIME_CONFIG_URL} n'est pas un JSON valide`, [], error));
+        }
+    }
+}
+
+export default ConfigService;
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { IdleService } from './idleService';
+
+// --- Tests ---
+
+describe('IdleService', () => {
+    const idleService = IdleService.getInstance();
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        idleService.configure({ timeoutMs: 60_000, warningMs: 10_000 });
+        idleService.start();
+    });
+
+    afterEach(() => {
+        idleService.stop();
+        vi.useRealTimers();
+    });
+
+    it('reste actif tant que le delai d avertissement n est pas atteint', () => {
+        vi.advanceTimersByTime(49_000);
+        expect(idleService.getSnapshot().status).toBe('active');
+    });
+
+    it('passe en avertissement avec le decompte restant', () => {
+        vi.advanceTimersByTime(52_000);
+
+        expect(idleService.getSnapshot()).toEqual({ status: 'warning', remainingSeconds: 8 });
+    });
+
+    it('expire apres le delai complet d inactivite', () => {
+        const listener = vi.fn();
+        const unsubscribe = idleService.subscribe(listener);
+
+        vi.advanceTimersByTime(60_000);
+
+        expect(idleService.getSnapshot().status).toBe('timed-out');
+        expect(listener).toHaveBeenLastCalledWith({ status: 'timed-out', remainingSeconds: 0 });
+        unsubscribe();
+    });
+
+    it('l activite reinitialise le delai', () => {
+        vi.advanceTimersByTime(45_000);
+        window.dispatchEvent(new Event('keydown'));
+        vi.advanceTimersByTime(45_000);
+
+        expect(idleService.getSnapshot().status).toBe('active');
+    });
+
+    it('ignore l activite passive pendant l avertissement, sauf "rester connecte"', () => {
+        vi.advanceTimersByTime(55_000);
+        window.dispatchEvent(new Event('pointermove'));
+        expect(idleService.getSnapshot().status).toBe('warning');
+
+        idleService.staySignedIn();
+        expect(idleService.getSnapshot().status).toBe('active');
+    });
+});
@@ -0,0 +1,190 @@
+import AuthSyncService from "./authSyncService";
+
+export interface IdleTimeoutConfig {
+    timeoutMs: number;   // Inactivite totale avant deconnexion
+    warningMs: number;   // Duree de l'avertissement avant la deconnexion
+}
+
+export type IdleStatus = 'active' | 'warning' | 'timed-out';
+
+export interface IdleSnapshot {
+    status: IdleStatus;
+    remainingSeconds: number;
+}
+
+type IdleListener = (snapshot: IdleSnapshot) => void;
+
+const ACTIVITY_EVENTS: readonly (keyof WindowEventMap)[] = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'];
+
+// Limite la frequence de diffusion de l'activite aux autres onglets
+const ACTIVITY_BROADCAST_THROTTLE_MS = 5000;
+const TICK_INTERVAL_MS = 1000;
+
+/**
+ * Detecte l'inactivite de l'utilisateur (pointeur, clavier, retour sur l'onglet).
+ * L'activite est partagee entre les onglets via AuthSyncService : l'utilisateur
+ * n'est considere inactif que s'il l'est dans tous ses onglets.
+ */
+export class IdleService {
+    private static instance: IdleService;
+    private authSync = AuthSyncService.getInstance();
+
+    private config: IdleTimeoutConfig | null = null;
+    private lastActivityAt = Date.now();
+    private lastBroadcastAt = 0;
+    private tickId: ReturnType<typeof setInterval> | null = null;
+    private isRunning = false;
+    private snapshot: IdleSnapshot = { status: 'active', remainingSeconds: 0 };
+    private listeners = new Set<IdleListener>();
+
+    private constructor() {
+        this.authSync.subscribe((event) => {
+            if (event.type === 'activity') {
+                this.registerActivity(event.at, false);
+            }
+        });
+    }
+
+    public static getInstance(): IdleService {
+        if (!IdleService.instance) {
+            IdleService.instance = new IdleService();
+        }
+        return IdleService.instance;
+    }
+
+    /**
+     * Configure le delai d'inactivite (null pour desactiver)
+     */
+    public configure(config: IdleTimeoutConfig | null): void {
+        this.config = config && config.timeoutMs > 0 ? config : null;
+        if (this.isRunning) {
+            this.stop();
+            this.start();
+        }
+    }
+
+    public isEnabled(): boolean {
+        return this.config !== null;
+    }
+
+    /**
+     * Commence le suivi de l'activite (sans effet si desactive)
+     */
+    public start(): void {
+        if (this.isRunning || !this.config) {
+            return;
+        }
+
+        ACTIVITY_EVENTS.forEach((type) => window.addEventListener(type, this.handleActivity, { passive: true }));
+        document.addEventListener('visibilitychange', this.handleVisibilityChange);
+
+        this.isRunning = true;
+        this.lastActivityAt = Date.now();
+        this.registerActivity(this.lastActivityAt, true);
+        this.tickId = setInterval(() => this.tick(), TICK_INTERVAL_MS);
+    }
+
+    /**
+     * Arrete le suivi de l'activite
+     */
+    public stop(): void {
+        if (!this.isRunning) {
+            return;
+        }
+
+        ACTIVITY_EVENTS.forEach((type) => window.removeEventListener(type, this.handleActivity));
+        document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+
+        if (this.tickId !== null) {
+            clearInterval(this.tickId);
+            this.tickId = null;
+        }
+
+        this.isRunning = false;
+        this.emit({ status: 'active', remainingSeconds: 0 });
+    }
+
+    /**
+     * Action explicite "rester connecte" : reinitialise le delai dans tous les onglets
+     */
+    public staySignedIn(): void {
+        this.registerActivity(Date.now(), true, true);
+    }
+
+    public getSnapshot(): IdleSnapshot {
+        return this.snapshot;
+    }
+
+    public subscribe(listener: IdleListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private handleActivity = (): void => {
+        // Pendant l'avertissement, seule l'action explicite "rester connecte" prolonge la session
+        if (this.snapshot.status !== 'active') {
+            return;
+        }
+        this.registerActivity(Date.now(), true);
+    };
+
+    private handleVisibilityChange = (): void => {
+        if (!document.hidden) {
+            this.handleActivity();
+        }
+    };
+
+    private registerActivity(at: number, broadcast: boolean, force = false): void {
+        if (!this.isRunning || this.snapshot.status === 'timed-out') {
+            return;
+        }
+
+        this.lastActivityAt = Math.max(this.lastActivityAt, at);
+
+        if (broadcast && (force || at - this.lastBroadcastAt >= ACTIVITY_BROADCAST_THROTTLE_MS)) {
+            this.lastBroadcastAt = at;
+            this.authSync.publish({ type: 'activity', at });
+        }
+
+        this.tick();
+    }
+
+    private tick(): void {
+        if (!this.config) {
+            return;
+        }
+
+        const idleFor = Date.now() - this.lastActivityAt;
+        const remainingMs = this.config.timeoutMs - idleFor;
+
+        if (remainingMs <= 0) {
+            this.emit({ status: 'timed-out', remainingSeconds: 0 });
+            return;
+        }
+
+        if (remainingMs <= this.config.warningMs) {
+            this.emit({ status: 'warning', remainingSeconds: Math.ceil(remainingMs / 1000) });
+            return;
+        }
+
+        this.emit({ status: 'active', remainingSeconds: Math.ceil(remainingMs / 1000) });
+    }
+
+    private emit(snapshot: IdleSnapshot): void {
+        const previous = this.snapshot;
+        this.snapshot = snapshot;
+
+        // Hors avertissement, le decompte n'interesse personne : eviter un re-render par seconde
+        const isSameState = previous.status === snapshot.status
+            && (snapshot.status !== 'warning' || previous.remainingSeconds === snapshot.remainingSeconds);
+        if (isSameState) {
+            return;
+        }
+
+        this.listeners.forEach((listener) => listener(snapshot));
+    }
+}
+
+export default IdleService;
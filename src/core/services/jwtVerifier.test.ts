@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { JwtSignatureVerifier } from './jwtVerifier';
+
+// --- Helpers ---
+
+const encodeBase64Url = (bytes: Uint8Array): string => {
+    const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join('');
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const encodeJson = (value: unknown) => encodeBase64Url(new TextEncoder().encode(JSON.stringify(value)));
+
+const signToken = async (privateKey: CryptoKey, header: Record<string, unknown>, payload: Record<string, unknown>) => {
+    const signingInput = `${encodeJson(header)}.${encodeJson(payload)}`;
+    const signature = await crypto.subtle.sign(
+        { name: 'ECDSA', hash: 'SHA-256' },
+        privateKey,
+        new TextEncoder().encode(signingInput)
+    );
+    return `${signingInput}.${encodeBase64Url(new Uint8Array(signature))}`;
+};
+
+const payload = { userId: 'user-1', email: 'jean@example.com', role: 'USER', iat: 0, exp: 0 };
+
+// --- Tests ---
+
+describe('JwtSignatureVerifier', () => {
+    let keyPair: CryptoKeyPair;
+    let publicJwk: JsonWebKey;
+
+    beforeAll(async () => {
+        keyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+        publicJwk = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+    });
+
+    it('accepte un token signe par la cle publique configuree', async () => {
+        const token = await signToken(keyPair.privateKey, { alg: 'ES256' }, payload);
+        const verifier = new JwtSignatureVerifier({ publicKey: JSON.stringify(publicJwk) });
+
+        expect((await verifier.verify(token)).isRight()).toBe(true);
+    });
+
+    it('rejette un token dont le payload a ete modifie', async () => {
+        const token = await signToken(keyPair.privateKey, { alg: 'ES256' }, payload);
+        const [header, , signature] = token.split('.');
+        const tampered = `${header}.${encodeJson({ ...payload, role: 'ADMIN' })}.${signature}`;
+        const verifier = new JwtSignatureVerifier({ publicKey: publicJwk });
+
+        const result = await verifier.verify(tampered);
+
+        expect(result.isLeft()).toBe(true);
+        if (result.isLeft()) {
+            expect(result.value.details).toBe('token_invalid_signature');
+        }
+    });
+
+    it('selectionne la cle du JWKS par kid', async () => {
+        const token = await signToken(keyPair.privateKey, { alg: 'ES256', kid: 'key-2' }, payload);
+        const other = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+        const otherJwk = await crypto.subtle.exportKey('jwk', other.publicKey);
+        const verifier = new JwtSignatureVerifier({
+            jwks: JSON.stringify({ keys: [{ ...otherJwk, kid: 'key-1' }, { ...publicJwk, kid: 'key-2' }] }),
+        });
+
+        expect((await verifier.verify(token)).isRight()).toBe(true);
+    });
+
+    it('refuse les algorithmes non asymetriques (none, HS256)', async () => {
+        const verifier = new JwtSignatureVerifier({ publicKey: publicJwk });
+
+        for (const alg of ['none', 'HS256']) {
+            const token = `${encodeJson({ alg })}.${encodeJson(payload)}.`;
+            const result = await verifier.verify(token);
+            expect(result.isLeft()).toBe(true);
+        }
+    });
+});
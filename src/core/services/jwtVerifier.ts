@@ -0,0 +1,162 @@
+import { Either, left, right } from "@sweet-monads/either";
+import { TypedAppError, UnauthorizedError, UnknownError } from "../types/AppError";
+import { JwtHeader, parseJwt } from "../utils/jwt";
+
+/**
+ * Document JWKS (RFC 7517), fourni localement (objet ou JSON)
+ */
+export interface JwksDocument {
+    keys: JsonWebKey[];
+}
+
+/**
+ * Clés de vérification de signature.
+ * - publicKey : clé publique PEM (SPKI) ou JWK (objet ou JSON)
+ * - jwks : jeu de clés, sélectionnées par `kid` / `alg`
+ */
+export interface JwtVerificationKeys {
+    publicKey?: string | JsonWebKey;
+    jwks?: string | JwksDocument;
+}
+
+type JwkWithMetadata = JsonWebKey & { kid?: string; use?: string };
+
+interface AlgorithmParams {
+    importParams: RsaHashedImportParams | EcKeyImportParams | Algorithm;
+    verifyParams: AlgorithmIdentifier | RsaPssParams | EcdsaParams;
+}
+
+// Algorithmes asymétriques supportés (les secrets HMAC n'ont rien à faire côté client)
+const ALGORITHMS: Record<string, AlgorithmParams> = {
+    RS256: { importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, verifyParams: 'RSASSA-PKCS1-v1_5' },
+    RS384: { importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-384' }, verifyParams: 'RSASSA-PKCS1-v1_5' },
+    RS512: { importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-512' }, verifyParams: 'RSASSA-PKCS1-v1_5' },
+    PS256: { importParams: { name: 'RSA-PSS', hash: 'SHA-256' }, verifyParams: { name: 'RSA-PSS', saltLength: 32 } },
+    PS384: { importParams: { name: 'RSA-PSS', hash: 'SHA-384' }, verifyParams: { name: 'RSA-PSS', saltLength: 48 } },
+    PS512: { importParams: { name: 'RSA-PSS', hash: 'SHA-512' }, verifyParams: { name: 'RSA-PSS', saltLength: 64 } },
+    ES256: { importParams: { name: 'ECDSA', namedCurve: 'P-256' }, verifyParams: { name: 'ECDSA', hash: 'SHA-256' } },
+    ES384: { importParams: { name: 'ECDSA', namedCurve: 'P-384' }, verifyParams: { name: 'ECDSA', hash: 'SHA-384' } },
+    ES512: { importParams: { name: 'ECDSA', namedCurve: 'P-521' }, verifyParams: { name: 'ECDSA', hash: 'SHA-512' } },
+    EdDSA: { importParams: { name: 'Ed25519' }, verifyParams: 'Ed25519' },
+};
+
+/**
+ * Vérifie la signature des JWT avec WebCrypto.
+ * Les clés importées sont mises en cache par algorithme et `kid`.
+ */
+export class JwtSignatureVerifier {
+    private readonly publicKey: string | JsonWebKey | undefined;
+    private readonly jwks: string | JwksDocument | undefined;
+    private keyCache = new Map<string, Promise<CryptoKey>>();
+
+    constructor(keys: JwtVerificationKeys) {
+        this.publicKey = keys.publicKey;
+        this.jwks = keys.jwks;
+    }
+
+    /**
+     * Vérifie la signature d'un token. Retourne une erreur explicite en cas d'échec.
+     */
+    public async verify(token: string): Promise<Either<TypedAppError, true>> {
+        const jwt = parseJwt(token);
+        if (!jwt) {
+            return left(new UnauthorizedError("Format de token invalide", "token_malformed"));
+        }
+
+        const algorithm = ALGORITHMS[jwt.header.alg];
+        if (!algorithm) {
+            return left(new UnauthorizedError(`Algorithme de signature non supporté : ${jwt.header.alg}`, "token_unsupported_alg"));
+        }
+
+        if (typeof crypto === 'undefined' || !crypto.subtle) {
+            return left(new UnknownError("WebCrypto indisponible, signature non vérifiable", "webcrypto_unavailable"));
+        }
+
+        try {
+            const key = await this.getKey(jwt.header, algorithm);
+            if (!key) {
+                return left(new UnauthorizedError("Aucune clé publique ne correspond au token", "token_key_not_found"));
+            }
+
+            const isValid = await crypto.subtle.verify(
+                algorithm.verifyParams,
+                key,
+                jwt.signature as BufferSource,
+                new TextEncoder().encode(jwt.signingInput)
+            );
+
+            return isValid
+                ? right(true)
+                : left(new UnauthorizedError("Signature du token invalide", "token_invalid_signature"));
+        } catch (error) {
+            return left(new UnauthorizedError("Erreur lors de la vérification de la signature", error));
+        }
+    }
+
+    private getKey(header: JwtHeader, algorithm: AlgorithmParams): Promise<CryptoKey | null> {
+        const source = this.selectKeySource(header);
+        if (!source) {
+            return Promise.resolve(null);
+        }
+
+        const cacheKey = `${header.alg}:${source.id}`;
+        let key = this.keyCache.get(cacheKey);
+        if (!key) {
+            key = this.importKey(source.key, algorithm);
+            // Ne pas garder en cache une clé dont l'import a échoué
+            key.catch(() => this.keyCache.delete(cacheKey));
+            this.keyCache.set(cacheKey, key);
+        }
+        return key;
+    }
+
+    private selectKeySource(header: JwtHeader): { id: string; key: string | JsonWebKey } | null {
+        if (this.jwks) {
+            const document: JwksDocument = typeof this.jwks === 'string' ? JSON.parse(this.jwks) : this.jwks;
+            const keys = (document.keys ?? []) as JwkWithMetadata[];
+            const jwk = keys.find((candidate) =>
+                (!candidate.use || candidate.use === 'sig')
+                && (!candidate.alg || candidate.alg === header.alg)
+                && (!header.kid || candidate.kid === header.kid)
+            );
+
+            if (jwk) {
+                return { id: `jwks:${jwk.kid ?? keys.indexOf(jwk)}`, key: jwk };
+            }
+        }
+
+        if (this.publicKey) {
+            return { id: 'publicKey', key: this.publicKey };
+        }
+
+        return null;
+    }
+
+    private importKey(source: string | JsonWebKey, algorithm: AlgorithmParams): Promise<CryptoKey> {
+        if (typeof source !== 'string') {
+            return crypto.subtle.importKey('jwk', source, algorithm.importParams, false, ['verify']);
+        }
+
+        const trimmed = source.trim();
+        if (trimmed.startsWith('{')) {
+            return crypto.subtle.importKey('jwk', JSON.parse(trimmed), algorithm.importParams, false, ['verify']);
+        }
+
+        return crypto.subtle.importKey('spki', pemToDer(trimmed), algorithm.importParams, false, ['verify']);
+    }
+}
+
+/**
+ * Convertit une clé PEM ("-----BEGIN PUBLIC KEY-----") en DER
+ */
+const pemToDer = (pem: string): ArrayBuffer => {
+    const body = pem
+        .replace(/-----(BEGIN|END) PUBLIC KEY-----/g, '')
+        .replace(/\\n/g, '')   // Variables d'environnement sur une seule ligne
+        .replace(/\s+/g, '');
+    const binary = atob(body);
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    return bytes.buffer;
+};
+
+export default JwtSignatureVerifier;
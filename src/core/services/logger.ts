@@ -0,0 +1,328 @@
+/**
+ * Niveaux de journalisation, du plus verbeux au plus grave. `silent` coupe tout.
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogLevelSetting = LogLevel | 'silent';
+
+export const LOG_LEVELS: readonly LogLevelSetting[] = ['debug', 'info', 'warn', 'error', 'silent'];
+
+const LEVEL_WEIGHTS: Record<LogLevelSetting, number> = {
+    debug: 10,
+    info: 20,
+    warn: 30,
+    error: 40,
+    silent: 100,
+};
+
+/**
+ * Contexte structuré d'une entrée. `route` et `userId` sont ajoutés par le fournisseur de contexte
+ * configuré au démarrage, les autres champs par l'appelant.
+ */
+export interface LogContext {
+    scope?: string;         // Service émetteur (ex : 'http', 'queryCache')
+    requestId?: string;     // Identique pour toutes les tentatives d'une requête HTTP
+    route?: string;
+    userId?: string;
+    [key: string]: unknown;
+}
+
+export interface LogEntry {
+    level: LogLevel;
+    message: string;
+    timestamp: string;      // ISO 8601
+    context: LogContext;
+}
+
+/**
+ * Destination des entrées (console, collecteur HTTP, mémoire). Une erreur d'un sink n'interrompt jamais l'appelant.
+ */
+export interface LogSink {
+    write(entry: LogEntry): void;
+    flush?(): void;
+}
+
+export type LogContextProvider = () => LogContext;
+
+export interface LoggerOptions {
+    level?: LogLevelSetting;
+    scopeLevels?: Record<string, LogLevelSetting>;   // Niveau minimal par scope, prioritaire sur `level`
+    sinks?: LogSink[];
+    context?: LogContextProvider;
+}
+
+export interface ScopedLogger {
+    debug(message: string, context?: LogContext): void;
+    info(message: string, context?: LogContext): void;
+    warn(message: string, context?: LogContext): void;
+    error(message: string, context?: LogContext): void;
+}
+
+export interface ILogger extends ScopedLogger {
+    configure(options: LoggerOptions): void;
+    getLevel(): LogLevelSetting;
+    scope(name: string): ScopedLogger;
+    flush(): void;
+}
+
+export const isLogLevel = (value: unknown): value is LogLevelSetting =>
+    typeof value === 'string' && (LOG_LEVELS as readonly string[]).includes(value);
+
+// Production : avertissements et erreurs uniquement
+export const DEFAULT_LOG_LEVEL: LogLevelSetting = import.meta.env.PROD ? 'warn' : 'debug';
+
+// Production : les temps des requêtes HTTP réussies (info) sont conservés malgré le niveau global
+export const DEFAULT_SCOPE_LEVELS: Record<string, LogLevelSetting> = import.meta.env.PROD ? { http: 'info' } : {};
+
+// --- Masquage des secrets ---
+
+const REDACTED = '[REDACTED]';
+const SENSITIVE_KEY = /token|password|secret|authorization|cookie|credential|verifier|recovery/i;
+const SECRET_PATTERNS = [
+    /eyJ[\w-]+\.[\w-]+\.[\w-]*/g,   // JWT
+    /Bearer\s+[\w.~+/=-]+/gi,
+];
+const MAX_DEPTH = 5;
+
+const redactString = (value: string): string =>
+    SECRET_PATTERNS.reduce((result, pattern) => result.replace(pattern, REDACTED), value);
+
+/**
+ * Erreur réduite aux champs utiles : jamais la config Axios (en-tête Authorization) ni le corps de requête
+ */
+const serializeError = (error: Error): Record<string, unknown> => {
+    const { code, response } = error as Error & { code?: unknown; response?: { status?: number } };
+    return {
+        name: error.name,
+        message: redactString(error.message),
+        ...(code !== undefined && { code }),
+        ...(response?.status !== undefined && { status: response.status }),
+    };
+};
+
+/**
+ * Copie du contexte où les champs sensibles (tokens, mots de passe, codes de récupération)
+ * et les JWT / Bearer présents dans les chaînes sont masqués
+ */
+export const redact = (value: unknown, depth = 0, seen = new WeakSet<object>()): unknown => {
+    if (typeof value === 'string') {
+        return redactString(value);
+    }
+    if (value instanceof Error) {
+        return serializeError(value);
+    }
+    if (value === null || typeof value !== 'object') {
+        return value;
+    }
+    if (depth >= MAX_DEPTH || seen.has(value)) {
+        return '[...]';
+    }
+    seen.add(value);
+
+    if (Array.isArray(value)) {
+        return value.map((item) => redact(item, depth + 1, seen));
+    }
+    return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+        [key, SENSITIVE_KEY.test(key) ? REDACTED : redact(item, depth + 1, seen)]
+    ));
+};
+
+// --- Sinks ---
+
+/**
+ * Console du navigateur (développement)
+ */
+export class ConsoleLogSink implements LogSink {
+    public write(entry: LogEntry): void {
+        const { scope, ...context } = entry.context;
+        const prefix = scope ? `[${scope}] ` : '';
+        console[entry.level](`${prefix}${entry.message}`, context);
+    }
+}
+
+/**
+ * Entrées conservées en mémoire (tests, diagnostic)
+ */
+export class MemoryLogSink implements LogSink {
+    public entries: LogEntry[] = [];
+
+    public write(entry: LogEntry): void {
+        this.entries.push(entry);
+    }
+
+    public clear(): void {
+        this.entries = [];
+    }
+}
+
+export interface BeaconLogSinkOptions {
+    batchSize?: number;         // Envoi dès que le lot atteint cette taille (défaut : 20)
+    flushIntervalMs?: number;   // Envoi au plus tard après ce délai (défaut : 5 s)
+}
+
+/**
+ * Envoi par lots à un collecteur HTTP. Passe par `navigator.sendBeacon` (ou `fetch` keepalive),
+ * jamais par AxiosService : les requêtes de télémétrie ne sont ni journalisées ni authentifiées.
+ * Le lot en attente est envoyé quand la page est masquée ou fermée.
+ */
+export class BeaconLogSink implements LogSink {
+    private buffer: LogEntry[] = [];
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private readonly batchSize: number;
+    private readonly flushIntervalMs: number;
+
+    constructor(private readonly endpoint: string, options: BeaconLogSinkOptions = {}) {
+        this.batchSize = options.batchSize ?? 20;
+        this.flushIntervalMs = options.flushIntervalMs ?? 5000;
+
+        if (typeof window !== 'undefined') {
+            window.addEventListener('pagehide', () => this.flush());
+            document.addEventListener('visibilitychange', () => {
+                if (document.visibilityState === 'hidden') {
+                    this.flush();
+                }
+            });
+        }
+    }
+
+    public write(entry: LogEntry): void {
+        this.buffer.push(entry);
+        if (this.buffer.length >= this.batchSize) {
+            this.flush();
+        } else if (!this.timer) {
+            this.timer = setTimeout(() => this.flush(), this.flushIntervalMs);
+        }
+    }
+
+    public flush(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        if (this.buffer.length === 0) {
+            return;
+        }
+
+        const body = JSON.stringify({ entries: this.buffer });
+        this.buffer = [];
+
+        const sent = typeof navigator !== 'undefined' && typeof navigator.sendBeacon === 'function'
+            && navigator.sendBeacon(this.endpoint, new Blob([body], { type: 'application/json' }));
+        if (!sent && typeof fetch === 'function') {
+            // Collecteur injoignable : les entrées sont perdues, sans bruit supplémentaire
+            fetch(this.endpoint, { method: 'POST', body, keepalive: true, headers: { 'Content-Type': 'application/json' } })
+                .catch(() => undefined);
+        }
+    }
+}
+
+// --- Logger ---
+
+/**
+ * Journal structuré de l'application.
+ * - Niveau minimal global (défaut : `warn` en production, `debug` sinon), ajustable par scope (`http` : `info` en production)
+ * - Contexte commun (route, utilisateur) fourni au démarrage, champs sensibles masqués
+ * - Sinks interchangeables : console, collecteur HTTP par lots, mémoire pour les tests
+ */
+export class Logger implements ILogger {
+    private static instance: Logger;
+    private level: LogLevelSetting = DEFAULT_LOG_LEVEL;
+    private scopeLevels: Record<string, LogLevelSetting> = DEFAULT_SCOPE_LEVELS;
+    private sinks: LogSink[] = [new ConsoleLogSink()];
+    private contextProvider: LogContextProvider = () => ({});
+
+    private constructor() { }
+
+    public static getInstance(): Logger {
+        if (!Logger.instance) {
+            Logger.instance = new Logger();
+        }
+        return Logger.instance;
+    }
+
+    /**
+     * Remplace les niveaux, les sinks et/ou le fournisseur de contexte (les options absentes sont conservées)
+     */
+    public configure(options: LoggerOptions): void {
+        this.level = options.level ?? this.level;
+        this.scopeLevels = options.scopeLevels ?? this.scopeLevels;
+        this.sinks = options.sinks ?? this.sinks;
+        this.contextProvider = options.context ?? this.contextProvider;
+    }
+
+    public getLevel(): LogLevelSetting {
+        return this.level;
+    }
+
+    /**
+     * Logger dont toutes les entrées portent `scope` (service émetteur)
+     */
+    public scope(name: string): ScopedLogger {
+        return {
+            debug: (message, context) => this.log('debug', message, { ...context, scope: name }),
+            info: (message, context) => this.log('info', message, { ...context, scope: name }),
+            warn: (message, context) => this.log('warn', message, { ...context, scope: name }),
+            error: (message, context) => this.log('error', message, { ...context, scope: name }),
+        };
+    }
+
+    public debug(message: string, context?: LogContext): void {
+        this.log('debug', message, context);
+    }
+
+    public info(message: string, context?: LogContext): void {
+        this.log('info', message, context);
+    }
+
+    public warn(message: string, context?: LogContext): void {
+        this.log('warn', message, context);
+    }
+
+    public error(message: string, context?: LogContext): void {
+        this.log('error', message, context);
+    }
+
+    /**
+     * Envoie immédiatement les entrées mises en lot par les sinks
+     */
+    public flush(): void {
+        this.sinks.forEach((sink) => {
+            try {
+                sink.flush?.();
+            } catch {
+                // Un sink défaillant ne doit pas interrompre l'application
+            }
+        });
+    }
+
+    private log(level: LogLevel, message: string, context: LogContext = {}): void {
+        const minimum = (context.scope && this.scopeLevels[context.scope]) || this.level;
+        if (LEVEL_WEIGHTS[level] < LEVEL_WEIGHTS[minimum]) {
+            return;
+        }
+
+        const entry: LogEntry = {
+            level,
+            message: redactString(message),
+            timestamp: new Date().toISOString(),
+            context: redact({ ...this.resolveContext(), ...context }) as LogContext,
+        };
+
+        this.sinks.forEach((sink) => {
+            try {
+                sink.write(entry);
+            } catch {
+                // Un sink défaillant ne doit pas interrompre l'application
+            }
+        });
+    }
+
+    private resolveContext(): LogContext {
+        try {
+            return this.contextProvider();
+        } catch {
+            return {};
+        }
+    }
+}
+
+export default Logger;
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { NewQueuedMutation, OfflineQueueEvent } from './offlineMutationQueue';
+
+// --- Mocks ---
+
+const axiosServiceMock = {
+    post: vi.fn(),
+    put: vi.fn(),
+};
+
+vi.mock('./axiosService', () => ({
+    default: { getInstance: () => axiosServiceMock },
+}));
+
+const { OfflineMutationQueue, MemoryMutationQueueStorage } = await import('./offlineMutationQueue');
+
+// --- Helpers ---
+
+const mutation = (label: string, method: 'post' | 'put' = 'post'): NewQueuedMutation => ({
+    method,
+    url: '/api/users',
+    data: { label },
+    label,
+    tags: ['users'],
+});
+
+const httpError = (status?: number, headers: Record<string, string> = {}) =>
+    Object.assign(new Error('HTTP'), status ? { response: { status, data: {}, headers } } : { code: 'ERR_NETWORK' });
+
+const setOnline = (online: boolean) => {
+    Object.defineProperty(navigator, 'onLine', { configurable: true, value: online });
+};
+
+// --- Tests ---
+
+describe('OfflineMutationQueue', () => {
+    const queue = OfflineMutationQueue.getInstance();
+    let events: OfflineQueueEvent[];
+    let unsubscribe: () => void;
+
+    beforeEach(async () => {
+        vi.clearAllMocks();
+        axiosServiceMock.post.mockResolvedValue({ data: {} });
+        axiosServiceMock.put.mockResolvedValue({ data: {} });
+        setOnline(false);
+
+        unsubscribe?.();
+        events = [];
+        unsubscribe = queue.subscribe((event) => events.push(event));
+
+        queue.configureStorage(new MemoryMutationQueueStorage());
+        queue.setOwner('user-1');
+        await queue.replay();
+    });
+
+    it('rejoue les mutations dans l ordre au retour du reseau, sans conserver de token', async () => {
+        await queue.enqueue(mutation('Creation de Marie'));
+        await queue.enqueue(mutation('Mise a jour de Marie', 'put'));
+        expect(queue.getStatus()).toBe('offline');
+        expect(queue.getPending()).toHaveLength(2);
+
+        setOnline(true);
+        await queue.replay();
+
+        expect(axiosServiceMock.post).toHaveBeenCalledWith('/api/users', { label: 'Creation de Marie' }, { retry: false });
+        expect(axiosServiceMock.post.mock.invocationCallOrder[0]).toBeLessThan(axiosServiceMock.put.mock.invocationCallOrder[0]);
+        expect(queue.getPending()).toHaveLength(0);
+        expect(queue.getStatus()).toBe('idle');
+    });
+
+    it('signale un conflit 409 et poursuit avec les mutations suivantes', async () => {
+        await queue.enqueue(mutation('Creation de Marie'));
+        await queue.enqueue(mutation('Mise a jour de Paul', 'put'));
+        axiosServiceMock.post.mockRejectedValueOnce(httpError(409));
+
+        setOnline(true);
+        await queue.replay();
+
+        expect(events).toContainEqual(expect.objectContaining({ type: 'rejected', conflict: true }));
+        expect(axiosServiceMock.put).toHaveBeenCalledTimes(1);
+        expect(queue.getPending()).toHaveLength(0);
+    });
+
+    it('conserve la mutation en tete de file sur erreur reseau', async () => {
+        await queue.enqueue(mutation('Creation de Marie'));
+        axiosServiceMock.post.mockRejectedValueOnce(httpError());
+
+        setOnline(true);
+        await queue.replay();
+
+        expect(queue.getPending()).toHaveLength(1);
+        expect(queue.getStatus()).toBe('offline');
+    });
+
+    describe('refus temporaires', () => {
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it('conserve la mutation sur 429 et la rejoue apres Retry-After', async () => {
+            vi.useFakeTimers();
+            await queue.enqueue(mutation('Creation de Marie'));
+            axiosServiceMock.post.mockRejectedValueOnce(httpError(429, { 'retry-after': '5' }));
+
+            setOnline(true);
+            await queue.replay();
+
+            expect(queue.getPending()).toHaveLength(1);
+            expect(queue.getStatus()).toBe('error');
+            expect(events).not.toContainEqual(expect.objectContaining({ type: 'rejected' }));
+
+            await vi.advanceTimersByTimeAsync(4_000);
+            expect(axiosServiceMock.post).toHaveBeenCalledTimes(1);
+
+            await vi.advanceTimersByTimeAsync(1_000);
+            expect(axiosServiceMock.post).toHaveBeenCalledTimes(2);
+            expect(queue.getPending()).toHaveLength(0);
+        });
+
+        it('conserve la mutation sur 408 et la rejoue apres le delai par defaut', async () => {
+            vi.useFakeTimers();
+            await queue.enqueue(mutation('Creation de Marie'));
+            axiosServiceMock.post.mockRejectedValueOnce(httpError(408));
+
+            setOnline(true);
+            await queue.replay();
+
+            expect(queue.getPending()).toHaveLength(1);
+            expect(events).not.toContainEqual(expect.objectContaining({ type: 'rejected' }));
+
+            await vi.advanceTimersByTimeAsync(30_000);
+            expect(axiosServiceMock.post).toHaveBeenCalledTimes(2);
+            expect(queue.getPending()).toHaveLength(0);
+        });
+    });
+
+    it('ne rejoue que les mutations de la session courante', async () => {
+        await queue.enqueue(mutation('Creation de Marie'));
+
+        queue.setOwner('user-2');
+        setOnline(true);
+        await queue.replay();
+
+        expect(axiosServiceMock.post).not.toHaveBeenCalled();
+        expect(queue.getPending()).toHaveLength(0);
+    });
+});
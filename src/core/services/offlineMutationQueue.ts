@@ -0,0 +1,419 @@
+import AxiosService from './axiosService';
+import QueryCache from './queryCache';
+import { TypedAppError, UnauthorizedError } from '../types/AppError';
+import { toAppError } from '../utils/errorMapper';
+import { parseRetryAfter } from '../utils/retryAfter';
+import Logger from './logger';
+
+const log = Logger.getInstance().scope('offlineQueue');
+
+/**
+ * Mutation mise en attente. Ne contient jamais de token : au rejeu, la requête passe par
+ * AxiosService et l'intercepteur y attache le token courant (rafraîchi si besoin).
+ */
+export interface QueuedMutation {
+    id: number;                 // Attribué par le stockage, croissant : ordre de rejeu
+    ownerId: string;            // Utilisateur à l'origine de la modification (rejouée uniquement dans sa session)
+    method: 'post' | 'put' | 'patch' | 'delete';
+    url: string;
+    data?: unknown;
+    label: string;              // Description affichée à l'utilisateur (ex : "Création de Marie Dupont")
+    tags: readonly string[];    // Étiquettes QueryCache invalidées une fois la mutation appliquée
+    createdAt: number;
+}
+
+export type NewQueuedMutation = Omit<QueuedMutation, 'id' | 'ownerId' | 'createdAt'>;
+
+/**
+ * - idle    : rien en attente, ou en attente du retour de la session
+ * - offline : réseau indisponible, rejeu au retour de la connexion
+ * - syncing : rejeu en cours
+ * - error   : le serveur a échoué (5xx, session expirée...), rejeu à la prochaine reconnexion ou sur demande
+ */
+export type OfflineSyncStatus = 'idle' | 'offline' | 'syncing' | 'error';
+
+/**
+ * Événements de la file :
+ * - changed  : mutations en attente de la session courante ou statut modifiés
+ * - replayed : mutation appliquée par le serveur
+ * - rejected : mutation refusée par le serveur et retirée de la file (`conflict` : 409 / 412)
+ */
+export type OfflineQueueEvent =
+    | { type: 'changed'; mutations: readonly QueuedMutation[]; status: OfflineSyncStatus }
+    | { type: 'replayed'; mutation: QueuedMutation }
+    | { type: 'rejected'; mutation: QueuedMutation; error: TypedAppError; conflict: boolean };
+
+type OfflineQueueListener = (event: OfflineQueueEvent) => void;
+
+/**
+ * Persistance de la file (IndexedDB en production, mémoire en repli et dans les tests)
+ */
+export interface MutationQueueStorage {
+    load(): Promise<QueuedMutation[]>;
+    add(mutation: Omit<QueuedMutation, 'id'>): Promise<QueuedMutation>;
+    remove(id: number): Promise<void>;
+}
+
+export interface IOfflineMutationQueue {
+    start(): void;
+    stop(): void;
+    configureStorage(storage: MutationQueueStorage): void;
+    setOwner(ownerId: string | null): void;
+    shouldQueue(): boolean;
+    enqueue(mutation: NewQueuedMutation): Promise<QueuedMutation>;
+    replay(): Promise<void>;
+    getPending(): readonly QueuedMutation[];
+    getStatus(): OfflineSyncStatus;
+    subscribe(listener: OfflineQueueListener): () => void;
+}
+
+// Statuts HTTP signalant une modification concurrente côté serveur
+const CONFLICT_STATUSES = [409, 412];
+
+// Refus temporaires (délai dépassé, trop de requêtes) : la mutation reste en file
+const TRANSIENT_STATUSES = [408, 429];
+
+const DB_NAME = 'app-offline';
+const STORE_NAME = 'mutations';
+
+/**
+ * Stockage en mémoire -- perdu au rechargement de la page
+ */
+export class MemoryMutationQueueStorage implements MutationQueueStorage {
+    private items: QueuedMutation[] = [];
+    private nextId = 1;
+
+    public async load(): Promise<QueuedMutation[]> {
+        return [...this.items];
+    }
+
+    public async add(mutation: Omit<QueuedMutation, 'id'>): Promise<QueuedMutation> {
+        const stored = { ...mutation, id: this.nextId++ };
+        this.items.push(stored);
+        return stored;
+    }
+
+    public async remove(id: number): Promise<void> {
+        this.items = this.items.filter((item) => item.id !== id);
+    }
+}
+
+/**
+ * Stockage IndexedDB : la file survit au rechargement et à la fermeture du navigateur
+ */
+export class IndexedDbMutationQueueStorage implements MutationQueueStorage {
+    private database: Promise<IDBDatabase> | null = null;
+
+    public async load(): Promise<QueuedMutation[]> {
+        const store = await this.store('readonly');
+        // Clés auto-incrémentées : getAll() retourne les mutations dans l'ordre d'enregistrement
+        return this.promisify(store.getAll() as IDBRequest<QueuedMutation[]>);
+    }
+
+    public async add(mutation: Omit<QueuedMutation, 'id'>): Promise<QueuedMutation> {
+        const store = await this.store('readwrite');
+        const id = await this.promisify(store.add(mutation));
+        return { ...mutation, id: Number(id) };
+    }
+
+    public async remove(id: number): Promise<void> {
+        const store = await this.store('readwrite');
+        await this.promisify(store.delete(id));
+    }
+
+    private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+        const database = await this.open();
+        return database.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.database) {
+            const request = indexedDB.open(DB_NAME, 1);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+            };
+            this.database = this.promisify(request);
+        }
+        return this.database;
+    }
+
+    private promisify<T>(request: IDBRequest<T>): Promise<T> {
+        return new Promise((resolve, reject) => {
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+}
+
+const createDefaultStorage = (): MutationQueueStorage =>
+    typeof indexedDB !== 'undefined' ? new IndexedDbMutationQueueStorage() : new MemoryMutationQueueStorage();
+
+const isOnline = (): boolean => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+/**
+ * File des mutations faites hors ligne ou interrompues par une erreur réseau.
+ * - Persistée (IndexedDB), rejouée dans l'ordre au retour du réseau ou de la session
+ * - Tant que des mutations attendent, les suivantes sont mises en file pour conserver l'ordre
+ * - Un refus du serveur (409 / 412 : conflit) retire la mutation et est signalé aux stores
+ * - 408 / 429 : la mutation reste en tête de file, rejouée après le délai `Retry-After`
+ */
+export class OfflineMutationQueue implements IOfflineMutationQueue {
+    private static instance: OfflineMutationQueue;
+    private storage: MutationQueueStorage = createDefaultStorage();
+    private mutations: QueuedMutation[] = [];
+    private loaded: Promise<void> | null = null;
+    private ownerId: string | null = null;
+    private status: OfflineSyncStatus = 'idle';
+    private replaying: Promise<void> | null = null;
+    private replayRequested = false;    // Demande reçue pendant un rejeu (reconnexion, nouvelle mutation) : relancer à la fin
+    private listeners = new Set<OfflineQueueListener>();
+    private isStarted = false;
+    private retryTimerId: ReturnType<typeof setTimeout> | null = null;
+    private readonly DEFAULT_RETRY_DELAY_SECONDS = 30;  // 408 / 429 sans Retry-After
+
+    private constructor() { }
+
+    public static getInstance(): OfflineMutationQueue {
+        if (!OfflineMutationQueue.instance) {
+            OfflineMutationQueue.instance = new OfflineMutationQueue();
+        }
+        return OfflineMutationQueue.instance;
+    }
+
+    /**
+     * Écoute les changements de connectivité du navigateur
+     */
+    public start(): void {
+        if (this.isStarted || typeof window === 'undefined') {
+            return;
+        }
+
+        window.addEventListener('online', this.handleOnline);
+        window.addEventListener('offline', this.handleOffline);
+        this.isStarted = true;
+
+        this.ensureLoaded().then(() => this.replay());
+    }
+
+    public stop(): void {
+        if (!this.isStarted) {
+            return;
+        }
+
+        window.removeEventListener('online', this.handleOnline);
+        window.removeEventListener('offline', this.handleOffline);
+        this.clearRetryTimer();
+        this.isStarted = false;
+    }
+
+    /**
+     * Remplace le stockage (tests, navigateur sans IndexedDB). La file est relue au prochain accès.
+     */
+    public configureStorage(storage: MutationQueueStorage): void {
+        this.clearRetryTimer();
+        this.storage = storage;
+        this.mutations = [];
+        this.loaded = null;
+        this.status = 'idle';
+    }
+
+    /**
+     * Session courante : seules ses mutations sont comptées et rejouées (jamais avec le token d'un autre utilisateur)
+     */
+    public setOwner(ownerId: string | null): void {
+        if (ownerId === this.ownerId) {
+            return;
+        }
+        this.ownerId = ownerId;
+        this.ensureLoaded().then(() => {
+            this.emitChanged();
+            this.replay();
+        });
+    }
+
+    /**
+     * Une mutation doit être mise en file : hors ligne, ou des mutations plus anciennes attendent encore
+     */
+    public shouldQueue(): boolean {
+        return !isOnline() || this.getPending().length > 0;
+    }
+
+    public async enqueue(mutation: NewQueuedMutation): Promise<QueuedMutation> {
+        if (!this.ownerId) {
+            throw new UnauthorizedError("Aucune session pour enregistrer la modification hors ligne", 'offline_queue_no_session');
+        }
+
+        await this.ensureLoaded();
+        const stored = await this.storage.add({ ...mutation, ownerId: this.ownerId, createdAt: Date.now() });
+        this.mutations.push(stored);
+
+        if (!isOnline()) {
+            this.status = 'offline';
+        }
+        this.emitChanged();
+
+        // En ligne (erreur réseau ponctuelle ou file non vide) : tenter le rejeu sans attendre l'événement `online`
+        this.replay();
+        return stored;
+    }
+
+    /**
+     * Rejoue dans l'ordre les mutations de la session courante. S'arrête à la première erreur
+     * réseau ou serveur : les mutations restantes attendent la prochaine tentative.
+     */
+    public replay(): Promise<void> {
+        if (this.replaying) {
+            this.replayRequested = true;
+            return this.replaying;
+        }
+
+        this.replaying = (async () => {
+            do {
+                this.replayRequested = false;
+                await this.replayPending();
+            } while (this.replayRequested);
+        })().finally(() => {
+            this.replaying = null;
+        });
+        return this.replaying;
+    }
+
+    public getPending(): readonly QueuedMutation[] {
+        return this.mutations.filter((mutation) => mutation.ownerId === this.ownerId);
+    }
+
+    public getStatus(): OfflineSyncStatus {
+        return this.status;
+    }
+
+    public subscribe(listener: OfflineQueueListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private async replayPending(): Promise<void> {
+        this.clearRetryTimer();
+        await this.ensureLoaded();
+
+        while (this.ownerId && this.getPending().length > 0) {
+            if (!isOnline()) {
+                this.setStatus('offline');
+                return;
+            }
+            this.setStatus('syncing');
+
+            const mutation = this.getPending()[0];
+            try {
+                await AxiosService.getInstance()[mutation.method](mutation.url, ...this.requestArgs(mutation));
+                await this.removeMutation(mutation);
+                QueryCache.getInstance().invalidate(mutation.tags);
+                this.emit({ type: 'replayed', mutation });
+            } catch (error) {
+                const status = (error as { response?: { status?: number } }).response?.status;
+
+                // Réseau coupé, serveur en erreur ou session expirée : la mutation reste en tête de file
+                if (status === undefined || status >= 500 || status === 401) {
+                    this.setStatus(status === undefined ? 'offline' : 'error');
+                    return;
+                }
+
+                // Délai dépassé ou trop de requêtes : refus temporaire, nouvel essai après le délai demandé
+                if (TRANSIENT_STATUSES.includes(status)) {
+                    const response = (error as { response?: { headers?: unknown; data?: unknown } }).response;
+                    this.scheduleRetry(parseRetryAfter(response) ?? this.DEFAULT_RETRY_DELAY_SECONDS);
+                    this.setStatus('error');
+                    return;
+                }
+
+                // Refus définitif (conflit, données rejetées) : rejouer ne changerait rien
+                await this.removeMutation(mutation);
+                this.emit({
+                    type: 'rejected',
+                    mutation,
+                    error: toAppError(error, CONFLICT_STATUSES.includes(status)
+                        ? 'Modifiée entre-temps sur le serveur'
+                        : 'Refusée par le serveur'),
+                    conflict: CONFLICT_STATUSES.includes(status),
+                });
+            }
+        }
+
+        this.setStatus('idle');
+    }
+
+    private scheduleRetry(delaySeconds: number): void {
+        this.clearRetryTimer();
+        this.retryTimerId = setTimeout(() => {
+            this.retryTimerId = null;
+            this.replay();
+        }, delaySeconds * 1000);
+    }
+
+    private clearRetryTimer(): void {
+        if (this.retryTimerId !== null) {
+            clearTimeout(this.retryTimerId);
+            this.retryTimerId = null;
+        }
+    }
+
+    private requestArgs(mutation: QueuedMutation): [unknown, { retry: false }] | [{ retry: false }] {
+        // Pas de nouvelle tentative automatique : la file est elle-même le mécanisme de reprise
+        return mutation.method === 'delete' ? [{ retry: false }] : [mutation.data, { retry: false }];
+    }
+
+    private async removeMutation(mutation: QueuedMutation): Promise<void> {
+        await this.storage.remove(mutation.id);
+        this.mutations = this.mutations.filter((item) => item.id !== mutation.id);
+        this.emitChanged();
+    }
+
+    private ensureLoaded(): Promise<void> {
+        if (!this.loaded) {
+            this.loaded = this.storage.load()
+                .then((mutations) => {
+                    this.mutations = mutations;
+                })
+                .catch((error) => {
+                    // Stockage indisponible (navigation privée, quota) : la file continue en mémoire
+                    log.warn('File hors ligne indisponible, bascule en mémoire', { error });
+                    this.storage = new MemoryMutationQueueStorage();
+                });
+        }
+        return this.loaded;
+    }
+
+    private handleOnline = (): void => {
+        this.replay();
+    };
+
+    private handleOffline = (): void => {
+        if (this.getPending().length > 0) {
+            this.setStatus('offline');
+        }
+    };
+
+    private setStatus(status: OfflineSyncStatus): void {
+        if (status !== this.status) {
+            this.status = status;
+            this.emitChanged();
+        }
+    }
+
+    private emitChanged(): void {
+        this.emit({ type: 'changed', mutations: this.getPending(), status: this.status });
+    }
+
+    private emit(event: OfflineQueueEvent): void {
+        this.listeners.forEach((listener) => {
+            try {
+                listener(event);
+            } catch (error) {
+                log.error('Erreur dans un listener de la file hors ligne', { error });
+            }
+        });
+    }
+}
+
+export default OfflineMutationQueue;
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { QueryCache, createQueryKey } from './queryCache';
+import { RequestCancelledError } from '../types/AppError';
+
+// --- Helpers ---
+
+// Requête contrôlée par le test : resolve() termine la réponse du serveur
+const deferredFetcher = <T,>() => {
+    const calls: { signal: AbortSignal; resolve: (value: T) => void }[] = [];
+    const fetcher = vi.fn((signal: AbortSignal) => new Promise<T>((resolve) => calls.push({ signal, resolve })));
+    return { fetcher, calls };
+};
+
+// --- Tests ---
+
+describe('QueryCache', () => {
+    const cache = QueryCache.getInstance();
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2024-01-01T08:00:00Z'));
+        cache.clear();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('deduplique les requetes identiques en cours puis sert la reponse depuis le cache', async () => {
+        const { fetcher, calls } = deferredFetcher<string>();
+
+        const first = cache.query('/api/users?page=1', fetcher);
+        const second = cache.query('/api/users?page=1', fetcher);
+        calls[0].resolve('page 1');
+
+        expect(await first).toBe('page 1');
+        expect(await second).toBe('page 1');
+        expect(await cache.query('/api/users?page=1', fetcher)).toBe('page 1');
+        expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it('sert une donnee perimee immediatement et la renouvelle en arriere-plan', async () => {
+        const listener = vi.fn();
+        const unsubscribe = cache.subscribe(listener);
+        const fetcher = vi.fn().mockResolvedValueOnce('ancienne').mockResolvedValueOnce('nouvelle');
+        await cache.query('/api/users', fetcher, { tags: ['users'], staleTimeMs: 1_000 });
+
+        vi.advanceTimersByTime(2_000);
+
+        expect(await cache.query('/api/users', fetcher, { tags: ['users'], staleTimeMs: 1_000 })).toBe('ancienne');
+        await vi.waitFor(() => expect(listener).toHaveBeenCalledWith({ type: 'revalidated', key: '/api/users', tags: ['users'] }));
+        expect(await cache.query('/api/users', fetcher)).toBe('nouvelle');
+        unsubscribe();
+    });
+
+    it('invalide par etiquette, y compris une reponse en cours au moment de la mutation', async () => {
+        const { fetcher, calls } = deferredFetcher<string>();
+        const pending = cache.query('/api/users', fetcher, { tags: ['users'] });
+
+        cache.invalidate(['users']);
+        calls[0].resolve('avant la mutation');
+        await pending;
+        const refreshed = cache.query('/api/users', fetcher, { tags: ['users'] });
+        calls[1].resolve('apres la mutation');
+
+        expect(await refreshed).toBe('apres la mutation');
+        expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+
+    it('n annule la requete partagee que lorsque tous les appelants ont renonce', async () => {
+        const { fetcher, calls } = deferredFetcher<string>();
+        const first = new AbortController();
+        const second = new AbortController();
+        const firstResult = cache.query('/api/users', fetcher, { signal: first.signal });
+        const secondResult = cache.query('/api/users', fetcher, { signal: second.signal });
+
+        first.abort();
+        await expect(firstResult).rejects.toBeInstanceOf(RequestCancelledError);
+        expect(calls[0].signal.aborted).toBe(false);
+
+        second.abort();
+        await expect(secondResult).rejects.toBeInstanceOf(RequestCancelledError);
+        expect(calls[0].signal.aborted).toBe(true);
+    });
+
+    it('construit une cle stable quel que soit l ordre des parametres', () => {
+        expect(createQueryKey('/api/users', { role: 'ADMIN', page: 2, search: '' }))
+            .toBe(createQueryKey('/api/users', { page: 2, role: 'ADMIN' }));
+    });
+});
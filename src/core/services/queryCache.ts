@@ -0,0 +1,236 @@
+import { RequestCancelledError } from '../types/AppError';
+import Logger from './logger';
+
+const log = Logger.getInstance().scope('queryCache');
+
+/**
+ * Options d'une lecture mise en cache
+ */
+export interface QueryOptions {
+    tags?: readonly string[];   // Étiquettes invalidées par les mutations (ex : 'users')
+    staleTimeMs?: number;       // Donnée fraîche : servie sans requête
+    ttlMs?: number;             // Au-delà, la donnée n'est plus servie du tout (requête bloquante)
+    signal?: AbortSignal;       // Annulation de cet appelant uniquement
+}
+
+/**
+ * Événements du cache. `revalidated` : une donnée périmée servie à l'écran vient d'être renouvelée.
+ */
+export type QueryCacheEvent =
+    | { type: 'revalidated'; key: string; tags: readonly string[] };
+
+type QueryCacheListener = (event: QueryCacheEvent) => void;
+
+export type QueryFetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+export interface IQueryCache {
+    query<T>(key: string, fetcher: QueryFetcher<T>, options?: QueryOptions): Promise<T>;
+    invalidate(tags: readonly string[]): void;
+    clear(): void;
+    subscribe(listener: QueryCacheListener): () => void;
+}
+
+export const DEFAULT_STALE_TIME_MS = 30 * 1000;
+export const DEFAULT_TTL_MS = 5 * 60 * 1000;
+
+interface CacheEntry {
+    data: unknown;
+    tags: readonly string[];
+    fetchedAt: number;
+    staleTimeMs: number;
+    ttlMs: number;
+}
+
+interface InFlightQuery {
+    promise: Promise<unknown>;
+    controller: AbortController;
+    tags: readonly string[];
+    consumers: number;      // Appelants en attente ; la requête est annulée quand le dernier renonce
+    background: boolean;    // Revalidation : jamais annulée par le départ d'un appelant
+    invalidated: boolean;   // Mutation survenue pendant la requête : résultat non mis en cache
+}
+
+/**
+ * URL et clé de cache stable : endpoint + paramètres triés (les paramètres vides sont ignorés)
+ */
+export const createQueryKey = (endpoint: string, params: object = {}): string => {
+    const entries = Object.entries(params)
+        .filter(([, value]) => value !== undefined && value !== null && value !== '')
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([name, value]) => [name, String(value)]);
+
+    return entries.length > 0 ? `${endpoint}?${new URLSearchParams(entries).toString()}` : endpoint;
+};
+
+/**
+ * Cache des lectures de la couche data (DataSources).
+ * - Déduplique les requêtes identiques en cours
+ * - Stale-while-revalidate : une donnée périmée est servie immédiatement puis renouvelée
+ *   en arrière-plan ; les stores sont prévenus par l'événement `revalidated`
+ * - Les mutations invalident par étiquette, `clear()` vide tout au changement de session
+ */
+export class QueryCache implements IQueryCache {
+    private static instance: QueryCache;
+    private entries = new Map<string, CacheEntry>();
+    private inFlight = new Map<string, InFlightQuery>();
+    private listeners = new Set<QueryCacheListener>();
+    private generation = 0;     // Incrémentée par clear() : les requêtes de l'ancienne session ne remplissent plus le cache
+
+    private constructor() { }
+
+    public static getInstance(): QueryCache {
+        if (!QueryCache.instance) {
+            QueryCache.instance = new QueryCache();
+        }
+        return QueryCache.instance;
+    }
+
+    public query<T>(key: string, fetcher: QueryFetcher<T>, options: QueryOptions = {}): Promise<T> {
+        const entry = this.entries.get(key);
+        const age = entry ? Date.now() - entry.fetchedAt : Infinity;
+
+        if (entry && age < entry.ttlMs) {
+            if (age >= entry.staleTimeMs) {
+                this.revalidate(key, fetcher, options);
+            }
+            return Promise.resolve(entry.data as T);
+        }
+
+        this.entries.delete(key);
+        return this.consume(this.start(key, fetcher, options, false), options.signal) as Promise<T>;
+    }
+
+    public invalidate(tags: readonly string[]): void {
+        const matches = (entryTags: readonly string[]) => entryTags.some((tag) => tags.includes(tag));
+
+        this.entries.forEach((entry, key) => {
+            if (matches(entry.tags)) {
+                this.entries.delete(key);
+            }
+        });
+        // Les requêtes en cours peuvent précéder la mutation : les appelants suivants repartent du serveur
+        this.inFlight.forEach((flight, key) => {
+            if (matches(flight.tags)) {
+                flight.invalidated = true;
+                this.inFlight.delete(key);
+            }
+        });
+    }
+
+    public clear(): void {
+        this.generation++;
+        this.entries.clear();
+        this.inFlight.clear();
+    }
+
+    public subscribe(listener: QueryCacheListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Requête partagée par tous les appelants de la même clé
+     */
+    private start<T>(key: string, fetcher: QueryFetcher<T>, options: QueryOptions, background: boolean): InFlightQuery {
+        const existing = this.inFlight.get(key);
+        if (existing) {
+            return existing;
+        }
+
+        const generation = this.generation;
+        const flight: InFlightQuery = {
+            promise: Promise.resolve(),
+            controller: new AbortController(),
+            tags: options.tags ?? [],
+            consumers: 0,
+            background,
+            invalidated: false,
+        };
+
+        flight.promise = fetcher(flight.controller.signal)
+            .then((data) => {
+                if (generation === this.generation && !flight.invalidated) {
+                    this.entries.set(key, {
+                        data,
+                        tags: flight.tags,
+                        fetchedAt: Date.now(),
+                        staleTimeMs: options.staleTimeMs ?? DEFAULT_STALE_TIME_MS,
+                        ttlMs: options.ttlMs ?? DEFAULT_TTL_MS,
+                    });
+                }
+                return data;
+            })
+            .finally(() => {
+                if (this.inFlight.get(key) === flight) {
+                    this.inFlight.delete(key);
+                }
+            });
+
+        // Requête abandonnée par tous ses appelants : un nouvel appelant ne doit pas la rejoindre
+        flight.controller.signal.addEventListener('abort', () => {
+            if (this.inFlight.get(key) === flight) {
+                this.inFlight.delete(key);
+            }
+        });
+
+        this.inFlight.set(key, flight);
+        return flight;
+    }
+
+    /**
+     * Attente d'un appelant : son annulation ne rejette que lui, la requête partagée
+     * n'est annulée que lorsque plus personne ne l'attend
+     */
+    private consume(flight: InFlightQuery, signal?: AbortSignal): Promise<unknown> {
+        if (signal?.aborted) {
+            return Promise.reject(new RequestCancelledError());
+        }
+
+        flight.consumers++;
+        return new Promise((resolve, reject) => {
+            const onAbort = () => {
+                flight.consumers--;
+                if (flight.consumers === 0 && !flight.background) {
+                    flight.controller.abort();
+                }
+                reject(new RequestCancelledError());
+            };
+
+            signal?.addEventListener('abort', onAbort, { once: true });
+            flight.promise
+                .then(resolve, reject)
+                .finally(() => signal?.removeEventListener('abort', onAbort));
+        });
+    }
+
+    private revalidate<T>(key: string, fetcher: QueryFetcher<T>, options: QueryOptions): void {
+        if (this.inFlight.has(key)) {
+            return;
+        }
+
+        const flight = this.start(key, fetcher, options, true);
+        flight.promise.then(
+            (data) => {
+                // Résultat écarté (mutation ou changement de session pendant la requête) : rien à annoncer
+                if (this.entries.get(key)?.data === data) {
+                    this.emit({ type: 'revalidated', key, tags: flight.tags });
+                }
+            },
+            (error) => log.warn(`Revalidation impossible pour ${key}`, { error })
+        );
+    }
+
+    private emit(event: QueryCacheEvent): void {
+        this.listeners.forEach((listener) => {
+            try {
+                listener(event);
+            } catch (error) {
+                log.error('Erreur dans un listener du cache de requêtes', { error });
+            }
+        });
+    }
+}
+
+export default QueryCache;
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_RETRY_POLICY, getRetryDelay, resolveRetryPolicy } from './retryPolicy';
+
+// --- Helpers ---
+
+const httpError = (status: number, headers: Record<string, string> = {}) => ({ response: { status, headers, data: {} } });
+
+// Jitter neutralise : delai exponentiel complet
+const noJitter = () => 1;
+
+// --- Tests ---
+
+describe('retryPolicy', () => {
+    describe('resolveRetryPolicy', () => {
+        it('rejoue les methodes idempotentes par defaut, pas les POST', () => {
+            expect(resolveRetryPolicy(DEFAULT_RETRY_POLICY, 'get', undefined)).not.toBeNull();
+            expect(resolveRetryPolicy(DEFAULT_RETRY_POLICY, 'post', undefined)).toBeNull();
+        });
+
+        it('permet d activer ou de desactiver les nouvelles tentatives par requete', () => {
+            expect(resolveRetryPolicy(DEFAULT_RETRY_POLICY, 'post', true)).not.toBeNull();
+            expect(resolveRetryPolicy(DEFAULT_RETRY_POLICY, 'post', { retries: 5 })?.retries).toBe(5);
+            expect(resolveRetryPolicy(DEFAULT_RETRY_POLICY, 'get', false)).toBeNull();
+        });
+    });
+
+    describe('getRetryDelay', () => {
+        it('double le delai a chaque tentative, dans la limite des nouvelles tentatives', () => {
+            expect(getRetryDelay(httpError(503), 1, DEFAULT_RETRY_POLICY, noJitter)).toBe(300);
+            expect(getRetryDelay(httpError(503), 2, DEFAULT_RETRY_POLICY, noJitter)).toBe(600);
+            expect(getRetryDelay(httpError(503), 3, DEFAULT_RETRY_POLICY, noJitter)).toBeNull();
+        });
+
+        it('rejoue les erreurs reseau mais jamais les 401, annulations ou erreurs metier', () => {
+            expect(getRetryDelay({ code: 'ERR_NETWORK' }, 1, DEFAULT_RETRY_POLICY)).not.toBeNull();
+            expect(getRetryDelay(httpError(401), 1, DEFAULT_RETRY_POLICY)).toBeNull();
+            expect(getRetryDelay({ code: 'ERR_CANCELED' }, 1, DEFAULT_RETRY_POLICY)).toBeNull();
+            expect(getRetryDelay(httpError(400), 1, DEFAULT_RETRY_POLICY)).toBeNull();
+        });
+
+        it('respecte Retry-After, sauf s il depasse le plafond', () => {
+            expect(getRetryDelay(httpError(429, { 'retry-after': '2' }), 1, DEFAULT_RETRY_POLICY, noJitter)).toBe(2000);
+            expect(getRetryDelay(httpError(503, { 'retry-after': '120' }), 1, DEFAULT_RETRY_POLICY)).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,103 @@
+import { parseRetryAfter } from "../utils/retryAfter";
+
+/**
+ * Politique de nouvelles tentatives des requêtes HTTP (erreurs transitoires : 502, 503, réseau...)
+ */
+export interface RetryPolicy {
+    retries: number;                    // Nouvelles tentatives après la première (0 = désactivé)
+    baseDelayMs: number;                // Délai de la première nouvelle tentative, doublé ensuite
+    maxDelayMs: number;                 // Plafond du délai ; un Retry-After plus long n'est pas attendu
+    retryOnStatus: readonly number[];   // Statuts HTTP transitoires
+    methods: readonly string[];         // Méthodes rejouées par défaut (idempotentes)
+}
+
+/**
+ * Option `retry` d'une requête :
+ * - false : jamais de nouvelle tentative
+ * - true : nouvelles tentatives même pour une méthode non idempotente (POST, PATCH)
+ * - objet : surcharge de la politique pour cette requête (implique true)
+ */
+export type RetryOption = boolean | Partial<RetryPolicy>;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    retries: 2,
+    baseDelayMs: 300,
+    maxDelayMs: 10000,
+    retryOnStatus: [408, 429, 502, 503, 504],
+    methods: ['get', 'head', 'options', 'put', 'delete'],
+};
+
+// Erreur Axios réduite aux champs utiles (pas de dépendance au type AxiosError)
+interface RetryableError {
+    code?: string;
+    response?: { status?: number; headers?: unknown; data?: unknown };
+}
+
+/**
+ * Politique applicable à une requête, ou null si elle ne doit jamais être rejouée
+ */
+export const resolveRetryPolicy = (
+    basePolicy: RetryPolicy,
+    method: string | undefined,
+    option: RetryOption | undefined
+): RetryPolicy | null => {
+    if (option === false) {
+        return null;
+    }
+
+    const policy = typeof option === 'object' ? { ...basePolicy, ...option } : basePolicy;
+    const isOptedIn = option !== undefined;
+    const isIdempotent = policy.methods.includes((method ?? 'get').toLowerCase());
+
+    if (policy.retries <= 0 || (!isOptedIn && !isIdempotent)) {
+        return null;
+    }
+    return policy;
+};
+
+/**
+ * Délai avant la tentative suivante (ms), ou null s'il ne faut pas réessayer.
+ * `attempt` est le numéro de la tentative qui vient d'échouer (1 pour la première).
+ * Backoff exponentiel avec jitter complet ; un Retry-After du serveur fixe le minimum.
+ */
+export const getRetryDelay = (
+    error: unknown,
+    attempt: number,
+    policy: RetryPolicy | null,
+    random: () => number = Math.random
+): number | null => {
+    if (!policy || attempt > policy.retries || !isTransient(error, policy)) {
+        return null;
+    }
+
+    const exponentialDelay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+    const jitteredDelay = Math.round(random() * exponentialDelay);
+
+    const retryAfterSeconds = parseRetryAfter((error as RetryableError).response);
+    if (retryAfterSeconds === null) {
+        return jitteredDelay;
+    }
+
+    // Attente imposée plus longue que le plafond : échouer tout de suite plutôt que bloquer l'utilisateur
+    const retryAfterMs = retryAfterSeconds * 1000;
+    if (retryAfterMs > policy.maxDelayMs) {
+        return null;
+    }
+    return Math.max(retryAfterMs, jitteredDelay);
+};
+
+/**
+ * Erreur réseau (aucune réponse) ou statut transitoire. Les 401 restent à AxiosInterceptor,
+ * les annulations et timeouts ne sont jamais rejoués.
+ */
+const isTransient = (error: unknown, policy: RetryPolicy): boolean => {
+    if (!error || typeof error !== 'object') {
+        return false;
+    }
+
+    const { code, response } = error as RetryableError;
+    if (!response) {
+        return code === 'ERR_NETWORK';
+    }
+    return response.status !== undefined && policy.retryOnStatus.includes(response.status);
+};
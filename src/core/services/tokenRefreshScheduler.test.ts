@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { right, left } from '@sweet-monads/either';
+import { UnauthorizedError } from '../types/AppError';
+
+// --- Mocks ---
+
+const sessionServiceMock = {
+    refreshToken: vi.fn(),
+    checkTokenExpiration: vi.fn(),
+};
+
+const tokenServiceMock = {
+    getAccessToken: vi.fn(),
+    getRefreshToken: vi.fn(),
+    getSessionTimeRemaining: vi.fn(),
+    getRefreshBufferSeconds: vi.fn(() => 300),
+};
+
+vi.mock('./tokenService', () => ({
+    default: { getInstance: () => tokenServiceMock },
+}));
+
+const { TokenRefreshScheduler } = await import('./tokenRefreshScheduler');
+
+const setHidden = (hidden: boolean) => {
+    Object.defineProperty(document, 'hidden', { configurable: true, get: () => hidden });
+    document.dispatchEvent(new Event('visibilitychange'));
+};
+
+// --- Tests ---
+
+describe('TokenRefreshScheduler', () => {
+    const scheduler = TokenRefreshScheduler.getInstance();
+    scheduler.configure(sessionServiceMock);
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.clearAllMocks();
+        setHidden(false);
+        tokenServiceMock.getAccessToken.mockReturnValue(right('token'));
+        tokenServiceMock.getRefreshToken.mockReturnValue(right('refresh'));
+        tokenServiceMock.getSessionTimeRemaining.mockReturnValue(600);
+        sessionServiceMock.checkTokenExpiration.mockResolvedValue(right(true));
+        sessionServiceMock.refreshToken.mockResolvedValue(right({ accessToken: 'a', refreshToken: 'r' }));
+    });
+
+    afterEach(() => {
+        scheduler.stop();
+        vi.useRealTimers();
+    });
+
+    it('planifie le refresh REFRESH_BUFFER avant expiration', async () => {
+        scheduler.start();
+
+        await vi.advanceTimersByTimeAsync(299_000);
+        expect(sessionServiceMock.checkTokenExpiration).not.toHaveBeenCalled();
+
+        await vi.advanceTimersByTimeAsync(1_000);
+        expect(sessionServiceMock.checkTokenExpiration).toHaveBeenCalledTimes(1);
+    });
+
+    it('ne planifie rien sans token', () => {
+        tokenServiceMock.getAccessToken.mockReturnValue(left(new UnauthorizedError('absent')));
+        tokenServiceMock.getRefreshToken.mockReturnValue(left(new UnauthorizedError('absent')));
+
+        scheduler.start();
+
+        expect(scheduler.getStats().isScheduled).toBe(false);
+    });
+
+    it('renouvelle immediatement un token d acces expire au rechargement', async () => {
+        tokenServiceMock.getAccessToken.mockReturnValueOnce(left(new UnauthorizedError('expire')));
+
+        scheduler.start();
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(sessionServiceMock.refreshToken).toHaveBeenCalledTimes(1);
+        expect(scheduler.getStats().isScheduled).toBe(true);
+    });
+
+    it('se met en pause quand l onglet est masque et rattrape au retour', async () => {
+        scheduler.start();
+        setHidden(true);
+
+        await vi.advanceTimersByTimeAsync(400_000);
+        expect(sessionServiceMock.checkTokenExpiration).not.toHaveBeenCalled();
+
+        setHidden(false);
+        await vi.advanceTimersByTimeAsync(0);
+        expect(sessionServiceMock.checkTokenExpiration).toHaveBeenCalledTimes(1);
+    });
+
+    it('utilise directement le refresh token si le token a expire pendant la pause', async () => {
+        scheduler.start();
+        setHidden(true);
+
+        await vi.advanceTimersByTimeAsync(700_000);
+        setHidden(false);
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(sessionServiceMock.refreshToken).toHaveBeenCalledTimes(1);
+        expect(sessionServiceMock.checkTokenExpiration).not.toHaveBeenCalled();
+    });
+
+    it('notifie les listeners si le refresh echoue', async () => {
+        const listener = vi.fn();
+        const unsubscribe = scheduler.onRefreshFailed(listener);
+        sessionServiceMock.checkTokenExpiration.mockResolvedValue(left(new UnauthorizedError('expire')));
+        vi.spyOn(console, 'warn').mockImplementation(() => { });
+
+        scheduler.start();
+        await vi.advanceTimersByTimeAsync(300_000);
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        unsubscribe();
+    });
+});
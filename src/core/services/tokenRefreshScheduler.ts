@@ -0,0 +1,180 @@
+import TokenService, { ITokenService } from "./tokenService";
+import Logger from "./logger";
+import { IAuthSession } from "../types/AuthTypes";
+
+const log = Logger.getInstance().scope("tokenRefresh");
+
+type RefreshFailedListener = () => void;
+
+// setTimeout déborde au-delà de 2^31 - 1 ms (~24,8 jours) et se déclenche immédiatement
+const MAX_TIMER_DELAY_MS = 2_147_483_647;
+
+/**
+ * Planifie le refresh du token d'accès peu avant son expiration
+ * (REFRESH_BUFFER_MINUTES de TokenService), au lieu d'attendre une requête ou un 401.
+ * Le minuteur est suspendu quand l'onglet est masqué et rattrape son retard au retour.
+ */
+export class TokenRefreshScheduler {
+    private static instance: TokenRefreshScheduler;
+    private session: Pick<IAuthSession, 'refreshToken' | 'checkTokenExpiration'> | null = null;
+    private tokenService: ITokenService = TokenService.getInstance();
+
+    private timerId: ReturnType<typeof setTimeout> | null = null;
+    private isRunning = false;
+    private refreshAt: number | null = null;
+    private expiresAt: number | null = null;
+    private listeners = new Set<RefreshFailedListener>();
+
+    private constructor() { }
+
+    public static getInstance(): TokenRefreshScheduler {
+        if (!TokenRefreshScheduler.instance) {
+            TokenRefreshScheduler.instance = new TokenRefreshScheduler();
+        }
+        return TokenRefreshScheduler.instance;
+    }
+
+    /**
+     * Déclare la session à renouveler (SessionService de la feature auth), avant start()
+     */
+    public configure(session: Pick<IAuthSession, 'refreshToken' | 'checkTokenExpiration'>): void {
+        this.session = session;
+    }
+
+    /**
+     * Démarre (ou replanifie) le refresh automatique pour le token courant
+     */
+    public start(): void {
+        if (!this.isRunning) {
+            document.addEventListener('visibilitychange', this.handleVisibilityChange);
+            this.isRunning = true;
+        }
+        this.schedule();
+    }
+
+    /**
+     * Arrête le refresh automatique
+     */
+    public stop(): void {
+        this.clearTimer();
+        this.refreshAt = null;
+        this.expiresAt = null;
+
+        if (this.isRunning) {
+            document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+            this.isRunning = false;
+        }
+    }
+
+    /**
+     * Notifie lorsqu'un refresh planifié échoue (session perdue)
+     */
+    public onRefreshFailed(listener: RefreshFailedListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Obtient l'état du planificateur
+     */
+    public getStats(): { isRunning: boolean; isScheduled: boolean; refreshAt: number | null } {
+        return {
+            isRunning: this.isRunning,
+            isScheduled: this.timerId !== null,
+            refreshAt: this.refreshAt,
+        };
+    }
+
+    private schedule(): void {
+        this.clearTimer();
+
+        const tokenResult = this.tokenService.getAccessToken();
+        if (tokenResult.isLeft()) {
+            this.refreshAt = null;
+            this.expiresAt = null;
+
+            // Token d'accès expiré mais refresh token présent (page rechargée) : renouveler sans attendre.
+            // Sinon pas de session active : rien à planifier
+            if (this.tokenService.getRefreshToken().isRight()) {
+                this.expiresAt = Date.now();
+                void this.refresh();
+            }
+            return;
+        }
+
+        const now = Date.now();
+        // Session externe : expiration annoncée par le fournisseur, le token d'accès pouvant être opaque
+        const timeRemaining = this.tokenService.getSessionTimeRemaining();
+        const bufferSeconds = this.tokenService.getRefreshBufferSeconds();
+
+        // Token de durée de vie inférieure à la marge : refresh à mi-vie pour éviter une boucle immédiate
+        const secondsBeforeRefresh = timeRemaining > bufferSeconds
+            ? timeRemaining - bufferSeconds
+            : timeRemaining / 2;
+
+        this.expiresAt = now + timeRemaining * 1000;
+        this.refreshAt = now + secondsBeforeRefresh * 1000;
+
+        // Onglet masqué : on mémorise l'échéance, le rattrapage se fera au retour
+        if (document.hidden) {
+            return;
+        }
+
+        const delay = Math.min(this.refreshAt - now, MAX_TIMER_DELAY_MS);
+        this.timerId = setTimeout(() => {
+            this.timerId = null;
+            void this.refresh();
+        }, delay);
+    }
+
+    private async refresh(): Promise<void> {
+        if (!this.session) {
+            log.warn('Refresh planifie ignore : session non configuree');
+            return;
+        }
+
+        const result = this.expiresAt !== null && Date.now() >= this.expiresAt
+            // Token déjà expiré (onglet longtemps masqué) : utiliser directement le refresh token
+            ? await this.session.refreshToken()
+            : await this.session.checkTokenExpiration();
+
+        if (!this.isRunning) {
+            return;
+        }
+
+        if (result.isLeft()) {
+            log.warn('Refresh planifie du token impossible', { error: result.value });
+            this.refreshAt = null;
+            this.expiresAt = null;
+            this.listeners.forEach((listener) => listener());
+            return;
+        }
+
+        this.schedule();
+    }
+
+    private handleVisibilityChange = (): void => {
+        if (document.hidden) {
+            this.clearTimer();
+            return;
+        }
+
+        if (this.refreshAt !== null && Date.now() >= this.refreshAt) {
+            void this.refresh();
+            return;
+        }
+
+        this.schedule();
+    };
+
+    private clearTimer(): void {
+        if (this.timerId !== null) {
+            clearTimeout(this.timerId);
+            this.timerId = null;
+        }
+    }
+}
+
+export default TokenRefreshScheduler;
@@ -0,0 +1,244 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { TokenService } from './tokenService';
+import { MemoryTokenStorage, TOKEN_KEYS, createTokenStorage } from './tokenStorage';
+
+// --- Helpers ---
+
+const encodeBase64Url = (value: string): string => {
+    const bytes = new TextEncoder().encode(value);
+    const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join('');
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const now = () => Math.floor(Date.now() / 1000);
+
+const makeToken = (claims: Record<string, unknown> = {}): string => {
+    const header = encodeBase64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+    const payload = encodeBase64Url(JSON.stringify({
+        userId: 'user-1',
+        email: 'jean.dupont@example.com',
+        role: 'USER',
+        iat: now(),
+        exp: now() + 3600,
+        ...claims,
+    }));
+    return `${header}.${payload}.c2lnbmF0dXJl`;
+};
+
+// ID token d'un fournisseur : `sub` au lieu de `userId`, sans rôle
+const makeIdToken = (claims: Record<string, unknown> = {}): string => {
+    const header = encodeBase64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+    const payload = encodeBase64Url(JSON.stringify({
+        iss: 'https://idp.example.com',
+        aud: 'spa-client',
+        sub: 'idp-user-1',
+        email: 'jean.dupont@example.com',
+        iat: now(),
+        exp: now() + 300,
+        ...claims,
+    }));
+    return `${header}.${payload}.c2lnbmF0dXJl`;
+};
+
+// --- Tests ---
+
+describe('TokenService', () => {
+    const tokenService = TokenService.getInstance();
+
+    beforeEach(() => {
+        tokenService.configureValidation({});
+    });
+
+    describe('decodage', () => {
+        it('decode les claims UTF-8 (caracteres accentues)', () => {
+            const result = tokenService.getTokenPayload(makeToken({ name: 'Hélène Lefèvre' }));
+
+            expect(result.isRight()).toBe(true);
+            if (result.isRight()) {
+                expect((result.value as unknown as { name: string }).name).toBe('Hélène Lefèvre');
+            }
+        });
+
+        it('decode les payloads dont la longueur impose un padding', () => {
+            for (const name of ['a', 'ab', 'abc']) {
+                expect(tokenService.isTokenValid(makeToken({ name }))).toBe(true);
+            }
+        });
+
+        it('rejette un segment qui n est pas du base64url', () => {
+            const [header, , signature] = makeToken().split('.');
+            expect(tokenService.isTokenValid(`${header}.pas+du/base64=.${signature}`)).toBe(false);
+        });
+    });
+
+    describe('claims', () => {
+        it('rejette un token pas encore valide (nbf)', () => {
+            const result = tokenService.validateToken(makeToken({ nbf: now() + 600 }));
+
+            expect(result.isValid).toBe(false);
+            expect(result.error).toContain('nbf');
+        });
+
+        it('tolere un leger decalage d horloge sur nbf', () => {
+            expect(tokenService.validateToken(makeToken({ nbf: now() + 10 })).isValid).toBe(true);
+        });
+
+        it('verifie l emetteur configure (iss)', () => {
+            tokenService.configureValidation({ issuer: 'https://auth.example.com' });
+
+            expect(tokenService.validateToken(makeToken({ iss: 'https://auth.example.com' })).isValid).toBe(true);
+            expect(tokenService.validateToken(makeToken({ iss: 'https://evil.example.com' })).error).toContain('iss');
+        });
+
+        it('verifie l audience configuree (aud chaine ou tableau)', () => {
+            tokenService.configureValidation({ audience: 'web-app' });
+
+            expect(tokenService.validateToken(makeToken({ aud: ['api', 'web-app'] })).isValid).toBe(true);
+            expect(tokenService.validateToken(makeToken({ aud: 'api' })).error).toContain('aud');
+            expect(tokenService.validateToken(makeToken()).isValid).toBe(false);
+        });
+    });
+
+    describe('expiration', () => {
+        afterEach(() => {
+            tokenService.clearTokens();
+        });
+
+        it('conserve le refresh token quand seul le token d acces a expire', () => {
+            tokenService.setTokens(makeToken({ exp: now() - 60 }), 'refresh-1');
+
+            expect(tokenService.getAccessToken().isLeft()).toBe(true);
+            expect(tokenService.getRefreshToken().isRight() && tokenService.getRefreshToken().value).toBe('refresh-1');
+            expect(tokenService.shouldRefreshToken()).toBe(true);
+        });
+    });
+
+    describe('session externe', () => {
+        const idToken = makeIdToken();
+
+        beforeEach(() => {
+            tokenService.clearTokens();
+            // Règles des tokens de l'API, que le token d'accès du fournisseur ne respecte pas
+            tokenService.configureValidation({ issuer: 'https://api.example.com', audience: 'api' });
+        });
+
+        afterEach(() => {
+            tokenService.clearTokens();
+        });
+
+        it('accepte un token d acces opaque et lit l utilisateur dans l ID token', () => {
+            const expiresAt = now() + 3600;
+
+            expect(tokenService.setProviderTokens('stub', { accessToken: 'opaque-access', refreshToken: 'refresh-1', idToken, expiresAt }).isRight()).toBe(true);
+
+            expect(tokenService.getAccessToken().isRight() && tokenService.getAccessToken().value).toBe('opaque-access');
+            const payload = tokenService.getSessionPayload();
+            expect(payload.isRight() && payload.value).toMatchObject({ userId: 'idp-user-1', email: 'jean.dupont@example.com', role: 'USER', exp: expiresAt });
+            expect(tokenService.getProviderSession()).toEqual({ providerId: 'stub', idToken });
+        });
+
+        it('expire la session selon l expiration annoncee par le fournisseur', () => {
+            tokenService.setProviderTokens('stub', { accessToken: 'opaque-access', refreshToken: 'refresh-1', idToken, expiresAt: now() + 60 });
+
+            expect(tokenService.getSessionTimeRemaining()).toBeLessThanOrEqual(60);
+            expect(tokenService.shouldRefreshToken()).toBe(true);
+        });
+
+        it('refuse un ID token sans identifiant ni email', () => {
+            const result = tokenService.setProviderTokens('stub', {
+                accessToken: 'opaque-access',
+                refreshToken: 'refresh-1',
+                idToken: makeIdToken({ sub: undefined, email: undefined }),
+                expiresAt: now() + 3600,
+            });
+
+            expect(result.isLeft() && result.value.details).toBe('invalid_id_token_claims');
+            expect(tokenService.getAccessToken().isLeft()).toBe(true);
+        });
+
+        it('retire le fournisseur quand une session de l API lui succede', () => {
+            tokenService.configureValidation({});
+            tokenService.setProviderTokens('stub', { accessToken: 'opaque-access', refreshToken: 'refresh-1', idToken, expiresAt: now() + 3600 });
+
+            tokenService.setTokens(makeToken(), 'refresh-2');
+
+            expect(tokenService.getProviderSession()).toBeNull();
+            expect(tokenService.getSessionPayload().unwrap()).toMatchObject({ userId: 'user-1' });
+        });
+    });
+
+    describe('changement de stockage', () => {
+        const access = makeToken();
+        const idToken = makeIdToken();
+
+        beforeEach(() => {
+            tokenService.configureStorage(createTokenStorage('local'));
+            tokenService.clearTokens();
+            tokenService.setProviderTokens('stub', { accessToken: access, refreshToken: 'refresh-1', idToken, expiresAt: now() + 3600 });
+        });
+
+        afterEach(() => {
+            tokenService.clearTokens();
+            tokenService.configureStorage(createTokenStorage('local'));
+        });
+
+        it('migre la session existante et ne laisse aucun token dans localStorage', () => {
+            const memory = new MemoryTokenStorage();
+
+            tokenService.configureStorage(memory);
+
+            expect(Object.values(TOKEN_KEYS).map((key) => localStorage.getItem(key)).filter(Boolean)).toEqual([]);
+            expect(memory.getItem(TOKEN_KEYS.ACCESS)).toBe(access);
+            expect(tokenService.getRefreshToken().isRight() && tokenService.getRefreshToken().value).toBe('refresh-1');
+            expect(tokenService.getProviderSession()).toEqual({ providerId: 'stub', idToken });
+        });
+
+        it('repartit les tokens migres selon la strategie hybride', () => {
+            tokenService.configureStorage(createTokenStorage('hybrid'));
+
+            expect(sessionStorage.getItem(TOKEN_KEYS.ACCESS)).toBe(access);
+            expect(sessionStorage.getItem(TOKEN_KEYS.REFRESH)).toBeNull();
+            expect(localStorage.getItem(TOKEN_KEYS.REFRESH)).toBeNull();
+            expect(tokenService.getRefreshToken().isRight() && tokenService.getRefreshToken().value).toBe('refresh-1');
+        });
+    });
+
+    describe('impersonation', () => {
+        const adminAccess = makeToken({ userId: 'admin-1', role: 'ADMIN' });
+        const adminIdToken = makeIdToken({ sub: 'admin-1', role: 'ADMIN' });
+
+        beforeEach(() => {
+            tokenService.clearTokens();
+            tokenService.setProviderTokens('stub', { accessToken: adminAccess, refreshToken: 'admin-refresh', idToken: adminIdToken, expiresAt: now() + 3600 });
+        });
+
+        it('met la session d origine de cote et expose celle de l utilisateur', () => {
+            const userAccess = makeToken({ userId: 'user-42' });
+
+            expect(tokenService.startImpersonation({ accessToken: userAccess, refreshToken: 'user-refresh' }).isRight()).toBe(true);
+
+            expect(tokenService.isImpersonating()).toBe(true);
+            expect(tokenService.getAccessToken().isRight() && tokenService.getAccessToken().value).toBe(userAccess);
+            expect(tokenService.getRefreshToken().isRight() && tokenService.getRefreshToken().value).toBe('user-refresh');
+            expect(tokenService.getProviderSession()).toBeNull();
+        });
+
+        it('restaure la session d origine, fournisseur compris', () => {
+            tokenService.startImpersonation({ accessToken: makeToken({ userId: 'user-42' }), refreshToken: 'user-refresh' });
+
+            const result = tokenService.stopImpersonation();
+
+            expect(result.isRight() && result.value).toEqual({ accessToken: adminAccess, refreshToken: 'admin-refresh' });
+            expect(tokenService.isImpersonating()).toBe(false);
+            expect(tokenService.getProviderSession()).toEqual({ providerId: 'stub', idToken: adminIdToken });
+        });
+
+        it('laisse la session d origine intacte si les tokens d impersonation sont invalides', () => {
+            const result = tokenService.startImpersonation({ accessToken: 'pas-un-jwt', refreshToken: 'user-refresh' });
+
+            expect(result.isLeft()).toBe(true);
+            expect(tokenService.isImpersonating()).toBe(false);
+            expect(tokenService.getRefreshToken().isRight() && tokenService.getRefreshToken().value).toBe('admin-refresh');
+        });
+    });
+});
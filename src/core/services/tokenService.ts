@@ -1,27 +1,76 @@
 import { Either, left, right } from "@sweet-monads/either";
-import { AppError } from "../types/AppError";
-import { TokenPayload, TokenValidationResult } from "../types/AuthTypes";
+import { ConflictError, TypedAppError, UnauthorizedError, UnknownError, ValidationError } from "../types/AppError";
+import { AuthTokens, ProviderSession, ProviderTokens, TokenPayload, TokenValidationResult } from "../types/AuthTypes";
+import { ROLES } from "../policies/accessPolicy";
+import { TOKEN_KEYS, TokenStorage, createTokenStorage } from "./tokenStorage";
+import { JwtSignatureVerifier, JwtVerificationKeys } from "./jwtVerifier";
+import { parseJwt } from "../utils/jwt";
+import Logger from "./logger";
+
+const log = Logger.getInstance().scope("tokenService");
+
+/**
+ * Règles de validation des claims et de la signature des tokens d'accès
+ */
+export interface TokenValidationOptions extends JwtVerificationKeys {
+    issuer?: string | string[];      // Valeurs acceptées pour `iss`
+    audience?: string | string[];    // Au moins une doit figurer dans `aud`
+    clockToleranceSeconds?: number;  // Tolérance de décalage d'horloge pour `nbf` (défaut : 30s)
+}
 
 export interface ITokenService {
-    getAccessToken(): Either<AppError, string>;
-    getRefreshToken(): Either<AppError, string>;
-    setTokens(accessToken: string, refreshToken: string): Either<AppError, boolean>;
+    getAccessToken(): Either<TypedAppError, string>;
+    getRefreshToken(): Either<TypedAppError, string>;
+    setTokens(accessToken: string, refreshToken: string): Either<TypedAppError, boolean>;
+    setProviderTokens(providerId: string, tokens: ProviderTokens): Either<TypedAppError, boolean>;
+    getProviderSession(): ProviderSession | null;
+    getSessionPayload(): Either<TypedAppError, TokenPayload>;
+    startImpersonation(tokens: AuthTokens): Either<TypedAppError, boolean>;
+    stopImpersonation(): Either<TypedAppError, AuthTokens>;
+    isImpersonating(): boolean;
     isTokenValid(token: string): boolean;
     isTokenExpired(token: string): boolean;
-    getTokenPayload(token: string): Either<AppError, TokenPayload>;
+    getTokenPayload(token: string): Either<TypedAppError, TokenPayload>;
     validateToken(token: string): TokenValidationResult;
+    verifyToken(token: string): Promise<TokenValidationResult>;
     shouldRefreshToken(): boolean;
+    getTokenTimeRemaining(token: string): number;
+    getSessionTimeRemaining(): number;
+    getRefreshBufferSeconds(): number;
     clearTokens(): void;
 }
 
 export class TokenService implements ITokenService {
     private static instance: TokenService;
-    private readonly ACCESS_TOKEN_KEY = 'access_token';
-    private readonly REFRESH_TOKEN_KEY = 'refresh_token';
+    private readonly ACCESS_TOKEN_KEY = TOKEN_KEYS.ACCESS;
+    private readonly REFRESH_TOKEN_KEY = TOKEN_KEYS.REFRESH;
+    private readonly ID_TOKEN_KEY = TOKEN_KEYS.ID;
+    private readonly PROVIDER_KEY = TOKEN_KEYS.PROVIDER;
+    private readonly ACCESS_EXPIRES_AT_KEY = TOKEN_KEYS.ACCESS_EXPIRES_AT;
+
+    // Clés propres à une session externe, absentes d'une session émise par l'API
+    private readonly PROVIDER_SESSION_KEYS = [TOKEN_KEYS.PROVIDER, TOKEN_KEYS.ID, TOKEN_KEYS.ACCESS_EXPIRES_AT];
+
+    // Clés de la session courante et de leur copie pendant une impersonation
+    private readonly IMPERSONATOR_KEYS: ReadonlyArray<readonly [string, string]> = [
+        [TOKEN_KEYS.ACCESS, TOKEN_KEYS.IMPERSONATOR_ACCESS],
+        [TOKEN_KEYS.REFRESH, TOKEN_KEYS.IMPERSONATOR_REFRESH],
+        [TOKEN_KEYS.ID, TOKEN_KEYS.IMPERSONATOR_ID],
+        [TOKEN_KEYS.PROVIDER, TOKEN_KEYS.IMPERSONATOR_PROVIDER],
+        [TOKEN_KEYS.ACCESS_EXPIRES_AT, TOKEN_KEYS.IMPERSONATOR_ACCESS_EXPIRES_AT],
+    ];
+
+    // localStorage par defaut, remplacable via configureStorage() au demarrage
+    private storage: TokenStorage = createTokenStorage('local');
 
     // Buffer de 5 minutes avant expiration pour refresh automatique
     private readonly REFRESH_BUFFER_MINUTES = 5;
 
+    // Claims attendus et vérification de signature, configurés via configureValidation()
+    private validationOptions: TokenValidationOptions = {};
+    private signatureVerifier: JwtSignatureVerifier | null = null;
+    private readonly DEFAULT_CLOCK_TOLERANCE_SECONDS = 30;
+
     private constructor() { }
 
     public static getInstance(): TokenService {
@@ -31,98 +80,231 @@ export class TokenService implements ITokenService {
         return TokenService.instance;
     }
 
+    /**
+     * Remplace le stockage des tokens.
+     * Les tokens existants sont migres vers le nouveau stockage puis retires de l'ancien,
+     * pour ne pas laisser de credentials dans un emplacement que la configuration interdit.
+     */
+    public configureStorage(storage: TokenStorage): void {
+        if (storage === this.storage) {
+            return;
+        }
+
+        const keys = Object.values(TOKEN_KEYS);
+        const existing = keys.map((key) => [key, this.getStoredToken(key)] as const);
+
+        // Suppression avant ecriture : sans effet de bord si les deux stockages partagent le meme support
+        keys.forEach((key) => this.removeStoredToken(key));
+        this.storage = storage;
+
+        existing.forEach(([key, value]) => {
+            if (value) {
+                try {
+                    this.setStoredToken(key, value);
+                } catch {
+                    // Erreur deja journalisee, l'utilisateur devra se reconnecter
+                }
+            }
+        });
+    }
+
+    /**
+     * Configure les claims attendus (iss, aud, nbf) et la vérification de signature.
+     * Sans clé publique ni JWKS, la signature n'est pas vérifiée (elle l'est toujours par l'API).
+     */
+    public configureValidation(options: TokenValidationOptions): void {
+        this.validationOptions = options;
+        this.signatureVerifier = options.publicKey || options.jwks
+            ? new JwtSignatureVerifier({ publicKey: options.publicKey, jwks: options.jwks })
+            : null;
+    }
+
     /**
      * Récupère le token d'accès avec validation automatique
      */
-    public getAccessToken(): Either<AppError, string> {
+    public getAccessToken(): Either<TypedAppError, string> {
         try {
             const token = this.getStoredToken(this.ACCESS_TOKEN_KEY);
 
             if (!token) {
-                return left(new AppError("Token d'accès non trouvé", "401", "access_token_not_found"));
+                return left(new UnauthorizedError("Token d'accès non trouvé", "access_token_not_found"));
             }
 
-            const validation = this.validateToken(token);
+            const validation = this.validateSession(token);
 
             if (!validation.isValid) {
                 this.clearTokens();
-                return left(new AppError(
-                    validation.error || "Token d'accès invalide",
-                    "401",
-                    "access_token_invalid"
-                ));
+                return left(new UnauthorizedError(validation.error || "Token d'accès invalide", "access_token_invalid"));
             }
 
+            // Expiré : le refresh token reste utilisable pour renouveler la session
             if (validation.isExpired) {
-                this.clearTokens();
-                return left(new AppError("Token d'accès expiré", "401", "access_token_expired"));
+                return left(new UnauthorizedError("Token d'accès expiré", "access_token_expired"));
             }
 
             return right(token);
         } catch (error) {
-            return left(new AppError("Erreur lors de la récupération du token", "500", error));
+            return left(new UnknownError("Erreur lors de la récupération du token", error));
         }
     }
 
     /**
      * Récupère le token de refresh
      */
-    public getRefreshToken(): Either<AppError, string> {
+    public getRefreshToken(): Either<TypedAppError, string> {
         try {
             const token = this.getStoredToken(this.REFRESH_TOKEN_KEY);
 
             if (!token) {
-                return left(new AppError("Token de refresh non trouvé", "401", "refresh_token_not_found"));
+                return left(new UnauthorizedError("Token de refresh non trouvé", "refresh_token_not_found"));
             }
 
-            // Validation basique du refresh token
-            if (!this.isTokenValid(token)) {
+            // Le refresh token est opaque pour le client (RFC 6749) : seule sa présence est vérifiée
+            if (!token.trim()) {
                 this.clearTokens();
-                return left(new AppError("Token de refresh invalide", "401", "refresh_token_invalid"));
+                return left(new UnauthorizedError("Token de refresh invalide", "refresh_token_invalid"));
             }
 
             return right(token);
         } catch (error) {
-            return left(new AppError("Erreur lors de la récupération du refresh token", "500", error));
+            return left(new UnknownError("Erreur lors de la récupération du refresh token", error));
         }
     }
 
     /**
-     * Stocke les tokens avec validation préalable
+     * Stocke les tokens d'une session émise par l'API, avec validation préalable
      */
-    public setTokens(accessToken: string, refreshToken: string): Either<AppError, boolean> {
+    public setTokens(accessToken: string, refreshToken: string): Either<TypedAppError, boolean> {
         try {
             // Validation du token d'accès
             const accessValidation = this.validateToken(accessToken);
             if (!accessValidation.isValid) {
-                return left(new AppError(
-                    "Token d'accès invalide lors du stockage",
-                    "400",
-                    "invalid_access_token_format"
-                ));
+                return left(new ValidationError("Token d'accès invalide lors du stockage", [], "invalid_access_token_format"));
             }
 
-            // Validation du token de refresh
-            if (!this.isTokenValid(refreshToken)) {
-                return left(new AppError(
-                    "Token de refresh invalide lors du stockage",
-                    "400",
-                    "invalid_refresh_token_format"
-                ));
+            // Validation du token de refresh (opaque, pas forcément un JWT)
+            if (!refreshToken || !refreshToken.trim()) {
+                return left(new ValidationError("Token de refresh invalide lors du stockage", [], "invalid_refresh_token_format"));
             }
 
             // Stockage sécurisé
             this.setStoredToken(this.ACCESS_TOKEN_KEY, accessToken);
             this.setStoredToken(this.REFRESH_TOKEN_KEY, refreshToken);
+            this.PROVIDER_SESSION_KEYS.forEach((key) => this.removeStoredToken(key));
+
+            return right(true);
+        } catch (error) {
+            return left(new UnknownError("Erreur lors du stockage des tokens", error));
+        }
+    }
+
+    /**
+     * Stocke les tokens d'une session ouverte via un fournisseur d'identité externe.
+     * L'ID token a été vérifié par le client OIDC (émetteur, audience, signature du fournisseur) ;
+     * le token d'accès n'est pas soumis aux règles des tokens de l'API (iss, aud, claims, signature).
+     */
+    public setProviderTokens(providerId: string, tokens: ProviderTokens): Either<TypedAppError, boolean> {
+        try {
+            const identity = this.decodeJWTPayload(tokens.idToken);
+            if (!identity || !identity.userId || !identity.email) {
+                return left(new ValidationError("ID token invalide lors du stockage", [], "invalid_id_token_claims"));
+            }
+
+            if (!tokens.accessToken?.trim() || !tokens.refreshToken?.trim() || !Number.isFinite(tokens.expiresAt)) {
+                return left(new ValidationError("Tokens du fournisseur d'identité invalides lors du stockage", [], "invalid_provider_tokens"));
+            }
+
+            this.setStoredToken(this.ACCESS_TOKEN_KEY, tokens.accessToken);
+            this.setStoredToken(this.REFRESH_TOKEN_KEY, tokens.refreshToken);
+            this.setStoredToken(this.PROVIDER_KEY, providerId);
+            this.setStoredToken(this.ID_TOKEN_KEY, tokens.idToken);
+            this.setStoredToken(this.ACCESS_EXPIRES_AT_KEY, String(tokens.expiresAt));
+
+            return right(true);
+        } catch (error) {
+            return left(new UnknownError("Erreur lors du stockage des tokens", error));
+        }
+    }
+
+    /**
+     * Récupère le fournisseur d'identité externe de la session courante (null pour un login direct)
+     */
+    public getProviderSession(): ProviderSession | null {
+        const providerId = this.getStoredToken(this.PROVIDER_KEY);
+        if (!providerId) {
+            return null;
+        }
+
+        return { providerId, idToken: this.getStoredToken(this.ID_TOKEN_KEY) };
+    }
+
+    /**
+     * Met de côté la session courante (administrateur) et la remplace par celle de l'utilisateur impersoné.
+     * La session d'origine n'est ni renouvelée ni envoyée à l'API jusqu'à stopImpersonation().
+     */
+    public startImpersonation(tokens: AuthTokens): Either<TypedAppError, boolean> {
+        if (this.isImpersonating()) {
+            return left(new ConflictError("Une impersonation est déjà en cours", "impersonation_already_active"));
+        }
+
+        if (!this.getStoredToken(this.ACCESS_TOKEN_KEY) || !this.getStoredToken(this.REFRESH_TOKEN_KEY)) {
+            return left(new UnauthorizedError("Aucune session à mettre de côté", "impersonation_requires_session"));
+        }
+
+        // Valider avant de déplacer quoi que ce soit : un échec laisse la session d'origine intacte
+        if (!this.validateToken(tokens.accessToken).isValid || !tokens.refreshToken?.trim()) {
+            return left(new ValidationError("Tokens d'impersonation invalides", [], "invalid_impersonation_tokens"));
+        }
+
+        try {
+            this.IMPERSONATOR_KEYS.forEach(([key, impersonatorKey]) => this.moveStoredToken(key, impersonatorKey));
+
+            // Session émise par l'API : aucun fournisseur externe pendant l'impersonation
+            this.setStoredToken(this.ACCESS_TOKEN_KEY, tokens.accessToken);
+            this.setStoredToken(this.REFRESH_TOKEN_KEY, tokens.refreshToken);
 
             return right(true);
         } catch (error) {
-            return left(new AppError("Erreur lors du stockage des tokens", "500", error));
+            this.restoreImpersonator();
+            return left(new UnknownError("Erreur lors du stockage des tokens d'impersonation", error));
         }
     }
 
     /**
-     * Vérifie si un token est valide (format et signature)
+     * Remplace la session impersonée par la session d'origine et retourne ses tokens,
+     * tels qu'ils ont été mis de côté (le token d'accès a pu expirer entre-temps)
+     */
+    public stopImpersonation(): Either<TypedAppError, AuthTokens> {
+        if (!this.isImpersonating()) {
+            return left(new ValidationError("Aucune impersonation en cours", [], "impersonation_not_active"));
+        }
+
+        try {
+            this.restoreImpersonator();
+        } catch (error) {
+            return left(new UnknownError("Erreur lors de la restauration de la session d'origine", error));
+        }
+
+        const accessToken = this.getStoredToken(this.ACCESS_TOKEN_KEY);
+        const refreshToken = this.getStoredToken(this.REFRESH_TOKEN_KEY);
+        if (!accessToken || !refreshToken) {
+            this.clearTokens();
+            return left(new UnauthorizedError("Session d'origine introuvable", "impersonator_session_lost"));
+        }
+
+        return right({ accessToken, refreshToken });
+    }
+
+    /**
+     * Indique si la session courante est une impersonation (session d'origine mise de côté)
+     */
+    public isImpersonating(): boolean {
+        return this.getStoredToken(TOKEN_KEYS.IMPERSONATOR_REFRESH) !== null;
+    }
+
+    /**
+     * Vérifie si un token est bien formé (structure JWT et payload décodable).
+     * La signature est vérifiée séparément par verifyToken().
      */
     public isTokenValid(token: string): boolean {
         try {
@@ -159,24 +341,44 @@ export class TokenService implements ITokenService {
     /**
      * Récupère le payload décodé d'un token
      */
-    public getTokenPayload(token: string): Either<AppError, TokenPayload> {
+    public getTokenPayload(token: string): Either<TypedAppError, TokenPayload> {
         try {
             const payload = this.decodeJWTPayload(token);
             if (!payload) {
-                return left(new AppError("Token invalide - impossible de décoder", "400", "token_decode_failed"));
+                return left(new ValidationError("Token invalide - impossible de décoder", [], "token_decode_failed"));
             }
 
             // Validation des champs obligatoires
             if (!payload.userId || !payload.email || !payload.exp || !payload.iat) {
-                return left(new AppError("Token invalide - champs manquants", "400", "token_missing_fields"));
+                return left(new ValidationError("Token invalide - champs manquants", [], "token_missing_fields"));
             }
 
             return right(payload);
         } catch (error) {
-            return left(new AppError("Erreur lors du décodage du token", "400", error));
+            return left(new ValidationError("Erreur lors du décodage du token", [], error));
         }
     }
 
+    /**
+     * Claims de l'utilisateur de la session courante : token d'accès de l'API,
+     * ou ID token pour une session ouverte via un fournisseur d'identité
+     */
+    public getSessionPayload(): Either<TypedAppError, TokenPayload> {
+        const tokenResult = this.getAccessToken();
+        if (tokenResult.isLeft()) {
+            return left(tokenResult.value);
+        }
+
+        if (!this.isProviderSession()) {
+            return this.getTokenPayload(tokenResult.value);
+        }
+
+        const payload = this.getProviderPayload();
+        return payload
+            ? right(payload)
+            : left(new ValidationError("ID token invalide - champs manquants", [], "token_missing_fields"));
+    }
+
     /**
      * Validation complète d'un token
      */
@@ -201,6 +403,16 @@ export class TokenService implements ITokenService {
                 };
             }
 
+            const claimsError = this.checkClaims(payload);
+            if (claimsError) {
+                return {
+                    isValid: false,
+                    isExpired: false,
+                    payload,
+                    error: claimsError
+                };
+            }
+
             const isExpired = this.isTokenExpired(token);
 
             return {
@@ -220,26 +432,57 @@ export class TokenService implements ITokenService {
     }
 
     /**
-     * Détermine s'il faut refresh le token (dans les 5 minutes avant expiration)
+     * Validation complète, y compris la signature si une clé publique ou un JWKS est configuré.
+     * À utiliser pour les tokens reçus de l'API avant de les stocker.
+     */
+    public async verifyToken(token: string): Promise<TokenValidationResult> {
+        const validation = this.validateToken(token);
+        if (!validation.isValid || !this.signatureVerifier) {
+            return validation;
+        }
+
+        const signatureResult = await this.signatureVerifier.verify(token);
+        if (signatureResult.isLeft()) {
+            return {
+                ...validation,
+                isValid: false,
+                error: signatureResult.value.message
+            };
+        }
+
+        return validation;
+    }
+
+    /**
+     * Détermine s'il faut refresh le token (dans les 5 minutes avant expiration, ou déjà expiré
+     * tant qu'un refresh token est disponible)
      */
     public shouldRefreshToken(): boolean {
         try {
-            const tokenResult = this.getAccessToken();
-            if (tokenResult.isLeft()) {
+            const token = this.getStoredToken(this.ACCESS_TOKEN_KEY);
+            if (!token || this.getRefreshToken().isLeft()) {
                 return false;
             }
 
-            const token = tokenResult.value;
-            const timeRemaining = this.getTokenTimeRemaining(token);
-            const refreshBufferSeconds = this.REFRESH_BUFFER_MINUTES * 60;
+            const validation = this.validateSession(token);
+            if (!validation.isValid) {
+                return false;
+            }
 
-            // Refresh si il reste moins de 5 minutes et que le token n'est pas encore expiré
-            return timeRemaining <= refreshBufferSeconds && timeRemaining > 0;
+            // Refresh si il reste moins de 5 minutes (ou si le token a expiré, onglet longtemps en veille)
+            return this.getSessionTimeRemaining() <= this.getRefreshBufferSeconds();
         } catch {
             return false;
         }
     }
 
+    /**
+     * Retourne la marge (en secondes) avant expiration à partir de laquelle un refresh est déclenché
+     */
+    public getRefreshBufferSeconds(): number {
+        return this.REFRESH_BUFFER_MINUTES * 60;
+    }
+
     /**
      * Retourne le temps restant avant expiration en secondes
      */
@@ -259,37 +502,135 @@ export class TokenService implements ITokenService {
         }
     }
 
+    /**
+     * Retourne le temps restant avant expiration du token d'accès de la session courante, en secondes
+     */
+    public getSessionTimeRemaining(): number {
+        const token = this.getStoredToken(this.ACCESS_TOKEN_KEY);
+        if (!token) {
+            return 0;
+        }
+
+        if (!this.isProviderSession()) {
+            return this.getTokenTimeRemaining(token);
+        }
+
+        const payload = this.getProviderPayload();
+        return payload ? Math.max(0, payload.exp - Math.floor(Date.now() / 1000)) : 0;
+    }
+
     /**
      * Supprime tous les tokens stockés
      */
     public clearTokens(): void {
         try {
-            this.removeStoredToken(this.ACCESS_TOKEN_KEY);
-            this.removeStoredToken(this.REFRESH_TOKEN_KEY);
+            Object.values(TOKEN_KEYS).forEach((key) => this.removeStoredToken(key));
         } catch (error) {
-            console.error('Erreur lors de la suppression des tokens:', error);
+            log.error('Erreur lors de la suppression des tokens', { error });
         }
     }
 
     /**
-     * Décode le payload JWT (partie centrale)
+     * Décode le payload JWT (base64url, UTF-8).
+     * Les tokens émis par un fournisseur OIDC identifient l'utilisateur par `sub` plutôt que `userId`.
      */
     private decodeJWTPayload(token: string): TokenPayload | null {
-        try {
-            const parts = token.split('.');
-            if (parts.length !== 3) {
-                return null;
-            }
+        const jwt = parseJwt(token);
+        if (!jwt) {
+            return null;
+        }
 
-            const payload = parts[1];
-            // Correction du padding base64 si nécessaire
-            const correctedPayload = payload.replace(/-/g, '+').replace(/_/g, '/');
-            const decoded = atob(correctedPayload);
+        const payload = jwt.payload as unknown as TokenPayload & { sub?: string };
+        if (!payload.userId && typeof payload.sub === 'string') {
+            return { ...payload, userId: payload.sub };
+        }
+        return payload;
+    }
 
-            return JSON.parse(decoded) as TokenPayload;
-        } catch {
+    private isProviderSession(): boolean {
+        return this.getStoredToken(this.PROVIDER_KEY) !== null;
+    }
+
+    /**
+     * Validation du token d'accès stocké. Session externe : claims de l'ID token et expiration
+     * annoncée par le fournisseur, le token d'accès pouvant être opaque pour le client.
+     */
+    private validateSession(accessToken: string): TokenValidationResult {
+        if (!this.isProviderSession()) {
+            return this.validateToken(accessToken);
+        }
+
+        const payload = this.getProviderPayload();
+        if (!payload) {
+            return { isValid: false, isExpired: false, payload: null, error: "ID token de la session invalide" };
+        }
+
+        const isExpired = payload.exp < Math.floor(Date.now() / 1000);
+        return { isValid: true, isExpired, payload, error: isExpired ? "Token expiré" : undefined };
+    }
+
+    /**
+     * Utilisateur d'une session externe, lu dans l'ID token stocké. `exp` est celle du token d'accès,
+     * le rôle absent de l'ID token donne les droits d'un utilisateur standard.
+     */
+    private getProviderPayload(): TokenPayload | null {
+        const idToken = this.getStoredToken(this.ID_TOKEN_KEY);
+        const expiresAt = Number(this.getStoredToken(this.ACCESS_EXPIRES_AT_KEY));
+        const payload = idToken ? this.decodeJWTPayload(idToken) : null;
+        if (!payload || !payload.userId || !payload.email || !Number.isFinite(expiresAt) || expiresAt <= 0) {
             return null;
         }
+
+        return { ...payload, role: payload.role ?? ROLES.USER, exp: expiresAt };
+    }
+
+    /**
+     * Vérifie les claims nbf, iss et aud. Retourne le message d'erreur, ou null si valides.
+     */
+    private checkClaims(payload: TokenPayload): string | null {
+        const { issuer, audience, clockToleranceSeconds = this.DEFAULT_CLOCK_TOLERANCE_SECONDS } = this.validationOptions;
+        const currentTime = Math.floor(Date.now() / 1000);
+
+        if (payload.nbf !== undefined && (typeof payload.nbf !== 'number' || payload.nbf > currentTime + clockToleranceSeconds)) {
+            return "Token pas encore valide (nbf)";
+        }
+
+        if (issuer !== undefined) {
+            const issuers = Array.isArray(issuer) ? issuer : [issuer];
+            if (!payload.iss || !issuers.includes(payload.iss)) {
+                return "Émetteur du token invalide (iss)";
+            }
+        }
+
+        if (audience !== undefined) {
+            const expected = Array.isArray(audience) ? audience : [audience];
+            const tokenAudience = payload.aud === undefined ? [] : Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+            if (!tokenAudience.some((aud) => expected.includes(aud))) {
+                return "Audience du token invalide (aud)";
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Remet la session d'origine à la place de la session courante
+     */
+    private restoreImpersonator(): void {
+        this.IMPERSONATOR_KEYS.forEach(([key, impersonatorKey]) => this.moveStoredToken(impersonatorKey, key));
+    }
+
+    /**
+     * Déplace une valeur d'une clé à l'autre (la clé cible est vidée si la source est absente)
+     */
+    private moveStoredToken(fromKey: string, toKey: string): void {
+        const value = this.getStoredToken(fromKey);
+        if (value) {
+            this.setStoredToken(toKey, value);
+        } else {
+            this.removeStoredToken(toKey);
+        }
+        this.removeStoredToken(fromKey);
     }
 
     /**
@@ -297,9 +638,9 @@ export class TokenService implements ITokenService {
      */
     private getStoredToken(key: string): string | null {
         try {
-            return localStorage.getItem(key);
+            return this.storage.getItem(key);
         } catch (error) {
-            console.error(`Erreur lors de la récupération de ${key}:`, error);
+            log.error(`Erreur lors de la récupération de ${key}`, { error });
             return null;
         }
     }
@@ -309,9 +650,9 @@ export class TokenService implements ITokenService {
      */
     private setStoredToken(key: string, value: string): void {
         try {
-            localStorage.setItem(key, value);
+            this.storage.setItem(key, value);
         } catch (error) {
-            console.error(`Erreur lors du stockage de ${key}:`, error);
+            log.error(`Erreur lors du stockage de ${key}`, { error });
             throw error;
         }
     }
@@ -321,9 +662,9 @@ export class TokenService implements ITokenService {
      */
     private removeStoredToken(key: string): void {
         try {
-            localStorage.removeItem(key);
+            this.storage.removeItem(key);
         } catch (error) {
-            console.error(`Erreur lors de la suppression de ${key}:`, error);
+            log.error(`Erreur lors de la suppression de ${key}`, { error });
         }
     }
 }
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+    HybridTokenStorage,
+    MemoryTokenStorage,
+    TOKEN_KEYS,
+    WebTokenStorage,
+    createTokenStorage,
+    isTokenStorageStrategy,
+} from './tokenStorage';
+
+// --- Helpers ---
+
+const makeThrowingStorage = (): Storage => ({
+    length: 0,
+    clear: vi.fn(),
+    key: vi.fn(),
+    getItem: vi.fn(() => { throw new Error('SecurityError'); }),
+    setItem: vi.fn(() => { throw new Error('QuotaExceededError'); }),
+    removeItem: vi.fn(() => { throw new Error('SecurityError'); }),
+});
+
+// --- Tests ---
+
+describe('tokenStorage', () => {
+    beforeEach(() => {
+        localStorage.clear();
+        sessionStorage.clear();
+        vi.spyOn(console, 'warn').mockImplementation(() => { });
+    });
+
+    describe('WebTokenStorage', () => {
+        it('lit et ecrit dans le stockage fourni', () => {
+            const storage = new WebTokenStorage(() => sessionStorage, 'sessionStorage');
+
+            storage.setItem(TOKEN_KEYS.ACCESS, 'abc');
+
+            expect(sessionStorage.getItem(TOKEN_KEYS.ACCESS)).toBe('abc');
+            expect(storage.getItem(TOKEN_KEYS.ACCESS)).toBe('abc');
+            expect(storage.isUsingFallback()).toBe(false);
+        });
+
+        it('bascule en memoire si le stockage est indisponible', () => {
+            const storage = new WebTokenStorage(makeThrowingStorage, 'localStorage');
+
+            storage.setItem(TOKEN_KEYS.ACCESS, 'abc');
+
+            expect(storage.isUsingFallback()).toBe(true);
+            expect(storage.getItem(TOKEN_KEYS.ACCESS)).toBe('abc');
+        });
+
+        it('bascule en memoire si le stockage leve une exception en cours de route', () => {
+            let broken = false;
+            const backing = sessionStorage;
+            const storage = new WebTokenStorage(() => (broken ? makeThrowingStorage() : backing), 'sessionStorage');
+
+            broken = true;
+            storage.setItem(TOKEN_KEYS.REFRESH, 'xyz');
+
+            expect(storage.isUsingFallback()).toBe(true);
+            expect(storage.getItem(TOKEN_KEYS.REFRESH)).toBe('xyz');
+        });
+    });
+
+    describe('HybridTokenStorage', () => {
+        it('garde le refresh token en memoire et delegue l access token', () => {
+            const persistent = new MemoryTokenStorage();
+            const storage = new HybridTokenStorage(persistent);
+
+            storage.setItem(TOKEN_KEYS.ACCESS, 'access');
+            storage.setItem(TOKEN_KEYS.REFRESH, 'refresh');
+
+            expect(persistent.getItem(TOKEN_KEYS.ACCESS)).toBe('access');
+            expect(persistent.getItem(TOKEN_KEYS.REFRESH)).toBeNull();
+            expect(storage.getItem(TOKEN_KEYS.REFRESH)).toBe('refresh');
+        });
+    });
+
+    describe('createTokenStorage', () => {
+        it('la strategie hybrid n ecrit jamais le refresh token dans le navigateur', () => {
+            const storage = createTokenStorage('hybrid');
+
+            storage.setItem(TOKEN_KEYS.ACCESS, 'access');
+            storage.setItem(TOKEN_KEYS.REFRESH, 'refresh');
+
+            expect(sessionStorage.getItem(TOKEN_KEYS.ACCESS)).toBe('access');
+            expect(sessionStorage.getItem(TOKEN_KEYS.REFRESH)).toBeNull();
+            expect(localStorage.getItem(TOKEN_KEYS.REFRESH)).toBeNull();
+        });
+
+        it('valide les noms de strategie', () => {
+            expect(isTokenStorageStrategy('session')).toBe(true);
+            expect(isTokenStorageStrategy('cookie')).toBe(false);
+            expect(isTokenStorageStrategy(undefined)).toBe(false);
+        });
+    });
+});
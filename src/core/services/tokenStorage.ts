@@ -0,0 +1,186 @@
+import Logger from './logger';
+
+const log = Logger.getInstance().scope('tokenStorage');
+
+/**
+ * Abstraction du stockage des tokens JWT.
+ * Permet de choisir ou vivent les tokens selon les contraintes de securite du deploiement.
+ */
+
+export const TOKEN_KEYS = {
+    ACCESS: 'access_token',
+    REFRESH: 'refresh_token',
+    ID: 'id_token',             // ID token OIDC (logout aupres du fournisseur d'identite)
+    PROVIDER: 'auth_provider',  // Fournisseur d'identite externe de la session courante
+    ACCESS_EXPIRES_AT: 'access_token_expires_at',   // Expiration du token d'acces d'un fournisseur (opaque pour le client)
+    // Session d'origine de l'administrateur, mise de cote pendant une impersonation
+    IMPERSONATOR_ACCESS: 'impersonator_access_token',
+    IMPERSONATOR_REFRESH: 'impersonator_refresh_token',
+    IMPERSONATOR_ID: 'impersonator_id_token',
+    IMPERSONATOR_PROVIDER: 'impersonator_auth_provider',
+    IMPERSONATOR_ACCESS_EXPIRES_AT: 'impersonator_access_token_expires_at',
+} as const;
+
+export interface TokenStorage {
+    getItem(key: string): string | null;
+    setItem(key: string, value: string): void;
+    removeItem(key: string): void;
+}
+
+/**
+ * Strategies disponibles :
+ * - local   : localStorage (persiste entre les onglets et les redemarrages)
+ * - session : sessionStorage (limite a l'onglet, efface a la fermeture)
+ * - memory  : memoire uniquement (perdu au rechargement de la page)
+ * - hybrid  : refresh token en memoire, access token en sessionStorage
+ */
+export type TokenStorageStrategy = 'local' | 'session' | 'memory' | 'hybrid';
+
+export const TOKEN_STORAGE_STRATEGIES: readonly TokenStorageStrategy[] = ['local', 'session', 'memory', 'hybrid'];
+
+/**
+ * Stockage en memoire -- jamais ecrit sur disque
+ */
+export class MemoryTokenStorage implements TokenStorage {
+    private items = new Map<string, string>();
+
+    public getItem(key: string): string | null {
+        return this.items.get(key) ?? null;
+    }
+
+    public setItem(key: string, value: string): void {
+        this.items.set(key, value);
+    }
+
+    public removeItem(key: string): void {
+        this.items.delete(key);
+    }
+}
+
+/**
+ * Stockage base sur la Web Storage API (localStorage / sessionStorage).
+ * Bascule en memoire si le stockage est indisponible ou leve une exception
+ * (ex : Safari en navigation privee, quota depasse, cookies bloques).
+ */
+export class WebTokenStorage implements TokenStorage {
+    private fallback: MemoryTokenStorage | null = null;
+
+    constructor(private readonly resolveStorage: () => Storage, private readonly name: string) {
+        if (!this.isAvailable()) {
+            this.switchToFallback();
+        }
+    }
+
+    public getItem(key: string): string | null {
+        if (this.fallback) {
+            return this.fallback.getItem(key);
+        }
+        try {
+            return this.resolveStorage().getItem(key);
+        } catch (error) {
+            this.switchToFallback(error);
+            return null;
+        }
+    }
+
+    public setItem(key: string, value: string): void {
+        if (this.fallback) {
+            this.fallback.setItem(key, value);
+            return;
+        }
+        try {
+            this.resolveStorage().setItem(key, value);
+        } catch (error) {
+            this.switchToFallback(error);
+            this.fallback!.setItem(key, value);
+        }
+    }
+
+    public removeItem(key: string): void {
+        if (this.fallback) {
+            this.fallback.removeItem(key);
+            return;
+        }
+        try {
+            this.resolveStorage().removeItem(key);
+        } catch (error) {
+            this.switchToFallback(error);
+        }
+    }
+
+    /**
+     * Indique si le stockage a bascule en memoire
+     */
+    public isUsingFallback(): boolean {
+        return this.fallback !== null;
+    }
+
+    private isAvailable(): boolean {
+        try {
+            const storage = this.resolveStorage();
+            const probeKey = '__token_storage_probe__';
+            storage.setItem(probeKey, probeKey);
+            storage.removeItem(probeKey);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    private switchToFallback(error?: unknown): void {
+        if (this.fallback) {
+            return;
+        }
+        log.warn(`${this.name} indisponible, bascule du stockage des tokens en memoire`, { error });
+        this.fallback = new MemoryTokenStorage();
+    }
+}
+
+/**
+ * Stockage hybride : certaines cles restent en memoire, les autres sont deleguees.
+ * Par defaut, les refresh tokens (longue duree) ne sont jamais persistes.
+ */
+export class HybridTokenStorage implements TokenStorage {
+    private readonly memory = new MemoryTokenStorage();
+
+    constructor(
+        private readonly persistent: TokenStorage,
+        private readonly memoryKeys: readonly string[] = [TOKEN_KEYS.REFRESH, TOKEN_KEYS.IMPERSONATOR_REFRESH]
+    ) { }
+
+    public getItem(key: string): string | null {
+        return this.select(key).getItem(key);
+    }
+
+    public setItem(key: string, value: string): void {
+        this.select(key).setItem(key, value);
+    }
+
+    public removeItem(key: string): void {
+        this.select(key).removeItem(key);
+    }
+
+    private select(key: string): TokenStorage {
+        return this.memoryKeys.includes(key) ? this.memory : this.persistent;
+    }
+}
+
+export const isTokenStorageStrategy = (value: unknown): value is TokenStorageStrategy => {
+    return typeof value === 'string' && (TOKEN_STORAGE_STRATEGIES as readonly string[]).includes(value);
+};
+
+/**
+ * Cree le stockage correspondant a une strategie
+ */
+export const createTokenStorage = (strategy: TokenStorageStrategy): TokenStorage => {
+    switch (strategy) {
+        case 'local':
+            return new WebTokenStorage(() => window.localStorage, 'localStorage');
+        case 'session':
+            return new WebTokenStorage(() => window.sessionStorage, 'sessionStorage');
+        case 'memory':
+            return new MemoryTokenStorage();
+        case 'hybrid':
+            return new HybridTokenStorage(new WebTokenStorage(() => window.sessionStorage, 'sessionStorage'));
+    }
+};
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { left, right } from '@sweet-monads/either';
+import { AuthStoreDependencies, configureAuthStore, useAuthStore } from './authStore';
+import TokenRefreshScheduler from '../services/tokenRefreshScheduler';
+import { UnauthorizedError } from '../types/AppError';
+import { TokenPayload } from '../types/AuthTypes';
+
+// --- Helpers ---
+
+const payload: TokenPayload = { userId: 'user-1', email: 'user-1@example.com', role: 'USER', iat: 0, exp: 0 };
+
+// --- Mocks ---
+
+const session = {
+    getValidToken: vi.fn(),
+    refreshToken: vi.fn(),
+    checkTokenExpiration: vi.fn(),
+    isAuthenticated: vi.fn(),
+    getRefreshToken: vi.fn(),
+    getCurrentUser: vi.fn(),
+    isImpersonating: vi.fn(() => false),
+};
+
+const accountUseCase = { getProfile: vi.fn() };
+
+configureAuthStore({ session, accountUseCase } as unknown as AuthStoreDependencies);
+
+// --- Tests ---
+
+describe('authStore.checkAuth', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        useAuthStore.setState({ isLoading: true, isAuthenticated: false, user: null, profile: null });
+        accountUseCase.getProfile.mockResolvedValue(left(new UnauthorizedError('Profil indisponible')));
+        session.getCurrentUser.mockReturnValue(right(payload));
+    });
+
+    afterEach(() => {
+        TokenRefreshScheduler.getInstance().stop();
+    });
+
+    it('renouvelle la session au rechargement quand seul le token d acces a expire', async () => {
+        session.isAuthenticated.mockReturnValueOnce(false);
+        session.getRefreshToken.mockReturnValue('refresh-1');
+        session.refreshToken.mockResolvedValue(right({ accessToken: 'access-2', refreshToken: 'refresh-2' }));
+
+        await useAuthStore.getState().checkAuth();
+
+        expect(session.refreshToken).toHaveBeenCalledTimes(1);
+        expect(useAuthStore.getState()).toMatchObject({ isLoading: false, isAuthenticated: true, user: payload });
+    });
+
+    it('declare la session perdue si le refresh echoue', async () => {
+        session.isAuthenticated.mockReturnValue(false);
+        session.getRefreshToken.mockReturnValue('refresh-1');
+        session.refreshToken.mockResolvedValue(left(new UnauthorizedError('Refresh refuse')));
+
+        await useAuthStore.getState().checkAuth();
+
+        expect(useAuthStore.getState()).toMatchObject({ isLoading: false, isAuthenticated: false, user: null });
+    });
+
+    it('ne tente aucun refresh sans refresh token', async () => {
+        session.isAuthenticated.mockReturnValue(false);
+        session.getRefreshToken.mockReturnValue(null);
+
+        await useAuthStore.getState().checkAuth();
+
+        expect(session.refreshToken).not.toHaveBeenCalled();
+        expect(useAuthStore.getState().isAuthenticated).toBe(false);
+    });
+});
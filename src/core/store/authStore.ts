@@ -1,10 +1,67 @@
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
-import AuthService from '../services/authService';
-import { TokenPayload, LoginCredentials } from '../types/AuthTypes';
+import AuthSyncService from '../services/authSyncService';
+import AuthEventService from '../services/authEventService';
+import TokenRefreshScheduler from '../services/tokenRefreshScheduler';
+import IdleService from '../services/idleService';
+import QueryCache from '../services/queryCache';
+import OfflineMutationQueue from '../services/offlineMutationQueue';
+import Logger from '../services/logger';
+import AuthThrottleService, { THROTTLE_SCOPES, loginScope } from '../services/authThrottleService';
+import {
+    ExternalProvider,
+    IAuthSession,
+    IImpersonationUseCase,
+    ILoginUseCase,
+    ILogoutUseCase,
+    IProfileUseCase,
+    LoginCredentials,
+    SecondFactorChallenge,
+    SecondFactorMethod,
+    TokenPayload,
+    UserProfile
+} from '../types/AuthTypes';
 
-// Instanciation unique au niveau module (comme usersStore)
-const authService = AuthService.getInstance();
+const log = Logger.getInstance().scope('authStore');
+
+/**
+ * Session et use cases de la feature auth, crees par createAuthModule (features/auth) a la racine
+ * de l'application et transmis par initializeApp : le store n'instancie aucune classe de la feature
+ * et ne connait que leurs interfaces (core/types/AuthTypes).
+ */
+export interface AuthStoreDependencies {
+    session: IAuthSession;
+    loginUseCase: ILoginUseCase;
+    logoutUseCase: ILogoutUseCase;
+    impersonationUseCase: IImpersonationUseCase;
+    accountUseCase: IProfileUseCase;
+}
+
+let dependencies: AuthStoreDependencies | null = null;
+
+const deps = (): AuthStoreDependencies => {
+    if (!dependencies) {
+        throw new Error('authStore non configure : appeler initializeApp({ auth })');
+    }
+    return dependencies;
+};
+
+const refreshScheduler = TokenRefreshScheduler.getInstance();
+const idleService = IdleService.getInstance();
+const throttle = AuthThrottleService.getInstance();
+
+const LOCKOUT_MESSAGE = 'Trop de tentatives, veuillez patienter avant de reessayer';
+
+// Services lies a une session active : refresh planifie et detection d'inactivite
+const startSessionServices = () => {
+    refreshScheduler.start();
+    idleService.start();
+};
+
+const stopSessionServices = () => {
+    refreshScheduler.stop();
+    idleService.stop();
+};
 
 // Définition du state
 interface AuthState {
@@ -12,76 +69,241 @@ interface AuthState {
     isAuthenticated: boolean;
     isLoading: boolean;
     user: TokenPayload | null;
+    profile: UserProfile | null;   // Profil complet (/auth/me), charge apres l'ouverture de la session
     error: string | null;
+    errorReference: string | null;   // Identifiant de correlation de la requete en echec (reference support)
+    sessionExpired: boolean;   // Deconnexion subie (refresh impossible), pas demandee par l'utilisateur
+    // Etat intermediaire du login : mot de passe accepte, second facteur attendu
+    pendingSecondFactor: SecondFactorChallenge | null;
+    externalProviders: ExternalProvider[];   // Fournisseurs d'identite OIDC configures
+    lockedUntil: number | null;   // Fin du blocage des tentatives (login ou second facteur), timestamp ms
+    isImpersonating: boolean;     // Session d'un utilisateur ouverte par un administrateur (support)
+    impersonationError: string | null;
 
     // Actions
     login: (credentials: LoginCredentials) => Promise<void>;
+    loadExternalProviders: () => void;
+    loginWithProvider: (providerId: string, returnTo: string) => Promise<void>;
+    completeProviderLogin: (search: string) => Promise<string | null>;
+    verifySecondFactor: (code: string, method: SecondFactorMethod) => Promise<void>;
+    cancelSecondFactor: () => void;
+    refreshLockout: (email: string) => void;
     logout: () => Promise<void>;
-    checkAuth: () => void;
+    expireSession: () => Promise<void>;
+    checkAuth: () => Promise<void>;
+    impersonate: (userId: string) => Promise<boolean>;
+    stopImpersonation: () => Promise<void>;
+    loadProfile: () => Promise<void>;
+    setProfile: (profile: UserProfile) => void;
     clearError: () => void;
 }
 
 export const useAuthStore = create<AuthState>()(
     devtools(
-        (set) => ({
+        (set, get) => ({
             isAuthenticated: false,
             isLoading: true,
             user: null,
+            profile: null,
             error: null,
+            errorReference: null,
+            sessionExpired: false,
+            pendingSecondFactor: null,
+            externalProviders: [],
+            lockedUntil: null,
+            isImpersonating: false,
+            impersonationError: null,
 
             // Login
             login: async (credentials) => {
-                set({ isLoading: true, error: null }, false, 'auth/login/pending');
-                const result = await authService.login(credentials);
-
-                if (result.isRight()) {
-                    const userResult = authService.getCurrentUser();
-                    if (userResult.isRight()) {
-                        set({
-                            isLoading: false,
-                            isAuthenticated: true,
-                            user: userResult.value,
-                        }, false, 'auth/login/fulfilled');
-                    } else {
-                        set({
-                            isLoading: false,
-                            error: 'Impossible de récupérer les données utilisateur',
-                            isAuthenticated: false,
-                            user: null,
-                        }, false, 'auth/login/rejected');
-                    }
-                } else {
+                // Echecs comptes par email, 429 global a l'ecran de login
+                const accountScope = loginScope(credentials.email);
+                const lockedUntil = throttle.getLockedUntil(THROTTLE_SCOPES.LOGIN, accountScope);
+                if (lockedUntil) {
+                    set({ error: LOCKOUT_MESSAGE, errorReference: null, lockedUntil }, false, 'auth/login/throttled');
+                    return;
+                }
+
+                set({ isLoading: true, error: null, pendingSecondFactor: null }, false, 'auth/login/pending');
+                const result = await deps().loginUseCase.login(credentials);
+
+                if (result.isLeft()) {
                     set({
                         isLoading: false,
                         error: result.value.message,
+                        errorReference: result.value.requestId ?? null,
                         isAuthenticated: false,
                         user: null,
+                        profile: null,
+                        lockedUntil: throttle.registerError(result.value, accountScope, THROTTLE_SCOPES.LOGIN),
                     }, false, 'auth/login/rejected');
+                    return;
+                }
+
+                throttle.reset(THROTTLE_SCOPES.LOGIN, accountScope);
+
+                if (result.value.status === 'second-factor-required') {
+                    set({
+                        isLoading: false,
+                        pendingSecondFactor: result.value.challenge,
+                    }, false, 'auth/login/secondFactorRequired');
+                    return;
+                }
+
+                openSession('auth/login');
+            },
+
+            // Second facteur (code TOTP ou code de recuperation)
+            verifySecondFactor: async (code, method) => {
+                const challenge = get().pendingSecondFactor;
+                if (!challenge) {
+                    set({ error: 'Aucune connexion en attente de verification', errorReference: null }, false, 'auth/verifySecondFactor/rejected');
+                    return;
+                }
+
+                const lockedUntil = throttle.getLockedUntil(THROTTLE_SCOPES.SECOND_FACTOR);
+                if (lockedUntil) {
+                    set({ error: LOCKOUT_MESSAGE, errorReference: null, lockedUntil }, false, 'auth/verifySecondFactor/throttled');
+                    return;
+                }
+
+                set({ isLoading: true, error: null }, false, 'auth/verifySecondFactor/pending');
+                const result = await deps().loginUseCase.verifySecondFactor({ challengeId: challenge.challengeId, code, method });
+
+                if (result.isLeft()) {
+                    // Defi expire : retour a la saisie du mot de passe
+                    const isChallengeExpired = result.value.details === 'second_factor_challenge_expired';
+                    set({
+                        isLoading: false,
+                        error: result.value.message,
+                        errorReference: result.value.requestId ?? null,
+                        pendingSecondFactor: isChallengeExpired ? null : challenge,
+                        lockedUntil: throttle.registerError(result.value, THROTTLE_SCOPES.SECOND_FACTOR),
+                    }, false, 'auth/verifySecondFactor/rejected');
+                    return;
+                }
+
+                throttle.reset(THROTTLE_SCOPES.SECOND_FACTOR);
+
+                openSession('auth/verifySecondFactor');
+            },
+
+            // Fournisseurs d'identite externes, lus apres leur configuration (init)
+            loadExternalProviders: () => set({ externalProviders: deps().loginUseCase.getExternalProviders() }, false, 'auth/loadExternalProviders'),
+
+            // Login externe : redirection vers le fournisseur, la page est quittee en cas de succes
+            loginWithProvider: async (providerId, returnTo) => {
+                set({ isLoading: true, error: null, pendingSecondFactor: null }, false, 'auth/loginWithProvider/pending');
+                const result = await deps().loginUseCase.startExternalLogin(providerId, returnTo);
+
+                if (result.isLeft()) {
+                    set({ isLoading: false, error: result.value.message, errorReference: result.value.requestId ?? null }, false, 'auth/loginWithProvider/rejected');
+                    return;
+                }
+
+                window.location.assign(result.value);
+            },
+
+            // Retour du fournisseur (/auth/callback) : retourne le chemin a afficher, null en cas d'echec
+            completeProviderLogin: async (search) => {
+                set({ isLoading: true, error: null }, false, 'auth/completeProviderLogin/pending');
+                const result = await deps().loginUseCase.completeExternalLogin(search);
+
+                if (result.isLeft()) {
+                    set({
+                        isLoading: false,
+                        error: result.value.message,
+                        errorReference: result.value.requestId ?? null,
+                        isAuthenticated: false,
+                        user: null,
+                        profile: null,
+                    }, false, 'auth/completeProviderLogin/rejected');
+                    return null;
+                }
+
+                openSession('auth/completeProviderLogin');
+                return get().isAuthenticated ? result.value : null;
+            },
+
+            cancelSecondFactor: () => set({ pendingSecondFactor: null, error: null, lockedUntil: null }, false, 'auth/cancelSecondFactor'),
+
+            // Blocage en cours pour l'email saisi (echecs precedents, y compris avant un rechargement)
+            refreshLockout: (email) => {
+                const lockedUntil = throttle.getLockedUntil(THROTTLE_SCOPES.LOGIN, loginScope(email));
+                if (lockedUntil !== get().lockedUntil) {
+                    set({ lockedUntil }, false, 'auth/refreshLockout');
                 }
             },
 
             // Logout
             logout: async () => {
-                await authService.logout();
+                stopSessionServices();
+
+                // Impersonation en cours : revenir a la session d'origine pour la fermer aussi
+                if (get().isImpersonating) {
+                    await deps().impersonationUseCase.stop();
+                }
+
+                const result = await deps().logoutUseCase.execute();
                 set({
                     isAuthenticated: false,
                     user: null,
+                    profile: null,
                     error: null,
+                    sessionExpired: false,
+                    isImpersonating: false,
                 }, false, 'auth/logout');
+
+                // Session externe : fermer aussi la session chez le fournisseur
+                if (result.isRight() && result.value) {
+                    window.location.assign(result.value);
+                }
+            },
+
+            // Session expiree (signalee par AuthEventService) : deconnexion sans action de l'utilisateur
+            expireSession: async () => {
+                if (!get().isAuthenticated) {
+                    return;
+                }
+
+                stopSessionServices();
+                set({
+                    isAuthenticated: false,
+                    user: null,
+                    profile: null,
+                    error: null,
+                    sessionExpired: true,
+                    isImpersonating: false,
+                }, false, 'auth/sessionExpired');
+                await deps().logoutUseCase.execute({ endProviderSession: false });
             },
 
             // Vérifier l'authentification
-            checkAuth: () => {
+            checkAuth: async () => {
                 try {
-                    const isAuth = authService.isAuthenticated();
+                    let isAuth = deps().session.isAuthenticated();
+
+                    // Token d'acces expire (rechargement de la page) : renouveler la session avant de la declarer perdue
+                    if (!isAuth && deps().session.getRefreshToken()) {
+                        isAuth = (await deps().session.refreshToken()).isRight();
+                        if (isAuth) {
+                            startSessionServices();
+                        }
+                    }
+
                     if (isAuth) {
-                        const userResult = authService.getCurrentUser();
+                        const userResult = deps().session.getCurrentUser();
                         if (userResult.isRight()) {
+                            const { profile } = get();
                             set({
                                 isLoading: false,
                                 isAuthenticated: true,
                                 user: userResult.value,
+                                // Session remplacee (impersonation, autre compte) : ne pas afficher l'ancien profil
+                                profile: profile?.id === userResult.value.userId ? profile : null,
+                                isImpersonating: deps().session.isImpersonating(),
                             }, false, 'auth/checkAuth/fulfilled');
+                            get().loadProfile();
                             return;
                         }
                     }
@@ -89,20 +311,162 @@ export const useAuthStore = create<AuthState>()(
                         isLoading: false,
                         isAuthenticated: false,
                         user: null,
+                        profile: null,
                     }, false, 'auth/checkAuth/noAuth');
                 } catch {
                     set({
                         isLoading: false,
                         isAuthenticated: false,
                         user: null,
+                        profile: null,
                         error: 'Erreur de vérification',
+                        errorReference: null,
                     }, false, 'auth/checkAuth/rejected');
                 }
             },
 
+            // Impersonation (support) : la session de l'utilisateur remplace celle de l'administrateur
+            impersonate: async (userId) => {
+                set({ impersonationError: null }, false, 'auth/impersonate/pending');
+                const result = await deps().impersonationUseCase.start(userId);
+
+                if (result.isLeft()) {
+                    set({ impersonationError: result.value.message }, false, 'auth/impersonate/rejected');
+                    return false;
+                }
+
+                set({ profile: null }, false, 'auth/impersonate/switch');
+                openSession('auth/impersonate');
+                return get().isAuthenticated;
+            },
+
+            // Fin de l'impersonation : retour a la session de l'administrateur, sans nouvelle connexion
+            stopImpersonation: async () => {
+                set({ impersonationError: null }, false, 'auth/stopImpersonation/pending');
+                const result = await deps().impersonationUseCase.stop();
+
+                if (result.isLeft()) {
+                    // Session d'origine perdue (refresh impossible) : deconnexion
+                    if (!deps().session.isAuthenticated()) {
+                        await get().expireSession();
+                        return;
+                    }
+                    set({ impersonationError: result.value.message }, false, 'auth/stopImpersonation/rejected');
+                    return;
+                }
+
+                set({ profile: null }, false, 'auth/stopImpersonation/switch');
+                openSession('auth/stopImpersonation');
+            },
+
+            // Profil complet de l'utilisateur connecte : recharge uniquement si l'utilisateur a change
+            loadProfile: async () => {
+                const { user, profile } = get();
+                if (!user || profile?.id === user.userId) {
+                    return;
+                }
+
+                const result = await deps().accountUseCase.getProfile();
+                // Session fermee ou changee pendant la requete : ignorer la reponse
+                if (get().user?.userId !== user.userId) {
+                    return;
+                }
+
+                if (result.isLeft()) {
+                    // Non bloquant : l'interface se rabat sur l'email du token
+                    log.warn('Profil utilisateur indisponible', { error: result.value });
+                    return;
+                }
+                set({ profile: result.value }, false, 'auth/loadProfile/fulfilled');
+            },
+
+            // Profil mis a jour depuis la page Mon compte
+            setProfile: (profile) => set({ profile }, false, 'auth/setProfile'),
+
             // Actions synchrones
             clearError: () => set({ error: null }, false, 'auth/clearError'),
         }),
         { name: 'AuthStore' }
     )
 );
+
+// Session ouverte (login direct, apres second facteur, via un fournisseur externe ou bascule d'impersonation) : charger l'utilisateur et demarrer les services
+const openSession = (action: string): void => {
+    const userResult = deps().session.getCurrentUser();
+    if (userResult.isRight()) {
+        useAuthStore.setState({
+            isLoading: false,
+            isAuthenticated: true,
+            user: userResult.value,
+            sessionExpired: false,
+            pendingSecondFactor: null,
+            lockedUntil: null,
+            isImpersonating: deps().session.isImpersonating(),
+        }, false, `${action}/fulfilled`);
+        startSessionServices();
+        useAuthStore.getState().loadProfile();
+    } else {
+        useAuthStore.setState({
+            isLoading: false,
+            error: 'Impossible de récupérer les données utilisateur',
+            errorReference: null,
+            isAuthenticated: false,
+            user: null,
+            profile: null,
+            pendingSecondFactor: null,
+        }, false, `${action}/rejected`);
+    }
+};
+
+
+// Echec d'authentification signale par les services (intercepteur Axios, refresh planifie)
+AuthEventService.getInstance().subscribe((event) => {
+    if (event.type === 'session-expired') {
+        useAuthStore.getState().expireSession();
+    }
+});
+
+/**
+ * Fournit au store la session et les use cases de la feature auth (appele une seule fois par initializeApp)
+ */
+export const configureAuthStore = (authDependencies: AuthStoreDependencies): void => {
+    const isFirstConfiguration = dependencies === null;
+    dependencies = authDependencies;
+    if (!isFirstConfiguration) {
+        return;
+    }
+
+    // Synchronisation avec les autres onglets : login, logout et refresh distants.
+    // SessionService (cree avant, donc abonne en premier) a deja applique les tokens recus, il suffit de relire l'etat.
+    AuthSyncService.getInstance().subscribe((event) => {
+        if (event.type === 'login' || event.type === 'logout' || event.type === 'token-refresh'
+            || event.type === 'impersonation-started' || event.type === 'impersonation-stopped') {
+            useAuthStore.getState().checkAuth();
+
+            // Replanifier sur les nouveaux tokens, ou tout arreter apres un logout distant
+            if (useAuthStore.getState().isAuthenticated) {
+                startSessionServices();
+            } else {
+                stopSessionServices();
+            }
+        }
+    });
+
+    // Refresh planifie en echec : session expiree si les tokens ont ete invalides
+    refreshScheduler.onRefreshFailed(() => {
+        if (deps().session.isAuthenticated()) {
+            useAuthStore.getState().checkAuth();
+        } else {
+            AuthEventService.getInstance().emit({ type: 'session-expired' });
+        }
+    });
+};
+
+// Changement d'identité (login, logout, impersonation) : les réponses en cache appartiennent à l'ancienne session,
+// et seules les modifications hors ligne de la nouvelle session peuvent être rejouées avec ses tokens
+useAuthStore.subscribe((state, previous) => {
+    if (state.user?.userId !== previous.user?.userId || state.isImpersonating !== previous.isImpersonating) {
+        QueryCache.getInstance().clear();
+        OfflineMutationQueue.getInstance().setOwner(state.user?.userId ?? null);
+    }
+});
@@ -0,0 +1,30 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import IdleService, { IdleStatus } from '../services/idleService';
+
+const idleService = IdleService.getInstance();
+
+interface IdleState {
+    // State
+    status: IdleStatus;
+    remainingSeconds: number;
+
+    // Actions
+    staySignedIn: () => void;
+}
+
+export const useIdleStore = create<IdleState>()(
+    devtools(
+        () => ({
+            ...idleService.getSnapshot(),
+
+            staySignedIn: () => idleService.staySignedIn(),
+        }),
+        { name: 'IdleStore' }
+    )
+);
+
+// Le service pousse les changements d'etat (actif, avertissement, expire) dans le store
+idleService.subscribe((snapshot) => {
+    useIdleStore.setState(snapshot, false, `idle/${snapshot.status}`);
+});
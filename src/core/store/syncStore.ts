@@ -0,0 +1,43 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import OfflineMutationQueue, { OfflineSyncStatus } from '../services/offlineMutationQueue';
+
+const offlineQueue = OfflineMutationQueue.getInstance();
+
+interface SyncState {
+    // State
+    pendingChanges: number;
+    status: OfflineSyncStatus;
+    issues: string[];       // Modifications refusees au rejeu (conflits), a montrer a l'utilisateur
+
+    // Actions
+    retry: () => Promise<void>;
+    dismissIssues: () => void;
+}
+
+export const useSyncStore = create<SyncState>()(
+    devtools(
+        (set) => ({
+            pendingChanges: offlineQueue.getPending().length,
+            status: offlineQueue.getStatus(),
+            issues: [],
+
+            // Relancer le rejeu des modifications en attente (apres une erreur serveur)
+            retry: () => offlineQueue.replay(),
+            dismissIssues: () => set({ issues: [] }, false, 'sync/dismissIssues'),
+        }),
+        { name: 'SyncStore' }
+    )
+);
+
+// File hors ligne de toutes les features : compteur, statut du rejeu et refus
+offlineQueue.subscribe((event) => {
+    if (event.type === 'changed') {
+        useSyncStore.setState({ pendingChanges: event.mutations.length, status: event.status }, false, 'sync/changed');
+    } else if (event.type === 'rejected') {
+        const issue = event.conflict
+            ? `${event.mutation.label} : conflit -- ${event.error.message}`
+            : `${event.mutation.label} : ${event.error.message}`;
+        useSyncStore.setState((state) => ({ issues: [...state.issues, issue] }), false, 'sync/rejected');
+    }
+});
@@ -1,11 +1,198 @@
-export class AppError extends Error {
+/**
+ * Nature d'une erreur, indépendante du code HTTP ou métier : c'est sur elle que branchent les appelants.
+ */
+export type AppErrorKind =
+    | 'network'         // Serveur injoignable (hors ligne, DNS, CORS)
+    | 'timeout'         // Pas de réponse dans le délai imparti
+    | 'unauthorized'    // 401 : session absente ou expirée
+    | 'forbidden'       // 403 : droits insuffisants
+    | 'not_found'       // 404 / 410 : ressource inexistante ou qui n'existe plus
+    | 'conflict'        // 409 / 412 : ressource modifiée entre-temps ou déjà existante
+    | 'validation'      // 400 / 422 ou données non conformes au schéma Zod
+    | 'rate_limited'    // 429
+    | 'server'          // 5xx
+    | 'cancelled'       // Requête annulée par l'appelant
+    | 'unknown';
+
+/**
+ * Champ en erreur : `path` au format `a.b.0` (chaîne vide pour une erreur globale)
+ */
+export interface ValidationIssue {
+    path: string;
+    message: string;
+}
+
+/**
+ * Erreur applicative. `requestId` : identifiant de corrélation de la requête HTTP en cause
+ * (renvoyé par le serveur ou généré par AxiosService), affiché à l'utilisateur comme référence pour le support.
+ * Classe abstraite : chaque sous-classe ci-dessous fixe `kind` et `code`, jamais construits à la main.
+ */
+export abstract class AppError extends Error {
+    public abstract readonly kind: AppErrorKind;
+
     constructor(
         public message: string,
         public code: string,
-        public details?: any
+        public details?: unknown,
+        public requestId?: string
     ) {
         super(message);
         this.name = 'AppError';
         Object.setPrototypeOf(this, AppError.prototype);
     }
 }
+
+/**
+ * Serveur injoignable : la requête n'a reçu aucune réponse
+ */
+export class NetworkError extends AppError {
+    public readonly kind = 'network' as const;
+
+    constructor(message: string = "Connexion au serveur impossible", details?: unknown, requestId?: string) {
+        super(message, "NETWORK", details, requestId);
+        this.name = 'NetworkError';
+        Object.setPrototypeOf(this, NetworkError.prototype);
+    }
+}
+
+/**
+ * Délai de réponse dépassé (timeout Axios)
+ */
+export class TimeoutError extends AppError {
+    public readonly kind = 'timeout' as const;
+
+    constructor(message: string = "Le serveur ne répond pas", details?: unknown, requestId?: string) {
+        super(message, "TIMEOUT", details, requestId);
+        this.name = 'TimeoutError';
+        Object.setPrototypeOf(this, TimeoutError.prototype);
+    }
+}
+
+export class UnauthorizedError extends AppError {
+    public readonly kind = 'unauthorized' as const;
+
+    constructor(message: string, details?: unknown, requestId?: string) {
+        super(message, "401", details, requestId);
+        this.name = 'UnauthorizedError';
+        Object.setPrototypeOf(this, UnauthorizedError.prototype);
+    }
+}
+
+export class ForbiddenError extends AppError {
+    public readonly kind = 'forbidden' as const;
+
+    constructor(message: string, details?: unknown, requestId?: string) {
+        super(message, "403", details, requestId);
+        this.name = 'ForbiddenError';
+        Object.setPrototypeOf(this, ForbiddenError.prototype);
+    }
+}
+
+export class NotFoundError extends AppError {
+    public readonly kind = 'not_found' as const;
+
+    constructor(message: string, details?: unknown, requestId?: string) {
+        super(message, "404", details, requestId);
+        this.name = 'NotFoundError';
+        Object.setPrototypeOf(this, NotFoundError.prototype);
+    }
+}
+
+/**
+ * Ressource modifiée entre-temps (412) ou déjà existante (409)
+ */
+export class ConflictError extends AppError {
+    public readonly kind = 'conflict' as const;
+
+    constructor(message: string, details?: unknown, requestId?: string, status: 409 | 412 = 409) {
+        super(message, String(status), details, requestId);
+        this.name = 'ConflictError';
+        Object.setPrototypeOf(this, ConflictError.prototype);
+    }
+}
+
+/**
+ * Données refusées : règle métier du UseCase, réponse 400 / 422 du serveur ou schéma Zod non respecté.
+ * `issues` liste les champs en erreur quand la source les fournit.
+ */
+export class ValidationError extends AppError {
+    public readonly kind = 'validation' as const;
+
+    constructor(message: string, public issues: ValidationIssue[] = [], details?: unknown, requestId?: string) {
+        super(message, "VALIDATION_ERROR", details, requestId);
+        this.name = 'ValidationError';
+        Object.setPrototypeOf(this, ValidationError.prototype);
+    }
+}
+
+/**
+ * Requête refusée pour dépassement de quota (HTTP 429).
+ * `retryAfterSeconds` provient de l'en-tête Retry-After ou du corps de la réponse (null si absent).
+ */
+export class RateLimitError extends AppError {
+    public readonly kind = 'rate_limited' as const;
+
+    constructor(
+        message: string,
+        public retryAfterSeconds: number | null,
+        requestId?: string
+    ) {
+        super(message, "429", "too_many_attempts", requestId);
+        this.name = 'RateLimitError';
+        Object.setPrototypeOf(this, RateLimitError.prototype);
+    }
+}
+
+/**
+ * Erreur du serveur (5xx) après épuisement des nouvelles tentatives
+ */
+export class ServerError extends AppError {
+    public readonly kind = 'server' as const;
+
+    constructor(message: string, public status: number = 500, details?: unknown, requestId?: string) {
+        super(message, String(status), details, requestId);
+        this.name = 'ServerError';
+        Object.setPrototypeOf(this, ServerError.prototype);
+    }
+}
+
+/**
+ * Requête annulée par l'appelant (AbortSignal), le plus souvent remplacée par une requête plus récente.
+ * Ce n'est pas une erreur pour l'utilisateur : les stores l'ignorent au lieu d'afficher un message.
+ */
+export class RequestCancelledError extends AppError {
+    public readonly kind = 'cancelled' as const;
+
+    constructor(message: string = "Requête annulée", requestId?: string) {
+        super(message, "CANCELLED", "request_cancelled", requestId);
+        this.name = 'RequestCancelledError';
+        Object.setPrototypeOf(this, RequestCancelledError.prototype);
+    }
+}
+
+export class UnknownError extends AppError {
+    public readonly kind = 'unknown' as const;
+
+    constructor(message: string = "Une erreur s'est produite", details?: unknown, requestId?: string) {
+        super(message, "000", details, requestId);
+        this.name = 'UnknownError';
+        Object.setPrototypeOf(this, UnknownError.prototype);
+    }
+}
+
+/**
+ * Union discriminée par `kind` : un `switch (error.kind)` dont le cas par défaut assigne l'erreur à `never`
+ * ne compile plus si une nature d'erreur est ajoutée sans être traitée.
+ */
+export type TypedAppError =
+    | NetworkError
+    | TimeoutError
+    | UnauthorizedError
+    | ForbiddenError
+    | NotFoundError
+    | ConflictError
+    | ValidationError
+    | RateLimitError
+    | ServerError
+    | RequestCancelledError
+    | UnknownError;
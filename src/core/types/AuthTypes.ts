@@ -1,3 +1,6 @@
+import { Either } from "@sweet-monads/either";
+import { TypedAppError } from "./AppError";
+
 /**
  * Types pour la gestion des tokens JWT
  */
@@ -9,6 +12,10 @@ export interface TokenPayload {
     role: string;         // Rôle de l'utilisateur
     email: string;        // Email de l'utilisateur
     permissions?: string[]; // Permissions optionnelles
+    nbf?: number;         // Not before timestamp
+    iss?: string;         // Émetteur
+    aud?: string | string[]; // Audience
+    sid?: string;         // Identifiant de la session côté serveur
 }
 
 export interface AuthTokens {
@@ -16,14 +23,139 @@ export interface AuthTokens {
     refreshToken: string;
 }
 
+/**
+ * Session ouverte via un fournisseur d'identité externe
+ */
+export interface ProviderSession {
+    providerId: string;
+    idToken: string | null;   // Transmis à l'end-session endpoint lors du logout
+}
+
+/**
+ * Tokens d'une session ouverte via un fournisseur d'identité externe.
+ * L'utilisateur est lu dans l'ID token, vérifié par le client OIDC à sa réception :
+ * le token d'accès, destiné à l'API, peut être opaque ou émis pour une autre audience.
+ */
+export interface ProviderTokens extends AuthTokens {
+    idToken: string;
+    expiresAt: number;        // Expiration du token d'accès (timestamp en secondes)
+}
+
+/**
+ * Refresh token de la session courante, transmis au renouvellement
+ */
+export interface SessionCredentials {
+    refreshToken: string;
+    providerSession: ProviderSession | null;
+}
+
+/**
+ * Tokens obtenus par un renouvellement (l'ID token n'existe que pour une session externe)
+ */
+export interface RefreshedTokens extends AuthTokens {
+    idToken?: string;
+    expiresAt?: number;       // Session externe : expiration du token d'accès du fournisseur
+}
+
 export interface LoginCredentials {
     email: string;
     password: string;
 }
 
+export type SecondFactorMethod = 'totp' | 'recovery_code';
+
+/**
+ * Défi renvoyé par /auth/login quand un second facteur est exigé
+ */
+export interface SecondFactorChallenge {
+    challengeId: string;
+    methods: SecondFactorMethod[];
+}
+
+/**
+ * Résultat d'un login : session ouverte, ou second facteur à fournir
+ */
+export type LoginResult =
+    | { status: 'authenticated'; tokens: AuthTokens }
+    | { status: 'second-factor-required'; challenge: SecondFactorChallenge };
+
+export interface VerifySecondFactorParams {
+    challengeId: string;
+    code: string;
+    method: SecondFactorMethod;
+}
+
+/**
+ * Fournisseur d'identité externe (OpenID Connect) proposé sur la page de login
+ */
+export interface ExternalProvider {
+    id: string;
+    label: string;
+}
+
+export interface LogoutOptions {
+    // Fermer aussi la session chez le fournisseur d'identité (redirection vers son end-session endpoint).
+    // false pour une session expirée : l'utilisateur reste sur l'application.
+    endProviderSession?: boolean;
+}
+
+/**
+ * Profil de l'utilisateur connecté (/auth/me), affiché par le cœur (menu du profil)
+ */
+export interface UserProfile {
+    id: string;
+    firstName: string;
+    lastName: string;
+    email: string;
+    phone: string | null;
+    role: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
 export interface TokenValidationResult {
     isValid: boolean;
     isExpired: boolean;
     payload: TokenPayload | null;
     error?: string;
-}
\ No newline at end of file
+}
+
+/**
+ * Session courante vue par le cœur (intercepteur Axios, refresh planifié, authStore).
+ * Implémentée par SessionService (feature auth), qui coordonne le refresh entre onglets et l'impersonation ;
+ * fournie à initializeApp, le cœur ne connaît que cette interface.
+ */
+export interface IAuthSession {
+    getValidToken(): Promise<Either<TypedAppError, string>>;
+    refreshToken(): Promise<Either<TypedAppError, AuthTokens>>;
+    checkTokenExpiration(): Promise<Either<TypedAppError, boolean>>;
+    isAuthenticated(): boolean;
+    getRefreshToken(): string | null;
+    getCurrentUser(): Either<TypedAppError, TokenPayload>;
+    isImpersonating(): boolean;
+}
+
+/**
+ * Use cases de la feature auth appelés par l'authStore.
+ * Implémentés par la feature et fournis par createAuthModule, comme IAuthSession.
+ */
+export interface ILoginUseCase {
+    login(credentials: LoginCredentials): Promise<Either<TypedAppError, LoginResult>>;
+    verifySecondFactor(params: VerifySecondFactorParams): Promise<Either<TypedAppError, AuthTokens>>;
+    getExternalProviders(): ExternalProvider[];
+    startExternalLogin(providerId: string, returnTo: string): Promise<Either<TypedAppError, string>>;
+    completeExternalLogin(search: string): Promise<Either<TypedAppError, string>>;
+}
+
+export interface ILogoutUseCase {
+    execute(options?: LogoutOptions): Promise<Either<TypedAppError, string | null>>;
+}
+
+export interface IImpersonationUseCase {
+    start(userId: string): Promise<Either<TypedAppError, AuthTokens>>;
+    stop(): Promise<Either<TypedAppError, AuthTokens>>;
+}
+
+export interface IProfileUseCase {
+    getProfile(): Promise<Either<TypedAppError, UserProfile>>;
+}
@@ -0,0 +1,18 @@
+import { z } from "zod";
+
+/**
+ * Types de la configuration d'exécution partagés entre le cœur (AppConfigSchema) et les features
+ */
+
+// Configuration d'un fournisseur OpenID Connect (auth.providers de la configuration, ou VITE_OIDC_PROVIDERS en JSON)
+export const OidcProviderConfigSchema = z.object({
+    id: z.string().min(1),
+    label: z.string().min(1),
+    issuer: z.string().url(),
+    clientId: z.string().min(1),
+    scope: z.string().optional(),                  // Défaut : "openid profile email offline_access"
+    redirectUri: z.string().url().optional(),      // Défaut : <origin>/auth/callback
+    postLogoutRedirectUri: z.string().url().optional(), // Défaut : <origin>/login
+});
+
+export type OidcProviderConfig = z.infer<typeof OidcProviderConfigSchema>;
@@ -0,0 +1,6 @@
+/**
+ * Issue d'une mutation acceptée :
+ * - sent   : appliquée par le serveur
+ * - queued : enregistrée hors ligne, appliquée au retour du réseau (voir OfflineMutationQueue)
+ */
+export type MutationResult = 'sent' | 'queued';
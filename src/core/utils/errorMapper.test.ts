@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { AxiosError, AxiosHeaders, CanceledError } from 'axios';
+import { z } from 'zod';
+import { toAppError } from './errorMapper';
+import { ForbiddenError } from '../types/AppError';
+
+// --- Helpers ---
+
+const httpError = (status: number, data: unknown = {}, headers: Record<string, string> = {}) =>
+    Object.assign(
+        new AxiosError('Request failed', AxiosError.ERR_BAD_REQUEST, undefined, {}, {
+            status,
+            statusText: '',
+            data,
+            headers: new AxiosHeaders(headers),
+            config: { headers: new AxiosHeaders() },
+        }),
+        { requestId: 'req-1' }
+    );
+
+// --- Tests ---
+
+describe('toAppError', () => {
+    it('classe les erreurs HTTP par nature et conserve le message serveur et la reference', () => {
+        expect(toAppError(httpError(404, { message: 'Utilisateur non trouve' }))).toMatchObject({
+            kind: 'not_found',
+            message: 'Utilisateur non trouve',
+            requestId: 'req-1',
+        });
+        expect(toAppError(httpError(412), 'Modifie entre-temps')).toMatchObject({ kind: 'conflict', code: '412', message: 'Modifie entre-temps' });
+        expect(toAppError(httpError(429, {}, { 'retry-after': '30' }))).toMatchObject({ kind: 'rate_limited', retryAfterSeconds: 30 });
+        expect(toAppError(httpError(503))).toMatchObject({ kind: 'server', status: 503 });
+    });
+
+    it('extrait les champs en erreur d une reponse 422 et d un schema Zod', () => {
+        const server = toAppError(httpError(422, { message: 'Invalide', errors: [{ field: 'email', message: 'Deja utilise' }] }));
+        const zod = toAppError(z.object({ email: z.string() }).safeParse({}).error);
+
+        expect(server).toMatchObject({ kind: 'validation', issues: [{ path: 'email', message: 'Deja utilise' }] });
+        expect(zod).toMatchObject({ kind: 'validation', issues: [{ path: 'email' }] });
+    });
+
+    it('distingue reseau, delai depasse et annulation', () => {
+        expect(toAppError(new AxiosError('Network Error', AxiosError.ERR_NETWORK)).kind).toBe('network');
+        expect(toAppError(new AxiosError('timeout', AxiosError.ECONNABORTED)).kind).toBe('timeout');
+        expect(toAppError(Object.assign(new CanceledError(), { requestId: 'req-2' }))).toMatchObject({ kind: 'cancelled', requestId: 'req-2' });
+    });
+
+    it('applique le message et le code metier propres a l appel', () => {
+        const overrides = {
+            401: { message: 'Email ou mot de passe incorrect', reason: 'invalid_credentials' },
+            400: { message: 'Donnees invalides', reason: 'invalid_data', preferServerMessage: true },
+        };
+
+        expect(toAppError(httpError(401, { message: 'Unauthorized' }), 'Erreur', overrides))
+            .toMatchObject({ kind: 'unauthorized', message: 'Email ou mot de passe incorrect', details: 'invalid_credentials' });
+        expect(toAppError(httpError(400, { message: 'Email deja utilise' }), 'Erreur', overrides))
+            .toMatchObject({ kind: 'validation', message: 'Email deja utilise', details: 'invalid_data' });
+        expect(toAppError(httpError(410), 'Lien expire').kind).toBe('not_found');
+    });
+
+    it('retourne telle quelle une erreur deja typee', () => {
+        const error = new ForbiddenError('Interdit', 'forbidden');
+
+        expect(toAppError(error)).toBe(error);
+    });
+});
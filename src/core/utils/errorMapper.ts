@@ -0,0 +1,128 @@
+import axios, { AxiosError } from 'axios';
+import { z } from 'zod';
+import {
+    AppError,
+    ConflictError,
+    ForbiddenError,
+    NetworkError,
+    NotFoundError,
+    RateLimitError,
+    RequestCancelledError,
+    ServerError,
+    TimeoutError,
+    TypedAppError,
+    UnauthorizedError,
+    UnknownError,
+    ValidationError,
+    ValidationIssue,
+} from '../types/AppError';
+import { getRequestId } from './requestId';
+import { parseRetryAfter } from './retryAfter';
+
+/**
+ * Conversion d'une erreur quelconque (Axios, Zod, AppError, exception) en AppError typée.
+ * Point unique utilisé par les DataSources et les Repositories à la place des blocs catch recopiés.
+ */
+
+const TIMEOUT_CODES = ['ECONNABORTED', 'ETIMEDOUT'];
+
+/**
+ * Traitement propre à un appel, par statut HTTP. `message` remplace le message du serveur,
+ * sauf avec `preferServerMessage` où il ne sert qu'en son absence ; `reason` devient `details`,
+ * le code métier comparé par les stores (ex. 'invalid_credentials').
+ */
+export interface StatusOverride {
+    message?: string;
+    reason?: string;
+    preferServerMessage?: boolean;
+}
+
+export type StatusOverrides = Partial<Record<number, StatusOverride>>;
+
+/**
+ * Champs en erreur d'un schéma Zod
+ */
+export const zodIssues = (error: z.ZodError): ValidationIssue[] =>
+    error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message }));
+
+/**
+ * Champs en erreur renvoyés par le serveur (`errors` ou `details` : [{ path | field, message }])
+ */
+const serverIssues = (data: unknown): ValidationIssue[] => {
+    const body = data as { errors?: unknown; details?: unknown } | null | undefined;
+    const list = Array.isArray(body?.errors) ? body.errors : Array.isArray(body?.details) ? body.details : [];
+
+    return list.flatMap((item: { path?: unknown; field?: unknown; message?: unknown }) =>
+        typeof item?.message === 'string'
+            ? [{ path: String(item.path ?? item.field ?? ''), message: item.message }]
+            : []
+    );
+};
+
+// Erreurs Axios, y compris celles recréées par les mocks de tests (seul `name` est alors renseigné)
+const isAxiosError = (error: unknown): error is AxiosError =>
+    axios.isAxiosError(error) || (error instanceof Error && error.name === 'AxiosError');
+
+const isCancel = (error: unknown): boolean =>
+    axios.isCancel(error) || (error instanceof Error && error.name === 'CanceledError');
+
+// Message renvoyé par le serveur dans le corps de la réponse (`message`)
+const serverMessage = (data: unknown): string | null => {
+    const message = (data as { message?: unknown } | null | undefined)?.message;
+    return typeof message === 'string' && message ? message : null;
+};
+
+export const toAppError = (
+    error: unknown,
+    fallbackMessage: string = "Une erreur s'est produite",
+    overrides: StatusOverrides = {}
+): TypedAppError => {
+    // Déjà typée : chaque sous-classe concrète d'AppError appartient à TypedAppError
+    if (error instanceof AppError) {
+        return error as TypedAppError;
+    }
+
+    if (error instanceof z.ZodError) {
+        return new ValidationError(fallbackMessage, zodIssues(error), { zodErrors: error.issues });
+    }
+
+    // Annulation via AbortSignal (requête remplacée par une plus récente, page quittée)
+    if (isCancel(error)) {
+        return new RequestCancelledError(undefined, getRequestId(error));
+    }
+
+    if (!isAxiosError(error)) {
+        return new UnknownError(fallbackMessage, error, getRequestId(error));
+    }
+
+    const requestId = getRequestId(error);
+    const { response } = error;
+    if (!response) {
+        return TIMEOUT_CODES.includes(error.code ?? '')
+            ? new TimeoutError(undefined, undefined, requestId)
+            : new NetworkError(undefined, undefined, requestId);
+    }
+
+    const { data, status } = response;
+    const override = overrides[status];
+    const message = override?.message && !override.preferServerMessage
+        ? override.message
+        : serverMessage(data) ?? override?.message ?? fallbackMessage;
+    const details = override?.reason ?? data;
+
+    switch (status) {
+        case 400:
+        case 422: return new ValidationError(message, serverIssues(data), details, requestId);
+        case 401: return new UnauthorizedError(message, details, requestId);
+        case 403: return new ForbiddenError(message, details, requestId);
+        case 404:
+        case 410: return new NotFoundError(message, details, requestId);
+        case 409:
+        case 412: return new ConflictError(message, details, requestId, status as 409 | 412);
+        case 429: return new RateLimitError(message, parseRetryAfter(response), requestId);
+        default:
+            return status >= 500
+                ? new ServerError(message, status, details, requestId)
+                : new UnknownError(message, details, requestId);
+    }
+};
@@ -0,0 +1,80 @@
+/**
+ * Utilitaires de décodage JWT (RFC 7515 / 7519)
+ * Utilisé par TokenService et JwtSignatureVerifier
+ */
+
+export interface JwtHeader {
+    alg: string;
+    typ?: string;
+    kid?: string;
+}
+
+export interface JwtParts {
+    header: JwtHeader;
+    payload: Record<string, unknown>;
+    signingInput: string;   // "<header>.<payload>" tel que signé par l'émetteur
+    signature: Uint8Array;
+}
+
+/**
+ * Encode des octets en base64url (sans padding)
+ */
+export const encodeBase64Url = (bytes: Uint8Array): string => {
+    const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join('');
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+/**
+ * Décode une chaîne base64url (sans padding) en octets
+ */
+export const decodeBase64Url = (value: string): Uint8Array => {
+    if (!/^[A-Za-z0-9_-]*$/.test(value) || value.length % 4 === 1) {
+        throw new Error('Encodage base64url invalide');
+    }
+
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+    const binary = atob(padded);
+
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+/**
+ * Décode une chaîne base64url contenant du texte UTF-8
+ */
+export const decodeBase64UrlToString = (value: string): string => {
+    return new TextDecoder('utf-8', { fatal: true }).decode(decodeBase64Url(value));
+};
+
+/**
+ * Découpe et décode un JWT compact. Retourne null si le format est invalide.
+ */
+export const parseJwt = (token: string): JwtParts | null => {
+    try {
+        const parts = token.split('.');
+        if (parts.length !== 3) {
+            return null;
+        }
+
+        const [encodedHeader, encodedPayload, encodedSignature] = parts;
+        const header = JSON.parse(decodeBase64UrlToString(encodedHeader));
+        const payload = JSON.parse(decodeBase64UrlToString(encodedPayload));
+
+        if (!isObject(header) || typeof header.alg !== 'string' || !isObject(payload)) {
+            return null;
+        }
+
+        return {
+            header: header as unknown as JwtHeader,
+            payload,
+            signingInput: `${encodedHeader}.${encodedPayload}`,
+            signature: decodeBase64Url(encodedSignature),
+        };
+    } catch {
+        return null;
+    }
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
@@ -0,0 +1,21 @@
+import { encodeBase64Url } from './jwt';
+
+/**
+ * Utilitaires PKCE (RFC 7636) pour le flux Authorization Code
+ * Utilisé par OidcClient
+ */
+
+/**
+ * Génère une valeur aléatoire (state, nonce, code_verifier) encodée en base64url
+ */
+export const generateRandomString = (byteLength = 32): string => {
+    return encodeBase64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+};
+
+/**
+ * Calcule le code_challenge S256 associé à un code_verifier
+ */
+export const createCodeChallenge = async (codeVerifier: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+    return encodeBase64Url(new Uint8Array(digest));
+};
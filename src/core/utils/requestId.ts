@@ -0,0 +1,17 @@
+/**
+ * Identifiant de corrélation porté par une erreur : `requestId` d'une AppError,
+ * ou d'une erreur Axios marquée par AxiosService (identifiant renvoyé par le serveur en priorité).
+ * Les DataSources et repositories le recopient sur l'AppError qu'ils construisent.
+ */
+export const getRequestId = (error: unknown): string | undefined => {
+    const requestId = (error as { requestId?: unknown } | null | undefined)?.requestId;
+    return typeof requestId === 'string' && requestId !== '' ? requestId : undefined;
+};
+
+/**
+ * Nouvel identifiant de corrélation (UUID si disponible)
+ */
+export const createRequestId = (): string =>
+    typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 11)}`;
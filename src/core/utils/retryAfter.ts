@@ -0,0 +1,62 @@
+/**
+ * Lecture du délai d'attente imposé par le serveur (RFC 9110 §10.2.3)
+ * Utilisé par AuthDataSource pour les réponses 429
+ */
+
+interface RetryAfterResponse {
+    headers?: unknown;
+    data?: unknown;
+}
+
+/**
+ * Retourne le délai en secondes indiqué par l'en-tête Retry-After (secondes ou date HTTP),
+ * à défaut par le corps (`retryAfter` / `retry_after`). Null si aucune indication exploitable.
+ */
+export const parseRetryAfter = (response: RetryAfterResponse | undefined, now: number = Date.now()): number | null => {
+    if (!response) {
+        return null;
+    }
+
+    const header = readHeader(response.headers, 'retry-after');
+    if (header) {
+        const fromHeader = parseRetryAfterValue(header, now);
+        if (fromHeader !== null) {
+            return fromHeader;
+        }
+    }
+
+    const data = response.data as Record<string, unknown> | null | undefined;
+    const hint = data?.retryAfter ?? data?.retry_after;
+    if (typeof hint === 'number' || typeof hint === 'string') {
+        return parseRetryAfterValue(String(hint), now);
+    }
+
+    return null;
+};
+
+const parseRetryAfterValue = (value: string, now: number): number | null => {
+    const trimmed = value.trim();
+    if (/^\d+$/.test(trimmed)) {
+        return Number(trimmed);
+    }
+
+    const date = Date.parse(trimmed);
+    if (Number.isNaN(date)) {
+        return null;
+    }
+    return Math.max(0, Math.ceil((date - now) / 1000));
+};
+
+// Objet simple ou AxiosHeaders (noms d'en-têtes normalisés en minuscules)
+const readHeader = (headers: unknown, name: string): string | null => {
+    if (!headers || typeof headers !== 'object') {
+        return null;
+    }
+
+    const getter = (headers as { get?: (key: string) => unknown }).get;
+    const value = typeof getter === 'function'
+        ? getter.call(headers, name)
+        : (headers as Record<string, unknown>)[name];
+
+    return typeof value === 'string' || typeof value === 'number' ? String(value) : null;
+};
@@ -17,3 +17,15 @@ export const isValidEmail = (email: string): boolean => {
 export const isNotEmpty = (value: string | null | undefined): boolean => {
     return value !== null && value !== undefined && value.trim().length > 0;
 };
+
+/**
+ * Longueur minimale des mots de passe (inscription, réinitialisation, gestion des utilisateurs)
+ */
+export const MIN_PASSWORD_LENGTH = 6;
+
+/**
+ * Vérifie qu'un mot de passe respecte la longueur minimale
+ */
+export const isValidPassword = (password: string): boolean => {
+    return password.length >= MIN_PASSWORD_LENGTH;
+};
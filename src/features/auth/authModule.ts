@@ -0,0 +1,38 @@
+import { AuthStoreDependencies, useAuthStore } from "../../core/store/authStore";
+import SessionService from "./domain/services/SessionService";
+import { OidcProviderConfig } from "../../core/types/ConfigTypes";
+import { OidcDataSource } from "./data/datasources/OidcDataSource";
+import { AuthDataSource } from "./data/datasources/AuthDataSource";
+import { AccountDataSource } from "./data/datasources/AccountDataSource";
+import { AuthRepository } from "./data/repositories/AuthRepository";
+import { AccountRepository } from "./data/repositories/AccountRepository";
+import { LoginUseCase } from "./domain/usecases/LoginUseCase";
+import { LogoutUseCase } from "./domain/usecases/LogoutUseCase";
+import { ImpersonationUseCase } from "./domain/usecases/ImpersonationUseCase";
+import { AccountUseCase } from "./domain/usecases/AccountUseCase";
+import { RefreshSessionUseCase } from "./domain/usecases/RefreshSessionUseCase";
+
+/**
+ * Chaîne de dépendances de la feature auth (Clean Architecture), créée à la racine de l'application (main.tsx)
+ * et transmise à initializeApp : le cœur n'en connaît que les interfaces (IAuthSession, use cases).
+ * `providers` : fournisseurs d'identité OpenID Connect proposés sur la page de login.
+ */
+export const createAuthModule = (providers: OidcProviderConfig[] = []): AuthStoreDependencies => {
+    const session = SessionService.getInstance();
+    const oidcDataSource = OidcDataSource.getInstance();
+    oidcDataSource.configure(providers);
+
+    const repository = new AuthRepository(new AuthDataSource(), oidcDataSource);
+
+    // Renouvellement des tokens par l'API ou par le fournisseur de la session
+    const refreshSession = new RefreshSessionUseCase(repository);
+    session.configureRefresh((credentials) => refreshSession.execute(credentials));
+
+    return {
+        session,
+        loginUseCase: new LoginUseCase(repository, session),
+        logoutUseCase: new LogoutUseCase(repository, session),
+        impersonationUseCase: new ImpersonationUseCase(repository, session, () => useAuthStore.getState().user),
+        accountUseCase: new AccountUseCase(new AccountRepository(new AccountDataSource())),
+    };
+};
@@ -0,0 +1,42 @@
+import { AuthTokens, LoginResult } from '../../../../core/types/AuthTypes';
+import { ValidationError } from '../../../../core/types/AppError';
+import { ApiAuthTokens, ApiLoginResponse } from '../../../../core/api/generated/schemas';
+
+// Les schémas Zod (tokens, défi de second facteur) sont générés depuis le contrat OpenAPI
+// et appliqués par le client généré avant ce mapping.
+
+export class LoginResponseModel {
+    /**
+     * Convertit la réponse de /auth/login : session à ouvrir, ou second facteur à fournir
+     */
+    static fromApi(data: ApiLoginResponse): LoginResult {
+        if ('secondFactorRequired' in data) {
+            return {
+                status: 'second-factor-required',
+                challenge: {
+                    challengeId: data.challengeId,
+                    methods: data.methods ?? ['totp', 'recovery_code'],
+                },
+            };
+        }
+
+        return {
+            status: 'authenticated',
+            tokens: LoginResponseModel.tokensFromApi(data),
+        };
+    }
+
+    /**
+     * Convertit une réponse contenant uniquement des tokens (second facteur, impersonation)
+     */
+    static tokensFromApi(data: ApiAuthTokens): AuthTokens {
+        return { accessToken: data.accessToken, refreshToken: data.refreshToken };
+    }
+
+    /**
+     * Réponse non conforme au contrat : les stores comparent AppError.details au code métier
+     */
+    static invalidResponseError(): ValidationError {
+        return new ValidationError("Réponse d'authentification invalide", [], "invalid_auth_response");
+    }
+}
@@ -0,0 +1,24 @@
+import { UnauthorizedError } from '../../../../core/types/AppError';
+import { ApiRefreshResponse } from '../../../../core/api/generated/schemas';
+import { IssuedTokens } from '../../domain/types/AuthDomainTypes';
+
+// Schéma Zod généré depuis le contrat OpenAPI (refresh token absent si l'API ne le renouvelle pas)
+
+export class RefreshResponseModel {
+    /**
+     * Convertit la réponse de /auth/refresh
+     */
+    static fromApi(data: ApiRefreshResponse): IssuedTokens {
+        return {
+            accessToken: data.accessToken,
+            refreshToken: data.refreshToken,
+        };
+    }
+
+    /**
+     * Réponse non conforme au contrat
+     */
+    static invalidResponseError(): UnauthorizedError {
+        return new UnauthorizedError("Échec du renouvellement du token", "refresh_failed");
+    }
+}
@@ -0,0 +1,32 @@
+import { ValidationError } from '../../../../core/types/AppError';
+import { ApiRecoveryCodes, ApiTwoFactorEnrollment } from '../../../../core/api/generated/schemas';
+import { TwoFactorEnrollment } from '../../domain/types/AuthDomainTypes';
+
+// Schémas Zod générés depuis le contrat OpenAPI (/auth/2fa/enroll et /auth/2fa/enroll/confirm)
+
+export class TwoFactorEnrollmentModel {
+    /**
+     * Convertit la réponse de démarrage d'enrôlement
+     */
+    static fromApi(data: ApiTwoFactorEnrollment): TwoFactorEnrollment {
+        return {
+            otpauthUrl: data.otpauthUrl,
+            secret: data.secret,
+            qrCodeDataUrl: data.qrCodeDataUrl,
+        };
+    }
+
+    /**
+     * Codes de récupération de la confirmation (liste vide si l'API n'en fournit pas)
+     */
+    static recoveryCodesFromApi(data: ApiRecoveryCodes): string[] {
+        return data.recoveryCodes ?? [];
+    }
+
+    /**
+     * Réponse de démarrage non conforme au contrat
+     */
+    static invalidResponseError(): ValidationError {
+        return new ValidationError("Réponse d'enrôlement invalide", [], "invalid_enrollment_response");
+    }
+}
@@ -0,0 +1,52 @@
+import * as api from "../../../../core/api/generated/client";
+import { StatusOverrides, toAppError } from "../../../../core/utils/errorMapper";
+import { UserModel } from "../../../users/data/DTO/UserModel";
+import { UserEntity } from "../../../users/domain/entities/UserEntity";
+import { ChangePasswordData, UpdateProfileData } from "../../domain/types/AuthDomainTypes";
+
+/**
+ * Interface du DataSource du compte de l'utilisateur connecté (/auth/me).
+ * Note : L'utilisateur est identifié par le token Bearer (AxiosInterceptor), jamais passé en paramètre.
+ * Un mot de passe actuel incorrect est signalé par un 403 : un 401 déclencherait le refresh de l'intercepteur.
+ * Les erreurs sont levées sous forme d'AppError typée (toAppError).
+ */
+export interface IAccountDataSource {
+    getProfile(): Promise<UserEntity>;
+    updateProfile(data: UpdateProfileData): Promise<UserEntity>;
+    changePassword(data: ChangePasswordData): Promise<boolean>;
+}
+
+// Erreurs communes aux modifications confirmées par le mot de passe actuel
+const ACCOUNT_UPDATE_ERRORS: StatusOverrides = {
+    403: { message: "Mot de passe actuel incorrect", reason: "invalid_current_password" },
+    400: { message: "Données invalides", reason: "invalid_account_data", preferServerMessage: true },
+    429: { message: "Trop de tentatives, réessayez plus tard" },
+};
+
+export class AccountDataSource implements IAccountDataSource {
+    async getProfile(): Promise<UserEntity> {
+        try {
+            // Réponse validée par le schéma Zod généré (contrat OpenAPI)
+            return UserModel.fromApi(await api.getProfile());
+        } catch (error) {
+            throw toAppError(error, "Erreur lors de la récupération du profil");
+        }
+    }
+
+    async updateProfile(data: UpdateProfileData): Promise<UserEntity> {
+        try {
+            return UserModel.fromApi(await api.updateProfile(data));
+        } catch (error) {
+            throw toAppError(error, "Erreur lors de la mise à jour du profil", ACCOUNT_UPDATE_ERRORS);
+        }
+    }
+
+    async changePassword(data: ChangePasswordData): Promise<boolean> {
+        try {
+            await api.changePassword(data);
+            return true;
+        } catch (error) {
+            throw toAppError(error, "Erreur lors du changement de mot de passe", ACCOUNT_UPDATE_ERRORS);
+        }
+    }
+}
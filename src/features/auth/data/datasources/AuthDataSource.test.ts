@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AppError, RateLimitError } from '@core/types/AppError';
+
+// --- Mocks ---
+
+const axiosServiceMock = {
+    post: vi.fn(),
+};
+
+vi.mock('@core/services/axiosService', () => ({
+    default: { getInstance: () => axiosServiceMock },
+}));
+
+const { AuthDataSource } = await import('./AuthDataSource');
+
+// Erreur Axios telle que recréée par les mocks (seul `name` l'identifie)
+const httpError = (status: number, headers: Record<string, string> = {}) =>
+    Object.assign(new Error(`HTTP ${status}`), { name: 'AxiosError', response: { status, data: {}, headers } });
+
+// Erreur levée par la promesse, pour inspecter code et details
+const rejectionOf = (promise: Promise<unknown>): Promise<AppError> => promise.then(
+    () => { throw new Error('La promesse aurait dû être rejetée'); },
+    (error: AppError) => error
+);
+
+// --- Tests ---
+
+describe('AuthDataSource', () => {
+    const dataSource = new AuthDataSource();
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        axiosServiceMock.post.mockResolvedValue({ data: {} });
+    });
+
+    describe('login', () => {
+        it('valide la reponse avec Zod (second facteur sans challengeId refuse)', async () => {
+            axiosServiceMock.post.mockResolvedValue({ data: { secondFactorRequired: true } });
+
+            const error = await rejectionOf(dataSource.login({ email: 'a@example.com', password: 'secret123' }));
+
+            expect(error.details).toBe('invalid_auth_response');
+        });
+
+        it('transmet le Retry-After d un 429', async () => {
+            axiosServiceMock.post.mockRejectedValue(httpError(429, { 'retry-after': '120' }));
+
+            const error = await rejectionOf(dataSource.login({ email: 'a@example.com', password: 'secret123' }));
+
+            expect(error).toBeInstanceOf(RateLimitError);
+            expect((error as RateLimitError).retryAfterSeconds).toBe(120);
+        });
+
+        it('conserve l identifiant de correlation de la requete comme reference', async () => {
+            axiosServiceMock.post.mockRejectedValue(Object.assign(httpError(401), { requestId: 'req-123' }));
+
+            const error = await rejectionOf(dataSource.login({ email: 'a@example.com', password: 'secret123' }));
+
+            expect(error).toMatchObject({ kind: 'unauthorized', details: 'invalid_credentials', requestId: 'req-123' });
+        });
+    });
+
+    describe('register', () => {
+        it('signale un email deja utilise (409)', async () => {
+            axiosServiceMock.post.mockRejectedValue(httpError(409));
+
+            const error = await rejectionOf(dataSource.register({ firstName: 'Jean', lastName: 'Dupont', email: 'a@example.com', password: 'secret123' }));
+
+            expect(error.details).toBe('email_already_registered');
+        });
+    });
+
+    describe('requestPasswordReset', () => {
+        it('ne revele pas si le compte existe (404 traite comme un succes)', async () => {
+            axiosServiceMock.post.mockRejectedValue(httpError(404));
+
+            expect(await dataSource.requestPasswordReset('inconnu@example.com')).toBe(true);
+        });
+    });
+
+    describe('resetPassword', () => {
+        it('distingue un lien expire (410) d un lien invalide (400)', async () => {
+            axiosServiceMock.post.mockRejectedValueOnce(httpError(410));
+            const expired = await rejectionOf(dataSource.resetPassword({ token: 'abc', password: 'secret123' }));
+
+            axiosServiceMock.post.mockRejectedValueOnce(httpError(400));
+            const invalid = await rejectionOf(dataSource.resetPassword({ token: 'abc', password: 'secret123' }));
+
+            expect(expired).toMatchObject({ kind: 'not_found', details: 'reset_token_expired' });
+            expect(invalid).toMatchObject({ kind: 'validation', details: 'reset_token_invalid' });
+        });
+    });
+});
@@ -0,0 +1,172 @@
+import * as api from "../../../../core/api/generated/client";
+import { isApiValidationError } from "../../../../core/api/apiRuntime";
+import { AuthTokens, LoginCredentials, LoginResult, VerifySecondFactorParams } from "../../../../core/types/AuthTypes";
+import { toAppError } from "../../../../core/utils/errorMapper";
+import { LoginResponseModel } from "../DTO/LoginResponseModel";
+import { RefreshResponseModel } from "../DTO/RefreshResponseModel";
+import { TwoFactorEnrollmentModel } from "../DTO/TwoFactorEnrollmentModel";
+import { IssuedTokens, RegisterData, ResetPasswordData, TwoFactorEnrollment } from "../../domain/types/AuthDomainTypes";
+
+/**
+ * Interface du DataSource Auth (API d'authentification).
+ * Note : Le token Bearer des routes protégées (enrôlement 2FA) est géré par AxiosInterceptor,
+ * les tokens de session ne sont jamais passés en paramètre, sauf le refresh token à renouveler ou révoquer.
+ * Les réponses sont validées par le client généré (contrat OpenAPI) ; une réponse non conforme
+ * devient le code métier du Model correspondant.
+ * Les erreurs sont levées sous forme d'AppError typée (toAppError), `details` portant le code métier.
+ */
+export interface IAuthDataSource {
+    login(credentials: LoginCredentials): Promise<LoginResult>;
+    verifySecondFactor(params: VerifySecondFactorParams): Promise<AuthTokens>;
+    refresh(refreshToken: string): Promise<IssuedTokens>;
+    logout(refreshToken: string): Promise<boolean>;
+    register(data: RegisterData): Promise<boolean>;
+    requestPasswordReset(email: string): Promise<boolean>;
+    resetPassword(data: ResetPasswordData): Promise<boolean>;
+    startTwoFactorEnrollment(): Promise<TwoFactorEnrollment>;
+    confirmTwoFactorEnrollment(code: string): Promise<string[]>;
+    impersonate(userId: string): Promise<AuthTokens>;
+}
+
+const TOO_MANY_ATTEMPTS = { message: "Trop de tentatives, réessayez plus tard" };
+
+export class AuthDataSource implements IAuthDataSource {
+    async login(credentials: LoginCredentials): Promise<LoginResult> {
+        try {
+            return LoginResponseModel.fromApi(await api.login(credentials));
+        } catch (error) {
+            if (isApiValidationError(error)) {
+                throw LoginResponseModel.invalidResponseError();
+            }
+            throw toAppError(error, "Erreur de connexion", {
+                401: { message: "Email ou mot de passe incorrect", reason: "invalid_credentials" },
+                429: TOO_MANY_ATTEMPTS,
+            });
+        }
+    }
+
+    async verifySecondFactor(params: VerifySecondFactorParams): Promise<AuthTokens> {
+        try {
+            return LoginResponseModel.tokensFromApi(await api.verifySecondFactor(params));
+        } catch (error) {
+            if (isApiValidationError(error)) {
+                throw LoginResponseModel.invalidResponseError();
+            }
+            throw toAppError(error, "Erreur lors de la vérification du code", {
+                401: { message: "Code invalide", reason: "invalid_second_factor" },
+                410: { message: "La vérification a expiré, veuillez vous reconnecter", reason: "second_factor_challenge_expired" },
+                429: TOO_MANY_ATTEMPTS,
+            });
+        }
+    }
+
+    async refresh(refreshToken: string): Promise<IssuedTokens> {
+        try {
+            return RefreshResponseModel.fromApi(await api.refreshToken({ refreshToken }));
+        } catch (error) {
+            if (isApiValidationError(error)) {
+                throw RefreshResponseModel.invalidResponseError();
+            }
+            throw toAppError(error, "Erreur lors du renouvellement du token", {
+                401: { message: "Session expirée, veuillez vous reconnecter", reason: "refresh_expired" },
+            });
+        }
+    }
+
+    async logout(refreshToken: string): Promise<boolean> {
+        try {
+            await api.logout({ refreshToken });
+            return true;
+        } catch (error) {
+            throw toAppError(error, "Erreur lors de l'invalidation côté serveur");
+        }
+    }
+
+    async register(data: RegisterData): Promise<boolean> {
+        try {
+            await api.register(data);
+            return true;
+        } catch (error) {
+            throw toAppError(error, "Erreur lors de l'inscription", {
+                409: { message: "Un compte existe déjà avec cet email", reason: "email_already_registered" },
+                400: { message: "Données d'inscription invalides", reason: "invalid_registration", preferServerMessage: true },
+            });
+        }
+    }
+
+    async requestPasswordReset(email: string): Promise<boolean> {
+        try {
+            await api.requestPasswordReset({ email });
+            return true;
+        } catch (error) {
+            const appError = toAppError(error, "Erreur lors de la demande de réinitialisation", {
+                429: { message: "Trop de demandes, réessayez plus tard" },
+            });
+            // Email inconnu : même réponse qu'un succès, pour ne pas révéler les comptes existants
+            if (appError.kind === 'not_found') {
+                return true;
+            }
+            throw appError;
+        }
+    }
+
+    async resetPassword(data: ResetPasswordData): Promise<boolean> {
+        const invalidToken = { message: "Ce lien de réinitialisation est invalide ou a déjà été utilisé", reason: "reset_token_invalid" };
+
+        try {
+            await api.resetPassword(data);
+            return true;
+        } catch (error) {
+            throw toAppError(error, "Erreur lors de la réinitialisation du mot de passe", {
+                410: { message: "Ce lien de réinitialisation a expiré", reason: "reset_token_expired" },
+                400: invalidToken,
+                404: invalidToken,
+                429: TOO_MANY_ATTEMPTS,
+            });
+        }
+    }
+
+    async startTwoFactorEnrollment(): Promise<TwoFactorEnrollment> {
+        try {
+            return TwoFactorEnrollmentModel.fromApi(await api.startTwoFactorEnrollment());
+        } catch (error) {
+            if (isApiValidationError(error)) {
+                throw TwoFactorEnrollmentModel.invalidResponseError();
+            }
+            throw toAppError(error, "Erreur lors de l'activation de la double authentification", {
+                409: { message: "La double authentification est déjà activée", reason: "two_factor_already_enabled" },
+            });
+        }
+    }
+
+    async confirmTwoFactorEnrollment(code: string): Promise<string[]> {
+        const invalidCode = { message: "Code invalide", reason: "invalid_second_factor" };
+
+        try {
+            return TwoFactorEnrollmentModel.recoveryCodesFromApi(await api.confirmTwoFactorEnrollment({ code }));
+        } catch (error) {
+            // Double authentification activée mais codes illisibles : l'enrôlement reste un succès
+            if (isApiValidationError(error)) {
+                return [];
+            }
+            throw toAppError(error, "Erreur lors de la confirmation de la double authentification", {
+                400: invalidCode,
+                401: invalidCode,
+            });
+        }
+    }
+
+    async impersonate(userId: string): Promise<AuthTokens> {
+        try {
+            return LoginResponseModel.tokensFromApi(await api.impersonate({ userId }));
+        } catch (error) {
+            if (isApiValidationError(error)) {
+                throw LoginResponseModel.invalidResponseError();
+            }
+            throw toAppError(error, "Erreur lors du démarrage de l'impersonation", {
+                403: { message: "Vous n'avez pas les droits pour consulter l'application en tant que cet utilisateur", reason: "impersonation_forbidden" },
+                404: { message: "Utilisateur introuvable", reason: "user_not_found" },
+            });
+        }
+    }
+}
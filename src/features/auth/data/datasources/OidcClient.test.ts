@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import { parseJwt } from '@core/utils/jwt';
+
+// --- Mocks ---
+
+const axiosMock = {
+    get: vi.fn(),
+    post: vi.fn(),
+};
+
+vi.mock('axios', () => ({ default: axiosMock }));
+
+const { OidcClient, consumeOidcTransaction } = await import('./OidcClient');
+const { createCodeChallenge } = await import('../../../../core/utils/pkce');
+const { encodeBase64Url } = await import('../../../../core/utils/jwt');
+
+// --- Helpers ---
+
+const ISSUER = 'http://localhost:4000';
+const CLIENT_ID = 'template-app';
+
+const discovery = {
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    jwks_uri: `${ISSUER}/jwks`,
+};
+
+const encodeJson = (value: unknown) => encodeBase64Url(new TextEncoder().encode(JSON.stringify(value)));
+
+const signIdToken = async (privateKey: CryptoKey, payload: Record<string, unknown>) => {
+    const signingInput = `${encodeJson({ alg: 'ES256', kid: 'k1' })}.${encodeJson(payload)}`;
+    const signature = await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, privateKey, new TextEncoder().encode(signingInput));
+    return `${signingInput}.${encodeBase64Url(new Uint8Array(signature))}`;
+};
+
+const startLogin = async (client: InstanceType<typeof OidcClient>) => {
+    const urlResult = await client.createAuthorizationUrl('/users');
+    const transaction = consumeOidcTransaction();
+    if (urlResult.isLeft() || !transaction) {
+        throw new Error('Demande d\'autorisation non creee');
+    }
+    return { url: new URL(urlResult.value), transaction };
+};
+
+// --- Tests ---
+
+describe('OidcClient', () => {
+    let keyPair: CryptoKeyPair;
+    let publicJwk: JsonWebKey;
+
+    beforeAll(async () => {
+        keyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+        publicJwk = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+    });
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        axiosMock.get.mockImplementation(async (url: string) => ({
+            data: url.endsWith('/jwks') ? { keys: [{ ...publicJwk, kid: 'k1' }] } : discovery,
+        }));
+    });
+
+    const idTokenFor = (nonce: string) => {
+        const now = Math.floor(Date.now() / 1000);
+        return signIdToken(keyPair.privateKey, { iss: ISSUER, aud: CLIENT_ID, sub: 'user-1', nonce, iat: now, exp: now + 300 });
+    };
+
+    it('construit une URL d\'autorisation avec un code_challenge S256', async () => {
+        const client = new OidcClient({ id: 'stub', label: 'Stub', issuer: ISSUER, clientId: CLIENT_ID });
+
+        const { url, transaction } = await startLogin(client);
+
+        expect(url.origin + url.pathname).toBe(discovery.authorization_endpoint);
+        expect(url.searchParams.get('state')).toBe(transaction.state);
+        expect(url.searchParams.get('nonce')).toBe(transaction.nonce);
+        expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+        expect(url.searchParams.get('scope')?.split(' ')).toContain('offline_access');
+        expect(url.searchParams.get('code_challenge')).toBe(await createCodeChallenge(transaction.codeVerifier));
+        expect(transaction.returnTo).toBe('/users');
+    });
+
+    it('rejette un retour dont le state ne correspond pas, sans echanger le code', async () => {
+        const client = new OidcClient({ id: 'stub', label: 'Stub', issuer: ISSUER, clientId: CLIENT_ID });
+        const { transaction } = await startLogin(client);
+
+        const result = await client.exchangeCode('?code=abc&state=forged', transaction);
+
+        expect(result.isLeft() && result.value.details).toBe('oidc_state_mismatch');
+        expect(axiosMock.post).not.toHaveBeenCalled();
+    });
+
+    it('rejette un ID token dont le nonce ne correspond pas', async () => {
+        const client = new OidcClient({ id: 'stub', label: 'Stub', issuer: ISSUER, clientId: CLIENT_ID });
+        const { transaction } = await startLogin(client);
+        axiosMock.post.mockResolvedValue({
+            data: { access_token: 'at', refresh_token: 'rt', id_token: await idTokenFor('autre-nonce') },
+        });
+
+        const result = await client.exchangeCode(`?code=abc&state=${transaction.state}`, transaction);
+
+        expect(result.isLeft() && result.value.details).toBe('oidc_nonce_mismatch');
+    });
+
+    it('echange le code avec le code_verifier et retourne les tokens', async () => {
+        const client = new OidcClient({ id: 'stub', label: 'Stub', issuer: ISSUER, clientId: CLIENT_ID });
+        const { transaction } = await startLogin(client);
+        const idToken = await idTokenFor(transaction.nonce);
+        axiosMock.post.mockResolvedValue({ data: { access_token: 'at', refresh_token: 'rt', id_token: idToken, expires_in: 600 } });
+        const before = Math.floor(Date.now() / 1000);
+
+        const result = await client.exchangeCode(`?code=abc&state=${transaction.state}`, transaction);
+
+        expect(result.isRight() && result.value).toEqual({ accessToken: 'at', refreshToken: 'rt', idToken, expiresAt: expect.any(Number) });
+        const expiresAt = result.isRight() ? result.value.expiresAt ?? 0 : 0;
+        expect(expiresAt - before).toBeGreaterThanOrEqual(600);
+        expect(expiresAt - before).toBeLessThanOrEqual(601);
+        const body = axiosMock.post.mock.calls[0][1] as URLSearchParams;
+        expect(body.get('grant_type')).toBe('authorization_code');
+        expect(body.get('code_verifier')).toBe(transaction.codeVerifier);
+    });
+
+    it('retient l expiration de l ID token pour un token d acces opaque sans expires_in', async () => {
+        const client = new OidcClient({ id: 'stub', label: 'Stub', issuer: ISSUER, clientId: CLIENT_ID });
+        const { transaction } = await startLogin(client);
+        const idToken = await idTokenFor(transaction.nonce);
+        axiosMock.post.mockResolvedValue({ data: { access_token: 'opaque-access', refresh_token: 'rt', id_token: idToken } });
+
+        const result = await client.exchangeCode(`?code=abc&state=${transaction.state}`, transaction);
+
+        expect(result.isRight() && result.value.expiresAt).toBe(parseJwt(idToken)?.payload.exp);
+    });
+});
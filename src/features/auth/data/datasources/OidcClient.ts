@@ -0,0 +1,321 @@
+import axios from "axios";
+import { z } from "zod";
+import { Either, left, right } from "@sweet-monads/either";
+import { ServerError, TypedAppError, UnauthorizedError, ValidationError } from "../../../../core/types/AppError";
+import { toAppError } from "../../../../core/utils/errorMapper";
+import { JwtSignatureVerifier } from "../../../../core/services/jwtVerifier";
+import Logger from "../../../../core/services/logger";
+import { parseJwt } from "../../../../core/utils/jwt";
+import { createCodeChallenge, generateRandomString } from "../../../../core/utils/pkce";
+import { OidcProviderConfig } from "../../../../core/types/ConfigTypes";
+import { ExternalProvider } from "../../../../core/types/AuthTypes";
+import { IssuedTokens } from "../../domain/types/AuthDomainTypes";
+
+const log = Logger.getInstance().scope("oidc");
+
+// Document de découverte (/.well-known/openid-configuration)
+const DiscoveryDocumentSchema = z.object({
+    issuer: z.string().min(1),
+    authorization_endpoint: z.string().url(),
+    token_endpoint: z.string().url(),
+    jwks_uri: z.string().url(),
+    end_session_endpoint: z.string().url().optional(),
+});
+
+// Réponse du token endpoint (RFC 6749 §5.1)
+const TokenResponseSchema = z.object({
+    access_token: z.string().min(1),
+    refresh_token: z.string().min(1).optional(),
+    id_token: z.string().min(1).optional(),
+    expires_in: z.coerce.number().positive().optional(),
+});
+
+const JwksSchema = z.object({
+    keys: z.array(z.record(z.string(), z.unknown())),
+});
+
+type DiscoveryDocument = z.infer<typeof DiscoveryDocumentSchema>;
+type TokenResponse = z.infer<typeof TokenResponseSchema>;
+
+/**
+ * Demande d'autorisation en cours, conservée le temps de l'aller-retour chez le fournisseur
+ */
+export interface OidcTransaction {
+    providerId: string;
+    state: string;
+    nonce: string;
+    codeVerifier: string;
+    returnTo: string;
+    createdAt: number;
+}
+
+const TRANSACTION_KEY = 'oidc_transaction';
+const TRANSACTION_TTL_MS = 10 * 60 * 1000; // 10 minutes
+const CLOCK_TOLERANCE_SECONDS = 30;
+// Durée de vie retenue quand le fournisseur n'indique pas l'expiration du token d'accès
+const DEFAULT_ACCESS_TOKEN_LIFETIME_SECONDS = 5 * 60;
+// offline_access : la plupart des fournisseurs ne délivrent un refresh token que sur demande explicite,
+// or la session (renouvellement, impersonation) en exige un
+const DEFAULT_SCOPE = 'openid profile email offline_access';
+
+/**
+ * Expiration du token d'accès (timestamp en secondes) : `expires_in` de la réponse, sinon le claim `exp`
+ * du token d'accès ou de l'ID token. Le token d'accès peut être opaque, il n'est jamais validé ici.
+ */
+const getAccessTokenExpiry = (tokens: TokenResponse): number => {
+    const now = Math.floor(Date.now() / 1000);
+    if (tokens.expires_in !== undefined) {
+        return now + tokens.expires_in;
+    }
+
+    const exp = [tokens.access_token, tokens.id_token]
+        .map((token) => (token ? parseJwt(token)?.payload.exp : undefined))
+        .find((value): value is number => typeof value === 'number');
+    return exp ?? now + DEFAULT_ACCESS_TOKEN_LIFETIME_SECONDS;
+};
+
+/**
+ * Récupère et supprime la transaction en cours (usage unique, limitée à l'onglet)
+ */
+export const consumeOidcTransaction = (): OidcTransaction | null => {
+    try {
+        const raw = window.sessionStorage.getItem(TRANSACTION_KEY);
+        window.sessionStorage.removeItem(TRANSACTION_KEY);
+        return raw ? JSON.parse(raw) as OidcTransaction : null;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Client OpenID Connect : flux Authorization Code avec PKCE (RFC 7636) pour un fournisseur.
+ * Les appels au fournisseur passent par axios directement : les intercepteurs d'AxiosService
+ * (Authorization, refresh sur 401) ne concernent que notre API.
+ */
+export class OidcClient {
+    private readonly config: OidcProviderConfig;
+    private discovery: Promise<DiscoveryDocument> | null = null;
+    private verifier: Promise<JwtSignatureVerifier> | null = null;
+
+    constructor(config: OidcProviderConfig) {
+        this.config = config;
+    }
+
+    public get provider(): ExternalProvider {
+        return { id: this.config.id, label: this.config.label };
+    }
+
+    /**
+     * Prépare une demande d'autorisation et retourne l'URL du fournisseur vers laquelle rediriger
+     */
+    public async createAuthorizationUrl(returnTo: string): Promise<Either<TypedAppError, string>> {
+        try {
+            const discovery = await this.getDiscovery();
+
+            const transaction: OidcTransaction = {
+                providerId: this.config.id,
+                state: generateRandomString(),
+                nonce: generateRandomString(),
+                codeVerifier: generateRandomString(48),
+                returnTo,
+                createdAt: Date.now(),
+            };
+            window.sessionStorage.setItem(TRANSACTION_KEY, JSON.stringify(transaction));
+
+            const url = new URL(discovery.authorization_endpoint);
+            url.searchParams.set('response_type', 'code');
+            url.searchParams.set('client_id', this.config.clientId);
+            url.searchParams.set('redirect_uri', this.getRedirectUri());
+            url.searchParams.set('scope', this.config.scope ?? DEFAULT_SCOPE);
+            url.searchParams.set('state', transaction.state);
+            url.searchParams.set('nonce', transaction.nonce);
+            url.searchParams.set('code_challenge', await createCodeChallenge(transaction.codeVerifier));
+            url.searchParams.set('code_challenge_method', 'S256');
+
+            return right(url.toString());
+        } catch (error) {
+            return left(new ServerError("Fournisseur d'identité indisponible", 503, error));
+        }
+    }
+
+    /**
+     * Traite le retour du fournisseur (query string de /auth/callback) et échange le code contre des tokens
+     */
+    public async exchangeCode(search: string, transaction: OidcTransaction): Promise<Either<TypedAppError, IssuedTokens>> {
+        const params = new URLSearchParams(search);
+
+        if (params.get('state') !== transaction.state) {
+            return left(new ValidationError("Réponse du fournisseur d'identité invalide", [], "oidc_state_mismatch"));
+        }
+
+        if (Date.now() - transaction.createdAt > TRANSACTION_TTL_MS) {
+            return left(new ValidationError("La connexion a expiré, veuillez réessayer", [], "oidc_transaction_expired"));
+        }
+
+        const providerError = params.get('error');
+        if (providerError) {
+            return left(new UnauthorizedError(
+                params.get('error_description') || "Connexion refusée par le fournisseur d'identité",
+                providerError === 'access_denied' ? 'oidc_access_denied' : 'oidc_provider_error'
+            ));
+        }
+
+        const code = params.get('code');
+        if (!code) {
+            return left(new ValidationError("Réponse du fournisseur d'identité invalide", [], "oidc_code_missing"));
+        }
+
+        try {
+            const discovery = await this.getDiscovery();
+            const response = await axios.post(discovery.token_endpoint, new URLSearchParams({
+                grant_type: 'authorization_code',
+                code,
+                redirect_uri: this.getRedirectUri(),
+                client_id: this.config.clientId,
+                code_verifier: transaction.codeVerifier,
+            }));
+
+            const tokens = TokenResponseSchema.safeParse(response.data);
+            if (!tokens.success || !tokens.data.id_token) {
+                return left(new ValidationError("Réponse du fournisseur d'identité invalide", [], "invalid_auth_response"));
+            }
+
+            const idTokenResult = await this.validateIdToken(tokens.data.id_token, discovery, transaction.nonce);
+            if (idTokenResult.isLeft()) {
+                return left(idTokenResult.value);
+            }
+
+            return right({
+                accessToken: tokens.data.access_token,
+                refreshToken: tokens.data.refresh_token,
+                idToken: tokens.data.id_token,
+                expiresAt: getAccessTokenExpiry(tokens.data),
+            });
+        } catch (error) {
+            const rejected = { message: "Code d'autorisation refusé par le fournisseur d'identité", reason: "oidc_token_exchange_failed" };
+            return left(toAppError(error, "Erreur lors de l'échange du code d'autorisation", { 400: rejected, 401: rejected }));
+        }
+    }
+
+    /**
+     * Renouvelle les tokens auprès du fournisseur (grant refresh_token)
+     */
+    public async refresh(refreshToken: string): Promise<Either<TypedAppError, IssuedTokens>> {
+        try {
+            const discovery = await this.getDiscovery();
+            const response = await axios.post(discovery.token_endpoint, new URLSearchParams({
+                grant_type: 'refresh_token',
+                refresh_token: refreshToken,
+                client_id: this.config.clientId,
+            }));
+
+            const tokens = TokenResponseSchema.safeParse(response.data);
+            if (!tokens.success) {
+                return left(new UnauthorizedError("Échec du renouvellement du token", "refresh_failed"));
+            }
+
+            // Pas de nonce sur un ID token renouvelé (OIDC Core §12.2)
+            if (tokens.data.id_token) {
+                const idTokenResult = await this.validateIdToken(tokens.data.id_token, discovery);
+                if (idTokenResult.isLeft()) {
+                    return left(idTokenResult.value);
+                }
+            }
+
+            return right({
+                accessToken: tokens.data.access_token,
+                refreshToken: tokens.data.refresh_token,
+                idToken: tokens.data.id_token,
+                expiresAt: getAccessTokenExpiry(tokens.data),
+            });
+        } catch (error) {
+            // invalid_grant (400) : refresh token expiré ou révoqué chez le fournisseur
+            const expired = { message: "Session expirée, veuillez vous reconnecter", reason: "refresh_expired" };
+            return left(toAppError(error, "Erreur lors du renouvellement du token", { 400: expired, 401: expired }));
+        }
+    }
+
+    /**
+     * URL de déconnexion chez le fournisseur (RP-Initiated Logout), null s'il n'en expose pas
+     */
+    public async getEndSessionUrl(idToken: string | null): Promise<string | null> {
+        try {
+            const discovery = await this.getDiscovery();
+            if (!discovery.end_session_endpoint) {
+                return null;
+            }
+
+            const url = new URL(discovery.end_session_endpoint);
+            url.searchParams.set('client_id', this.config.clientId);
+            url.searchParams.set('post_logout_redirect_uri', this.config.postLogoutRedirectUri ?? `${window.location.origin}/login`);
+            if (idToken) {
+                url.searchParams.set('id_token_hint', idToken);
+            }
+            return url.toString();
+        } catch (error) {
+            log.warn('Déconnexion auprès du fournisseur d\'identité impossible', { error });
+            return null;
+        }
+    }
+
+    /**
+     * Vérifie l'ID token : émetteur, audience, expiration, nonce et signature (JWKS du fournisseur)
+     */
+    private async validateIdToken(idToken: string, discovery: DiscoveryDocument, expectedNonce?: string): Promise<Either<TypedAppError, true>> {
+        const jwt = parseJwt(idToken);
+        if (!jwt) {
+            return left(new UnauthorizedError("ID token invalide", "oidc_id_token_invalid"));
+        }
+
+        const { iss, aud, exp, nonce } = jwt.payload;
+        const audiences = Array.isArray(aud) ? aud : [aud];
+        const currentTime = Math.floor(Date.now() / 1000);
+
+        if (iss !== discovery.issuer || !audiences.includes(this.config.clientId)) {
+            return left(new UnauthorizedError("ID token émis pour un autre client ou par un autre émetteur", "oidc_id_token_invalid"));
+        }
+
+        if (typeof exp !== 'number' || exp + CLOCK_TOLERANCE_SECONDS < currentTime) {
+            return left(new UnauthorizedError("ID token expiré", "oidc_id_token_invalid"));
+        }
+
+        if (expectedNonce !== undefined && nonce !== expectedNonce) {
+            return left(new UnauthorizedError("Réponse du fournisseur d'identité invalide", "oidc_nonce_mismatch"));
+        }
+
+        const verifier = await this.getVerifier(discovery);
+        return verifier.verify(idToken);
+    }
+
+    private getDiscovery(): Promise<DiscoveryDocument> {
+        if (!this.discovery) {
+            const issuer = this.config.issuer.replace(/\/+$/, '');
+            this.discovery = axios.get(`${issuer}/.well-known/openid-configuration`)
+                .then((response) => DiscoveryDocumentSchema.parse(response.data));
+            // Ne pas garder en cache une découverte en échec (fournisseur momentanément indisponible)
+            this.discovery.catch(() => {
+                this.discovery = null;
+            });
+        }
+        return this.discovery;
+    }
+
+    private getVerifier(discovery: DiscoveryDocument): Promise<JwtSignatureVerifier> {
+        if (!this.verifier) {
+            this.verifier = axios.get(discovery.jwks_uri)
+                .then((response) => new JwtSignatureVerifier({
+                    jwks: { keys: JwksSchema.parse(response.data).keys as JsonWebKey[] },
+                }));
+            this.verifier.catch(() => {
+                this.verifier = null;
+            });
+        }
+        return this.verifier;
+    }
+
+    private getRedirectUri(): string {
+        return this.config.redirectUri ?? `${window.location.origin}/auth/callback`;
+    }
+}
+
+export default OidcClient;
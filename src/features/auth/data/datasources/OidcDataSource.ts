@@ -0,0 +1,88 @@
+import { ValidationError } from "../../../../core/types/AppError";
+import OidcClient, { consumeOidcTransaction } from "./OidcClient";
+import { OidcProviderConfig } from "../../../../core/types/ConfigTypes";
+import { ExternalProvider } from "../../../../core/types/AuthTypes";
+import { ExternalLoginResult, IssuedTokens } from "../../domain/types/AuthDomainTypes";
+
+/**
+ * Interface du DataSource des fournisseurs d'identité externes (OpenID Connect)
+ */
+export interface IOidcDataSource {
+    getProviders(): ExternalProvider[];
+    createAuthorizationUrl(providerId: string, returnTo: string): Promise<string>;
+    completeLogin(search: string): Promise<ExternalLoginResult>;
+    refresh(providerId: string, refreshToken: string): Promise<IssuedTokens>;
+    getEndSessionUrl(providerId: string, idToken: string | null): Promise<string | null>;
+}
+
+/**
+ * Fournisseurs configurés une fois au démarrage (createAuthModule) et partagés par tous les repositories.
+ */
+export class OidcDataSource implements IOidcDataSource {
+    private static instance: OidcDataSource;
+    private providers = new Map<string, OidcClient>();
+
+    private constructor() { }
+
+    public static getInstance(): OidcDataSource {
+        if (!OidcDataSource.instance) {
+            OidcDataSource.instance = new OidcDataSource();
+        }
+        return OidcDataSource.instance;
+    }
+
+    /**
+     * Déclare les fournisseurs d'identité proposés en alternative au login email/password
+     */
+    public configure(configs: OidcProviderConfig[]): void {
+        this.providers = new Map(configs.map((config) => [config.id, new OidcClient(config)]));
+    }
+
+    getProviders(): ExternalProvider[] {
+        return Array.from(this.providers.values(), (client) => client.provider);
+    }
+
+    async createAuthorizationUrl(providerId: string, returnTo: string): Promise<string> {
+        const result = await this.getClient(providerId).createAuthorizationUrl(returnTo);
+        if (result.isLeft()) {
+            throw result.value;
+        }
+        return result.value;
+    }
+
+    async completeLogin(search: string): Promise<ExternalLoginResult> {
+        const transaction = consumeOidcTransaction();
+        if (!transaction) {
+            throw new ValidationError("Aucune connexion en cours, veuillez réessayer", [], "oidc_transaction_missing");
+        }
+
+        const result = await this.getClient(transaction.providerId).exchangeCode(search, transaction);
+        if (result.isLeft()) {
+            throw result.value;
+        }
+
+        return { providerId: transaction.providerId, returnTo: transaction.returnTo, tokens: result.value };
+    }
+
+    async refresh(providerId: string, refreshToken: string): Promise<IssuedTokens> {
+        const result = await this.getClient(providerId).refresh(refreshToken);
+        if (result.isLeft()) {
+            throw result.value;
+        }
+        return result.value;
+    }
+
+    async getEndSessionUrl(providerId: string, idToken: string | null): Promise<string | null> {
+        return this.getClient(providerId).getEndSessionUrl(idToken);
+    }
+
+    private getClient(providerId: string): OidcClient {
+        const client = this.providers.get(providerId);
+        if (!client) {
+            throw new ValidationError("Fournisseur d'identité inconnu", [], "oidc_provider_unknown");
+        }
+        return client;
+    }
+}
+
+export default OidcDataSource;
@@ -0,0 +1,42 @@
+import { Either, left, right } from "@sweet-monads/either";
+import { TypedAppError } from "../../../../core/types/AppError";
+import { toAppError } from "../../../../core/utils/errorMapper";
+import { UserEntity } from "../../../users/domain/entities/UserEntity";
+import { IAccountDataSource } from "../datasources/AccountDataSource";
+import { IAccountRepository } from "../../domain/repositories/IAccountRepository";
+import { ChangePasswordData, UpdateProfileData } from "../../domain/types/AuthDomainTypes";
+
+export class AccountRepository implements IAccountRepository {
+    private dataSource: IAccountDataSource;
+
+    constructor(dataSource: IAccountDataSource) {
+        this.dataSource = dataSource;
+    }
+
+    async getProfile(): Promise<Either<TypedAppError, UserEntity>> {
+        try {
+            const result = await this.dataSource.getProfile();
+            return right(result);
+        } catch (error) {
+            return left(toAppError(error));
+        }
+    }
+
+    async updateProfile(data: UpdateProfileData): Promise<Either<TypedAppError, UserEntity>> {
+        try {
+            const result = await this.dataSource.updateProfile(data);
+            return right(result);
+        } catch (error) {
+            return left(toAppError(error));
+        }
+    }
+
+    async changePassword(data: ChangePasswordData): Promise<Either<TypedAppError, boolean>> {
+        try {
+            const result = await this.dataSource.changePassword(data);
+            return right(result);
+        } catch (error) {
+            return left(toAppError(error));
+        }
+    }
+}
@@ -0,0 +1,166 @@
+import { Either, left, right } from "@sweet-monads/either";
+import { TypedAppError } from "../../../../core/types/AppError";
+import { toAppError } from "../../../../core/utils/errorMapper";
+import {
+    AuthTokens,
+    ExternalProvider,
+    LoginCredentials,
+    LoginResult,
+    ProviderSession,
+    VerifySecondFactorParams
+} from "../../../../core/types/AuthTypes";
+import { IAuthDataSource } from "../datasources/AuthDataSource";
+import { IOidcDataSource } from "../datasources/OidcDataSource";
+import { IAuthRepository } from "../../domain/repositories/IAuthRepository";
+import {
+    ExternalLoginResult,
+    IssuedTokens,
+    RegisterData,
+    ResetPasswordData,
+    TwoFactorEnrollment
+} from "../../domain/types/AuthDomainTypes";
+
+/**
+ * Implémentation du repository Auth : API d'authentification et fournisseurs d'identité externes.
+ * Note : Le stockage des tokens reste dans SessionService, le repository ne fait que les obtenir.
+ * Les erreurs sont converties en AppError typée (toAppError) : les appelants branchent sur `error.kind`.
+ */
+export class AuthRepository implements IAuthRepository {
+    private dataSource: IAuthDataSource;
+    private oidcDataSource: IOidcDataSource;
+
+    constructor(dataSource: IAuthDataSource, oidcDataSource: IOidcDataSource) {
+        this.dataSource = dataSource;
+        this.oidcDataSource = oidcDataSource;
+    }
+
+    async login(credentials: LoginCredentials): Promise<Either<TypedAppError, LoginResult>> {
+        try {
+            const result = await this.dataSource.login(credentials);
+            return right(result);
+        } catch (error) {
+            return left(toAppError(error));
+        }
+    }
+
+    async verifySecondFactor(params: VerifySecondFactorParams): Promise<Either<TypedAppError, AuthTokens>> {
+        try {
+            const result = await this.dataSource.verifySecondFactor(params);
+            return right(result);
+        } catch (error) {
+            return left(toAppError(error));
+        }
+    }
+
+    async refresh(refreshToken: string): Promise<Either<TypedAppError, IssuedTokens>> {
+        try {
+            const result = await this.dataSource.refresh(refreshToken);
+            return right(result);
+        } catch (error) {
+            return left(toAppError(error));
+        }
+    }
+
+    async logout(refreshToken: string): Promise<Either<TypedAppError, boolean>> {
+        try {
+            const result = await this.dataSource.logout(refreshToken);
+            return right(result);
+        } catch (error) {
+            return left(toAppError(error));
+        }
+    }
+
+    async register(data: RegisterData): Promise<Either<TypedAppError, boolean>> {
+        try {
+            const result = await this.dataSource.register(data);
+            return right(result);
+        } catch (error) {
+            return left(toAppError(error));
+        }
+    }
+
+    async requestPasswordReset(email: string): Promise<Either<TypedAppError, boolean>> {
+        try {
+            const result = await this.dataSource.requestPasswordReset(email);
+            return right(result);
+        } catch (error) {
+            return left(toAppError(error));
+        }
+    }
+
+    async resetPassword(data: ResetPasswordData): Promise<Either<TypedAppError, boolean>> {
+        try {
+            const result = await this.dataSource.resetPassword(data);
+            return right(result);
+        } catch (error) {
+            return left(toAppError(error));
+        }
+    }
+
+    async startTwoFactorEnrollment(): Promise<Either<TypedAppError, TwoFactorEnrollment>> {
+        try {
+            const result = await this.dataSource.startTwoFactorEnrollment();
+            return right(result);
+        } catch (error) {
+            return left(toAppError(error));
+        }
+    }
+
+    async confirmTwoFactorEnrollment(code: string): Promise<Either<TypedAppError, string[]>> {
+        try {
+            const result = await this.dataSource.confirmTwoFactorEnrollment(code);
+            return right(result);
+        } catch (error) {
+            return left(toAppError(error));
+        }
+    }
+
+    async impersonate(userId: string): Promise<Either<TypedAppError, AuthTokens>> {
+        try {
+            const result = await this.dataSource.impersonate(userId);
+            return right(result);
+        } catch (error) {
+            return left(toAppError(error));
+        }
+    }
+
+    getExternalProviders(): ExternalProvider[] {
+        return this.oidcDataSource.getProviders();
+    }
+
+    async createAuthorizationUrl(providerId: string, returnTo: string): Promise<Either<TypedAppError, string>> {
+        try {
+            const result = await this.oidcDataSource.createAuthorizationUrl(providerId, returnTo);
+            return right(result);
+        } catch (error) {
+            return left(toAppError(error));
+        }
+    }
+
+    async completeExternalLogin(search: string): Promise<Either<TypedAppError, ExternalLoginResult>> {
+        try {
+            const result = await this.oidcDataSource.completeLogin(search);
+            return right(result);
+        } catch (error) {
+            return left(toAppError(error));
+        }
+    }
+
+    async refreshWithProvider(providerId: string, refreshToken: string): Promise<Either<TypedAppError, IssuedTokens>> {
+        try {
+            const result = await this.oidcDataSource.refresh(providerId, refreshToken);
+            return right(result);
+        } catch (error) {
+            return left(toAppError(error));
+        }
+    }
+
+    async getEndSessionUrl(providerSession: ProviderSession): Promise<Either<TypedAppError, string | null>> {
+        try {
+            const result = await this.oidcDataSource.getEndSessionUrl(providerSession.providerId, providerSession.idToken);
+            return right(result);
+        } catch (error) {
+            return left(toAppError(error));
+        }
+    }
+}
@@ -0,0 +1,10 @@
+import { Either } from "@sweet-monads/either";
+import { TypedAppError } from "../../../../core/types/AppError";
+import { UserEntity } from "../../../users/domain/entities/UserEntity";
+import { ChangePasswordData, UpdateProfileData } from "../types/AuthDomainTypes";
+
+export interface IAccountRepository {
+    getProfile(): Promise<Either<TypedAppError, UserEntity>>;
+    updateProfile(data: UpdateProfileData): Promise<Either<TypedAppError, UserEntity>>;
+    changePassword(data: ChangePasswordData): Promise<Either<TypedAppError, boolean>>;
+}
@@ -0,0 +1,37 @@
+import { Either } from "@sweet-monads/either";
+import { TypedAppError } from "../../../../core/types/AppError";
+import {
+    AuthTokens,
+    ExternalProvider,
+    LoginCredentials,
+    LoginResult,
+    ProviderSession,
+    VerifySecondFactorParams
+} from "../../../../core/types/AuthTypes";
+import {
+    ExternalLoginResult,
+    IssuedTokens,
+    RegisterData,
+    ResetPasswordData,
+    TwoFactorEnrollment
+} from "../types/AuthDomainTypes";
+
+export interface IAuthRepository {
+    login(credentials: LoginCredentials): Promise<Either<TypedAppError, LoginResult>>;
+    verifySecondFactor(params: VerifySecondFactorParams): Promise<Either<TypedAppError, AuthTokens>>;
+    refresh(refreshToken: string): Promise<Either<TypedAppError, IssuedTokens>>;
+    logout(refreshToken: string): Promise<Either<TypedAppError, boolean>>;
+    register(data: RegisterData): Promise<Either<TypedAppError, boolean>>;
+    requestPasswordReset(email: string): Promise<Either<TypedAppError, boolean>>;
+    resetPassword(data: ResetPasswordData): Promise<Either<TypedAppError, boolean>>;
+    startTwoFactorEnrollment(): Promise<Either<TypedAppError, TwoFactorEnrollment>>;
+    confirmTwoFactorEnrollment(code: string): Promise<Either<TypedAppError, string[]>>;
+    impersonate(userId: string): Promise<Either<TypedAppError, AuthTokens>>;
+
+    // Fournisseurs d'identité externes (OpenID Connect)
+    getExternalProviders(): ExternalProvider[];
+    createAuthorizationUrl(providerId: string, returnTo: string): Promise<Either<TypedAppError, string>>;
+    completeExternalLogin(search: string): Promise<Either<TypedAppError, ExternalLoginResult>>;
+    refreshWithProvider(providerId: string, refreshToken: string): Promise<Either<TypedAppError, IssuedTokens>>;
+    getEndSessionUrl(providerSession: ProviderSession): Promise<Either<TypedAppError, string | null>>;
+}
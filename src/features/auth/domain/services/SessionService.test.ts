@@ -0,0 +1,244 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { right } from '@sweet-monads/either';
+import TokenService from '@core/services/tokenService';
+import { AuthSyncEvent } from '@core/services/authSyncService';
+
+// --- Helpers ---
+
+const encodeBase64Url = (value: string): string =>
+    btoa(value).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const now = () => Math.floor(Date.now() / 1000);
+
+const makeToken = (userId: string, expiresIn = 3600): string => {
+    const header = encodeBase64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+    const payload = encodeBase64Url(JSON.stringify({
+        userId,
+        email: `${userId}@example.com`,
+        role: 'USER',
+        iat: now(),
+        exp: now() + expiresIn,
+        jti: Math.random().toString(36).slice(2),
+    }));
+    return `${header}.${payload}.c2lnbmF0dXJl`;
+};
+
+// Verrou Web Locks entre onglets : `beforeGrant` simule ce qu'un autre onglet fait pendant l'attente
+const installLocks = (beforeGrant: () => void = () => undefined) => {
+    const request = vi.fn(async (_name: string, callback: () => Promise<unknown>) => {
+        beforeGrant();
+        return callback();
+    });
+    Object.defineProperty(navigator, 'locks', { value: { request }, configurable: true });
+    return request;
+};
+
+// --- Mocks ---
+
+// Canal entre onglets : `remote()` simule un evenement recu d'un autre onglet
+const authSyncMock = vi.hoisted(() => {
+    const listeners: Array<(event: AuthSyncEvent) => void> = [];
+    return {
+        publish: vi.fn(),
+        subscribe: vi.fn((listener: (event: AuthSyncEvent) => void) => {
+            listeners.push(listener);
+            return () => undefined;
+        }),
+        remote: (event: AuthSyncEvent) => listeners.forEach((listener) => listener(event)),
+    };
+});
+
+vi.mock('@core/services/authSyncService', () => ({
+    default: { getInstance: () => authSyncMock },
+}));
+
+const { SessionService } = await import('./SessionService');
+
+// --- Tests ---
+
+describe('SessionService', () => {
+    const session = SessionService.getInstance();
+    const tokenService = TokenService.getInstance();
+    const refresher = vi.fn();
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        tokenService.clearTokens();
+        tokenService.configureValidation({});
+        session.configureRefresh(refresher);
+        refresher.mockImplementation(async () => right({ accessToken: makeToken('user-1'), refreshToken: 'refresh-2' }));
+    });
+
+    describe('getValidToken', () => {
+        it('retourne le token d acces en cours de validite sans refresh', async () => {
+            const accessToken = makeToken('user-1');
+            await session.openSession({ accessToken, refreshToken: 'refresh-1' });
+
+            const result = await session.getValidToken();
+
+            expect(result.unwrap()).toBe(accessToken);
+            expect(refresher).not.toHaveBeenCalled();
+        });
+
+        it('renouvelle un token expire une seule fois pour des appels simultanes', async () => {
+            tokenService.setTokens(makeToken('user-1', -60), 'refresh-1');
+
+            const [first, second] = await Promise.all([session.getValidToken(), session.getValidToken()]);
+
+            expect(refresher).toHaveBeenCalledTimes(1);
+            expect(refresher).toHaveBeenCalledWith({ refreshToken: 'refresh-1', providerSession: null });
+            expect(first.unwrap()).toBe(second.unwrap());
+            expect(session.getRefreshToken()).toBe('refresh-2');
+        });
+
+        it('exige une reconnexion quand le refresh echoue', async () => {
+            tokenService.setTokens(makeToken('user-1', -60), 'refresh-1');
+            refresher.mockResolvedValue(right({ accessToken: 'pas-un-jwt', refreshToken: 'refresh-2' }));
+
+            const result = await session.getValidToken();
+
+            expect(result.isLeft() && result.value.kind).toBe('unauthorized');
+            expect(session.isAuthenticated()).toBe(false);
+        });
+    });
+
+    describe('session externe', () => {
+        // ID token du fournisseur : `sub` au lieu de `userId`, emis pour le client de l'application
+        const idToken = (() => {
+            const header = encodeBase64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+            const payload = encodeBase64Url(JSON.stringify({
+                iss: 'https://idp.example.com', aud: 'spa-client', sub: 'idp-user-1', email: 'idp-user-1@example.com', iat: now(), exp: now() + 300,
+            }));
+            return `${header}.${payload}.c2lnbmF0dXJl`;
+        })();
+
+        beforeEach(() => {
+            tokenService.configureValidation({ issuer: 'https://api.example.com', audience: 'api' });
+        });
+
+        it('ouvre la session avec un token d acces opaque et l utilisateur de l ID token', async () => {
+            const result = await session.openProviderSession('stub', {
+                accessToken: 'opaque-access', refreshToken: 'refresh-1', idToken, expiresAt: now() + 3600,
+            });
+
+            expect(result.isRight()).toBe(true);
+            expect(session.isAuthenticated()).toBe(true);
+            expect(session.getCurrentUser().unwrap()).toMatchObject({ userId: 'idp-user-1', email: 'idp-user-1@example.com', role: 'USER' });
+            expect((await session.getValidToken()).unwrap()).toBe('opaque-access');
+        });
+
+        it('renouvelle aupres du fournisseur en gardant l ID token s il n en delivre pas de nouveau', async () => {
+            await session.openProviderSession('stub', {
+                accessToken: 'opaque-access', refreshToken: 'refresh-1', idToken, expiresAt: now() - 60,
+            });
+            refresher.mockResolvedValue(right({ accessToken: 'opaque-access-2', refreshToken: 'refresh-2', expiresAt: now() + 3600 }));
+
+            const result = await session.getValidToken();
+
+            expect(refresher).toHaveBeenCalledWith({ refreshToken: 'refresh-1', providerSession: { providerId: 'stub', idToken } });
+            expect(result.unwrap()).toBe('opaque-access-2');
+            expect(session.getCurrentUser().unwrap()).toMatchObject({ userId: 'idp-user-1' });
+        });
+    });
+
+    describe('impersonation', () => {
+        it('met la session de l administrateur de cote puis la restaure', async () => {
+            const adminToken = makeToken('admin-1');
+            await session.openSession({ accessToken: adminToken, refreshToken: 'admin-refresh' });
+
+            await session.startImpersonation({ accessToken: makeToken('user-1'), refreshToken: 'user-refresh' });
+
+            expect(session.isImpersonating()).toBe(true);
+            expect(session.getCurrentUser().unwrap()).toMatchObject({ userId: 'user-1' });
+            expect(authSyncMock.publish).toHaveBeenCalledWith({ type: 'impersonation-started' });
+
+            const restored = await session.stopImpersonation();
+
+            expect(restored.unwrap().accessToken).toBe(adminToken);
+            expect(session.isImpersonating()).toBe(false);
+            expect(session.getRefreshToken()).toBe('admin-refresh');
+            expect(refresher).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('coordination entre onglets', () => {
+        afterEach(() => {
+            Reflect.deleteProperty(navigator, 'locks');
+        });
+
+        it('reutilise le refresh d un autre onglet au lieu de rappeler l API', async () => {
+            tokenService.setTokens(makeToken('user-1', -60), 'refresh-1');
+            const remoteTokens = { accessToken: makeToken('user-1'), refreshToken: 'refresh-remote' };
+
+            authSyncMock.remote({ type: 'refresh-started', impersonating: false });
+            const pending = session.refreshToken();
+            authSyncMock.remote({ type: 'token-refresh', tokens: remoteTokens, impersonating: false });
+
+            const result = await pending;
+
+            expect(refresher).not.toHaveBeenCalled();
+            expect(result.unwrap()).toEqual(remoteTokens);
+        });
+
+        it('relit le stockage partage quand le refresh distant arrive sans tokens', async () => {
+            tokenService.setTokens(makeToken('user-1', -60), 'refresh-1');
+            const sharedTokens = { accessToken: makeToken('user-1'), refreshToken: 'refresh-shared' };
+
+            authSyncMock.remote({ type: 'refresh-started', impersonating: false });
+            const pending = session.refreshToken();
+            tokenService.setTokens(sharedTokens.accessToken, sharedTokens.refreshToken);
+            authSyncMock.remote({ type: 'token-refresh', impersonating: false });
+
+            expect((await pending).unwrap()).toEqual(sharedTokens);
+            expect(refresher).not.toHaveBeenCalled();
+        });
+
+        it('echoue sans rappeler l API quand le refresh distant echoue', async () => {
+            tokenService.setTokens(makeToken('user-1', -60), 'refresh-1');
+
+            authSyncMock.remote({ type: 'refresh-started', impersonating: false });
+            const pending = session.refreshToken();
+            authSyncMock.remote({ type: 'refresh-failed', impersonating: false });
+
+            const result = await pending;
+
+            expect(result.isLeft() && result.value.details).toBe('remote_refresh_failed');
+            expect(refresher).not.toHaveBeenCalled();
+        });
+
+        it('rafraichit sous le verrou et diffuse le resultat', async () => {
+            const request = installLocks();
+            tokenService.setTokens(makeToken('user-1', -60), 'refresh-1');
+
+            const result = await session.refreshToken();
+
+            expect(request).toHaveBeenCalledWith('app-auth-refresh', expect.any(Function));
+            expect(refresher).toHaveBeenCalledTimes(1);
+            expect(authSyncMock.publish).toHaveBeenCalledWith({ type: 'refresh-started', impersonating: false });
+            expect(authSyncMock.publish).toHaveBeenCalledWith({ type: 'token-refresh', tokens: result.unwrap(), impersonating: false });
+        });
+
+        it('reutilise les tokens renouveles par un autre onglet pendant l attente du verrou', async () => {
+            const renewedTokens = { accessToken: makeToken('user-1'), refreshToken: 'refresh-other-tab' };
+            installLocks(() => tokenService.setTokens(renewedTokens.accessToken, renewedTokens.refreshToken));
+            tokenService.setTokens(makeToken('user-1', -60), 'refresh-1');
+
+            const result = await session.refreshToken();
+
+            expect(result.unwrap()).toEqual(renewedTokens);
+            expect(refresher).not.toHaveBeenCalled();
+        });
+
+        it('libere le refresh en cours quand la coordination echoue', async () => {
+            const request = installLocks();
+            request.mockRejectedValueOnce(new Error('verrou indisponible'));
+            tokenService.setTokens(makeToken('user-1', -60), 'refresh-1');
+
+            await expect(session.refreshToken()).rejects.toThrow('verrou indisponible');
+            const retry = await session.refreshToken();
+
+            expect(retry.isRight()).toBe(true);
+            expect(refresher).toHaveBeenCalledTimes(1);
+        });
+    });
+});
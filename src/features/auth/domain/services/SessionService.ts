@@ -0,0 +1,579 @@
+import { Either, left, right } from "@sweet-monads/either";
+import { TypedAppError, UnauthorizedError, UnknownError } from "../../../../core/types/AppError";
+import { toAppError } from "../../../../core/utils/errorMapper";
+import {
+    AuthTokens,
+    IAuthSession,
+    ProviderSession,
+    ProviderTokens,
+    RefreshedTokens,
+    SessionCredentials,
+    TokenPayload
+} from "../../../../core/types/AuthTypes";
+import TokenService, { ITokenService } from "../../../../core/services/tokenService";
+import AuthSyncService, { AuthSyncEvent } from "../../../../core/services/authSyncService";
+
+/**
+ * Renouvellement des tokens (API ou fournisseur d'identité), RefreshSessionUseCase via createAuthModule
+ */
+export type SessionRefresher = (credentials: SessionCredentials) => Promise<Either<TypedAppError, RefreshedTokens>>;
+
+/**
+ * Ouverture et fermeture de session, utilisées par les use cases
+ */
+export interface ISessionLifecycle {
+    openSession(tokens: AuthTokens): Promise<Either<TypedAppError, AuthTokens>>;
+    openProviderSession(providerId: string, tokens: ProviderTokens): Promise<Either<TypedAppError, AuthTokens>>;
+    closeSession(): void;
+    getRefreshToken(): string | null;
+    getProviderSession(): ProviderSession | null;
+}
+
+/**
+ * Impersonation d'un utilisateur par un administrateur, utilisée par ImpersonationUseCase.
+ * La session d'origine est mise de côté, jamais renouvelée ni mélangée avec la session impersonée.
+ */
+export interface IImpersonationSession {
+    startImpersonation(tokens: AuthTokens): Promise<Either<TypedAppError, AuthTokens>>;
+    stopImpersonation(): Promise<Either<TypedAppError, AuthTokens>>;
+    isImpersonating(): boolean;
+    getRefreshToken(): string | null;
+}
+
+export interface ISessionService extends ISessionLifecycle, IImpersonationSession, IAuthSession {
+    configureRefresh(refresher: SessionRefresher): void;
+}
+
+interface RemoteRefresh {
+    promise: Promise<Either<TypedAppError, AuthTokens> | null>;
+    settle: (result: Either<TypedAppError, AuthTokens> | null) => void;
+    timeoutId: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Session courante : ouverture et fermeture, refresh coordonné entre onglets, bascule d'impersonation
+ * et token valide pour l'intercepteur. Le stockage des tokens reste dans TokenService (core),
+ * les appels à l'API d'authentification dans les use cases.
+ */
+export class SessionService implements ISessionService {
+    private static instance: SessionService;
+    private tokenService: ITokenService = TokenService.getInstance();
+    private authSync = AuthSyncService.getInstance();
+
+    // Appel de renouvellement, configuré via configureRefresh()
+    private refresher: SessionRefresher | null = null;
+
+    // Prévenir les appels multiples simultanés de refresh
+    private refreshPromise: Promise<Either<TypedAppError, AuthTokens>> | null = null;
+
+    // Refresh effectué par un autre onglet dont on attend le résultat
+    private remoteRefresh: RemoteRefresh | null = null;
+    private readonly REMOTE_REFRESH_TIMEOUT = 10000; // 10 secondes
+    private readonly REFRESH_LOCK_NAME = 'app-auth-refresh';
+
+    // Cache pour éviter les vérifications trop fréquentes
+    private lastTokenCheck: number = 0;
+    private readonly TOKEN_CHECK_INTERVAL = 30000; // 30 secondes
+
+    private constructor() {
+        // Appliquer les changements de session des autres onglets
+        this.authSync.subscribe((event) => this.handleRemoteEvent(event));
+    }
+
+    public static getInstance(): SessionService {
+        if (!SessionService.instance) {
+            SessionService.instance = new SessionService();
+        }
+        return SessionService.instance;
+    }
+
+    /**
+     * Déclare l'appel de renouvellement des tokens
+     */
+    public configureRefresh(refresher: SessionRefresher): void {
+        this.refresher = refresher;
+    }
+
+    /**
+     * Vérifie et stocke les tokens d'un login sur l'API, puis ouvre la session dans tous les onglets
+     */
+    public async openSession(tokens: AuthTokens): Promise<Either<TypedAppError, AuthTokens>> {
+        // Vérification des claims et de la signature avant stockage
+        const verification = await this.tokenService.verifyToken(tokens.accessToken);
+        if (!verification.isValid) {
+            return left(new UnauthorizedError(verification.error || "Token d'accès invalide", "invalid_access_token"));
+        }
+
+        // Nouvelle session : ne rien conserver d'une session précédente (ni session d'origine d'une impersonation)
+        this.tokenService.clearTokens();
+
+        // Stockage des tokens avec validation
+        const setResult = this.tokenService.setTokens(tokens.accessToken, tokens.refreshToken);
+        if (setResult.isLeft()) {
+            return left(setResult.value);
+        }
+
+        // Reset du cache de vérification
+        this.lastTokenCheck = Date.now();
+
+        this.authSync.publish({ type: 'login', tokens });
+
+        return right(tokens);
+    }
+
+    /**
+     * Stocke les tokens d'un login via un fournisseur d'identité externe, puis ouvre la session dans tous les onglets.
+     * L'utilisateur vient de l'ID token, vérifié par le client OIDC : le token d'accès du fournisseur
+     * n'est pas soumis aux règles des tokens de l'API (émetteur, audience, claims, signature).
+     */
+    public async openProviderSession(providerId: string, tokens: ProviderTokens): Promise<Either<TypedAppError, AuthTokens>> {
+        // Nouvelle session : ne rien conserver d'une session précédente (ni session d'origine d'une impersonation)
+        this.tokenService.clearTokens();
+
+        const setResult = this.tokenService.setProviderTokens(providerId, tokens);
+        if (setResult.isLeft()) {
+            return left(setResult.value);
+        }
+
+        this.lastTokenCheck = Date.now();
+
+        this.authSync.publish({ type: 'login', tokens, providerId });
+
+        return right({ accessToken: tokens.accessToken, refreshToken: tokens.refreshToken });
+    }
+
+    /**
+     * Ferme la session locale dans tous les onglets (l'invalidation côté serveur est faite avant)
+     */
+    public closeSession(): void {
+        this.tokenService.clearTokens();
+        this.refreshPromise = null;
+        this.lastTokenCheck = 0;
+        this.authSync.publish({ type: 'logout' });
+    }
+
+    /**
+     * Refresh token de la session courante (null si aucune session)
+     */
+    public getRefreshToken(): string | null {
+        const refreshTokenResult = this.tokenService.getRefreshToken();
+        return refreshTokenResult.isRight() ? refreshTokenResult.value : null;
+    }
+
+    /**
+     * Fournisseur d'identité de la session courante (null pour un login direct)
+     */
+    public getProviderSession(): ProviderSession | null {
+        return this.tokenService.getProviderSession();
+    }
+
+    /**
+     * Remplace la session courante par celle d'un utilisateur impersoné (session d'origine mise de côté)
+     */
+    public async startImpersonation(tokens: AuthTokens): Promise<Either<TypedAppError, AuthTokens>> {
+        const verification = await this.tokenService.verifyToken(tokens.accessToken);
+        if (!verification.isValid) {
+            return left(new UnauthorizedError(verification.error || "Token d'accès invalide", "invalid_access_token"));
+        }
+
+        return this.switchSession(
+            async () => this.tokenService.startImpersonation(tokens).map(() => tokens),
+            'impersonation-started'
+        );
+    }
+
+    /**
+     * Restaure la session d'origine, renouvelée si son token d'accès a expiré pendant l'impersonation
+     */
+    public async stopImpersonation(): Promise<Either<TypedAppError, AuthTokens>> {
+        return this.switchSession(async () => {
+            const restoredResult = this.tokenService.stopImpersonation();
+            if (restoredResult.isLeft()) {
+                return restoredResult;
+            }
+
+            const timeRemaining = this.tokenService.getSessionTimeRemaining();
+            if (timeRemaining > this.tokenService.getRefreshBufferSeconds()) {
+                return restoredResult;
+            }
+
+            // Verrou de refresh déjà détenu : renouvellement direct, diffusé avec la fin d'impersonation
+            return this.performRefresh();
+        }, 'impersonation-stopped');
+    }
+
+    /**
+     * Indique si la session courante est une impersonation
+     */
+    public isImpersonating(): boolean {
+        return this.tokenService.isImpersonating();
+    }
+
+    /**
+     * Bascule entre session d'origine et session impersonée.
+     * Attend la fin des refresh en cours (cet onglet et, via le verrou, les autres) :
+     * leurs tokens appartiennent à la session remplacée.
+     */
+    private async switchSession(
+        swap: () => Promise<Either<TypedAppError, AuthTokens>>,
+        eventType: 'impersonation-started' | 'impersonation-stopped'
+    ): Promise<Either<TypedAppError, AuthTokens>> {
+        if (this.refreshPromise) {
+            await this.refreshPromise;
+        }
+
+        const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+        const result = locks
+            ? await locks.request(this.REFRESH_LOCK_NAME, swap)
+            : await this.waitForRemoteRefresh().then(swap);
+
+        if (result.isRight()) {
+            this.lastTokenCheck = Date.now();
+            this.authSync.publish({ type: eventType });
+        }
+
+        return result;
+    }
+
+    /**
+     * Renouvelle le token d'accès avec le refresh token
+     */
+    public async refreshToken(): Promise<Either<TypedAppError, AuthTokens>> {
+        // Éviter les appels multiples simultanés
+        if (this.refreshPromise) {
+            return this.refreshPromise;
+        }
+
+        const refreshPromise = this.coordinateRefresh();
+        this.refreshPromise = refreshPromise;
+        try {
+            return await refreshPromise;
+        } finally {
+            // Même en cas de rejet, sans effacer un refresh démarré depuis (session remplacée)
+            if (this.refreshPromise === refreshPromise) {
+                this.refreshPromise = null;
+            }
+        }
+    }
+
+    /**
+     * Garantit qu'un seul onglet appelle /auth/refresh à la fois.
+     * Les autres onglets réutilisent le résultat diffusé au lieu de relancer l'appel
+     * (un refresh token rotatif utilisé deux fois invaliderait la session).
+     */
+    private async coordinateRefresh(): Promise<Either<TypedAppError, AuthTokens>> {
+        const remoteResult = await this.waitForRemoteRefresh();
+        if (remoteResult) {
+            return remoteResult;
+        }
+
+        const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+        if (!locks) {
+            return this.refreshAndBroadcast();
+        }
+
+        const refreshTokenResult = this.tokenService.getRefreshToken();
+        const previousRefreshToken = refreshTokenResult.isRight() ? refreshTokenResult.value : null;
+
+        return locks.request(this.REFRESH_LOCK_NAME, async () => {
+            // Un autre onglet a pu démarrer ou terminer un refresh pendant l'attente du verrou
+            const lockedRemoteResult = await this.waitForRemoteRefresh();
+            if (lockedRemoteResult) {
+                return lockedRemoteResult;
+            }
+
+            const reusedTokens = this.getTokensRefreshedSince(previousRefreshToken);
+            if (reusedTokens) {
+                return right(reusedTokens);
+            }
+
+            return this.refreshAndBroadcast();
+        });
+    }
+
+    /**
+     * Effectue le refresh et diffuse le résultat aux autres onglets
+     */
+    private async refreshAndBroadcast(): Promise<Either<TypedAppError, AuthTokens>> {
+        const impersonating = this.tokenService.isImpersonating();
+        this.authSync.publish({ type: 'refresh-started', impersonating });
+
+        const result = await this.performRefresh();
+
+        this.authSync.publish(result.isRight()
+            ? { type: 'token-refresh', tokens: result.value, providerId: this.getProviderSession()?.providerId, impersonating }
+            : { type: 'refresh-failed', impersonating });
+
+        return result;
+    }
+
+    /**
+     * Attend le résultat d'un refresh en cours dans un autre onglet (null si aucun ou délai dépassé)
+     */
+    private async waitForRemoteRefresh(): Promise<Either<TypedAppError, AuthTokens> | null> {
+        if (!this.remoteRefresh) {
+            return null;
+        }
+        return this.remoteRefresh.promise;
+    }
+
+    /**
+     * Retourne les tokens courants s'ils ont été renouvelés depuis `previousRefreshToken`
+     */
+    private getTokensRefreshedSince(previousRefreshToken: string | null): AuthTokens | null {
+        const refreshTokenResult = this.tokenService.getRefreshToken();
+        if (refreshTokenResult.isLeft() || refreshTokenResult.value === previousRefreshToken) {
+            return null;
+        }
+
+        const accessTokenResult = this.tokenService.getAccessToken();
+        if (accessTokenResult.isLeft()) {
+            return null;
+        }
+
+        return { accessToken: accessTokenResult.value, refreshToken: refreshTokenResult.value };
+    }
+
+    /**
+     * Applique un évènement de session reçu d'un autre onglet
+     */
+    private handleRemoteEvent(event: AuthSyncEvent): void {
+        // Refresh de l'autre session (impersonation d'un côté, session d'origine de l'autre) : ne pas l'appliquer
+        if ('impersonating' in event && event.impersonating !== undefined && event.impersonating !== this.tokenService.isImpersonating()) {
+            return;
+        }
+
+        switch (event.type) {
+            case 'refresh-started':
+                this.startRemoteRefresh();
+                break;
+
+            case 'login':
+            case 'token-refresh': {
+                // Sans tokens (repli storage), l'émetteur les a écrits dans le stockage partagé :
+                // le repli ne diffuse pas ces évènements quand le stockage est propre à l'onglet
+                if (event.tokens) {
+                    // Login distant : nouvelle session, sans session d'origine d'une impersonation
+                    if (event.type === 'login') {
+                        this.tokenService.clearTokens();
+                    }
+                    if (event.providerId && 'idToken' in event.tokens) {
+                        this.tokenService.setProviderTokens(event.providerId, event.tokens);
+                    } else {
+                        this.tokenService.setTokens(event.tokens.accessToken, event.tokens.refreshToken);
+                    }
+                }
+                this.lastTokenCheck = 0;
+
+                const currentTokens = this.getTokensRefreshedSince(null);
+                this.settleRemoteRefresh(currentTokens
+                    ? right(currentTokens)
+                    : left(new UnauthorizedError("Tokens indisponibles après le refresh distant", "remote_refresh_unavailable")));
+                break;
+            }
+
+            case 'impersonation-started':
+            case 'impersonation-stopped':
+                // Stockage partagé : relire la session remplacée par l'autre onglet
+                this.lastTokenCheck = 0;
+                break;
+
+            case 'refresh-failed':
+                this.settleRemoteRefresh(left(new UnauthorizedError("Échec du renouvellement du token", "remote_refresh_failed")));
+                break;
+
+            case 'logout':
+                this.tokenService.clearTokens();
+                this.lastTokenCheck = 0;
+                this.settleRemoteRefresh(left(new UnauthorizedError("Session fermée dans un autre onglet", "remote_logout")));
+                break;
+        }
+    }
+
+    private startRemoteRefresh(): void {
+        if (this.remoteRefresh) {
+            return;
+        }
+
+        let settle!: (result: Either<TypedAppError, AuthTokens> | null) => void;
+        const promise = new Promise<Either<TypedAppError, AuthTokens> | null>((resolve) => {
+            settle = resolve;
+        });
+
+        // L'onglet distant a pu être fermé en plein refresh : ne pas attendre indéfiniment
+        const timeoutId = setTimeout(() => this.settleRemoteRefresh(null), this.REMOTE_REFRESH_TIMEOUT);
+
+        this.remoteRefresh = { promise, settle, timeoutId };
+    }
+
+    private settleRemoteRefresh(result: Either<TypedAppError, AuthTokens> | null): void {
+        if (!this.remoteRefresh) {
+            return;
+        }
+
+        const { settle, timeoutId } = this.remoteRefresh;
+        clearTimeout(timeoutId);
+        this.remoteRefresh = null;
+        settle(result);
+    }
+
+    /**
+     * Effectue le refresh du token
+     */
+    private async performRefresh(): Promise<Either<TypedAppError, AuthTokens>> {
+        try {
+            const refreshTokenResult = this.tokenService.getRefreshToken();
+            if (refreshTokenResult.isLeft()) {
+                return left(refreshTokenResult.value);
+            }
+
+            if (!this.refresher) {
+                return left(new UnknownError("Renouvellement du token non configuré", "refresh_not_configured"));
+            }
+
+            const providerSession = this.tokenService.getProviderSession();
+            const refreshResult = await this.refresher({ refreshToken: refreshTokenResult.value, providerSession });
+
+            // Session remplacée pendant l'appel (début ou fin d'impersonation) : ne rien écrire par-dessus
+            if (this.getRefreshToken() !== refreshTokenResult.value) {
+                const currentTokens = this.getTokensRefreshedSince(refreshTokenResult.value);
+                return currentTokens
+                    ? right(currentTokens)
+                    : left(new UnauthorizedError("Session remplacée pendant le renouvellement", "session_changed"));
+            }
+
+            if (refreshResult.isLeft()) {
+                this.tokenService.clearTokens();
+                return left(refreshResult.value);
+            }
+
+            const storeResult = providerSession
+                ? this.storeProviderRefresh(providerSession, refreshResult.value)
+                : await this.storeApiRefresh(refreshResult.value);
+            if (storeResult.isLeft()) {
+                this.tokenService.clearTokens();
+                return left(storeResult.value);
+            }
+
+            // Reset du cache
+            this.lastTokenCheck = Date.now();
+
+            return storeResult;
+        } catch (error) {
+            // En cas d'erreur, nettoyer les tokens
+            this.tokenService.clearTokens();
+            return left(toAppError(error, "Erreur lors du renouvellement du token"));
+        }
+    }
+
+    /**
+     * Vérifie et stocke les tokens renouvelés par l'API
+     */
+    private async storeApiRefresh(refreshed: RefreshedTokens): Promise<Either<TypedAppError, AuthTokens>> {
+        const tokens: AuthTokens = { accessToken: refreshed.accessToken, refreshToken: refreshed.refreshToken };
+
+        const verification = await this.tokenService.verifyToken(tokens.accessToken);
+        if (!verification.isValid) {
+            return left(new UnauthorizedError(verification.error || "Token d'accès invalide", "invalid_access_token"));
+        }
+
+        return this.tokenService.setTokens(tokens.accessToken, tokens.refreshToken).map(() => tokens);
+    }
+
+    /**
+     * Stocke les tokens renouvelés par le fournisseur d'identité.
+     * Sans nouvel ID token (facultatif au refresh), l'utilisateur reste celui de l'ID token courant.
+     */
+    private storeProviderRefresh(providerSession: ProviderSession, refreshed: RefreshedTokens): Either<TypedAppError, AuthTokens> {
+        const idToken = refreshed.idToken ?? providerSession.idToken;
+        if (!idToken || refreshed.expiresAt === undefined) {
+            return left(new UnauthorizedError("Réponse du fournisseur d'identité incomplète", "invalid_provider_tokens"));
+        }
+
+        const tokens: ProviderTokens = {
+            accessToken: refreshed.accessToken,
+            refreshToken: refreshed.refreshToken,
+            idToken,
+            expiresAt: refreshed.expiresAt,
+        };
+        return this.tokenService.setProviderTokens(providerSession.providerId, tokens).map(() => tokens);
+    }
+
+    /**
+     * Récupère un token valide (avec refresh automatique si nécessaire)
+     */
+    public async getValidToken(): Promise<Either<TypedAppError, string>> {
+        // 1. Vérification du cache récent
+        const now = Date.now();
+        if (now - this.lastTokenCheck < this.TOKEN_CHECK_INTERVAL) {
+            const tokenResult = this.tokenService.getAccessToken();
+            if (tokenResult.isRight()) {
+                return right(tokenResult.value);
+            }
+        }
+
+        // 2. Vérification complète du token
+        const tokenResult = this.tokenService.getAccessToken();
+        if (tokenResult.isRight()) {
+            this.lastTokenCheck = now;
+            return right(tokenResult.value);
+        }
+
+        // 3. Le token est invalide/expiré, essayer le refresh si possible
+        if (this.tokenService.shouldRefreshToken()) {
+            const refreshResult = await this.refreshToken();
+
+            if (refreshResult.isRight()) {
+                return right(refreshResult.value.accessToken);
+            }
+        }
+
+        // 4. Tout a échoué, l'utilisateur doit se reconnecter
+        return left(new UnauthorizedError("Authentification requise", "authentication_required"));
+    }
+
+    /**
+     * Vérifie si l'utilisateur est authentifié
+     */
+    public isAuthenticated(): boolean {
+        const tokenResult = this.tokenService.getAccessToken();
+        return tokenResult.isRight();
+    }
+
+    /**
+     * Récupère les informations de l'utilisateur actuel depuis le token
+     * (ID token pour une session ouverte via un fournisseur d'identité)
+     */
+    public getCurrentUser(): Either<TypedAppError, TokenPayload> {
+        return this.tokenService.getSessionPayload();
+    }
+
+    /**
+     * Vérifie l'expiration du token et effectue un refresh si nécessaire
+     */
+    public async checkTokenExpiration(): Promise<Either<TypedAppError, boolean>> {
+        try {
+            // Vérifier si un refresh est nécessaire
+            if (this.tokenService.shouldRefreshToken()) {
+                const refreshResult = await this.refreshToken();
+                if (refreshResult.isLeft()) {
+                    return left(refreshResult.value);
+                }
+                return right(true); // Token renouvelé
+            }
+
+            // Vérifier si le token est encore valide
+            if (this.isAuthenticated()) {
+                return right(false); // Token valide, pas de refresh nécessaire
+            }
+
+            // Token invalide
+            return left(new UnauthorizedError("Token invalide", "token_invalid"));
+        } catch (error) {
+            return left(toAppError(error, "Erreur lors de la vérification du token"));
+        }
+    }
+
+}
+
+export default SessionService;
\ No newline at end of file
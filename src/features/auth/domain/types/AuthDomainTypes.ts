@@ -0,0 +1,57 @@
+// Types pour les paramètres des use cases (couche Domain)
+
+/**
+ * Tokens émis par l'API ou un fournisseur d'identité, avant stockage.
+ * Le refresh token est absent quand il n'est pas renouvelé (pas de rotation).
+ */
+export interface IssuedTokens {
+    accessToken: string;
+    refreshToken?: string;
+    idToken?: string;
+    expiresAt?: number;     // Fournisseur d'identité : expiration du token d'accès (timestamp en secondes)
+}
+
+/**
+ * Retour d'un fournisseur d'identité après échange du code d'autorisation
+ */
+export interface ExternalLoginResult {
+    providerId: string;
+    returnTo: string;       // Chemin demandé avant la redirection vers le fournisseur
+    tokens: IssuedTokens;
+}
+
+/**
+ * Enrôlement TOTP : URI otpauth:// à encoder en QR code (ou secret à saisir manuellement)
+ */
+export interface TwoFactorEnrollment {
+    otpauthUrl: string;
+    secret: string;
+    qrCodeDataUrl?: string;   // Image du QR code si l'API la fournit
+}
+
+export interface RegisterData {
+    firstName: string;
+    lastName: string;
+    email: string;
+    password: string;
+}
+
+export interface ResetPasswordData {
+    token: string;
+    password: string;
+}
+
+/**
+ * Mise à jour du profil de l'utilisateur connecté (/account), confirmée par son mot de passe actuel
+ */
+export interface UpdateProfileData {
+    firstName: string;
+    lastName: string;
+    phone: string | null;
+    currentPassword: string;
+}
+
+export interface ChangePasswordData {
+    currentPassword: string;
+    newPassword: string;
+}
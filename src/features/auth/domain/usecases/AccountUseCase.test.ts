@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { right } from '@sweet-monads/either';
+import { AccountUseCase } from './AccountUseCase';
+import { IAccountRepository } from '../repositories/IAccountRepository';
+import { UserEntity } from '../../../users/domain/entities/UserEntity';
+
+// --- Helpers ---
+
+const profile: UserEntity = {
+    id: '550e8400-e29b-41d4-a716-446655440000',
+    firstName: 'Jean',
+    lastName: 'Dupont',
+    email: 'jean.dupont@example.com',
+    phone: null,
+    role: 'USER',
+    createdAt: new Date('2024-01-01'),
+    updatedAt: new Date('2024-01-01'),
+};
+
+const makeRepository = (): IAccountRepository => ({
+    getProfile: vi.fn().mockResolvedValue(right(profile)),
+    updateProfile: vi.fn().mockResolvedValue(right(profile)),
+    changePassword: vi.fn().mockResolvedValue(right(true)),
+});
+
+// --- Tests ---
+
+describe('AccountUseCase', () => {
+    let repository: IAccountRepository;
+    let useCase: AccountUseCase;
+
+    beforeEach(() => {
+        repository = makeRepository();
+        useCase = new AccountUseCase(repository);
+    });
+
+    describe('updateProfile', () => {
+        it('envoie le profil normalise (telephone vide supprime)', async () => {
+            const result = await useCase.updateProfile({ firstName: ' Jean ', lastName: 'Dupont', phone: '  ', currentPassword: 'secret123' });
+
+            expect(result.isRight()).toBe(true);
+            expect(repository.updateProfile).toHaveBeenCalledWith({
+                firstName: 'Jean',
+                lastName: 'Dupont',
+                phone: null,
+                currentPassword: 'secret123',
+            });
+        });
+
+        it('exige le mot de passe actuel', async () => {
+            const result = await useCase.updateProfile({ firstName: 'Jean', lastName: 'Dupont', phone: null, currentPassword: '' });
+
+            expect(result.isLeft() && result.value.details).toBe('current_password_required');
+            expect(repository.updateProfile).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('changePassword', () => {
+        it('refuse un nouveau mot de passe identique a l actuel', async () => {
+            const result = await useCase.changePassword({ currentPassword: 'secret123', newPassword: 'secret123' });
+
+            expect(result.isLeft() && result.value.details).toBe('password_unchanged');
+            expect(repository.changePassword).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,69 @@
+import { Either, left } from "@sweet-monads/either";
+import { TypedAppError, ValidationError } from "../../../../core/types/AppError";
+import { isNotEmpty, isValidPassword, MIN_PASSWORD_LENGTH } from "../../../../core/utils/validators";
+import { UserEntity } from "../../../users/domain/entities/UserEntity";
+import { IAccountRepository } from "../repositories/IAccountRepository";
+import { IAccountUseCase } from "./IAccountUseCase";
+import { ChangePasswordData, UpdateProfileData } from "../types/AuthDomainTypes";
+
+export class AccountUseCase implements IAccountUseCase {
+    private repository: IAccountRepository;
+
+    constructor(repository: IAccountRepository) {
+        this.repository = repository;
+    }
+
+    /**
+     * Profil complet de l'utilisateur connecté (/auth/me)
+     */
+    async getProfile(): Promise<Either<TypedAppError, UserEntity>> {
+        return await this.repository.getProfile();
+    }
+
+    /**
+     * Met à jour le nom et le téléphone de l'utilisateur connecté.
+     * Retourne le profil à jour renvoyé par l'API.
+     */
+    async updateProfile(data: UpdateProfileData): Promise<Either<TypedAppError, UserEntity>> {
+        // Logique métier : confirmation par le mot de passe actuel
+        if (!isNotEmpty(data.currentPassword)) {
+            return left(new ValidationError("Le mot de passe actuel est requis", [], "current_password_required"));
+        }
+
+        if (!isNotEmpty(data.firstName) || !isNotEmpty(data.lastName)) {
+            return left(new ValidationError("Le prénom et le nom sont requis", [], "missing_name"));
+        }
+
+        // Téléphone vide : suppression du numéro
+        const phone = data.phone?.trim() || null;
+        if (phone && !/^\+?[\d\s.()-]{6,20}$/.test(phone)) {
+            return left(new ValidationError("Format de téléphone invalide", [], "invalid_phone_format"));
+        }
+
+        return await this.repository.updateProfile({
+            firstName: data.firstName.trim(),
+            lastName: data.lastName.trim(),
+            phone,
+            currentPassword: data.currentPassword
+        });
+    }
+
+    /**
+     * Change le mot de passe de l'utilisateur connecté, confirmé par le mot de passe actuel
+     */
+    async changePassword(data: ChangePasswordData): Promise<Either<TypedAppError, boolean>> {
+        if (!isNotEmpty(data.currentPassword)) {
+            return left(new ValidationError("Le mot de passe actuel est requis", [], "current_password_required"));
+        }
+
+        if (!isValidPassword(data.newPassword)) {
+            return left(new ValidationError(`Le mot de passe doit contenir au moins ${MIN_PASSWORD_LENGTH} caractères`, [], "weak_password"));
+        }
+
+        if (data.newPassword === data.currentPassword) {
+            return left(new ValidationError("Le nouveau mot de passe doit être différent de l'actuel", [], "password_unchanged"));
+        }
+
+        return await this.repository.changePassword(data);
+    }
+}
@@ -0,0 +1,11 @@
+import { Either } from "@sweet-monads/either";
+import { TypedAppError } from "../../../../core/types/AppError";
+import { IProfileUseCase } from "../../../../core/types/AuthTypes";
+import { UserEntity } from "../../../users/domain/entities/UserEntity";
+import { ChangePasswordData, UpdateProfileData } from "../types/AuthDomainTypes";
+
+export interface IAccountUseCase extends IProfileUseCase {
+    getProfile(): Promise<Either<TypedAppError, UserEntity>>;
+    updateProfile(data: UpdateProfileData): Promise<Either<TypedAppError, UserEntity>>;
+    changePassword(data: ChangePasswordData): Promise<Either<TypedAppError, boolean>>;
+}
@@ -0,0 +1,7 @@
+import { Either } from "@sweet-monads/either";
+import { TypedAppError } from "../../../../core/types/AppError";
+import { RefreshedTokens, SessionCredentials } from "../../../../core/types/AuthTypes";
+
+export interface IRefreshSessionUseCase {
+    execute(credentials: SessionCredentials): Promise<Either<TypedAppError, RefreshedTokens>>;
+}
@@ -0,0 +1,9 @@
+import { Either } from "@sweet-monads/either";
+import { TypedAppError } from "../../../../core/types/AppError";
+import { RegisterData, ResetPasswordData } from "../types/AuthDomainTypes";
+
+export interface ISelfServiceUseCase {
+    register(data: RegisterData): Promise<Either<TypedAppError, boolean>>;
+    requestPasswordReset(email: string): Promise<Either<TypedAppError, boolean>>;
+    resetPassword(data: ResetPasswordData): Promise<Either<TypedAppError, boolean>>;
+}
@@ -0,0 +1,8 @@
+import { Either } from "@sweet-monads/either";
+import { TypedAppError } from "../../../../core/types/AppError";
+import { TwoFactorEnrollment } from "../types/AuthDomainTypes";
+
+export interface ITwoFactorUseCase {
+    startEnrollment(): Promise<Either<TypedAppError, TwoFactorEnrollment>>;
+    confirmEnrollment(code: string): Promise<Either<TypedAppError, string[]>>;
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { right } from '@sweet-monads/either';
+import { ImpersonationUseCase } from './ImpersonationUseCase';
+import { IImpersonationSession } from '../services/SessionService';
+import { TokenPayload } from '@core/types/AuthTypes';
+import { IAuthRepository } from '../repositories/IAuthRepository';
+
+// --- Helpers ---
+
+const impersonationTokens = { accessToken: 'user-access', refreshToken: 'user-refresh' };
+const adminTokens = { accessToken: 'admin-access', refreshToken: 'admin-refresh' };
+
+const makeRepository = (): IAuthRepository => ({
+    login: vi.fn(),
+    verifySecondFactor: vi.fn(),
+    refresh: vi.fn(),
+    logout: vi.fn().mockResolvedValue(right(true)),
+    register: vi.fn(),
+    requestPasswordReset: vi.fn(),
+    resetPassword: vi.fn(),
+    startTwoFactorEnrollment: vi.fn(),
+    confirmTwoFactorEnrollment: vi.fn(),
+    impersonate: vi.fn().mockResolvedValue(right(impersonationTokens)),
+    getExternalProviders: vi.fn().mockReturnValue([]),
+    createAuthorizationUrl: vi.fn(),
+    completeExternalLogin: vi.fn(),
+    refreshWithProvider: vi.fn(),
+    getEndSessionUrl: vi.fn(),
+});
+
+const makeSession = (): IImpersonationSession => ({
+    startImpersonation: vi.fn().mockImplementation(async (tokens) => right(tokens)),
+    stopImpersonation: vi.fn().mockResolvedValue(right(adminTokens)),
+    isImpersonating: vi.fn().mockReturnValue(false),
+    getRefreshToken: vi.fn().mockReturnValue('user-refresh'),
+});
+
+const makeCurrentUser = (overrides: Partial<TokenPayload> = {}): TokenPayload => ({
+    exp: 0,
+    iat: 0,
+    userId: 'admin-1',
+    role: 'ADMIN',
+    email: 'admin@example.com',
+    ...overrides,
+});
+
+// --- Tests ---
+
+describe('ImpersonationUseCase', () => {
+    let repository: IAuthRepository;
+    let session: IImpersonationSession;
+    let currentUser: TokenPayload | null;
+    let useCase: ImpersonationUseCase;
+
+    beforeEach(() => {
+        repository = makeRepository();
+        session = makeSession();
+        currentUser = makeCurrentUser();
+        useCase = new ImpersonationUseCase(repository, session, () => currentUser);
+    });
+
+    describe('start', () => {
+        it('ouvre la session de l utilisateur en mettant celle de l administrateur de cote', async () => {
+            const result = await useCase.start('user-42');
+
+            expect(result.isRight()).toBe(true);
+            expect(repository.impersonate).toHaveBeenCalledWith('user-42');
+            expect(session.startImpersonation).toHaveBeenCalledWith(impersonationTokens);
+        });
+
+        it('refuse un utilisateur non administrateur sans appel a l API', async () => {
+            currentUser = makeCurrentUser({ role: 'USER' });
+
+            const result = await useCase.start('user-42');
+
+            expect(result.isLeft() && result.value.code).toBe('403');
+            expect(repository.impersonate).not.toHaveBeenCalled();
+        });
+
+        it('refuse une impersonation imbriquee', async () => {
+            vi.mocked(session.isImpersonating).mockReturnValue(true);
+
+            const result = await useCase.start('user-42');
+
+            expect(result.isLeft() && result.value.details).toBe('impersonation_already_active');
+        });
+    });
+
+    describe('stop', () => {
+        it('restaure la session d origine puis revoque la session impersonee', async () => {
+            vi.mocked(session.isImpersonating).mockReturnValue(true);
+
+            const result = await useCase.stop();
+
+            expect(result.isRight() && result.value).toEqual(adminTokens);
+            expect(session.stopImpersonation).toHaveBeenCalled();
+            expect(repository.logout).toHaveBeenCalledWith('user-refresh');
+        });
+    });
+});
@@ -0,0 +1,73 @@
+import { Either, left } from "@sweet-monads/either";
+import { ConflictError, ForbiddenError, TypedAppError, ValidationError } from "../../../../core/types/AppError";
+import { AuthTokens, IImpersonationUseCase } from "../../../../core/types/AuthTypes";
+import { IImpersonationSession } from "../services/SessionService";
+import Logger from "../../../../core/services/logger";
+import { canAccess, CurrentUserProvider, ROLES } from "../../../../core/policies/accessPolicy";
+import { IAuthRepository } from "../repositories/IAuthRepository";
+
+const log = Logger.getInstance().scope("auth");
+
+export class ImpersonationUseCase implements IImpersonationUseCase {
+    private repository: IAuthRepository;
+    private session: IImpersonationSession;
+    private getCurrentUser: CurrentUserProvider;
+
+    constructor(repository: IAuthRepository, session: IImpersonationSession, getCurrentUser: CurrentUserProvider) {
+        this.repository = repository;
+        this.session = session;
+        this.getCurrentUser = getCurrentUser;
+    }
+
+    /**
+     * Ouvre une session au nom d'un utilisateur (support). La session de l'administrateur est mise de côté.
+     */
+    async start(userId: string): Promise<Either<TypedAppError, AuthTokens>> {
+        // Règle d'accès : seul un administrateur peut consulter l'application en tant qu'un autre utilisateur
+        const currentUser = this.getCurrentUser();
+        if (!canAccess(currentUser, { roles: [ROLES.ADMIN] })) {
+            return left(new ForbiddenError("Vous n'avez pas les droits pour consulter l'application en tant qu'un autre utilisateur", "forbidden"));
+        }
+
+        if (this.session.isImpersonating()) {
+            return left(new ConflictError("Une impersonation est déjà en cours", "impersonation_already_active"));
+        }
+
+        if (!userId || userId.trim() === '') {
+            return left(new ValidationError("L'ID utilisateur est requis", [], "validation_error"));
+        }
+
+        if (userId === currentUser?.userId) {
+            return left(new ValidationError("Vous ne pouvez pas vous impersoner vous-même", [], "impersonation_self"));
+        }
+
+        const tokensResult = await this.repository.impersonate(userId);
+        if (tokensResult.isLeft()) {
+            return tokensResult;
+        }
+
+        return await this.session.startImpersonation(tokensResult.value);
+    }
+
+    /**
+     * Restaure la session de l'administrateur sans nouvelle connexion, puis révoque la session impersonée
+     */
+    async stop(): Promise<Either<TypedAppError, AuthTokens>> {
+        if (!this.session.isImpersonating()) {
+            return left(new ValidationError("Aucune impersonation en cours", [], "impersonation_not_active"));
+        }
+
+        const impersonationRefreshToken = this.session.getRefreshToken();
+        const result = await this.session.stopImpersonation();
+
+        // Révocation best-effort : la session impersonée n'est plus utilisée localement dans tous les cas
+        if (impersonationRefreshToken) {
+            const revokeResult = await this.repository.logout(impersonationRefreshToken);
+            if (revokeResult.isLeft()) {
+                log.warn('Révocation de la session impersonée échouée', { error: revokeResult.value });
+            }
+        }
+
+        return result;
+    }
+}
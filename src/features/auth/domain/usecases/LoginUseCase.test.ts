@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { right, left } from '@sweet-monads/either';
+import { LoginUseCase } from './LoginUseCase';
+import { UnauthorizedError } from '@core/types/AppError';
+import { ISessionLifecycle } from '../services/SessionService';
+import { IAuthRepository } from '../repositories/IAuthRepository';
+import { SecondFactorChallenge } from '@core/types/AuthTypes';
+
+// --- Helpers ---
+
+const tokens = { accessToken: 'access', refreshToken: 'refresh' };
+
+const makeRepository = (): IAuthRepository => ({
+    login: vi.fn().mockResolvedValue(right({ status: 'authenticated', tokens })),
+    verifySecondFactor: vi.fn().mockResolvedValue(right(tokens)),
+    refresh: vi.fn(),
+    logout: vi.fn(),
+    register: vi.fn(),
+    requestPasswordReset: vi.fn(),
+    resetPassword: vi.fn(),
+    startTwoFactorEnrollment: vi.fn(),
+    confirmTwoFactorEnrollment: vi.fn(),
+    impersonate: vi.fn(),
+    getExternalProviders: vi.fn().mockReturnValue([]),
+    createAuthorizationUrl: vi.fn(),
+    completeExternalLogin: vi.fn(),
+    refreshWithProvider: vi.fn(),
+    getEndSessionUrl: vi.fn(),
+});
+
+const makeSession = (): ISessionLifecycle => ({
+    openSession: vi.fn().mockImplementation(async (opened) => right(opened)),
+    openProviderSession: vi.fn().mockImplementation(async (_providerId, opened) => right(opened)),
+    closeSession: vi.fn(),
+    getRefreshToken: vi.fn().mockReturnValue(null),
+    getProviderSession: vi.fn().mockReturnValue(null),
+});
+
+// --- Tests ---
+
+describe('LoginUseCase', () => {
+    let repository: IAuthRepository;
+    let session: ISessionLifecycle;
+    let useCase: LoginUseCase;
+
+    beforeEach(() => {
+        repository = makeRepository();
+        session = makeSession();
+        useCase = new LoginUseCase(repository, session);
+    });
+
+    // ------------------------------------------------------------------ login
+    describe('login', () => {
+        it('normalise l email et ouvre la session avec les tokens recus', async () => {
+            const result = await useCase.login({ email: 'Jean@Example.com', password: 'secret123' });
+
+            expect(result.isRight() && result.value).toEqual({ status: 'authenticated', tokens });
+            expect(repository.login).toHaveBeenCalledWith({ email: 'jean@example.com', password: 'secret123' });
+            expect(session.openSession).toHaveBeenCalledWith(tokens);
+        });
+
+        it('retourne le defi de second facteur sans ouvrir de session', async () => {
+            const challenge: SecondFactorChallenge = { challengeId: 'ch-1', methods: ['totp', 'recovery_code'] };
+            vi.mocked(repository.login).mockResolvedValue(right({ status: 'second-factor-required' as const, challenge }));
+
+            const result = await useCase.login({ email: 'jean@example.com', password: 'secret123' });
+
+            expect(result.isRight() && result.value).toEqual({ status: 'second-factor-required', challenge });
+            expect(session.openSession).not.toHaveBeenCalled();
+        });
+
+        it('refuse un email invalide sans appel au repository', async () => {
+            const result = await useCase.login({ email: 'jean', password: 'secret123' });
+
+            expect(result.isLeft() && result.value.details).toBe('invalid_email_format');
+            expect(repository.login).not.toHaveBeenCalled();
+        });
+
+        it('propage l erreur du repository', async () => {
+            vi.mocked(repository.login).mockResolvedValue(left(new UnauthorizedError('Email ou mot de passe incorrect', 'invalid_credentials')));
+
+            const result = await useCase.login({ email: 'jean@example.com', password: 'mauvais' });
+
+            expect(result.isLeft() && result.value.code).toBe('401');
+            expect(session.openSession).not.toHaveBeenCalled();
+        });
+    });
+
+    // ------------------------------------------------------------------ verifySecondFactor
+    describe('verifySecondFactor', () => {
+        it('ouvre la session apres un code TOTP valide', async () => {
+            const result = await useCase.verifySecondFactor({ challengeId: 'ch-1', code: '123 456', method: 'totp' });
+
+            expect(result.isRight()).toBe(true);
+            expect(repository.verifySecondFactor).toHaveBeenCalledWith({ challengeId: 'ch-1', code: '123456', method: 'totp' });
+            expect(session.openSession).toHaveBeenCalledWith(tokens);
+        });
+
+        it('refuse un code TOTP mal forme sans appel au repository', async () => {
+            const result = await useCase.verifySecondFactor({ challengeId: 'ch-1', code: '12ab', method: 'totp' });
+
+            expect(result.isLeft()).toBe(true);
+            expect(repository.verifySecondFactor).not.toHaveBeenCalled();
+        });
+    });
+
+    // ------------------------------------------------------------------ completeExternalLogin
+    describe('completeExternalLogin', () => {
+        it('ouvre une session externe avec l ID token et l expiration du fournisseur', async () => {
+            vi.mocked(repository.completeExternalLogin).mockResolvedValue(right({
+                providerId: 'stub',
+                returnTo: '/users',
+                tokens: { ...tokens, idToken: 'id-token', expiresAt: 1700000000 },
+            }));
+
+            const result = await useCase.completeExternalLogin('?code=abc&state=xyz');
+
+            expect(result.isRight() && result.value).toBe('/users');
+            expect(session.openProviderSession).toHaveBeenCalledWith('stub', { ...tokens, idToken: 'id-token', expiresAt: 1700000000 });
+            expect(session.openSession).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,118 @@
+import { Either, left } from "@sweet-monads/either";
+import { TypedAppError, ValidationError } from "../../../../core/types/AppError";
+import {
+    AuthTokens,
+    ExternalProvider,
+    ILoginUseCase,
+    LoginCredentials,
+    LoginResult,
+    VerifySecondFactorParams
+} from "../../../../core/types/AuthTypes";
+import { ISessionLifecycle } from "../services/SessionService";
+import { isValidEmail } from "../../../../core/utils/validators";
+import { IAuthRepository } from "../repositories/IAuthRepository";
+
+export class LoginUseCase implements ILoginUseCase {
+    private repository: IAuthRepository;
+    private session: ISessionLifecycle;
+
+    constructor(repository: IAuthRepository, session: ISessionLifecycle) {
+        this.repository = repository;
+        this.session = session;
+    }
+
+    /**
+     * Authentifie un utilisateur avec email/password.
+     * Si le compte exige un second facteur, retourne le défi à compléter avec verifySecondFactor().
+     */
+    async login(credentials: LoginCredentials): Promise<Either<TypedAppError, LoginResult>> {
+        // Logique métier : validation des credentials
+        if (!credentials.email || !credentials.password) {
+            return left(new ValidationError("Email et mot de passe requis", [], "missing_credentials"));
+        }
+
+        if (!isValidEmail(credentials.email)) {
+            return left(new ValidationError("Format d'email invalide", [], "invalid_email_format"));
+        }
+
+        const result = await this.repository.login({
+            email: credentials.email.trim().toLowerCase(),
+            password: credentials.password
+        });
+        if (result.isLeft() || result.value.status === 'second-factor-required') {
+            return result;
+        }
+
+        const sessionResult = await this.session.openSession(result.value.tokens);
+        return sessionResult.map((tokens): LoginResult => ({ status: 'authenticated', tokens }));
+    }
+
+    /**
+     * Complète un login en attente de second facteur (code TOTP ou code de récupération)
+     */
+    async verifySecondFactor(params: VerifySecondFactorParams): Promise<Either<TypedAppError, AuthTokens>> {
+        // Logique métier : format du code
+        const code = params.code.replace(/\s+/g, '');
+        if (params.method === 'totp' && !/^\d{6}$/.test(code)) {
+            return left(new ValidationError("Le code doit contenir 6 chiffres", [], "invalid_second_factor_format"));
+        }
+        if (!code) {
+            return left(new ValidationError("Le code de récupération est requis", [], "invalid_second_factor_format"));
+        }
+
+        const result = await this.repository.verifySecondFactor({ ...params, code });
+        if (result.isLeft()) {
+            return result;
+        }
+
+        return this.session.openSession(result.value);
+    }
+
+    /**
+     * Liste les fournisseurs d'identité disponibles (boutons de la page de login)
+     */
+    getExternalProviders(): ExternalProvider[] {
+        return this.repository.getExternalProviders();
+    }
+
+    /**
+     * Prépare un login externe (Authorization Code + PKCE). Retourne l'URL du fournisseur vers laquelle rediriger ;
+     * le retour est traité par completeExternalLogin() sur /auth/callback.
+     */
+    async startExternalLogin(providerId: string, returnTo: string): Promise<Either<TypedAppError, string>> {
+        return this.repository.createAuthorizationUrl(providerId, returnTo);
+    }
+
+    /**
+     * Termine un login externe et ouvre la session. Retourne le chemin à afficher ensuite.
+     */
+    async completeExternalLogin(search: string): Promise<Either<TypedAppError, string>> {
+        const result = await this.repository.completeExternalLogin(search);
+        if (result.isLeft()) {
+            return left(result.value);
+        }
+
+        const { providerId, returnTo, tokens } = result.value;
+        // Fournisseur configuré sans offline_access (scope personnalisé) ou refusant de délivrer un refresh token
+        if (!tokens.refreshToken) {
+            return left(new ValidationError(
+                "Le fournisseur d'identité n'a pas délivré de refresh token (scope offline_access requis)",
+                [],
+                "missing_refresh_token"
+            ));
+        }
+
+        // L'utilisateur est lu dans l'ID token, vérifié par le client OIDC avant d'arriver ici
+        if (!tokens.idToken || tokens.expiresAt === undefined) {
+            return left(new ValidationError("Réponse du fournisseur d'identité invalide", [], "invalid_auth_response"));
+        }
+
+        const sessionResult = await this.session.openProviderSession(providerId, {
+            accessToken: tokens.accessToken,
+            refreshToken: tokens.refreshToken,
+            idToken: tokens.idToken,
+            expiresAt: tokens.expiresAt,
+        });
+        return sessionResult.map(() => returnTo);
+    }
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { right, left } from '@sweet-monads/either';
+import { LogoutUseCase } from './LogoutUseCase';
+import { ServerError } from '@core/types/AppError';
+import { ISessionLifecycle } from '../services/SessionService';
+import { IAuthRepository } from '../repositories/IAuthRepository';
+
+// --- Helpers ---
+
+const makeRepository = (): IAuthRepository => ({
+    login: vi.fn(),
+    verifySecondFactor: vi.fn(),
+    refresh: vi.fn(),
+    logout: vi.fn().mockResolvedValue(right(true)),
+    register: vi.fn(),
+    requestPasswordReset: vi.fn(),
+    resetPassword: vi.fn(),
+    startTwoFactorEnrollment: vi.fn(),
+    confirmTwoFactorEnrollment: vi.fn(),
+    impersonate: vi.fn(),
+    getExternalProviders: vi.fn().mockReturnValue([]),
+    createAuthorizationUrl: vi.fn(),
+    completeExternalLogin: vi.fn(),
+    refreshWithProvider: vi.fn(),
+    getEndSessionUrl: vi.fn().mockResolvedValue(right('https://idp.example.com/logout')),
+});
+
+const makeSession = (): ISessionLifecycle => ({
+    openSession: vi.fn(),
+    openProviderSession: vi.fn(),
+    closeSession: vi.fn(),
+    getRefreshToken: vi.fn().mockReturnValue('refresh'),
+    getProviderSession: vi.fn().mockReturnValue(null),
+});
+
+// --- Tests ---
+
+describe('LogoutUseCase', () => {
+    let repository: IAuthRepository;
+    let session: ISessionLifecycle;
+    let useCase: LogoutUseCase;
+
+    beforeEach(() => {
+        repository = makeRepository();
+        session = makeSession();
+        useCase = new LogoutUseCase(repository, session);
+    });
+
+    it('invalide le refresh token cote serveur puis ferme la session', async () => {
+        const result = await useCase.execute();
+
+        expect(result.isRight() && result.value).toBeNull();
+        expect(repository.logout).toHaveBeenCalledWith('refresh');
+        expect(session.closeSession).toHaveBeenCalled();
+    });
+
+    it('ferme la session locale meme si l invalidation serveur echoue', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => { });
+        vi.mocked(repository.logout).mockResolvedValue(left(new ServerError('Serveur indisponible', 503)));
+
+        const result = await useCase.execute();
+
+        expect(result.isRight()).toBe(true);
+        expect(session.closeSession).toHaveBeenCalled();
+    });
+
+    it('retourne l URL de deconnexion du fournisseur pour une session externe', async () => {
+        vi.mocked(session.getProviderSession).mockReturnValue({ providerId: 'stub', idToken: 'id-token' });
+
+        const result = await useCase.execute();
+
+        expect(result.isRight() && result.value).toBe('https://idp.example.com/logout');
+        expect(repository.getEndSessionUrl).toHaveBeenCalledWith({ providerId: 'stub', idToken: 'id-token' });
+        expect(repository.logout).not.toHaveBeenCalled();
+    });
+
+    it('reste sur l application apres une session expiree (endProviderSession: false)', async () => {
+        vi.mocked(session.getProviderSession).mockReturnValue({ providerId: 'stub', idToken: 'id-token' });
+
+        const result = await useCase.execute({ endProviderSession: false });
+
+        expect(result.isRight() && result.value).toBeNull();
+        expect(repository.getEndSessionUrl).not.toHaveBeenCalled();
+        expect(session.closeSession).toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,50 @@
+import { Either, right } from "@sweet-monads/either";
+import { TypedAppError } from "../../../../core/types/AppError";
+import { ISessionLifecycle } from "../services/SessionService";
+import Logger from "../../../../core/services/logger";
+import { IAuthRepository } from "../repositories/IAuthRepository";
+import { ILogoutUseCase, LogoutOptions } from "../../../../core/types/AuthTypes";
+
+const log = Logger.getInstance().scope("auth");
+
+export class LogoutUseCase implements ILogoutUseCase {
+    private repository: IAuthRepository;
+    private session: ISessionLifecycle;
+
+    constructor(repository: IAuthRepository, session: ISessionLifecycle) {
+        this.repository = repository;
+        this.session = session;
+    }
+
+    /**
+     * Déconnecte l'utilisateur côté serveur (ou chez le fournisseur d'identité) puis localement.
+     * Retourne l'URL de déconnexion du fournisseur vers laquelle rediriger, null pour un login direct.
+     */
+    async execute(options: LogoutOptions = {}): Promise<Either<TypedAppError, string | null>> {
+        const { endProviderSession = true } = options;
+
+        // Lus avant le nettoyage local : l'invalidation en a besoin
+        const refreshToken = this.session.getRefreshToken();
+        const providerSession = this.session.getProviderSession();
+        let endSessionUrl: string | null = null;
+
+        if (providerSession) {
+            // Session externe : l'URL de déconnexion porte l'ID token
+            if (endProviderSession) {
+                const urlResult = await this.repository.getEndSessionUrl(providerSession);
+                endSessionUrl = urlResult.isRight() ? urlResult.value : null;
+            }
+        } else if (refreshToken) {
+            const logoutResult = await this.repository.logout(refreshToken);
+            if (logoutResult.isLeft()) {
+                // On continue même si l'invalidation serveur échoue
+                log.warn('Erreur lors de l\'invalidation côté serveur', { error: logoutResult.value });
+            }
+        }
+
+        // Nettoyage local obligatoire
+        this.session.closeSession();
+
+        return right(endSessionUrl);
+    }
+}
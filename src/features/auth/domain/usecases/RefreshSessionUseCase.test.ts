@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { right, left } from '@sweet-monads/either';
+import { RefreshSessionUseCase } from './RefreshSessionUseCase';
+import { UnauthorizedError } from '@core/types/AppError';
+import { IAuthRepository } from '../repositories/IAuthRepository';
+
+// --- Helpers ---
+
+const makeRepository = (): IAuthRepository => ({
+    login: vi.fn(),
+    verifySecondFactor: vi.fn(),
+    refresh: vi.fn().mockResolvedValue(right({ accessToken: 'new-access', refreshToken: 'new-refresh' })),
+    logout: vi.fn(),
+    register: vi.fn(),
+    requestPasswordReset: vi.fn(),
+    resetPassword: vi.fn(),
+    startTwoFactorEnrollment: vi.fn(),
+    confirmTwoFactorEnrollment: vi.fn(),
+    impersonate: vi.fn(),
+    getExternalProviders: vi.fn().mockReturnValue([]),
+    createAuthorizationUrl: vi.fn(),
+    completeExternalLogin: vi.fn(),
+    refreshWithProvider: vi.fn().mockResolvedValue(right({ accessToken: 'new-access', idToken: 'new-id-token' })),
+    getEndSessionUrl: vi.fn(),
+});
+
+// --- Tests ---
+
+describe('RefreshSessionUseCase', () => {
+    let repository: IAuthRepository;
+    let useCase: RefreshSessionUseCase;
+
+    beforeEach(() => {
+        repository = makeRepository();
+        useCase = new RefreshSessionUseCase(repository);
+    });
+
+    it('renouvelle les tokens via l API pour un login direct', async () => {
+        const result = await useCase.execute({ refreshToken: 'refresh', providerSession: null });
+
+        expect(result.isRight() && result.value).toEqual({ accessToken: 'new-access', refreshToken: 'new-refresh', idToken: undefined });
+        expect(repository.refresh).toHaveBeenCalledWith('refresh');
+        expect(repository.refreshWithProvider).not.toHaveBeenCalled();
+    });
+
+    it('passe par le fournisseur de la session et conserve le refresh token non renouvele', async () => {
+        const result = await useCase.execute({ refreshToken: 'refresh', providerSession: { providerId: 'stub', idToken: null } });
+
+        expect(result.isRight() && result.value).toEqual({ accessToken: 'new-access', refreshToken: 'refresh', idToken: 'new-id-token' });
+        expect(repository.refreshWithProvider).toHaveBeenCalledWith('stub', 'refresh');
+        expect(repository.refresh).not.toHaveBeenCalled();
+    });
+
+    it('propage le refus du serveur (session expiree)', async () => {
+        vi.mocked(repository.refresh).mockResolvedValue(left(new UnauthorizedError('Session expirée', 'refresh_expired')));
+
+        const result = await useCase.execute({ refreshToken: 'refresh', providerSession: null });
+
+        expect(result.isLeft() && result.value.details).toBe('refresh_expired');
+    });
+
+    it('refuse un refresh token vide sans appel au repository', async () => {
+        const result = await useCase.execute({ refreshToken: ' ', providerSession: null });
+
+        expect(result.isLeft()).toBe(true);
+        expect(repository.refresh).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,36 @@
+import { Either, left } from "@sweet-monads/either";
+import { TypedAppError, UnauthorizedError } from "../../../../core/types/AppError";
+import { RefreshedTokens, SessionCredentials } from "../../../../core/types/AuthTypes";
+import { isNotEmpty } from "../../../../core/utils/validators";
+import { IAuthRepository } from "../repositories/IAuthRepository";
+import { IRefreshSessionUseCase } from "./IRefreshSessionUseCase";
+
+/**
+ * Renouvellement des tokens, appelé par SessionService (refresh coordonné entre onglets).
+ * Le stockage des nouveaux tokens reste à la charge de SessionService.
+ */
+export class RefreshSessionUseCase implements IRefreshSessionUseCase {
+    private repository: IAuthRepository;
+
+    constructor(repository: IAuthRepository) {
+        this.repository = repository;
+    }
+
+    async execute(credentials: SessionCredentials): Promise<Either<TypedAppError, RefreshedTokens>> {
+        if (!isNotEmpty(credentials.refreshToken)) {
+            return left(new UnauthorizedError("Aucun refresh token disponible", "refresh_token_missing"));
+        }
+
+        // Session externe : refresh auprès du fournisseur d'identité, sinon via notre API
+        const result = credentials.providerSession
+            ? await this.repository.refreshWithProvider(credentials.providerSession.providerId, credentials.refreshToken)
+            : await this.repository.refresh(credentials.refreshToken);
+
+        return result.map((tokens) => ({
+            accessToken: tokens.accessToken,
+            refreshToken: tokens.refreshToken || credentials.refreshToken, // Garder l'ancien si pas de nouveau
+            idToken: tokens.idToken,
+            expiresAt: tokens.expiresAt,
+        }));
+    }
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { right } from '@sweet-monads/either';
+import { SelfServiceUseCase } from './SelfServiceUseCase';
+import { IAuthRepository } from '../repositories/IAuthRepository';
+
+// --- Helpers ---
+
+const makeRepository = (): IAuthRepository => ({
+    login: vi.fn(),
+    verifySecondFactor: vi.fn(),
+    refresh: vi.fn(),
+    logout: vi.fn(),
+    register: vi.fn().mockResolvedValue(right(true)),
+    requestPasswordReset: vi.fn().mockResolvedValue(right(true)),
+    resetPassword: vi.fn().mockResolvedValue(right(true)),
+    startTwoFactorEnrollment: vi.fn(),
+    confirmTwoFactorEnrollment: vi.fn(),
+    impersonate: vi.fn(),
+    getExternalProviders: vi.fn().mockReturnValue([]),
+    createAuthorizationUrl: vi.fn(),
+    completeExternalLogin: vi.fn(),
+    refreshWithProvider: vi.fn(),
+    getEndSessionUrl: vi.fn(),
+});
+
+// --- Tests ---
+
+describe('SelfServiceUseCase', () => {
+    let repository: IAuthRepository;
+    let useCase: SelfServiceUseCase;
+
+    beforeEach(() => {
+        repository = makeRepository();
+        useCase = new SelfServiceUseCase(repository);
+    });
+
+    it('envoie les donnees d inscription normalisees', async () => {
+        const data = { firstName: ' Hélène ', lastName: 'Lefèvre', email: 'Helene@Example.com', password: 'secret123' };
+
+        const result = await useCase.register(data);
+
+        expect(result.isRight()).toBe(true);
+        expect(repository.register).toHaveBeenCalledWith({
+            firstName: 'Hélène',
+            lastName: 'Lefèvre',
+            email: 'helene@example.com',
+            password: 'secret123',
+        });
+    });
+
+    it('valide le nouveau mot de passe avant l appel au repository', async () => {
+        const result = await useCase.resetPassword({ token: 'abc', password: '123' });
+
+        expect(result.isLeft() && result.value.details).toBe('weak_password');
+        expect(repository.resetPassword).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,66 @@
+import { Either, left } from "@sweet-monads/either";
+import { TypedAppError, ValidationError } from "../../../../core/types/AppError";
+import { isNotEmpty, isValidEmail, isValidPassword, MIN_PASSWORD_LENGTH } from "../../../../core/utils/validators";
+import { IAuthRepository } from "../repositories/IAuthRepository";
+import { ISelfServiceUseCase } from "./ISelfServiceUseCase";
+import { RegisterData, ResetPasswordData } from "../types/AuthDomainTypes";
+
+export class SelfServiceUseCase implements ISelfServiceUseCase {
+    private repository: IAuthRepository;
+
+    constructor(repository: IAuthRepository) {
+        this.repository = repository;
+    }
+
+    /**
+     * Crée un compte utilisateur (sans ouvrir de session)
+     */
+    async register(data: RegisterData): Promise<Either<TypedAppError, boolean>> {
+        // Logique métier : validation des données
+        if (!isNotEmpty(data.firstName) || !isNotEmpty(data.lastName)) {
+            return left(new ValidationError("Le prénom et le nom sont requis", [], "missing_name"));
+        }
+
+        if (!isValidEmail(data.email)) {
+            return left(new ValidationError("Format d'email invalide", [], "invalid_email_format"));
+        }
+
+        if (!isValidPassword(data.password)) {
+            return left(new ValidationError(`Le mot de passe doit contenir au moins ${MIN_PASSWORD_LENGTH} caractères`, [], "weak_password"));
+        }
+
+        return await this.repository.register({
+            firstName: data.firstName.trim(),
+            lastName: data.lastName.trim(),
+            email: data.email.trim().toLowerCase(),
+            password: data.password
+        });
+    }
+
+    /**
+     * Demande l'envoi d'un lien de réinitialisation du mot de passe.
+     * Réussit aussi pour un email inconnu, pour ne pas révéler les comptes existants.
+     */
+    async requestPasswordReset(email: string): Promise<Either<TypedAppError, boolean>> {
+        if (!isValidEmail(email)) {
+            return left(new ValidationError("Format d'email invalide", [], "invalid_email_format"));
+        }
+
+        return await this.repository.requestPasswordReset(email.trim().toLowerCase());
+    }
+
+    /**
+     * Définit un nouveau mot de passe à partir du token reçu par email
+     */
+    async resetPassword(data: ResetPasswordData): Promise<Either<TypedAppError, boolean>> {
+        if (!isNotEmpty(data.token)) {
+            return left(new ValidationError("Lien de réinitialisation invalide", [], "reset_token_invalid"));
+        }
+
+        if (!isValidPassword(data.password)) {
+            return left(new ValidationError(`Le mot de passe doit contenir au moins ${MIN_PASSWORD_LENGTH} caractères`, [], "weak_password"));
+        }
+
+        return await this.repository.resetPassword(data);
+    }
+}
@@ -0,0 +1,33 @@
+import { Either, left } from "@sweet-monads/either";
+import { TypedAppError, ValidationError } from "../../../../core/types/AppError";
+import { IAuthRepository } from "../repositories/IAuthRepository";
+import { ITwoFactorUseCase } from "./ITwoFactorUseCase";
+import { TwoFactorEnrollment } from "../types/AuthDomainTypes";
+
+export class TwoFactorUseCase implements ITwoFactorUseCase {
+    private repository: IAuthRepository;
+
+    constructor(repository: IAuthRepository) {
+        this.repository = repository;
+    }
+
+    /**
+     * Démarre l'enrôlement TOTP de l'utilisateur connecté
+     */
+    async startEnrollment(): Promise<Either<TypedAppError, TwoFactorEnrollment>> {
+        return await this.repository.startTwoFactorEnrollment();
+    }
+
+    /**
+     * Confirme l'enrôlement avec un premier code TOTP. Retourne les codes de récupération.
+     */
+    async confirmEnrollment(code: string): Promise<Either<TypedAppError, string[]>> {
+        // Logique métier : format du code
+        const normalizedCode = code.replace(/\s+/g, '');
+        if (!/^\d{6}$/.test(normalizedCode)) {
+            return left(new ValidationError("Le code doit contenir 6 chiffres", [], "invalid_second_factor_format"));
+        }
+
+        return await this.repository.confirmTwoFactorEnrollment(normalizedCode);
+    }
+}
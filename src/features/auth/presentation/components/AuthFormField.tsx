@@ -0,0 +1,44 @@
+import React from 'react';
+import { InputGroup } from '@heroui/react';
+
+interface AuthFormFieldProps {
+    id: string;
+    label: string;
+    value: string;
+    onChange: (value: string) => void;
+    type?: 'text' | 'email' | 'password' | 'tel';
+    autoComplete?: string;
+    autoFocus?: boolean;
+    disabled?: boolean;
+}
+
+/**
+ * Champ libelle + input des formulaires d'authentification (meme rendu que LoginPage)
+ */
+const AuthFormField: React.FC<AuthFormFieldProps> = ({
+    id,
+    label,
+    value,
+    onChange,
+    type = 'text',
+    autoComplete,
+    autoFocus,
+    disabled,
+}) => (
+    <div className="flex flex-col gap-1">
+        <label className="text-sm font-medium" htmlFor={id}>{label}</label>
+        <InputGroup fullWidth>
+            <InputGroup.Input
+                id={id}
+                type={type}
+                value={value}
+                onChange={(e) => onChange(e.target.value)}
+                autoComplete={autoComplete}
+                autoFocus={autoFocus}
+                disabled={disabled}
+            />
+        </InputGroup>
+    </div>
+);
+
+export default AuthFormField;
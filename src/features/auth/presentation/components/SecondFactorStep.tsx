@@ -0,0 +1,73 @@
+import React from 'react';
+import { Button, Spinner } from '@heroui/react';
+import { useSecondFactorForm } from '../hooks/useSecondFactorForm';
+import AuthFormField from './AuthFormField';
+import { formatCountdown } from '../../../../core/hooks/useCountdown';
+
+interface SecondFactorStepProps {
+    onSuccess: () => void;
+}
+
+/**
+ * Seconde etape du login : code de l'application d'authentification ou code de recuperation
+ */
+const SecondFactorStep: React.FC<SecondFactorStepProps> = ({ onSuccess }) => {
+    const { code, method, canUseRecoveryCode, error, isLoading, lockoutSeconds, setCode, toggleMethod, submit, cancel } = useSecondFactorForm();
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const success = await submit();
+        if (success) {
+            onSuccess();
+        }
+    };
+
+    return (
+        <>
+            <p className="text-secondary text-sm">
+                {method === 'totp'
+                    ? 'Saisissez le code a 6 chiffres affiche par votre application d\'authentification.'
+                    : 'Saisissez l\'un de vos codes de recuperation. Chaque code n\'est utilisable qu\'une fois.'}
+            </p>
+
+            {error && (
+                <div className="bg-red-50 text-red-700 border border-red-200 rounded-lg px-4 py-3 text-sm">
+                    {error}
+                </div>
+            )}
+
+            <form onSubmit={handleSubmit} noValidate className="flex flex-col gap-4">
+                <AuthFormField
+                    id="secondFactorCode"
+                    label={method === 'totp' ? 'Code de verification' : 'Code de recuperation'}
+                    value={code}
+                    onChange={setCode}
+                    autoComplete="one-time-code"
+                    autoFocus
+                    disabled={isLoading}
+                />
+
+                <Button type="submit" variant="primary" fullWidth isDisabled={isLoading || lockoutSeconds > 0}>
+                    {isLoading
+                        ? <Spinner size="sm" />
+                        : lockoutSeconds > 0
+                            ? <span aria-live="polite">Reessayer dans {formatCountdown(lockoutSeconds)}</span>
+                            : 'Verifier'}
+                </Button>
+            </form>
+
+            <div className="flex items-center justify-between">
+                {canUseRecoveryCode && (
+                    <Button variant="ghost" size="sm" onPress={toggleMethod} isDisabled={isLoading}>
+                        {method === 'totp' ? 'Utiliser un code de recuperation' : 'Utiliser l\'application'}
+                    </Button>
+                )}
+                <Button variant="ghost" size="sm" onPress={cancel} isDisabled={isLoading}>
+                    Annuler
+                </Button>
+            </div>
+        </>
+    );
+};
+
+export default SecondFactorStep;
@@ -0,0 +1,43 @@
+import { useEffect, useRef, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useAuthStore } from '../../../../core/store/authStore';
+
+interface UseAuthCallbackReturn {
+    error: string | null;
+    isLoading: boolean;
+}
+
+/**
+ * Hook de presentation -- traite le retour du fournisseur d'identite sur /auth/callback.
+ * Le code d'autorisation est a usage unique : l'echange n'est lance qu'une fois,
+ * meme si l'effet est rejoue (StrictMode).
+ *
+ * Usage :
+ *   const { error, isLoading } = useAuthCallback();
+ */
+export const useAuthCallback = (): UseAuthCallbackReturn => {
+    const navigate = useNavigate();
+    const location = useLocation();
+    const completeProviderLogin = useAuthStore((s) => s.completeProviderLogin);
+    const storeError = useAuthStore((s) => s.error);
+
+    const [isLoading, setIsLoading] = useState(true);
+    const started = useRef(false);
+
+    useEffect(() => {
+        if (started.current) {
+            return;
+        }
+        started.current = true;
+
+        completeProviderLogin(location.search).then((returnTo) => {
+            if (returnTo) {
+                navigate(returnTo, { replace: true });
+            } else {
+                setIsLoading(false);
+            }
+        });
+    }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+    return { error: isLoading ? null : storeError, isLoading };
+};
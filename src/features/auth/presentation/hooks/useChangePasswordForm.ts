@@ -0,0 +1,91 @@
+import { useEffect, useState } from 'react';
+import { useAccountStore } from '../store/accountStore';
+import { isNotEmpty, isValidPassword, MIN_PASSWORD_LENGTH } from '../../../../core/utils/validators';
+
+export interface ChangePasswordFormValues {
+    currentPassword: string;
+    newPassword: string;
+    confirmPassword: string;
+}
+
+interface UseChangePasswordFormReturn {
+    values: ChangePasswordFormValues;
+    error: string | null;
+    isLoading: boolean;
+    isChanged: boolean;
+    setField: (field: keyof ChangePasswordFormValues, value: string) => void;
+    submit: () => Promise<boolean>;
+}
+
+const INITIAL_VALUES: ChangePasswordFormValues = {
+    currentPassword: '',
+    newPassword: '',
+    confirmPassword: '',
+};
+
+/**
+ * Hook de presentation -- formulaire "Mot de passe" de la page Mon compte.
+ * Meme structure que useResetPasswordForm, avec confirmation par le mot de passe actuel.
+ * Les champs sont vides apres un changement reussi.
+ *
+ * Usage :
+ *   const { values, error, isLoading, isChanged, setField, submit } = useChangePasswordForm();
+ */
+export const useChangePasswordForm = (): UseChangePasswordFormReturn => {
+    const changePassword = useAccountStore((s) => s.changePassword);
+    const isLoading = useAccountStore((s) => s.passwordLoading);
+    const storeError = useAccountStore((s) => s.passwordError);
+    const clearError = useAccountStore((s) => s.clearPasswordError);
+
+    const [values, setValues] = useState<ChangePasswordFormValues>(INITIAL_VALUES);
+    const [localError, setLocalError] = useState<string | null>(null);
+    const [isChanged, setIsChanged] = useState(false);
+
+    // Ne pas afficher l'erreur d'une visite precedente
+    useEffect(() => {
+        clearError();
+    }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+    const setField = (field: keyof ChangePasswordFormValues, value: string) => {
+        setValues((prev) => ({ ...prev, [field]: value }));
+        setLocalError(null);
+        setIsChanged(false);
+        if (storeError) clearError();
+    };
+
+    const validate = (): string | null => {
+        if (!isNotEmpty(values.currentPassword)) {
+            return 'Le mot de passe actuel est requis';
+        }
+        if (!isValidPassword(values.newPassword)) {
+            return `Le mot de passe doit contenir au moins ${MIN_PASSWORD_LENGTH} caracteres`;
+        }
+        if (values.newPassword !== values.confirmPassword) {
+            return 'Les mots de passe ne correspondent pas';
+        }
+        return null;
+    };
+
+    const submit = async (): Promise<boolean> => {
+        const validationError = validate();
+        if (validationError) {
+            setLocalError(validationError);
+            return false;
+        }
+
+        const success = await changePassword({
+            currentPassword: values.currentPassword,
+            newPassword: values.newPassword,
+        });
+        if (success) {
+            setValues(INITIAL_VALUES);
+        }
+        setIsChanged(success);
+        return success;
+    };
+
+    // Priorite : erreur locale > erreur store
+    const error = localError || storeError;
+
+    return { values, error, isLoading, isChanged, setField, submit };
+};
@@ -0,0 +1,26 @@
+import { useAuthStore } from '../../../../core/store/authStore';
+import { ExternalProvider } from '../../../../core/types/AuthTypes';
+
+interface UseExternalLoginReturn {
+    providers: ExternalProvider[];
+    isLoading: boolean;
+    signIn: (providerId: string) => Promise<void>;
+}
+
+/**
+ * Hook de presentation -- login via un fournisseur d'identite externe (OpenID Connect).
+ * `returnTo` est le chemin a afficher au retour du fournisseur (voir useRedirectAfterAuth).
+ *
+ * Usage :
+ *   const { providers, signIn } = useExternalLogin(from);
+ */
+export const useExternalLogin = (returnTo: string): UseExternalLoginReturn => {
+    const providers = useAuthStore((s) => s.externalProviders);
+    const isLoading = useAuthStore((s) => s.isLoading);
+    const loginWithProvider = useAuthStore((s) => s.loginWithProvider);
+
+    // En cas de succes la page est quittee : seule une erreur revient dans le store
+    const signIn = (providerId: string) => loginWithProvider(providerId, returnTo);
+
+    return { providers, isLoading, signIn };
+};
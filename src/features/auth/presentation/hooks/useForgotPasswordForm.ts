@@ -0,0 +1,74 @@
+import { useEffect, useState } from 'react';
+import { useSelfServiceStore } from '../store/selfServiceStore';
+import { useCountdown } from '../../../../core/hooks/useCountdown';
+import { isValidEmail } from '../../../../core/utils/validators';
+
+interface UseForgotPasswordFormReturn {
+    email: string;
+    error: string | null;
+    isLoading: boolean;
+    isSubmitted: boolean;
+    lockoutSeconds: number;   // Attente restante apres un 429 (0 si aucune)
+    setEmail: (value: string) => void;
+    submit: () => Promise<boolean>;
+    reset: () => void;
+}
+
+/**
+ * Hook de presentation -- formulaire "mot de passe oublie".
+ * Apres l'envoi, la confirmation est identique que le compte existe ou non.
+ *
+ * Usage :
+ *   const { email, error, isLoading, isSubmitted, setEmail, submit } = useForgotPasswordForm();
+ */
+export const useForgotPasswordForm = (): UseForgotPasswordFormReturn => {
+    const requestPasswordReset = useSelfServiceStore((s) => s.requestPasswordReset);
+    const isLoading = useSelfServiceStore((s) => s.loading);
+    const storeError = useSelfServiceStore((s) => s.error);
+    const clearError = useSelfServiceStore((s) => s.clearError);
+    const refreshLockout = useSelfServiceStore((s) => s.refreshLockout);
+    const lockedUntil = useSelfServiceStore((s) => s.lockedUntil);
+    const lockoutSeconds = useCountdown(lockedUntil);
+
+    const [email, setEmailValue] = useState('');
+    const [localError, setLocalError] = useState<string | null>(null);
+    const [isSubmitted, setIsSubmitted] = useState(false);
+
+    // Ne pas afficher l'erreur d'un autre parcours, reprendre une attente en cours
+    useEffect(() => {
+        clearError();
+        refreshLockout();
+    }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+    const setEmail = (value: string) => {
+        setEmailValue(value);
+        setLocalError(null);
+        if (storeError) clearError();
+    };
+
+    const submit = async (): Promise<boolean> => {
+        if (!isValidEmail(email)) {
+            setLocalError("Format d'email invalide");
+            return false;
+        }
+        if (lockoutSeconds > 0) {
+            return false;
+        }
+
+        const success = await requestPasswordReset(email);
+        setIsSubmitted(success);
+        return success;
+    };
+
+    const reset = () => {
+        setEmailValue('');
+        setLocalError(null);
+        setIsSubmitted(false);
+        clearError();
+    };
+
+    // Priorite : erreur locale > erreur store
+    const error = localError || storeError;
+
+    return { email, error, isLoading, isSubmitted, lockoutSeconds, setEmail, submit, reset };
+};
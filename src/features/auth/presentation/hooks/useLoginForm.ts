@@ -1,5 +1,6 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useAuth } from '../../../../core/hooks/useAuth';
+import { useCountdown } from '../../../../core/hooks/useCountdown';
 import { isValidEmail } from '../../../../core/utils/validators';
 
 interface LoginFormState {
@@ -12,7 +13,10 @@ interface UseLoginFormReturn {
     email: string;
     password: string;
     error: string | null;
+    errorReference: string | null;   // Reference support de l'erreur serveur (absente pour une erreur de saisie)
     isLoading: boolean;
+    isAwaitingSecondFactor: boolean;
+    lockoutSeconds: number;   // Attente restante avant un nouvel essai (0 si aucune)
     setEmail: (value: string) => void;
     setPassword: (value: string) => void;
     submit: () => Promise<boolean>;
@@ -23,13 +27,18 @@ interface UseLoginFormReturn {
  * Hook de presentation -- encapsule la logique du formulaire de login.
  * Gere la validation locale, l'appel au store d'auth, et l'aggregation des erreurs.
  *
- * Retourne `true` si le login a reussi, `false` sinon.
+ * Retourne `true` si la session est ouverte, `false` sinon (erreur, ou second facteur attendu :
+ * voir useSecondFactorForm).
+ *
+ * Apres des echecs repetes ou un 429, `lockoutSeconds` decompte l'attente imposee
+ * (par email, conservee au rechargement) : le bouton de soumission doit rester desactive.
  *
  * Usage :
  *   const { email, password, error, isLoading, setEmail, setPassword, submit } = useLoginForm();
  */
 export const useLoginForm = (): UseLoginFormReturn => {
-    const { login, isLoading, error: authError, clearError } = useAuth();
+    const { login, isLoading, pendingSecondFactor, lockedUntil, error: authError, errorReference: authErrorReference, clearError, refreshLockout } = useAuth();
+    const lockoutSeconds = useCountdown(lockedUntil);
 
     const [form, setForm] = useState<LoginFormState>({
         email: '',
@@ -37,8 +46,14 @@ export const useLoginForm = (): UseLoginFormReturn => {
         localError: null,
     });
 
+    // Blocage eventuel d'une session precedente (rechargement de la page)
+    useEffect(() => {
+        refreshLockout(form.email);
+    }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
     const setEmail = (value: string) => {
         setForm((prev) => ({ ...prev, email: value, localError: null }));
+        refreshLockout(value);
         if (authError) clearError();
     };
 
@@ -48,6 +63,10 @@ export const useLoginForm = (): UseLoginFormReturn => {
     };
 
     const submit = async (): Promise<boolean> => {
+        if (lockoutSeconds > 0) {
+            return false;
+        }
+
         // Validation locale avant appel au store
         if (!form.email.trim() || !form.password.trim()) {
             setForm((prev) => ({ ...prev, localError: 'Email et mot de passe requis' }));
@@ -60,7 +79,7 @@ export const useLoginForm = (): UseLoginFormReturn => {
         }
 
         const result = await login(form.email, form.password);
-        return result.isRight();
+        return result.isRight() && result.value;
     };
 
     const reset = () => {
@@ -70,12 +89,16 @@ export const useLoginForm = (): UseLoginFormReturn => {
 
     // Priorite : erreur locale > erreur store
     const error = form.localError || authError;
+    const errorReference = form.localError ? null : authErrorReference;
 
     return {
         email: form.email,
         password: form.password,
         error,
+        errorReference,
         isLoading,
+        isAwaitingSecondFactor: pendingSecondFactor !== null,
+        lockoutSeconds,
         setEmail,
         setPassword,
         submit,
@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react';
+import { useAuthStore } from '../../../../core/store/authStore';
+import { useAccountStore } from '../store/accountStore';
+import { isNotEmpty } from '../../../../core/utils/validators';
+
+export interface ProfileFormValues {
+    firstName: string;
+    lastName: string;
+    phone: string;
+    currentPassword: string;
+}
+
+interface UseProfileFormReturn {
+    values: ProfileFormValues;
+    error: string | null;
+    isLoading: boolean;
+    isSaved: boolean;
+    isProfileLoaded: boolean;
+    setField: (field: keyof ProfileFormValues, value: string) => void;
+    submit: () => Promise<boolean>;
+}
+
+const EMPTY_VALUES: ProfileFormValues = {
+    firstName: '',
+    lastName: '',
+    phone: '',
+    currentPassword: '',
+};
+
+/**
+ * Hook de presentation -- formulaire "Informations personnelles" de la page Mon compte.
+ * Pre-rempli avec le profil de la session (/auth/me), confirme par le mot de passe actuel.
+ * `isSaved` passe a true apres un enregistrement reussi, jusqu'a la modification suivante.
+ *
+ * Usage :
+ *   const { values, error, isLoading, isSaved, setField, submit } = useProfileForm();
+ */
+export const useProfileForm = (): UseProfileFormReturn => {
+    const profile = useAuthStore((s) => s.profile);
+    const updateProfile = useAccountStore((s) => s.updateProfile);
+    const isLoading = useAccountStore((s) => s.profileLoading);
+    const storeError = useAccountStore((s) => s.profileError);
+    const clearError = useAccountStore((s) => s.clearProfileError);
+
+    const [values, setValues] = useState<ProfileFormValues>(EMPTY_VALUES);
+    const [localError, setLocalError] = useState<string | null>(null);
+    const [isSaved, setIsSaved] = useState(false);
+
+    // Ne pas afficher l'erreur d'une visite precedente
+    useEffect(() => {
+        clearError();
+    }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+    // Pre-remplir des que le profil est charge (ou recharge apres enregistrement)
+    useEffect(() => {
+        if (profile) {
+            setValues({
+                firstName: profile.firstName,
+                lastName: profile.lastName,
+                phone: profile.phone ?? '',
+                currentPassword: '',
+            });
+        }
+    }, [profile]);
+
+    const setField = (field: keyof ProfileFormValues, value: string) => {
+        setValues((prev) => ({ ...prev, [field]: value }));
+        setLocalError(null);
+        setIsSaved(false);
+        if (storeError) clearError();
+    };
+
+    const validate = (): string | null => {
+        if (!isNotEmpty(values.firstName) || !isNotEmpty(values.lastName)) {
+            return 'Le prenom et le nom sont requis';
+        }
+        if (!isNotEmpty(values.currentPassword)) {
+            return 'Saisissez votre mot de passe actuel pour confirmer';
+        }
+        return null;
+    };
+
+    const submit = async (): Promise<boolean> => {
+        const validationError = validate();
+        if (validationError) {
+            setLocalError(validationError);
+            return false;
+        }
+
+        const success = await updateProfile({
+            firstName: values.firstName,
+            lastName: values.lastName,
+            phone: values.phone,
+            currentPassword: values.currentPassword,
+        });
+        setIsSaved(success);
+        return success;
+    };
+
+    // Priorite : erreur locale > erreur store
+    const error = localError || storeError;
+
+    return { values, error, isLoading, isSaved, isProfileLoaded: profile !== null, setField, submit };
+};
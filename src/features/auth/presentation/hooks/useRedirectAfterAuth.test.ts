@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { resolveRedirectTarget } from './useRedirectAfterAuth';
+
+// --- Tests ---
+
+describe('resolveRedirectTarget', () => {
+    it('utilise l URL preservee par PrivateRoute, avec query et hash', () => {
+        const state = { from: { pathname: '/users', search: '?page=2', hash: '#top' } };
+
+        expect(resolveRedirectTarget(state, '?redirect=/autre')).toBe('/users?page=2#top');
+    });
+
+    it('utilise le parametre ?redirect= sans location state', () => {
+        expect(resolveRedirectTarget(null, '?redirect=%2Fusers%3Fpage%3D2')).toBe('/users?page=2');
+    });
+
+    it('ignore les redirections externes', () => {
+        for (const redirect of ['https://evil.com', '//evil.com', '/\\evil.com', 'users']) {
+            const search = `?redirect=${encodeURIComponent(redirect)}`;
+            expect(resolveRedirectTarget(null, search)).toBe('/');
+        }
+    });
+
+    it('redirige vers l accueil par defaut', () => {
+        expect(resolveRedirectTarget(undefined, '')).toBe('/');
+    });
+});
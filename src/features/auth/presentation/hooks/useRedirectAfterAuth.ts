@@ -1,11 +1,47 @@
-import { useLocation, useNavigate } from 'react-router-dom';
+import { Location, useLocation, useNavigate } from 'react-router-dom';
+
+/**
+ * Raison de l'arrivee sur la page de login, si elle n'est pas volontaire
+ */
+export type LoginReason = 'expired' | 'idle';
+
+interface LoginLocationState {
+    from?: Pick<Location, 'pathname' | 'search' | 'hash'>;
+    reason?: LoginReason;
+}
+
+/**
+ * Determine l'URL de destination apres login :
+ * 1. location.state.from (PrivateRoute, navigation interne)
+ * 2. parametre ?redirect= (liens externes, anciens liens)
+ * Seuls les chemins internes sont acceptes pour eviter les redirections ouvertes.
+ */
+export const resolveRedirectTarget = (state: unknown, search: string): string => {
+    const from = (state as LoginLocationState | null)?.from;
+    if (from?.pathname) {
+        return `${from.pathname}${from.search ?? ''}${from.hash ?? ''}`;
+    }
+
+    const redirect = new URLSearchParams(search).get('redirect');
+    if (redirect && isInternalPath(redirect)) {
+        return redirect;
+    }
+
+    return '/';
+};
+
+// "/users" est interne, "//evil.com" ou "/\evil.com" sont interpretes comme des URL externes
+const isInternalPath = (path: string): boolean => {
+    return path.startsWith('/') && !path.startsWith('//') && !path.startsWith('/\\') && !path.startsWith('/login');
+};
 
 /**
  * Hook de presentation -- gere la redirection apres une authentification reussie.
- * Recupere l'URL de destination preservee par PrivateRoute via le location state.
+ * Recupere l'URL de destination preservee par PrivateRoute (location state)
+ * ou passee en parametre `?redirect=`.
  *
  * Usage :
- *   const { redirectAfterLogin } = useRedirectAfterAuth();
+ *   const { redirectAfterLogin, reason } = useRedirectAfterAuth();
  *   await login(...);
  *   redirectAfterLogin();
  */
@@ -13,12 +49,12 @@ export const useRedirectAfterAuth = () => {
     const navigate = useNavigate();
     const location = useLocation();
 
-    // PrivateRoute preserve l'URL d'origine dans location.state.from
-    const from = (location.state as { from?: { pathname: string } })?.from?.pathname || '/';
+    const from = resolveRedirectTarget(location.state, location.search);
+    const reason = (location.state as LoginLocationState | null)?.reason ?? null;
 
     const redirectAfterLogin = () => {
         navigate(from, { replace: true });
     };
 
-    return { redirectAfterLogin, from };
+    return { redirectAfterLogin, from, reason };
 };
@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react';
+import { useSelfServiceStore } from '../store/selfServiceStore';
+import { isNotEmpty, isValidEmail, isValidPassword, MIN_PASSWORD_LENGTH } from '../../../../core/utils/validators';
+
+export interface RegisterFormValues {
+    firstName: string;
+    lastName: string;
+    email: string;
+    password: string;
+    confirmPassword: string;
+}
+
+interface UseRegisterFormReturn {
+    values: RegisterFormValues;
+    error: string | null;
+    isLoading: boolean;
+    isSubmitted: boolean;
+    setField: (field: keyof RegisterFormValues, value: string) => void;
+    submit: () => Promise<boolean>;
+    reset: () => void;
+}
+
+const INITIAL_VALUES: RegisterFormValues = {
+    firstName: '',
+    lastName: '',
+    email: '',
+    password: '',
+    confirmPassword: '',
+};
+
+/**
+ * Hook de presentation -- encapsule la logique du formulaire d'inscription.
+ * Meme structure que useLoginForm : validation locale, appel store, aggregation des erreurs.
+ * `isSubmitted` passe a true apres une inscription reussie (ecran de confirmation).
+ *
+ * Usage :
+ *   const { values, error, isLoading, isSubmitted, setField, submit } = useRegisterForm();
+ */
+export const useRegisterForm = (): UseRegisterFormReturn => {
+    const register = useSelfServiceStore((s) => s.register);
+    const isLoading = useSelfServiceStore((s) => s.loading);
+    const storeError = useSelfServiceStore((s) => s.error);
+    const clearError = useSelfServiceStore((s) => s.clearError);
+
+    const [values, setValues] = useState<RegisterFormValues>(INITIAL_VALUES);
+    const [localError, setLocalError] = useState<string | null>(null);
+    const [isSubmitted, setIsSubmitted] = useState(false);
+
+    // Ne pas afficher l'erreur d'un autre parcours
+    useEffect(() => {
+        clearError();
+    }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+    const setField = (field: keyof RegisterFormValues, value: string) => {
+        setValues((prev) => ({ ...prev, [field]: value }));
+        setLocalError(null);
+        if (storeError) clearError();
+    };
+
+    const validate = (): string | null => {
+        if (!isNotEmpty(values.firstName) || !isNotEmpty(values.lastName)) {
+            return 'Le prenom et le nom sont requis';
+        }
+        if (!isValidEmail(values.email)) {
+            return "Format d'email invalide";
+        }
+        if (!isValidPassword(values.password)) {
+            return `Le mot de passe doit contenir au moins ${MIN_PASSWORD_LENGTH} caracteres`;
+        }
+        if (values.password !== values.confirmPassword) {
+            return 'Les mots de passe ne correspondent pas';
+        }
+        return null;
+    };
+
+    const submit = async (): Promise<boolean> => {
+        const validationError = validate();
+        if (validationError) {
+            setLocalError(validationError);
+            return false;
+        }
+
+        const success = await register({
+            firstName: values.firstName,
+            lastName: values.lastName,
+            email: values.email,
+            password: values.password,
+        });
+        setIsSubmitted(success);
+        return success;
+    };
+
+    const reset = () => {
+        setValues(INITIAL_VALUES);
+        setLocalError(null);
+        setIsSubmitted(false);
+        clearError();
+    };
+
+    // Priorite : erreur locale > erreur store
+    const error = localError || storeError;
+
+    return { values, error, isLoading, isSubmitted, setField, submit, reset };
+};
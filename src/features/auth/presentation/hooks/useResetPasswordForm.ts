@@ -0,0 +1,98 @@
+import { useEffect, useState } from 'react';
+import { useSelfServiceStore } from '../store/selfServiceStore';
+import { useCountdown } from '../../../../core/hooks/useCountdown';
+import { isValidPassword, MIN_PASSWORD_LENGTH } from '../../../../core/utils/validators';
+
+interface UseResetPasswordFormReturn {
+    password: string;
+    confirmPassword: string;
+    error: string | null;
+    isLoading: boolean;
+    isSubmitted: boolean;
+    isTokenRejected: boolean;
+    isTokenExpired: boolean;
+    lockoutSeconds: number;   // Attente restante apres un 429 (0 si aucune)
+    setPassword: (value: string) => void;
+    setConfirmPassword: (value: string) => void;
+    submit: () => Promise<boolean>;
+}
+
+// Codes renvoyes par la reinitialisation (AuthDataSource) quand le lien n'est plus utilisable
+const REJECTED_TOKEN_CODES = ['reset_token_expired', 'reset_token_invalid'];
+
+/**
+ * Hook de presentation -- formulaire de nouveau mot de passe (lien recu par email).
+ * `isTokenRejected` indique que le lien est expire ou invalide : le formulaire
+ * doit laisser place a une invitation a redemander un lien.
+ *
+ * Usage :
+ *   const { password, confirmPassword, isTokenRejected, submit } = useResetPasswordForm(token);
+ */
+export const useResetPasswordForm = (token: string): UseResetPasswordFormReturn => {
+    const resetPassword = useSelfServiceStore((s) => s.resetPassword);
+    const isLoading = useSelfServiceStore((s) => s.loading);
+    const storeError = useSelfServiceStore((s) => s.error);
+    const errorCode = useSelfServiceStore((s) => s.errorCode);
+    const clearError = useSelfServiceStore((s) => s.clearError);
+    const refreshLockout = useSelfServiceStore((s) => s.refreshLockout);
+    const lockedUntil = useSelfServiceStore((s) => s.lockedUntil);
+    const lockoutSeconds = useCountdown(lockedUntil);
+
+    const [password, setPasswordValue] = useState('');
+    const [confirmPassword, setConfirmPasswordValue] = useState('');
+    const [localError, setLocalError] = useState<string | null>(null);
+    const [isSubmitted, setIsSubmitted] = useState(false);
+
+    // Ne pas afficher l'erreur d'un autre parcours, reprendre une attente en cours
+    useEffect(() => {
+        clearError();
+        refreshLockout();
+    }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+    const setPassword = (value: string) => {
+        setPasswordValue(value);
+        setLocalError(null);
+    };
+
+    const setConfirmPassword = (value: string) => {
+        setConfirmPasswordValue(value);
+        setLocalError(null);
+    };
+
+    const submit = async (): Promise<boolean> => {
+        if (!isValidPassword(password)) {
+            setLocalError(`Le mot de passe doit contenir au moins ${MIN_PASSWORD_LENGTH} caracteres`);
+            return false;
+        }
+        if (password !== confirmPassword) {
+            setLocalError('Les mots de passe ne correspondent pas');
+            return false;
+        }
+        if (lockoutSeconds > 0) {
+            return false;
+        }
+
+        const success = await resetPassword({ token, password });
+        setIsSubmitted(success);
+        return success;
+    };
+
+    const isTokenRejected = errorCode !== null && REJECTED_TOKEN_CODES.includes(errorCode);
+
+    // Priorite : erreur locale > erreur store
+    const error = localError || storeError;
+
+    return {
+        password,
+        confirmPassword,
+        error,
+        isLoading,
+        isSubmitted,
+        isTokenRejected,
+        isTokenExpired: errorCode === 'reset_token_expired',
+        lockoutSeconds,
+        setPassword,
+        setConfirmPassword,
+        submit,
+    };
+};
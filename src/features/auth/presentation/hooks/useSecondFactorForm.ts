@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { useAuth } from '../../../../core/hooks/useAuth';
+import { useCountdown } from '../../../../core/hooks/useCountdown';
+import { SecondFactorMethod } from '../../../../core/types/AuthTypes';
+
+interface UseSecondFactorFormReturn {
+    code: string;
+    method: SecondFactorMethod;
+    canUseRecoveryCode: boolean;
+    error: string | null;
+    isLoading: boolean;
+    lockoutSeconds: number;   // Attente restante avant un nouvel essai (0 si aucune)
+    setCode: (value: string) => void;
+    toggleMethod: () => void;
+    submit: () => Promise<boolean>;
+    cancel: () => void;
+}
+
+/**
+ * Hook de presentation -- seconde etape du login (code TOTP ou code de recuperation).
+ * A utiliser quand `pendingSecondFactor` est renseigne dans authStore.
+ *
+ * Retourne `true` si la session est ouverte, `false` sinon.
+ *
+ * Usage :
+ *   const { code, method, setCode, toggleMethod, submit, cancel } = useSecondFactorForm();
+ */
+export const useSecondFactorForm = (): UseSecondFactorFormReturn => {
+    const { verifySecondFactor, cancelSecondFactor, pendingSecondFactor, isLoading, lockedUntil, error: authError, clearError } = useAuth();
+    const lockoutSeconds = useCountdown(lockedUntil);
+
+    const [code, setCodeValue] = useState('');
+    const [method, setMethod] = useState<SecondFactorMethod>('totp');
+    const [localError, setLocalError] = useState<string | null>(null);
+
+    const setCode = (value: string) => {
+        // Code TOTP : chiffres uniquement, 6 au maximum
+        setCodeValue(method === 'totp' ? value.replace(/\D/g, '').slice(0, 6) : value);
+        setLocalError(null);
+        if (authError) clearError();
+    };
+
+    const toggleMethod = () => {
+        setMethod((prev) => (prev === 'totp' ? 'recovery_code' : 'totp'));
+        setCodeValue('');
+        setLocalError(null);
+        if (authError) clearError();
+    };
+
+    const submit = async (): Promise<boolean> => {
+        if (lockoutSeconds > 0) {
+            return false;
+        }
+        if (method === 'totp' && code.length !== 6) {
+            setLocalError('Le code doit contenir 6 chiffres');
+            return false;
+        }
+        if (method === 'recovery_code' && !code.trim()) {
+            setLocalError('Le code de recuperation est requis');
+            return false;
+        }
+
+        const result = await verifySecondFactor(code, method);
+        return result.isRight();
+    };
+
+    // Priorite : erreur locale > erreur store
+    const error = localError || authError;
+
+    return {
+        code,
+        method,
+        canUseRecoveryCode: pendingSecondFactor?.methods.includes('recovery_code') ?? false,
+        error,
+        isLoading,
+        lockoutSeconds,
+        setCode,
+        toggleMethod,
+        submit,
+        cancel: cancelSecondFactor,
+    };
+};
@@ -0,0 +1,61 @@
+import { useEffect, useState } from 'react';
+import { useTwoFactorStore } from '../store/twoFactorStore';
+import { TwoFactorEnrollment } from '../../domain/types/AuthDomainTypes';
+
+interface UseTwoFactorEnrollmentReturn {
+    enrollment: TwoFactorEnrollment | null;
+    recoveryCodes: string[] | null;
+    code: string;
+    error: string | null;
+    isLoading: boolean;
+    setCode: (value: string) => void;
+    start: () => Promise<void>;
+    confirm: () => Promise<boolean>;
+}
+
+/**
+ * Hook de presentation -- enrolement TOTP : demarrage, saisie du premier code, codes de recuperation.
+ * L'etat est remis a zero en quittant la page (les codes de recuperation ne doivent pas persister).
+ *
+ * Usage :
+ *   const { enrollment, recoveryCodes, code, setCode, start, confirm } = useTwoFactorEnrollment();
+ */
+export const useTwoFactorEnrollment = (): UseTwoFactorEnrollmentReturn => {
+    const enrollment = useTwoFactorStore((s) => s.enrollment);
+    const recoveryCodes = useTwoFactorStore((s) => s.recoveryCodes);
+    const isLoading = useTwoFactorStore((s) => s.loading);
+    const storeError = useTwoFactorStore((s) => s.error);
+    const startEnrollment = useTwoFactorStore((s) => s.startEnrollment);
+    const confirmEnrollment = useTwoFactorStore((s) => s.confirmEnrollment);
+    const clearError = useTwoFactorStore((s) => s.clearError);
+    const resetEnrollment = useTwoFactorStore((s) => s.resetEnrollment);
+
+    const [code, setCodeValue] = useState('');
+    const [localError, setLocalError] = useState<string | null>(null);
+
+    useEffect(() => resetEnrollment, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+    const setCode = (value: string) => {
+        setCodeValue(value.replace(/\D/g, '').slice(0, 6));
+        setLocalError(null);
+        if (storeError) clearError();
+    };
+
+    const confirm = async (): Promise<boolean> => {
+        if (code.length !== 6) {
+            setLocalError('Le code doit contenir 6 chiffres');
+            return false;
+        }
+
+        const success = await confirmEnrollment(code);
+        if (success) {
+            setCodeValue('');
+        }
+        return success;
+    };
+
+    // Priorite : erreur locale > erreur store
+    const error = localError || storeError;
+
+    return { enrollment, recoveryCodes, code, error, isLoading, setCode, start: startEnrollment, confirm };
+};
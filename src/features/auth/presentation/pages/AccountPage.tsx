@@ -0,0 +1,151 @@
+import { Button, Card, CardContent, CardHeader, Spinner } from '@heroui/react';
+import { useAuth } from '../../../../core/hooks/useAuth';
+import { useProfileForm } from '../hooks/useProfileForm';
+import { useChangePasswordForm } from '../hooks/useChangePasswordForm';
+import AuthFormField from '../components/AuthFormField';
+
+const ErrorMessage = ({ message }: { message: string }) => (
+    <div className="bg-red-50 text-red-700 border border-red-200 rounded-lg px-4 py-3 text-sm">
+        {message}
+    </div>
+);
+
+const SuccessMessage = ({ message }: { message: string }) => (
+    <div className="bg-green-50 text-green-700 border border-green-200 rounded-lg px-4 py-3 text-sm">
+        {message}
+    </div>
+);
+
+const AccountPage = () => {
+    const { user, profile } = useAuth();
+    const profileForm = useProfileForm();
+    const passwordForm = useChangePasswordForm();
+
+    const handleProfileSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        await profileForm.submit();
+    };
+
+    const handlePasswordSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        await passwordForm.submit();
+    };
+
+    return (
+        <div className="max-w-xl mx-auto px-4 py-8 flex flex-col gap-6">
+            <div>
+                <h1 className="text-3xl font-bold mb-1">Mon compte</h1>
+                <p className="text-secondary">{profile?.email ?? user?.email}</p>
+            </div>
+
+            {/* Informations personnelles */}
+            <Card className="shadow-sm">
+                <CardHeader>
+                    <h2 className="text-lg font-semibold">Informations personnelles</h2>
+                </CardHeader>
+                <CardContent className="flex flex-col gap-4">
+                    {!profileForm.isProfileLoaded ? (
+                        <div className="flex justify-center py-6">
+                            <Spinner />
+                        </div>
+                    ) : (
+                        <>
+                            {profileForm.error && <ErrorMessage message={profileForm.error} />}
+                            {profileForm.isSaved && <SuccessMessage message="Vos informations ont ete enregistrees" />}
+
+                            <form onSubmit={handleProfileSubmit} noValidate className="flex flex-col gap-4">
+                                <div className="grid grid-cols-2 gap-3">
+                                    <AuthFormField
+                                        id="firstName"
+                                        label="Prenom"
+                                        value={profileForm.values.firstName}
+                                        onChange={(v) => profileForm.setField('firstName', v)}
+                                        autoComplete="given-name"
+                                        disabled={profileForm.isLoading}
+                                    />
+                                    <AuthFormField
+                                        id="lastName"
+                                        label="Nom"
+                                        value={profileForm.values.lastName}
+                                        onChange={(v) => profileForm.setField('lastName', v)}
+                                        autoComplete="family-name"
+                                        disabled={profileForm.isLoading}
+                                    />
+                                </div>
+                                <AuthFormField
+                                    id="phone"
+                                    label="Telephone"
+                                    type="tel"
+                                    value={profileForm.values.phone}
+                                    onChange={(v) => profileForm.setField('phone', v)}
+                                    autoComplete="tel"
+                                    disabled={profileForm.isLoading}
+                                />
+                                <AuthFormField
+                                    id="profileCurrentPassword"
+                                    label="Mot de passe actuel"
+                                    type="password"
+                                    value={profileForm.values.currentPassword}
+                                    onChange={(v) => profileForm.setField('currentPassword', v)}
+                                    autoComplete="current-password"
+                                    disabled={profileForm.isLoading}
+                                />
+
+                                <Button type="submit" variant="primary" isDisabled={profileForm.isLoading}>
+                                    {profileForm.isLoading ? <Spinner size="sm" /> : 'Enregistrer'}
+                                </Button>
+                            </form>
+                        </>
+                    )}
+                </CardContent>
+            </Card>
+
+            {/* Mot de passe */}
+            <Card className="shadow-sm">
+                <CardHeader>
+                    <h2 className="text-lg font-semibold">Mot de passe</h2>
+                </CardHeader>
+                <CardContent className="flex flex-col gap-4">
+                    {passwordForm.error && <ErrorMessage message={passwordForm.error} />}
+                    {passwordForm.isChanged && <SuccessMessage message="Votre mot de passe a ete modifie" />}
+
+                    <form onSubmit={handlePasswordSubmit} noValidate className="flex flex-col gap-4">
+                        <AuthFormField
+                            id="currentPassword"
+                            label="Mot de passe actuel"
+                            type="password"
+                            value={passwordForm.values.currentPassword}
+                            onChange={(v) => passwordForm.setField('currentPassword', v)}
+                            autoComplete="current-password"
+                            disabled={passwordForm.isLoading}
+                        />
+                        <AuthFormField
+                            id="newPassword"
+                            label="Nouveau mot de passe"
+                            type="password"
+                            value={passwordForm.values.newPassword}
+                            onChange={(v) => passwordForm.setField('newPassword', v)}
+                            autoComplete="new-password"
+                            disabled={passwordForm.isLoading}
+                        />
+                        <AuthFormField
+                            id="confirmNewPassword"
+                            label="Confirmer le nouveau mot de passe"
+                            type="password"
+                            value={passwordForm.values.confirmPassword}
+                            onChange={(v) => passwordForm.setField('confirmPassword', v)}
+                            autoComplete="new-password"
+                            disabled={passwordForm.isLoading}
+                        />
+
+                        <Button type="submit" variant="primary" isDisabled={passwordForm.isLoading}>
+                            {passwordForm.isLoading ? <Spinner size="sm" /> : 'Changer le mot de passe'}
+                        </Button>
+                    </form>
+                </CardContent>
+            </Card>
+        </div>
+    );
+};
+
+export default AccountPage;
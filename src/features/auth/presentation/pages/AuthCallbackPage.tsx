@@ -0,0 +1,36 @@
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardHeader, Spinner } from '@heroui/react';
+import { useAuthCallback } from '../hooks/useAuthCallback';
+
+const AuthCallbackPage = () => {
+    const { error, isLoading } = useAuthCallback();
+
+    return (
+        <div className="min-h-screen flex items-center justify-center page-bg">
+            <Card className="w-full max-w-sm shadow-lg">
+                <CardHeader className="flex flex-col items-center pt-8 pb-2">
+                    <h1 className="text-2xl font-bold">Connexion</h1>
+                </CardHeader>
+                <CardContent className="flex flex-col items-center gap-4 pb-8">
+                    {isLoading ? (
+                        <>
+                            <Spinner size="lg" />
+                            <p className="text-secondary text-sm">Connexion en cours...</p>
+                        </>
+                    ) : (
+                        <>
+                            <div className="w-full bg-red-50 text-red-700 border border-red-200 rounded-lg px-4 py-3 text-sm">
+                                {error || 'La connexion a echoue.'}
+                            </div>
+                            <Link to="/login" className="text-sm font-medium text-[rgb(var(--brand))] hover:underline">
+                                Retour a la connexion
+                            </Link>
+                        </>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+};
+
+export default AuthCallbackPage;
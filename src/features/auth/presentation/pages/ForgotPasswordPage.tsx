@@ -0,0 +1,71 @@
+import { Link } from 'react-router-dom';
+import { Button, Card, CardContent, CardHeader, Spinner } from '@heroui/react';
+import { useForgotPasswordForm } from '../hooks/useForgotPasswordForm';
+import AuthFormField from '../components/AuthFormField';
+import { formatCountdown } from '../../../../core/hooks/useCountdown';
+
+const ForgotPasswordPage = () => {
+    const { email, error, isLoading, isSubmitted, lockoutSeconds, setEmail, submit } = useForgotPasswordForm();
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        await submit();
+    };
+
+    return (
+        <div className="min-h-screen flex items-center justify-center page-bg">
+            <Card className="w-full max-w-sm shadow-lg">
+                <CardHeader className="flex flex-col items-center pt-8 pb-2">
+                    <h1 className="text-2xl font-bold">Mot de passe oublie</h1>
+                </CardHeader>
+                <CardContent className="flex flex-col gap-4 pb-8">
+                    {isSubmitted ? (
+                        <p className="text-secondary text-sm text-center">
+                            Si un compte existe pour <span className="font-medium text-primary">{email}</span>,
+                            un email contenant un lien de reinitialisation vient d'etre envoye.
+                        </p>
+                    ) : (
+                        <>
+                            <p className="text-secondary text-sm">
+                                Saisissez votre email, nous vous enverrons un lien pour choisir un nouveau mot de passe.
+                            </p>
+
+                            {error && (
+                                <div className="bg-red-50 text-red-700 border border-red-200 rounded-lg px-4 py-3 text-sm">
+                                    {error}
+                                </div>
+                            )}
+
+                            <form onSubmit={handleSubmit} noValidate className="flex flex-col gap-4">
+                                <AuthFormField
+                                    id="email"
+                                    label="Email"
+                                    type="email"
+                                    value={email}
+                                    onChange={setEmail}
+                                    autoComplete="email"
+                                    autoFocus
+                                    disabled={isLoading}
+                                />
+
+                                <Button type="submit" variant="primary" fullWidth isDisabled={isLoading || lockoutSeconds > 0}>
+                                    {isLoading
+                                        ? <Spinner size="sm" />
+                                        : lockoutSeconds > 0
+                                            ? <span aria-live="polite">Reessayer dans {formatCountdown(lockoutSeconds)}</span>
+                                            : 'Envoyer le lien'}
+                                </Button>
+                            </form>
+                        </>
+                    )}
+
+                    <Link to="/login" className="text-sm font-medium text-center text-[rgb(var(--brand))] hover:underline">
+                        Retour a la connexion
+                    </Link>
+                </CardContent>
+            </Card>
+        </div>
+    );
+};
+
+export default ForgotPasswordPage;
@@ -1,10 +1,24 @@
+import { Link } from 'react-router-dom';
 import { Button, Card, CardContent, CardHeader, InputGroup, Spinner } from '@heroui/react';
 import { useLoginForm } from '../hooks/useLoginForm';
-import { useRedirectAfterAuth } from '../hooks/useRedirectAfterAuth';
+import { LoginReason, useRedirectAfterAuth } from '../hooks/useRedirectAfterAuth';
+import { useExternalLogin } from '../hooks/useExternalLogin';
+import SecondFactorStep from '../components/SecondFactorStep';
+import { formatCountdown } from '../../../../core/hooks/useCountdown';
+import ErrorReference from '../../../../core/components/ErrorReference';
+import { useFeature } from '../../../../core/hooks/useAppConfig';
+
+const REASON_MESSAGES: Record<LoginReason, string> = {
+    expired: 'Votre session a expire, veuillez vous reconnecter.',
+    idle: 'Vous avez ete deconnecte apres une periode d\'inactivite.',
+};
 
 const LoginPage = () => {
-    const { email, password, error, isLoading, setEmail, setPassword, submit } = useLoginForm();
-    const { redirectAfterLogin } = useRedirectAfterAuth();
+    const { email, password, error, errorReference, isLoading, isAwaitingSecondFactor, lockoutSeconds, setEmail, setPassword, submit } = useLoginForm();
+    const { redirectAfterLogin, from, reason } = useRedirectAfterAuth();
+    const { providers, signIn } = useExternalLogin(from);
+    const canRegister = useFeature('registration');
+    const canResetPassword = useFeature('passwordReset');
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -18,54 +32,106 @@ const LoginPage = () => {
         <div className="min-h-screen flex items-center justify-center page-bg">
             <Card className="w-full max-w-sm shadow-lg">
                 <CardHeader className="flex flex-col items-center pt-8 pb-2">
-                    <h1 className="text-2xl font-bold">Connexion</h1>
+                    <h1 className="text-2xl font-bold">
+                        {isAwaitingSecondFactor ? 'Verification en deux etapes' : 'Connexion'}
+                    </h1>
                 </CardHeader>
                 <CardContent className="flex flex-col gap-4 pb-8">
-                    {error && (
-                        <div className="bg-red-50 text-red-700 border border-red-200 rounded-lg px-4 py-3 text-sm">
-                            {error}
-                        </div>
-                    )}
+                    {isAwaitingSecondFactor ? (
+                        <SecondFactorStep onSuccess={redirectAfterLogin} />
+                    ) : (
+                        <>
+                            {reason && !error && (
+                                <div className="bg-amber-50 text-amber-800 border border-amber-200 rounded-lg px-4 py-3 text-sm" role="status">
+                                    {REASON_MESSAGES[reason]}
+                                </div>
+                            )}
+
+                            {error && (
+                                <div className="bg-red-50 text-red-700 border border-red-200 rounded-lg px-4 py-3 text-sm">
+                                    {error}
+                                    <ErrorReference reference={errorReference} />
+                                </div>
+                            )}
 
-                    <form onSubmit={handleSubmit} noValidate className="flex flex-col gap-4">
-                        <div className="flex flex-col gap-1">
-                            <label className="text-sm font-medium" htmlFor="email">Email</label>
-                            <InputGroup fullWidth>
-                                <InputGroup.Input
-                                    id="email"
-                                    type="email"
-                                    value={email}
-                                    onChange={(e) => setEmail(e.target.value)}
-                                    autoComplete="email"
-                                    autoFocus
-                                    disabled={isLoading}
-                                />
-                            </InputGroup>
-                        </div>
+                            <form onSubmit={handleSubmit} noValidate className="flex flex-col gap-4">
+                                <div className="flex flex-col gap-1">
+                                    <label className="text-sm font-medium" htmlFor="email">Email</label>
+                                    <InputGroup fullWidth>
+                                        <InputGroup.Input
+                                            id="email"
+                                            type="email"
+                                            value={email}
+                                            onChange={(e) => setEmail(e.target.value)}
+                                            autoComplete="email"
+                                            autoFocus
+                                            disabled={isLoading}
+                                        />
+                                    </InputGroup>
+                                </div>
 
-                        <div className="flex flex-col gap-1">
-                            <label className="text-sm font-medium" htmlFor="password">Mot de passe</label>
-                            <InputGroup fullWidth>
-                                <InputGroup.Input
-                                    id="password"
-                                    type="password"
-                                    value={password}
-                                    onChange={(e) => setPassword(e.target.value)}
-                                    autoComplete="current-password"
-                                    disabled={isLoading}
-                                />
-                            </InputGroup>
-                        </div>
+                                <div className="flex flex-col gap-1">
+                                    <div className="flex items-center justify-between">
+                                        <label className="text-sm font-medium" htmlFor="password">Mot de passe</label>
+                                        {canResetPassword && (
+                                            <Link to="/forgot-password" className="text-xs font-medium text-[rgb(var(--brand))] hover:underline">
+                                                Mot de passe oublie ?
+                                            </Link>
+                                        )}
+                                    </div>
+                                    <InputGroup fullWidth>
+                                        <InputGroup.Input
+                                            id="password"
+                                            type="password"
+                                            value={password}
+                                            onChange={(e) => setPassword(e.target.value)}
+                                            autoComplete="current-password"
+                                            disabled={isLoading}
+                                        />
+                                    </InputGroup>
+                                </div>
 
-                        <Button
-                            type="submit"
-                            variant="primary"
-                            fullWidth
-                            isDisabled={isLoading}
-                        >
-                            {isLoading ? <Spinner size="sm" /> : 'Se connecter'}
-                        </Button>
-                    </form>
+                                <Button
+                                    type="submit"
+                                    variant="primary"
+                                    fullWidth
+                                    isDisabled={isLoading || lockoutSeconds > 0}
+                                >
+                                    {isLoading
+                                        ? <Spinner size="sm" />
+                                        : lockoutSeconds > 0
+                                            ? <span aria-live="polite">Reessayer dans {formatCountdown(lockoutSeconds)}</span>
+                                            : 'Se connecter'}
+                                </Button>
+                            </form>
+
+                            {providers.length > 0 && (
+                                <div className="flex flex-col gap-2">
+                                    <p className="text-xs text-secondary text-center">ou</p>
+                                    {providers.map((provider) => (
+                                        <Button
+                                            key={provider.id}
+                                            variant="outline"
+                                            fullWidth
+                                            isDisabled={isLoading}
+                                            onPress={() => signIn(provider.id)}
+                                        >
+                                            Se connecter avec {provider.label}
+                                        </Button>
+                                    ))}
+                                </div>
+                            )}
+
+                            {canRegister && (
+                                <p className="text-sm text-secondary text-center">
+                                    Pas encore de compte ?{' '}
+                                    <Link to="/register" className="font-medium text-[rgb(var(--brand))] hover:underline">
+                                        Creer un compte
+                                    </Link>
+                                </p>
+                            )}
+                        </>
+                    )}
                 </CardContent>
             </Card>
         </div>
@@ -0,0 +1,105 @@
+import { Link } from 'react-router-dom';
+import { Button, Card, CardContent, CardHeader, Spinner } from '@heroui/react';
+import { useRegisterForm } from '../hooks/useRegisterForm';
+import AuthFormField from '../components/AuthFormField';
+
+const RegisterPage = () => {
+    const { values, error, isLoading, isSubmitted, setField, submit } = useRegisterForm();
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        await submit();
+    };
+
+    return (
+        <div className="min-h-screen flex items-center justify-center page-bg">
+            <Card className="w-full max-w-sm shadow-lg">
+                <CardHeader className="flex flex-col items-center pt-8 pb-2">
+                    <h1 className="text-2xl font-bold">
+                        {isSubmitted ? 'Compte cree' : 'Creer un compte'}
+                    </h1>
+                </CardHeader>
+                <CardContent className="flex flex-col gap-4 pb-8">
+                    {isSubmitted ? (
+                        <>
+                            <p className="text-secondary text-sm text-center">
+                                Votre compte <span className="font-medium text-primary">{values.email}</span> a
+                                ete cree. Vous pouvez maintenant vous connecter.
+                            </p>
+                            <Link to="/login" className="text-sm font-medium text-center text-[rgb(var(--brand))] hover:underline">
+                                Aller a la connexion
+                            </Link>
+                        </>
+                    ) : (
+                        <>
+                            {error && (
+                                <div className="bg-red-50 text-red-700 border border-red-200 rounded-lg px-4 py-3 text-sm">
+                                    {error}
+                                </div>
+                            )}
+
+                            <form onSubmit={handleSubmit} noValidate className="flex flex-col gap-4">
+                                <div className="grid grid-cols-2 gap-3">
+                                    <AuthFormField
+                                        id="firstName"
+                                        label="Prenom"
+                                        value={values.firstName}
+                                        onChange={(v) => setField('firstName', v)}
+                                        autoComplete="given-name"
+                                        autoFocus
+                                        disabled={isLoading}
+                                    />
+                                    <AuthFormField
+                                        id="lastName"
+                                        label="Nom"
+                                        value={values.lastName}
+                                        onChange={(v) => setField('lastName', v)}
+                                        autoComplete="family-name"
+                                        disabled={isLoading}
+                                    />
+                                </div>
+                                <AuthFormField
+                                    id="email"
+                                    label="Email"
+                                    type="email"
+                                    value={values.email}
+                                    onChange={(v) => setField('email', v)}
+                                    autoComplete="email"
+                                    disabled={isLoading}
+                                />
+                                <AuthFormField
+                                    id="password"
+                                    label="Mot de passe"
+                                    type="password"
+                                    value={values.password}
+                                    onChange={(v) => setField('password', v)}
+                                    autoComplete="new-password"
+                                    disabled={isLoading}
+                                />
+                                <AuthFormField
+                                    id="confirmPassword"
+                                    label="Confirmer le mot de passe"
+                                    type="password"
+                                    value={values.confirmPassword}
+                                    onChange={(v) => setField('confirmPassword', v)}
+                                    autoComplete="new-password"
+                                    disabled={isLoading}
+                                />
+
+                                <Button type="submit" variant="primary" fullWidth isDisabled={isLoading}>
+                                    {isLoading ? <Spinner size="sm" /> : 'Creer mon compte'}
+                                </Button>
+                            </form>
+
+                            <p className="text-sm text-secondary text-center">
+                                Deja un compte ? <Link to="/login" className="font-medium text-[rgb(var(--brand))] hover:underline">Se connecter</Link>
+                            </p>
+                        </>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+};
+
+export default RegisterPage;
@@ -0,0 +1,116 @@
+import { Link, useParams } from 'react-router-dom';
+import { Button, Card, CardContent, CardHeader, Spinner } from '@heroui/react';
+import { useResetPasswordForm } from '../hooks/useResetPasswordForm';
+import AuthFormField from '../components/AuthFormField';
+import { formatCountdown } from '../../../../core/hooks/useCountdown';
+
+const linkClass = 'text-sm font-medium text-center text-[rgb(var(--brand))] hover:underline';
+
+const ResetPasswordPage = () => {
+    const { token = '' } = useParams<{ token: string }>();
+    const {
+        password,
+        confirmPassword,
+        error,
+        isLoading,
+        isSubmitted,
+        isTokenRejected,
+        isTokenExpired,
+        lockoutSeconds,
+        setPassword,
+        setConfirmPassword,
+        submit,
+    } = useResetPasswordForm(token);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        await submit();
+    };
+
+    const renderContent = () => {
+        // Lien expire ou invalide : inutile de ressaisir un mot de passe
+        if (isTokenRejected) {
+            return (
+                <>
+                    <p className="text-secondary text-sm text-center">
+                        {isTokenExpired
+                            ? 'Ce lien de reinitialisation a expire.'
+                            : 'Ce lien de reinitialisation est invalide ou a deja ete utilise.'}
+                        {' '}Demandez un nouveau lien pour choisir votre mot de passe.
+                    </p>
+                    <Link to="/forgot-password" className={linkClass}>
+                        Demander un nouveau lien
+                    </Link>
+                </>
+            );
+        }
+
+        if (isSubmitted) {
+            return (
+                <>
+                    <p className="text-secondary text-sm text-center">
+                        Votre mot de passe a ete modifie. Vous pouvez vous connecter avec vos nouveaux identifiants.
+                    </p>
+                    <Link to="/login" className={linkClass}>
+                        Aller a la connexion
+                    </Link>
+                </>
+            );
+        }
+
+        return (
+            <>
+                {error && (
+                    <div className="bg-red-50 text-red-700 border border-red-200 rounded-lg px-4 py-3 text-sm">
+                        {error}
+                    </div>
+                )}
+
+                <form onSubmit={handleSubmit} noValidate className="flex flex-col gap-4">
+                    <AuthFormField
+                        id="password"
+                        label="Nouveau mot de passe"
+                        type="password"
+                        value={password}
+                        onChange={setPassword}
+                        autoComplete="new-password"
+                        autoFocus
+                        disabled={isLoading}
+                    />
+                    <AuthFormField
+                        id="confirmPassword"
+                        label="Confirmer le mot de passe"
+                        type="password"
+                        value={confirmPassword}
+                        onChange={setConfirmPassword}
+                        autoComplete="new-password"
+                        disabled={isLoading}
+                    />
+
+                    <Button type="submit" variant="primary" fullWidth isDisabled={isLoading || lockoutSeconds > 0}>
+                        {isLoading
+                            ? <Spinner size="sm" />
+                            : lockoutSeconds > 0
+                                ? <span aria-live="polite">Reessayer dans {formatCountdown(lockoutSeconds)}</span>
+                                : 'Changer le mot de passe'}
+                    </Button>
+                </form>
+            </>
+        );
+    };
+
+    return (
+        <div className="min-h-screen flex items-center justify-center page-bg">
+            <Card className="w-full max-w-sm shadow-lg">
+                <CardHeader className="flex flex-col items-center pt-8 pb-2">
+                    <h1 className="text-2xl font-bold">Nouveau mot de passe</h1>
+                </CardHeader>
+                <CardContent className="flex flex-col gap-4 pb-8">
+                    {renderContent()}
+                </CardContent>
+            </Card>
+        </div>
+    );
+};
+
+export default ResetPasswordPage;
@@ -0,0 +1,112 @@
+import { Button, Card, CardContent, Spinner } from '@heroui/react';
+import { useTwoFactorEnrollment } from '../hooks/useTwoFactorEnrollment';
+import AuthFormField from '../components/AuthFormField';
+
+const TwoFactorEnrollmentPage = () => {
+    const { enrollment, recoveryCodes, code, error, isLoading, setCode, start, confirm } = useTwoFactorEnrollment();
+
+    const handleConfirm = async (e: React.FormEvent) => {
+        e.preventDefault();
+        await confirm();
+    };
+
+    const renderStep = () => {
+        // Etape 3 : double authentification activee, codes de recuperation affiches une seule fois
+        if (recoveryCodes) {
+            return (
+                <>
+                    <p className="text-secondary text-sm">
+                        La double authentification est activee. Conservez ces codes de recuperation en lieu sur :
+                        ils permettent de vous connecter si vous perdez l'acces a votre application.
+                    </p>
+                    <ul className="grid grid-cols-2 gap-2 font-mono text-sm">
+                        {recoveryCodes.map((recoveryCode) => (
+                            <li key={recoveryCode} className="surface-bg border border-base rounded-md px-3 py-1.5 text-center">
+                                {recoveryCode}
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            );
+        }
+
+        // Etape 2 : scanner le QR code puis saisir un premier code
+        if (enrollment) {
+            return (
+                <>
+                    <p className="text-secondary text-sm">
+                        Scannez ce QR code avec votre application d'authentification
+                        (Google Authenticator, 1Password, Authy...), puis saisissez le code affiche.
+                    </p>
+                    {enrollment.qrCodeDataUrl && (
+                        <img
+                            src={enrollment.qrCodeDataUrl}
+                            alt="QR code d'activation de la double authentification"
+                            className="w-48 h-48 self-center bg-white p-2 rounded-md"
+                        />
+                    )}
+                    <div className="flex flex-col gap-1 text-sm">
+                        <span className="text-secondary">Saisie manuelle de la cle :</span>
+                        <code className="font-mono break-all surface-bg border border-base rounded-md px-3 py-1.5">
+                            {enrollment.secret}
+                        </code>
+                        <a href={enrollment.otpauthUrl} className="text-xs font-medium text-[rgb(var(--brand))] hover:underline">
+                            Ouvrir dans l'application d'authentification
+                        </a>
+                    </div>
+
+                    <form onSubmit={handleConfirm} noValidate className="flex flex-col gap-4">
+                        <AuthFormField
+                            id="enrollmentCode"
+                            label="Code de verification"
+                            value={code}
+                            onChange={setCode}
+                            autoComplete="one-time-code"
+                            autoFocus
+                            disabled={isLoading}
+                        />
+                        <Button type="submit" variant="primary" isDisabled={isLoading}>
+                            {isLoading ? <Spinner size="sm" /> : 'Activer'}
+                        </Button>
+                    </form>
+                </>
+            );
+        }
+
+        // Etape 1 : presentation
+        return (
+            <>
+                <p className="text-secondary text-sm">
+                    La double authentification ajoute un code temporaire, genere par une application
+                    sur votre telephone, a votre mot de passe lors de la connexion.
+                </p>
+                <Button variant="primary" onPress={start} isDisabled={isLoading}>
+                    {isLoading ? <Spinner size="sm" /> : 'Configurer la double authentification'}
+                </Button>
+            </>
+        );
+    };
+
+    return (
+        <div className="max-w-xl mx-auto px-4 py-8">
+            <div className="mb-8">
+                <h1 className="text-3xl font-bold mb-1">Double authentification</h1>
+                <p className="text-secondary">Protegez votre compte avec un code a usage unique (TOTP)</p>
+            </div>
+
+            {error && (
+                <div className="bg-red-50 text-red-700 border border-red-200 rounded-lg px-4 py-3 text-sm mb-4">
+                    {error}
+                </div>
+            )}
+
+            <Card className="shadow-sm">
+                <CardContent className="flex flex-col gap-4 pt-4">
+                    {renderStep()}
+                </CardContent>
+            </Card>
+        </div>
+    );
+};
+
+export default TwoFactorEnrollmentPage;
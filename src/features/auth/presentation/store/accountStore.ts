@@ -0,0 +1,75 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import { useAuthStore } from '../../../../core/store/authStore';
+import { AccountUseCase } from '../../domain/usecases/AccountUseCase';
+import { AccountRepository } from '../../data/repositories/AccountRepository';
+import { AccountDataSource } from '../../data/datasources/AccountDataSource';
+import { ChangePasswordData, UpdateProfileData } from '../../domain/types/AuthDomainTypes';
+
+// Initialisation de la chaîne de dépendances Clean Architecture
+const repository = new AccountRepository(new AccountDataSource());
+const useCase = new AccountUseCase(repository);
+
+// Définition du state
+interface AccountState {
+    // State : un indicateur et une erreur par formulaire de la page Mon compte
+    profileLoading: boolean;
+    profileError: string | null;
+    passwordLoading: boolean;
+    passwordError: string | null;
+
+    // Actions (retournent true en cas de succès)
+    updateProfile: (data: UpdateProfileData) => Promise<boolean>;
+    changePassword: (data: ChangePasswordData) => Promise<boolean>;
+
+    // Actions synchrones
+    clearProfileError: () => void;
+    clearPasswordError: () => void;
+}
+
+/**
+ * Compte de l'utilisateur connecté : profil et mot de passe, confirmés par le mot de passe actuel
+ */
+export const useAccountStore = create<AccountState>()(
+    devtools(
+        (set) => ({
+            profileLoading: false,
+            profileError: null,
+            passwordLoading: false,
+            passwordError: null,
+
+            // Mise à jour du profil : le profil renvoyé par l'API remplace celui de la session
+            updateProfile: async (data) => {
+                set({ profileLoading: true, profileError: null }, false, 'account/updateProfile/pending');
+                const result = await useCase.updateProfile(data);
+
+                if (result.isLeft()) {
+                    set({ profileLoading: false, profileError: result.value.message }, false, 'account/updateProfile/rejected');
+                    return false;
+                }
+
+                useAuthStore.getState().setProfile(result.value);
+                set({ profileLoading: false }, false, 'account/updateProfile/fulfilled');
+                return true;
+            },
+
+            changePassword: async (data) => {
+                set({ passwordLoading: true, passwordError: null }, false, 'account/changePassword/pending');
+                const result = await useCase.changePassword(data);
+
+                if (result.isLeft()) {
+                    set({ passwordLoading: false, passwordError: result.value.message }, false, 'account/changePassword/rejected');
+                    return false;
+                }
+
+                set({ passwordLoading: false }, false, 'account/changePassword/fulfilled');
+                return true;
+            },
+
+            // Actions synchrones
+            clearProfileError: () => set({ profileError: null }, false, 'account/clearProfileError'),
+            clearPasswordError: () => set({ passwordError: null }, false, 'account/clearPasswordError'),
+        }),
+        { name: 'AccountStore' }
+    )
+);
@@ -0,0 +1,127 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import AuthThrottleService, { THROTTLE_SCOPES } from '../../../../core/services/authThrottleService';
+import { SelfServiceUseCase } from '../../domain/usecases/SelfServiceUseCase';
+import { AuthRepository } from '../../data/repositories/AuthRepository';
+import { AuthDataSource } from '../../data/datasources/AuthDataSource';
+import { OidcDataSource } from '../../data/datasources/OidcDataSource';
+import { RegisterData, ResetPasswordData } from '../../domain/types/AuthDomainTypes';
+
+// Initialisation de la chaîne de dépendances Clean Architecture
+const repository = new AuthRepository(new AuthDataSource(), OidcDataSource.getInstance());
+const useCase = new SelfServiceUseCase(repository);
+const throttle = AuthThrottleService.getInstance();
+
+const LOCKOUT_MESSAGE = 'Trop de demandes, veuillez patienter avant de reessayer';
+
+// Définition du state
+interface SelfServiceState {
+    // State
+    loading: boolean;
+    error: string | null;
+    errorCode: string | null;   // Code métier de l'erreur (ex. reset_token_expired)
+    lockedUntil: number | null; // Fin de l'attente imposée par un 429 (mot de passe oublié / réinitialisation)
+
+    // Actions (retournent true en cas de succès)
+    register: (data: RegisterData) => Promise<boolean>;
+    requestPasswordReset: (email: string) => Promise<boolean>;
+    resetPassword: (data: ResetPasswordData) => Promise<boolean>;
+
+    // Actions synchrones
+    clearError: () => void;
+    refreshLockout: () => void;
+}
+
+/**
+ * Parcours en libre-service hors session : inscription, mot de passe oublié, réinitialisation
+ */
+export const useSelfServiceStore = create<SelfServiceState>()(
+    devtools(
+        (set) => ({
+            loading: false,
+            error: null,
+            errorCode: null,
+            lockedUntil: null,
+
+            // Inscription
+            register: async (data) => {
+                set({ loading: true, error: null, errorCode: null }, false, 'selfService/register/pending');
+                const result = await useCase.register(data);
+
+                if (result.isLeft()) {
+                    set({ loading: false, error: result.value.message, errorCode: errorCodeOf(result.value.details) }, false, 'selfService/register/rejected');
+                    return false;
+                }
+
+                set({ loading: false }, false, 'selfService/register/fulfilled');
+                return true;
+            },
+
+            // Demande de lien de réinitialisation
+            requestPasswordReset: async (email) => {
+                if (isLocked(set)) {
+                    return false;
+                }
+
+                set({ loading: true, error: null, errorCode: null }, false, 'selfService/requestPasswordReset/pending');
+                const result = await useCase.requestPasswordReset(email);
+
+                if (result.isLeft()) {
+                    set({
+                        loading: false,
+                        error: result.value.message,
+                        errorCode: errorCodeOf(result.value.details),
+                        lockedUntil: throttle.registerError(result.value, THROTTLE_SCOPES.PASSWORD_RESET),
+                    }, false, 'selfService/requestPasswordReset/rejected');
+                    return false;
+                }
+
+                set({ loading: false }, false, 'selfService/requestPasswordReset/fulfilled');
+                return true;
+            },
+
+            // Nouveau mot de passe
+            resetPassword: async (data) => {
+                if (isLocked(set)) {
+                    return false;
+                }
+
+                set({ loading: true, error: null, errorCode: null }, false, 'selfService/resetPassword/pending');
+                const result = await useCase.resetPassword(data);
+
+                if (result.isLeft()) {
+                    set({
+                        loading: false,
+                        error: result.value.message,
+                        errorCode: errorCodeOf(result.value.details),
+                        lockedUntil: throttle.registerError(result.value, THROTTLE_SCOPES.PASSWORD_RESET),
+                    }, false, 'selfService/resetPassword/rejected');
+                    return false;
+                }
+
+                set({ loading: false }, false, 'selfService/resetPassword/fulfilled');
+                return true;
+            },
+
+            clearError: () => set({ error: null, errorCode: null }, false, 'selfService/clearError'),
+
+            // Attente en cours, y compris avant un rechargement de la page
+            refreshLockout: () => set({ lockedUntil: throttle.getLockedUntil(THROTTLE_SCOPES.PASSWORD_RESET) }, false, 'selfService/refreshLockout'),
+        }),
+        { name: 'SelfServiceStore' }
+    )
+);
+
+// Attente 429 en cours : la demande n'est pas envoyée
+const isLocked = (set: (partial: Partial<SelfServiceState>, replace: false, action: string) => void): boolean => {
+    const lockedUntil = throttle.getLockedUntil(THROTTLE_SCOPES.PASSWORD_RESET);
+    if (lockedUntil) {
+        set({ error: LOCKOUT_MESSAGE, errorCode: 'too_many_attempts', lockedUntil }, false, 'selfService/throttled');
+    }
+    return lockedUntil !== null;
+};
+
+// AppError.details contient le code métier sous forme de chaîne (ou l'erreur d'origine)
+const errorCodeOf = (details: unknown): string | null => {
+    return typeof details === 'string' ? details : null;
+};
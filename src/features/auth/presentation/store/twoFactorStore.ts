@@ -0,0 +1,77 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import { TwoFactorUseCase } from '../../domain/usecases/TwoFactorUseCase';
+import { AuthRepository } from '../../data/repositories/AuthRepository';
+import { AuthDataSource } from '../../data/datasources/AuthDataSource';
+import { OidcDataSource } from '../../data/datasources/OidcDataSource';
+import { TwoFactorEnrollment } from '../../domain/types/AuthDomainTypes';
+
+// Initialisation de la chaîne de dépendances Clean Architecture
+const repository = new AuthRepository(new AuthDataSource(), OidcDataSource.getInstance());
+const useCase = new TwoFactorUseCase(repository);
+
+// Définition du state
+interface TwoFactorState {
+    // State
+    loading: boolean;
+    error: string | null;
+    enrollment: TwoFactorEnrollment | null;   // QR code / secret en attente de confirmation
+    recoveryCodes: string[] | null;           // Affichés une seule fois après confirmation
+
+    // Actions
+    startEnrollment: () => Promise<void>;
+    confirmEnrollment: (code: string) => Promise<boolean>;
+
+    // Actions synchrones
+    clearError: () => void;
+    resetEnrollment: () => void;
+}
+
+const initialState = {
+    loading: false,
+    error: null as string | null,
+    enrollment: null as TwoFactorEnrollment | null,
+    recoveryCodes: null as string[] | null,
+};
+
+/**
+ * Enrôlement de la double authentification (TOTP) pour l'utilisateur connecté
+ */
+export const useTwoFactorStore = create<TwoFactorState>()(
+    devtools(
+        (set) => ({
+            ...initialState,
+
+            // Démarrer l'enrôlement : récupère l'URI otpauth à scanner
+            startEnrollment: async () => {
+                set({ loading: true, error: null, recoveryCodes: null }, false, 'twoFactor/startEnrollment/pending');
+                const result = await useCase.startEnrollment();
+
+                if (result.isLeft()) {
+                    set({ loading: false, error: result.value.message }, false, 'twoFactor/startEnrollment/rejected');
+                } else {
+                    set({ loading: false, enrollment: result.value }, false, 'twoFactor/startEnrollment/fulfilled');
+                }
+            },
+
+            // Confirmer avec un premier code : active la double authentification
+            confirmEnrollment: async (code) => {
+                set({ loading: true, error: null }, false, 'twoFactor/confirmEnrollment/pending');
+                const result = await useCase.confirmEnrollment(code);
+
+                if (result.isLeft()) {
+                    set({ loading: false, error: result.value.message }, false, 'twoFactor/confirmEnrollment/rejected');
+                    return false;
+                }
+
+                set({ loading: false, enrollment: null, recoveryCodes: result.value }, false, 'twoFactor/confirmEnrollment/fulfilled');
+                return true;
+            },
+
+            // Actions synchrones
+            clearError: () => set({ error: null }, false, 'twoFactor/clearError'),
+            resetEnrollment: () => set(initialState, false, 'twoFactor/reset'),
+        }),
+        { name: 'TwoFactorStore' }
+    )
+);
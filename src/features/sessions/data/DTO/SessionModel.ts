@@ -0,0 +1,24 @@
+import { SessionEntity } from "../../domain/entities/SessionEntity";
+import { ApiSession } from '../../../../core/api/generated/schemas';
+
+// Le schéma Zod est généré depuis le contrat OpenAPI (openapi/openapi.json)
+// et appliqué par le client généré avant ce mapping.
+
+export class SessionModel {
+    /**
+     * Convertit une session de l'API (déjà validée) vers une entité SessionEntity
+     */
+    static fromApi(data: ApiSession): SessionEntity {
+        return {
+            id: data.id,
+            device: data.device ?? null,
+            browser: data.browser ?? null,
+            os: data.os ?? null,
+            ipAddress: data.ip_address ?? null,
+            location: data.location ?? null,
+            createdAt: new Date(data.created_at),
+            lastSeenAt: new Date(data.last_seen_at),
+            isCurrent: data.is_current ?? false,
+        };
+    }
+}
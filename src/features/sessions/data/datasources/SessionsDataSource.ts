@@ -0,0 +1,50 @@
+import * as api from "../../../../core/api/generated/client";
+import { toAppError } from "../../../../core/utils/errorMapper";
+import { SessionEntity } from "../../domain/entities/SessionEntity";
+import { RevokeSessionParams } from "../../domain/types/SessionsDomainTypes";
+import { SessionModel } from "../DTO/SessionModel";
+
+/**
+ * Interface du DataSource Sessions.
+ * Note : Le token Bearer est géré automatiquement par AxiosInterceptor,
+ * il n'est donc pas nécessaire de le passer en paramètre.
+ * Toute erreur est levée sous forme d'AppError typée (toAppError).
+ */
+export interface ISessionsDataSource {
+    getSessions(): Promise<SessionEntity[]>;
+    revokeSession(params: RevokeSessionParams): Promise<boolean>;
+    revokeOtherSessions(): Promise<boolean>;
+}
+
+export class SessionsDataSource implements ISessionsDataSource {
+    async getSessions(): Promise<SessionEntity[]> {
+        try {
+            // Réponse validée par le schéma Zod généré : tableau direct ou enveloppe { data: [...] }
+            const response = await api.getSessions();
+            const items = Array.isArray(response) ? response : response.data;
+            return items.map((item) => SessionModel.fromApi(item));
+        } catch (error) {
+            // Réponse non conforme (ValidationError) propagée telle quelle
+            throw toAppError(error, 'Erreur lors de la récupération des sessions');
+        }
+    }
+
+    async revokeSession(params: RevokeSessionParams): Promise<boolean> {
+        try {
+            await api.revokeSession({ id: params.id });
+            return true;
+        } catch (error) {
+            throw toAppError(error, 'Erreur lors de la révocation de la session');
+        }
+    }
+
+    async revokeOtherSessions(): Promise<boolean> {
+        try {
+            // Toutes les sessions sauf celle qui porte la requête
+            await api.revokeSessions({ scope: 'others' });
+            return true;
+        } catch (error) {
+            throw toAppError(error, 'Erreur lors de la révocation des sessions');
+        }
+    }
+}
@@ -0,0 +1,48 @@
+import { Either, left, right } from "@sweet-monads/either";
+import { TypedAppError } from "../../../../core/types/AppError";
+import { toAppError } from "../../../../core/utils/errorMapper";
+import { ISessionsDataSource } from "../datasources/SessionsDataSource";
+import { ISessionsRepository } from "../../domain/repositories/ISessionsRepository";
+import { SessionEntity } from "../../domain/entities/SessionEntity";
+import { RevokeSessionParams } from "../../domain/types/SessionsDomainTypes";
+
+/**
+ * Implémentation du repository Sessions.
+ * Note : L'authentification (token Bearer) est gérée automatiquement
+ * par AxiosInterceptor. Le repository n'a pas à s'en soucier.
+ * Les erreurs sont converties en AppError typée (toAppError) : les appelants branchent sur `error.kind`.
+ */
+export class SessionsRepository implements ISessionsRepository {
+    private dataSource: ISessionsDataSource;
+
+    constructor(dataSource: ISessionsDataSource) {
+        this.dataSource = dataSource;
+    }
+
+    async getSessions(): Promise<Either<TypedAppError, SessionEntity[]>> {
+        try {
+            const sessions = await this.dataSource.getSessions();
+            return right(sessions);
+        } catch (error) {
+            return left(toAppError(error));
+        }
+    }
+
+    async revokeSession(params: RevokeSessionParams): Promise<Either<TypedAppError, boolean>> {
+        try {
+            const result = await this.dataSource.revokeSession(params);
+            return right(result);
+        } catch (error) {
+            return left(toAppError(error));
+        }
+    }
+
+    async revokeOtherSessions(): Promise<Either<TypedAppError, boolean>> {
+        try {
+            const result = await this.dataSource.revokeOtherSessions();
+            return right(result);
+        } catch (error) {
+            return left(toAppError(error));
+        }
+    }
+}
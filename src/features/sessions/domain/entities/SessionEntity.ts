@@ -0,0 +1,25 @@
+/**
+ * Entité métier Session — un appareil sur lequel le compte est connecté
+ */
+export interface SessionEntity {
+    id: string;
+    device: string | null;       // Ex. "MacBook Pro", "iPhone"
+    browser: string | null;      // Ex. "Firefox 131"
+    os: string | null;           // Ex. "macOS 14"
+    ipAddress: string | null;
+    location: string | null;     // Localisation approximative fournie par l'API
+    createdAt: Date;
+    lastSeenAt: Date;
+    isCurrent: boolean;          // Session de cet onglet
+}
+
+/**
+ * Retourne un libellé lisible pour l'appareil d'une session
+ */
+export const getSessionLabel = (session: SessionEntity): string => {
+    const parts = [session.browser, session.os].filter(Boolean);
+    if (session.device) {
+        return parts.length > 0 ? `${session.device} (${parts.join(', ')})` : session.device;
+    }
+    return parts.length > 0 ? parts.join(', ') : 'Appareil inconnu';
+};
@@ -0,0 +1,10 @@
+import { Either } from "@sweet-monads/either";
+import { TypedAppError } from "../../../../core/types/AppError";
+import { SessionEntity } from "../entities/SessionEntity";
+import { RevokeSessionParams } from "../types/SessionsDomainTypes";
+
+export interface ISessionsRepository {
+    getSessions(): Promise<Either<TypedAppError, SessionEntity[]>>;
+    revokeSession(params: RevokeSessionParams): Promise<Either<TypedAppError, boolean>>;
+    revokeOtherSessions(): Promise<Either<TypedAppError, boolean>>;
+}
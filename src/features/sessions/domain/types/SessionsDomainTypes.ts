@@ -0,0 +1,10 @@
+/**
+ * Types pour les paramètres des méthodes du Domain Sessions
+ */
+
+/**
+ * Paramètres pour la révocation d'une session
+ */
+export interface RevokeSessionParams {
+    id: string;
+}
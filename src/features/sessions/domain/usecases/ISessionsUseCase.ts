@@ -0,0 +1,9 @@
+import { Either } from "@sweet-monads/either";
+import { TypedAppError } from "../../../../core/types/AppError";
+import { SessionEntity } from "../entities/SessionEntity";
+
+export interface ISessionsUseCase {
+    getSessions(): Promise<Either<TypedAppError, SessionEntity[]>>;
+    revokeSession(session: SessionEntity): Promise<Either<TypedAppError, boolean>>;
+    revokeOtherSessions(): Promise<Either<TypedAppError, boolean>>;
+}
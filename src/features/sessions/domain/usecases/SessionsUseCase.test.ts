@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { right } from '@sweet-monads/either';
+import { SessionsUseCase } from './SessionsUseCase';
+import { SessionEntity } from '../entities/SessionEntity';
+import { ISessionsRepository } from '../repositories/ISessionsRepository';
+import { TokenPayload } from '@core/types/AuthTypes';
+
+// --- Helpers ---
+
+const makeSession = (overrides: Partial<SessionEntity> = {}): SessionEntity => ({
+    id: 'session-1',
+    device: 'MacBook Pro',
+    browser: 'Firefox 131',
+    os: 'macOS 14',
+    ipAddress: '203.0.113.10',
+    location: 'Paris, France',
+    createdAt: new Date('2024-01-01T08:00:00Z'),
+    lastSeenAt: new Date('2024-01-02T08:00:00Z'),
+    isCurrent: false,
+    ...overrides,
+});
+
+const makeRepository = (sessions: SessionEntity[] = [makeSession()]): ISessionsRepository => ({
+    getSessions: vi.fn().mockResolvedValue(right(sessions)),
+    revokeSession: vi.fn().mockResolvedValue(right(true)),
+    revokeOtherSessions: vi.fn().mockResolvedValue(right(true)),
+});
+
+const makeCurrentUser = (overrides: Partial<TokenPayload> = {}): TokenPayload => ({
+    exp: 0,
+    iat: 0,
+    userId: 'user-1',
+    role: 'USER',
+    email: 'jean@example.com',
+    ...overrides,
+});
+
+// --- Tests ---
+
+describe('SessionsUseCase', () => {
+    let currentUser: TokenPayload | null;
+
+    beforeEach(() => {
+        currentUser = makeCurrentUser();
+    });
+
+    describe('getSessions', () => {
+        it('marque la session courante via le claim sid et la place en premier', async () => {
+            const repository = makeRepository([
+                makeSession({ id: 'recent', lastSeenAt: new Date('2024-01-05T08:00:00Z') }),
+                makeSession({ id: 'old', lastSeenAt: new Date('2024-01-01T08:00:00Z') }),
+                makeSession({ id: 'mine', lastSeenAt: new Date('2024-01-03T08:00:00Z') }),
+            ]);
+            currentUser = makeCurrentUser({ sid: 'mine' });
+            const useCase = new SessionsUseCase(repository, () => currentUser);
+
+            const result = await useCase.getSessions();
+
+            const sessions = result.isRight() ? result.value : [];
+            expect(sessions.map((session) => session.id)).toEqual(['mine', 'recent', 'old']);
+            expect(sessions[0].isCurrent).toBe(true);
+            expect(sessions[1].isCurrent).toBe(false);
+        });
+    });
+
+    describe('revokeSession', () => {
+        it('revoque une autre session via le repository', async () => {
+            const repository = makeRepository();
+            const useCase = new SessionsUseCase(repository, () => currentUser);
+
+            const result = await useCase.revokeSession(makeSession({ id: 'other' }));
+
+            expect(result.isRight()).toBe(true);
+            expect(repository.revokeSession).toHaveBeenCalledWith({ id: 'other' });
+        });
+
+        it('refuse la session courante (fermee par le logout)', async () => {
+            const repository = makeRepository();
+            const useCase = new SessionsUseCase(repository, () => currentUser);
+
+            const result = await useCase.revokeSession(makeSession({ isCurrent: true }));
+
+            expect(result.isLeft() && result.value.details).toBe('current_session');
+            expect(repository.revokeSession).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,44 @@
+import { Either, left } from "@sweet-monads/either";
+import { TypedAppError, ValidationError } from "../../../../core/types/AppError";
+import { CurrentUserProvider } from "../../../../core/policies/accessPolicy";
+import { ISessionsRepository } from "../repositories/ISessionsRepository";
+import { ISessionsUseCase } from "./ISessionsUseCase";
+import { SessionEntity } from "../entities/SessionEntity";
+
+export class SessionsUseCase implements ISessionsUseCase {
+    private repository: ISessionsRepository;
+    private getCurrentUser: CurrentUserProvider;
+
+    constructor(repository: ISessionsRepository, getCurrentUser: CurrentUserProvider) {
+        this.repository = repository;
+        this.getCurrentUser = getCurrentUser;
+    }
+
+    async getSessions(): Promise<Either<TypedAppError, SessionEntity[]>> {
+        const result = await this.repository.getSessions();
+
+        // Logique métier : session courante signalée par l'API ou par le claim `sid` du token,
+        // affichée en premier, puis les autres par dernière activité
+        const currentSessionId = this.getCurrentUser()?.sid;
+        return result.map((sessions) => sessions
+            .map((session) => ({ ...session, isCurrent: session.isCurrent || session.id === currentSessionId }))
+            .sort((a, b) => Number(b.isCurrent) - Number(a.isCurrent) || b.lastSeenAt.getTime() - a.lastSeenAt.getTime()));
+    }
+
+    async revokeSession(session: SessionEntity): Promise<Either<TypedAppError, boolean>> {
+        // Règle : la session courante se ferme par le logout (nettoyage local et synchronisation des onglets)
+        if (session.isCurrent) {
+            return left(new ValidationError("La session courante se ferme par la déconnexion", [], "current_session"));
+        }
+
+        if (!session.id || session.id.trim() === '') {
+            return left(new ValidationError("L'ID de session est requis", [], "validation_error"));
+        }
+
+        return await this.repository.revokeSession({ id: session.id });
+    }
+
+    async revokeOtherSessions(): Promise<Either<TypedAppError, boolean>> {
+        return await this.repository.revokeOtherSessions();
+    }
+}
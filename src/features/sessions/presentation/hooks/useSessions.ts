@@ -0,0 +1,59 @@
+import { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useSessionsStore } from '../store/sessionsStore';
+import { useAuthStore } from '../../../../core/store/authStore';
+import { SessionEntity } from '../../domain/entities/SessionEntity';
+
+interface UseSessionsReturn {
+    sessions: SessionEntity[] | null;
+    loading: boolean;
+    error: string | null;
+    success: string | null;
+    revokingId: string | null;
+    revoke: (session: SessionEntity) => Promise<void>;
+    logoutEverywhere: () => Promise<void>;
+}
+
+/**
+ * Hook de presentation -- liste et revocation des sessions actives.
+ * Charge les sessions a l'ouverture de la page et vide l'etat en la quittant.
+ * Redirige vers /login quand la session courante est fermee (revocation ou deconnexion partout).
+ *
+ * Usage :
+ *   const { sessions, revoke, logoutEverywhere } = useSessions();
+ */
+export const useSessions = (): UseSessionsReturn => {
+    const navigate = useNavigate();
+    const sessions = useSessionsStore((s) => s.sessions);
+    const loading = useSessionsStore((s) => s.loading);
+    const error = useSessionsStore((s) => s.error);
+    const success = useSessionsStore((s) => s.success);
+    const revokingId = useSessionsStore((s) => s.revokingId);
+    const getSessions = useSessionsStore((s) => s.getSessions);
+    const revokeSession = useSessionsStore((s) => s.revokeSession);
+    const storeLogoutEverywhere = useSessionsStore((s) => s.logoutEverywhere);
+    const resetSessionsState = useSessionsStore((s) => s.resetSessionsState);
+
+    useEffect(() => {
+        getSessions();
+        return resetSessionsState;
+    }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+    const redirectIfSignedOut = () => {
+        if (!useAuthStore.getState().isAuthenticated) {
+            navigate('/login', { replace: true });
+        }
+    };
+
+    const revoke = async (session: SessionEntity) => {
+        await revokeSession(session);
+        redirectIfSignedOut();
+    };
+
+    const logoutEverywhere = async () => {
+        await storeLogoutEverywhere();
+        redirectIfSignedOut();
+    };
+
+    return { sessions, loading, error, success, revokingId, revoke, logoutEverywhere };
+};
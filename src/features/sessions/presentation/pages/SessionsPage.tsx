@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { AlertDialog, Button, Card, CardContent, Chip, Spinner } from '@heroui/react';
+import { useSessions } from '../hooks/useSessions';
+import { getSessionLabel } from '../../domain/entities/SessionEntity';
+
+const formatDate = (date: Date): string =>
+    date.toLocaleString('fr-FR', { dateStyle: 'medium', timeStyle: 'short' });
+
+const SessionsPage = () => {
+    const { sessions, loading, error, success, revokingId, revoke, logoutEverywhere } = useSessions();
+    const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+
+    const handleLogoutEverywhere = async () => {
+        setIsConfirmOpen(false);
+        await logoutEverywhere();
+    };
+
+    return (
+        <div className="max-w-3xl mx-auto px-4 py-8">
+            <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+                <div>
+                    <h1 className="text-3xl font-bold mb-1">Sessions actives</h1>
+                    <p className="text-secondary">Appareils sur lesquels votre compte est connecte</p>
+                </div>
+                <Button variant="danger" onPress={() => setIsConfirmOpen(true)} isDisabled={loading || !sessions}>
+                    Se deconnecter partout
+                </Button>
+            </div>
+
+            {/* Messages */}
+            {error && (
+                <div className="bg-red-50 text-red-700 border border-red-200 rounded-lg px-4 py-3 text-sm mb-4">
+                    {error}
+                </div>
+            )}
+            {success && (
+                <div className="bg-green-50 text-green-700 border border-green-200 rounded-lg px-4 py-3 text-sm mb-4">
+                    {success}
+                </div>
+            )}
+
+            {/* Loading */}
+            {loading && !sessions && (
+                <div className="flex justify-center py-12">
+                    <Spinner size="lg" />
+                </div>
+            )}
+
+            {/* Liste des sessions */}
+            {sessions && (
+                <div className="flex flex-col gap-3">
+                    {sessions.map((session) => (
+                        <Card key={session.id} className="shadow-sm">
+                            <CardContent className="flex flex-wrap items-center justify-between gap-4 pt-4">
+                                <div className="flex flex-col gap-1">
+                                    <div className="flex items-center gap-2">
+                                        <h3 className="font-semibold">{getSessionLabel(session)}</h3>
+                                        {session.isCurrent && (
+                                            <Chip size="sm" variant="secondary">Cet appareil</Chip>
+                                        )}
+                                    </div>
+                                    <p className="text-secondary text-sm">
+                                        {[session.location, session.ipAddress].filter(Boolean).join(' - ') || 'Localisation inconnue'}
+                                    </p>
+                                    <p className="text-muted text-xs">
+                                        Derniere activite : {formatDate(session.lastSeenAt)} -- connecte depuis le {formatDate(session.createdAt)}
+                                    </p>
+                                </div>
+                                <Button
+                                    variant={session.isCurrent ? 'outline' : 'danger'}
+                                    size="sm"
+                                    onPress={() => revoke(session)}
+                                    isDisabled={loading || revokingId !== null}
+                                >
+                                    {revokingId === session.id
+                                        ? <Spinner size="sm" />
+                                        : session.isCurrent ? 'Se deconnecter' : 'Revoquer'}
+                                </Button>
+                            </CardContent>
+                        </Card>
+                    ))}
+                </div>
+            )}
+
+            {/* Aucun resultat */}
+            {sessions && sessions.length === 0 && (
+                <div className="text-center py-12">
+                    <p className="text-muted text-lg">Aucune session active</p>
+                </div>
+            )}
+
+            {/* Confirmation de la deconnexion partout */}
+            <AlertDialog.Backdrop isOpen={isConfirmOpen} onOpenChange={setIsConfirmOpen}>
+                <AlertDialog.Container>
+                    <AlertDialog.Dialog>
+                        <AlertDialog.Header>
+                            <AlertDialog.Icon status="danger" />
+                            <AlertDialog.Heading>Se deconnecter partout ?</AlertDialog.Heading>
+                        </AlertDialog.Header>
+                        <AlertDialog.Body>
+                            <p className="text-secondary">
+                                Toutes les sessions seront fermees, y compris celle-ci. Vous devrez vous reconnecter sur chaque appareil.
+                            </p>
+                        </AlertDialog.Body>
+                        <AlertDialog.Footer>
+                            <Button variant="ghost" onPress={() => setIsConfirmOpen(false)}>
+                                Annuler
+                            </Button>
+                            <Button variant="danger" onPress={handleLogoutEverywhere}>
+                                Se deconnecter partout
+                            </Button>
+                        </AlertDialog.Footer>
+                    </AlertDialog.Dialog>
+                </AlertDialog.Container>
+            </AlertDialog.Backdrop>
+        </div>
+    );
+};
+
+export default SessionsPage;
@@ -0,0 +1,103 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import { SessionsUseCase } from '../../domain/usecases/SessionsUseCase';
+import { SessionsRepository } from '../../data/repositories/SessionsRepository';
+import { SessionsDataSource } from '../../data/datasources/SessionsDataSource';
+import { SessionEntity } from '../../domain/entities/SessionEntity';
+import { useAuthStore } from '../../../../core/store/authStore';
+
+// Initialisation de la chaîne de dépendances Clean Architecture
+const dataSource = new SessionsDataSource();
+const repository = new SessionsRepository(dataSource);
+const useCase = new SessionsUseCase(repository, () => useAuthStore.getState().user);
+
+// Définition du state
+interface SessionsState {
+    // State
+    loading: boolean;
+    error: string | null;
+    success: string | null;
+    sessions: SessionEntity[] | null;
+    revokingId: string | null;   // Session en cours de révocation (bouton en attente)
+
+    // Actions
+    getSessions: () => Promise<void>;
+    revokeSession: (session: SessionEntity) => Promise<void>;
+    logoutEverywhere: () => Promise<void>;
+
+    // Actions synchrones
+    clearError: () => void;
+    resetSessionsState: () => void;
+}
+
+// État initial (pour le reset)
+const initialState = {
+    loading: false,
+    error: null as string | null,
+    success: null as string | null,
+    sessions: null as SessionEntity[] | null,
+    revokingId: null as string | null,
+};
+
+export const useSessionsStore = create<SessionsState>()(
+    devtools(
+        (set, get) => ({
+            ...initialState,
+
+            // Récupérer les sessions actives
+            getSessions: async () => {
+                set({ loading: true, error: null }, false, 'sessions/getSessions/pending');
+                const result = await useCase.getSessions();
+
+                if (result.isLeft()) {
+                    set({ loading: false, error: result.value.message }, false, 'sessions/getSessions/rejected');
+                } else {
+                    set({ loading: false, sessions: result.value }, false, 'sessions/getSessions/fulfilled');
+                }
+            },
+
+            // Révoquer une session. La session courante passe par le logout d'authStore.
+            revokeSession: async (session) => {
+                if (session.isCurrent) {
+                    await useAuthStore.getState().logout();
+                    set(initialState, false, 'sessions/revokeSession/signedOut');
+                    return;
+                }
+
+                set({ revokingId: session.id, error: null }, false, 'sessions/revokeSession/pending');
+                const result = await useCase.revokeSession(session);
+
+                if (result.isLeft()) {
+                    set({ revokingId: null, error: result.value.message }, false, 'sessions/revokeSession/rejected');
+                    return;
+                }
+
+                set({
+                    revokingId: null,
+                    sessions: (get().sessions ?? []).filter((item) => item.id !== session.id),
+                    success: 'Session revoquee',
+                }, false, 'sessions/revokeSession/fulfilled');
+                setTimeout(() => set({ success: null }, false, 'sessions/auto/clearSuccess'), 3000);
+            },
+
+            // Déconnexion partout : les autres sessions côté serveur, puis la session courante
+            logoutEverywhere: async () => {
+                set({ loading: true, error: null }, false, 'sessions/logoutEverywhere/pending');
+                const result = await useCase.revokeOtherSessions();
+
+                if (result.isLeft()) {
+                    set({ loading: false, error: result.value.message }, false, 'sessions/logoutEverywhere/rejected');
+                    return;
+                }
+
+                await useAuthStore.getState().logout();
+                set(initialState, false, 'sessions/logoutEverywhere/fulfilled');
+            },
+
+            // Actions synchrones
+            clearError: () => set({ error: null }, false, 'sessions/clearError'),
+            resetSessionsState: () => set(initialState, false, 'sessions/reset'),
+        }),
+        { name: 'SessionsStore' }
+    )
+);
@@ -1,124 +1,91 @@
 import { z } from 'zod';
 import { UserEntity } from "../../domain/entities/UserEntity";
-import { AppError } from '../../../../core/types/AppError';
+import { ValidationError } from '../../../../core/types/AppError';
+import { zodIssues } from '../../../../core/utils/errorMapper';
+import {
+    ApiUser,
+    ApiUserSchema,
+    ApiCreateUserRequest,
+    ApiCreateUserRequestSchema,
+    ApiUpdateUserRequest,
+    ApiUpdateUserRequestSchema
+} from '../../../../core/api/generated/schemas';
 
-// Schéma Zod pour valider les données d'API
-const UserApiSchema = z.object({
-    id: z.string().uuid("ID utilisateur doit être un UUID valide"),
-    first_name: z.string().min(1, "Le prénom est requis").max(100, "Prénom trop long"),
-    last_name: z.string().min(1, "Le nom est requis").max(100, "Nom trop long"),
-    email: z.string().email("Format d'email invalide"),
-    phone: z.string().nullable().optional(),
-    role: z.enum(['ADMIN', 'USER', 'MODERATOR']),
-    created_at: z.string().datetime("Date de création invalide"),
-    updated_at: z.string().datetime("Date de mise à jour invalide")
-});
-
-// Schéma pour la création d'utilisateur (dérivé du principal)
-const CreateUserApiSchema = UserApiSchema
-    .omit({ id: true, created_at: true, updated_at: true })
-    .extend({ password: z.string().min(6, "Mot de passe doit contenir au moins 6 caractères") });
-
-// Types TypeScript dérivés des schémas Zod
-export type UserApiType = z.infer<typeof UserApiSchema>;
-export type CreateUserApiType = z.infer<typeof CreateUserApiSchema>;
+// Les schémas Zod sont générés depuis le contrat OpenAPI (openapi/openapi.json) :
+// un champ renommé ou supprimé côté API casse la compilation de ce mapping.
 
 export class UserModel {
     /**
-     * Convertit les données JSON de l'API vers une entité UserEntity
+     * Convertit un utilisateur de l'API (déjà validé par le client généré) vers une entité UserEntity
+     */
+    static fromApi(data: ApiUser): UserEntity {
+        // Conversion vers Entity (objet plain, compatible Zustand)
+        return {
+            id: data.id,
+            firstName: data.first_name,
+            lastName: data.last_name,
+            email: data.email,
+            phone: data.phone ?? null,
+            role: data.role,
+            createdAt: new Date(data.created_at),
+            updatedAt: new Date(data.updated_at),
+        };
+    }
+
+    /**
+     * Convertit des données JSON non typées vers une entité UserEntity
      * Avec validation Zod automatique
      */
     static fromJson(json: unknown): UserEntity {
-        try {
-            // Validation avec Zod
-            const validatedData = UserApiSchema.parse(json);
-
-            // Conversion vers Entity (objet plain, compatible Zustand)
-            return {
-                id: validatedData.id,
-                firstName: validatedData.first_name,
-                lastName: validatedData.last_name,
-                email: validatedData.email,
-                phone: validatedData.phone ?? null,
-                role: validatedData.role,
-                createdAt: new Date(validatedData.created_at),
-                updatedAt: new Date(validatedData.updated_at),
-            };
-        } catch (error) {
-            if (error instanceof z.ZodError) {
-                // Formatting des erreurs Zod en AppError
-                const errorMessage = error.issues.map((err: z.ZodIssue) =>
-                    `${err.path.join('.')}: ${err.message}`
-                ).join(', ');
-
-                throw new AppError(
-                    `Données utilisateur invalides: ${errorMessage}`,
-                    "VALIDATION_ERROR",
-                    { zodErrors: error.issues, receivedData: json }
-                );
-            }
-            throw error;
-        }
+        return UserModel.fromApi(UserModel.parse(ApiUserSchema, json, "Données utilisateur invalides"));
     }
 
     /**
      * Convertit une entité UserEntity vers le format JSON pour l'API
      */
-    static toJson(entity: UserEntity): UserApiType {
+    static toJson(entity: UserEntity): ApiUser {
         const apiData = {
             id: entity.id,
             first_name: entity.firstName,
             last_name: entity.lastName,
             email: entity.email,
             phone: entity.phone,
-            role: entity.role as 'ADMIN' | 'USER' | 'MODERATOR',
+            role: entity.role,
             created_at: entity.createdAt.toISOString(),
             updated_at: entity.updatedAt.toISOString(),
         };
 
         // Validation du format de sortie (optionnel mais recommandé)
-        return UserApiSchema.parse(apiData);
+        return ApiUserSchema.parse(apiData);
     }
 
     /**
      * Valide les données pour la création d'un utilisateur
      */
-    static validateCreateData(data: unknown): CreateUserApiType {
-        try {
-            return CreateUserApiSchema.parse(data);
-        } catch (error) {
-            if (error instanceof z.ZodError) {
-                const errorMessage = error.issues.map((err: z.ZodIssue) =>
-                    `${err.path.join('.')}: ${err.message}`
-                ).join(', ');
-
-                throw new AppError(
-                    `Données de création invalides: ${errorMessage}`,
-                    "VALIDATION_ERROR",
-                    { zodErrors: error.issues, receivedData: data }
-                );
-            }
-            throw error;
-        }
+    static validateCreateData(data: unknown): ApiCreateUserRequest {
+        return UserModel.parse(ApiCreateUserRequestSchema, data, "Données de création invalides");
     }
 
     /**
-     * Validation partielle pour les mises à jour (tous les champs optionnels)
+     * Validation pour les mises à jour (tous les champs optionnels)
      */
-    static validateUpdateData(data: unknown): Partial<CreateUserApiType> {
-        const UpdateUserApiSchema = CreateUserApiSchema.partial();
+    static validateUpdateData(data: unknown): ApiUpdateUserRequest {
+        return UserModel.parse(ApiUpdateUserRequestSchema, data, "Données de mise à jour invalides");
+    }
 
+    private static parse<T>(schema: z.ZodType<T>, data: unknown, message: string): T {
         try {
-            return UpdateUserApiSchema.parse(data);
+            return schema.parse(data);
         } catch (error) {
             if (error instanceof z.ZodError) {
+                // Formatting des erreurs Zod en ValidationError
                 const errorMessage = error.issues.map((err: z.ZodIssue) =>
                     `${err.path.join('.')}: ${err.message}`
                 ).join(', ');
 
-                throw new AppError(
-                    `Données de mise à jour invalides: ${errorMessage}`,
-                    "VALIDATION_ERROR",
+                throw new ValidationError(
+                    `${message}: ${errorMessage}`,
+                    zodIssues(error),
                     { zodErrors: error.issues, receivedData: data }
                 );
             }
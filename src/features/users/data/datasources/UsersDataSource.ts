@@ -1,8 +1,13 @@
-import AxiosService from "../../../../core/services/axiosService";
-import { AppError } from "../../../../core/types/AppError";
+import * as api from "../../../../core/api/generated/client";
+import { ApiUserStatus } from "../../../../core/api/generated/schemas";
+import QueryCache, { createQueryKey } from "../../../../core/services/queryCache";
+import OfflineMutationQueue, { NewQueuedMutation } from "../../../../core/services/offlineMutationQueue";
+import { NetworkError } from "../../../../core/types/AppError";
+import { toAppError } from "../../../../core/utils/errorMapper";
 import { UserEntity } from "../../domain/entities/UserEntity";
 import { UserModel } from "../DTO/UserModel";
 import { PaginatedArray } from "../../../../core/types/PaginatedArray";
+import { MutationResult } from "../../../../core/types/MutationResult";
 import {
     GetUsersFiltersParams,
     CreateUserDataParams,
@@ -15,144 +20,129 @@ import {
  * Interface du DataSource Users.
  * Note : Le token Bearer est géré automatiquement par AxiosInterceptor,
  * il n'est donc pas nécessaire de le passer en paramètre.
+ * Les appels passent par le client généré depuis le contrat OpenAPI (réponses typées et validées).
+ * Hors ligne, createUser / updateUser sont mis en file (OfflineMutationQueue) et retournent 'queued'.
+ * Toute erreur est levée sous forme d'AppError typée (toAppError) : NetworkError, NotFoundError, ConflictError...
  */
 export interface IUsersDataSource {
-    getUsers(filters: GetUsersFiltersParams): Promise<PaginatedArray<UserEntity>>;
+    getUsers(filters: GetUsersFiltersParams, signal?: AbortSignal): Promise<PaginatedArray<UserEntity>>;
     getUserById(params: GetUserByIdParams): Promise<UserEntity>;
-    createUser(data: CreateUserDataParams): Promise<boolean>;
-    updateUser(id: string, data: UpdateUserDataParams): Promise<boolean>;
+    createUser(data: CreateUserDataParams): Promise<MutationResult>;
+    updateUser(id: string, data: UpdateUserDataParams): Promise<MutationResult>;
     deleteUser(params: DeleteUserParams): Promise<boolean>;
 }
 
+// Étiquette de cache des lectures utilisateurs, invalidée par chaque mutation
+export const USERS_QUERY_TAG = 'users';
+
 export class UsersDataSource implements IUsersDataSource {
-    private axiosService = AxiosService.getInstance();
+    private queryCache = QueryCache.getInstance();
+    private offlineQueue = OfflineMutationQueue.getInstance();
 
-    async getUsers(filters: GetUsersFiltersParams): Promise<PaginatedArray<UserEntity>> {
-        // Construction de l'URL avec query params
-        const endpoint = '/api/users'
-            + `?page=${filters.page || 1}`
-            + (filters.search ? `&search=${encodeURIComponent(filters.search)}` : '')
-            + (filters.status ? `&status=${encodeURIComponent(filters.status)}` : '')
-            + (filters.role ? `&role=${encodeURIComponent(filters.role)}` : '');
+    async getUsers(filters: GetUsersFiltersParams, signal?: AbortSignal): Promise<PaginatedArray<UserEntity>> {
+        const query: api.GetUsersQuery = {
+            page: filters.page || 1,
+            search: filters.search,
+            status: filters.status as ApiUserStatus | undefined,   // Valeur contrôlée par UsersUseCase
+            role: filters.role,
+        };
 
         try {
-            const response = await this.axiosService.get(endpoint);
-
-            if (!response.data) {
-                throw new AppError('Empty response', "001", 'users data is empty');
-            }
-
-            // Mapping des données API vers Entités avec validation Zod automatique
-            return new PaginatedArray(
-                response.data.data.map((item: any) => UserModel.fromJson(item)),
-                response.data.meta.totalPages,
-                response.data.meta.currentPage,
-                response.data.meta.totalItems
-            );
-        } catch (error) {
-            // Gestion spécifique des erreurs de validation Zod
-            if (error instanceof AppError && error.code === "VALIDATION_ERROR") {
-                throw error; // Re-throw les erreurs de validation
-            }
-
-            let _error = error as any;
-            if (_error instanceof Object && _error.name === 'AxiosError') {
-                throw new AppError(
-                    _error.response?.data?.message || 'Erreur lors de la récupération des utilisateurs',
-                    "001",
-                    _error.response?.data
+            // Une page déjà chargée avec les mêmes filtres est servie par le cache (clé = URL de la requête)
+            return await this.queryCache.query(createQueryKey('/api/users', query), async (querySignal) => {
+                // Réponse validée par le schéma Zod généré
+                const { data, meta } = await api.getUsers(query, { signal: querySignal });
+
+                return new PaginatedArray(
+                    data.map((item) => UserModel.fromApi(item)),
+                    meta.totalPages,
+                    meta.currentPage,
+                    meta.totalItems
                 );
-            }
-            throw new AppError('Error', "000", error);
+            }, { tags: [USERS_QUERY_TAG], signal });
+        } catch (error) {
+            // Annulation (RequestCancelledError) et réponse non conforme (ValidationError) propagées telles quelles
+            throw toAppError(error, 'Erreur lors de la récupération des utilisateurs');
         }
     }
 
     async getUserById(params: GetUserByIdParams): Promise<UserEntity> {
         try {
-            const response = await this.axiosService.get(`/api/users/${params.id}`);
-
-            if (!response.data) {
-                throw new AppError('Empty response', "001", 'user data is empty');
-            }
-
-            // Validation automatique avec Zod dans UserModel.fromJson
-            return UserModel.fromJson(response.data);
+            return await this.queryCache.query(`/api/users/${params.id}`, async (querySignal) => {
+                const user = await api.getUserById({ id: params.id }, { signal: querySignal });
+                return UserModel.fromApi(user);
+            }, { tags: [USERS_QUERY_TAG] });
         } catch (error) {
-            // Gestion spécifique des erreurs de validation Zod
-            if (error instanceof AppError && error.code === "VALIDATION_ERROR") {
-                throw error; // Re-throw les erreurs de validation
-            }
-
-            let _error = error as any;
-            if (_error instanceof Object && _error.name === 'AxiosError') {
-                throw new AppError(
-                    _error.response?.data?.message || 'Utilisateur non trouvé',
-                    "001",
-                    _error.response?.data
-                );
-            }
-            throw new AppError('Error', "000", error);
+            throw toAppError(error, 'Utilisateur non trouvé');
         }
     }
 
-    async createUser(data: CreateUserDataParams): Promise<boolean> {
+    async createUser(data: CreateUserDataParams): Promise<MutationResult> {
+        const mutation: NewQueuedMutation = {
+            method: 'post',
+            url: '/api/users',
+            data,
+            label: `Création de ${data.firstName} ${data.lastName}`,
+            tags: [USERS_QUERY_TAG],
+        };
+
+        // Hors ligne ou modifications plus anciennes en attente : conserver l'ordre des mutations
+        if (this.offlineQueue.shouldQueue()) {
+            return this.queueMutation(mutation);
+        }
+
         try {
-            const response = await this.axiosService.post('/api/users', data);
-            return response && response.status === 201;
+            await api.createUser(data);
+            this.queryCache.invalidate([USERS_QUERY_TAG]);
+            return 'sent';
         } catch (error) {
-            // Gestion spécifique des erreurs de validation Zod
-            if (error instanceof AppError && error.code === "VALIDATION_ERROR") {
-                throw error; // Re-throw les erreurs de validation
-            }
-
-            let _error = error as any;
-            if (_error instanceof Object && _error.name === 'AxiosError') {
-                throw new AppError(
-                    _error.response?.data?.message || 'Erreur lors de la création de l\'utilisateur',
-                    "001",
-                    _error.response?.data
-                );
+            const appError = toAppError(error, 'Erreur lors de la création de l\'utilisateur');
+            // Réseau perdu avant l'envoi : la création sera rejouée au retour de la connexion
+            if (appError instanceof NetworkError) {
+                return this.queueMutation(mutation);
             }
-            throw new AppError('Error', "000", error);
+            throw appError;
         }
     }
 
-    async updateUser(id: string, data: UpdateUserDataParams): Promise<boolean> {
+    async updateUser(id: string, data: UpdateUserDataParams): Promise<MutationResult> {
+        const mutation: NewQueuedMutation = {
+            method: 'put',
+            url: `/api/users/${encodeURIComponent(id)}`,
+            data,
+            label: `Mise à jour de l'utilisateur ${data.firstName && data.lastName ? `${data.firstName} ${data.lastName}` : id}`,
+            tags: [USERS_QUERY_TAG],
+        };
+
+        if (this.offlineQueue.shouldQueue()) {
+            return this.queueMutation(mutation);
+        }
+
         try {
-            const response = await this.axiosService.put(`/api/users/${id}`, data);
-            return response && response.status === 200;
+            await api.updateUser({ id }, data);
+            this.queryCache.invalidate([USERS_QUERY_TAG]);
+            return 'sent';
         } catch (error) {
-            // Gestion spécifique des erreurs de validation Zod
-            if (error instanceof AppError && error.code === "VALIDATION_ERROR") {
-                throw error; // Re-throw les erreurs de validation
+            const appError = toAppError(error, 'Erreur lors de la mise à jour');
+            if (appError instanceof NetworkError) {
+                return this.queueMutation(mutation);
             }
-
-            let _error = error as any;
-            if (_error instanceof Object && _error.name === 'AxiosError') {
-                throw new AppError(
-                    _error.response?.data?.message || 'Erreur lors de la mise à jour',
-                    "001",
-                    _error.response?.data
-                );
-            }
-            throw new AppError('Error', "000", error);
+            throw appError;
         }
     }
 
     async deleteUser(params: DeleteUserParams): Promise<boolean> {
         try {
-            const response = await this.axiosService.delete(`/api/users/${params.id}`);
-            return response && response.status === 204;
+            await api.deleteUser({ id: params.id });
+            this.queryCache.invalidate([USERS_QUERY_TAG]);
+            return true;
         } catch (error) {
-            let _error = error as any;
-            if (_error instanceof Object && _error.name === 'AxiosError') {
-                throw new AppError(
-                    _error.response?.data?.message || 'Erreur lors de la suppression',
-                    "001",
-                    _error.response?.data
-                );
-            }
-            throw new AppError('Error', "000", error);
+            throw toAppError(error, 'Erreur lors de la suppression');
         }
     }
+
+    private async queueMutation(mutation: NewQueuedMutation): Promise<MutationResult> {
+        await this.offlineQueue.enqueue(mutation);
+        return 'queued';
+    }
 }
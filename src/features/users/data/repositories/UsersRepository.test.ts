@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { UsersRepository } from './UsersRepository';
 import { IUsersDataSource } from '../../datasources/UsersDataSource';
-import { AppError } from '@core/types/AppError';
+import { ConflictError, ForbiddenError, NotFoundError, RequestCancelledError, ServerError } from '@core/types/AppError';
 import { PaginatedArray } from '@core/types/PaginatedArray';
 import { UserEntity } from '../../../domain/entities/UserEntity';
 
@@ -25,8 +25,8 @@ const makePaginatedUsers = (users: UserEntity[] = [makeUser()]) =>
 const makeDataSource = (): IUsersDataSource => ({
     getUsers: vi.fn().mockResolvedValue(makePaginatedUsers()),
     getUserById: vi.fn().mockResolvedValue(makeUser()),
-    createUser: vi.fn().mockResolvedValue(true),
-    updateUser: vi.fn().mockResolvedValue(true),
+    createUser: vi.fn().mockResolvedValue('sent'),
+    updateUser: vi.fn().mockResolvedValue('sent'),
     deleteUser: vi.fn().mockResolvedValue(true),
 });
 
@@ -54,7 +54,7 @@ describe('UsersRepository', () => {
         });
 
         it('retourne left avec AppError si le DataSource throw une AppError', async () => {
-            const appError = new AppError('Serveur indisponible', '503');
+            const appError = new ServerError('Serveur indisponible', 503);
             vi.mocked(dataSource.getUsers).mockRejectedValue(appError);
 
             const result = await repository.getUsers({ page: 1 });
@@ -76,6 +76,17 @@ describe('UsersRepository', () => {
                 expect(result.value.code).toBe('000');
             }
         });
+
+        it('transmet le signal d annulation et conserve l erreur d annulation', async () => {
+            const controller = new AbortController();
+            vi.mocked(dataSource.getUsers).mockRejectedValue(new RequestCancelledError());
+
+            const result = await repository.getUsers({ page: 1 }, controller.signal);
+
+            expect(dataSource.getUsers).toHaveBeenCalledWith({ page: 1 }, controller.signal);
+            expect(result.isLeft() && result.value).toBeInstanceOf(RequestCancelledError);
+            expect(result.isLeft() && result.value.code).toBe('CANCELLED');
+        });
     });
 
     // --------------------------------------------------------------- getUserById
@@ -91,7 +102,7 @@ describe('UsersRepository', () => {
 
         it('retourne left si le DataSource throw', async () => {
             vi.mocked(dataSource.getUserById).mockRejectedValue(
-                new AppError('Utilisateur non trouve', '404')
+                new NotFoundError('Utilisateur non trouve')
             );
 
             const result = await repository.getUserById({ id: 'inexistant' });
@@ -112,18 +123,18 @@ describe('UsersRepository', () => {
             password: 'secret123',
         };
 
-        it('retourne right(true) si le DataSource reussit', async () => {
+        it('retourne right avec l issue de la mutation si le DataSource reussit', async () => {
             const result = await repository.createUser(validData);
 
             expect(result.isRight()).toBe(true);
             if (result.isRight()) {
-                expect(result.value).toBe(true);
+                expect(result.value).toBe('sent');
             }
         });
 
         it('retourne left si le DataSource throw', async () => {
             vi.mocked(dataSource.createUser).mockRejectedValue(
-                new AppError('Email deja utilise', '409')
+                new ConflictError('Email deja utilise')
             );
 
             const result = await repository.createUser(validData);
@@ -137,7 +148,7 @@ describe('UsersRepository', () => {
 
     // ---------------------------------------------------------------- updateUser
     describe('updateUser', () => {
-        it('retourne right(true) si le DataSource reussit', async () => {
+        it('retourne right si le DataSource reussit', async () => {
             const result = await repository.updateUser('user-1', { firstName: 'Marie' });
             expect(result.isRight()).toBe(true);
         });
@@ -161,7 +172,7 @@ describe('UsersRepository', () => {
 
         it('retourne left si le DataSource throw', async () => {
             vi.mocked(dataSource.deleteUser).mockRejectedValue(
-                new AppError('Interdit', '403')
+                new ForbiddenError('Interdit')
             );
             const result = await repository.deleteUser({ id: 'user-1' });
             expect(result.isLeft()).toBe(true);
@@ -1,9 +1,11 @@
 import { Either, left, right } from "@sweet-monads/either";
-import { AppError } from "../../../../core/types/AppError";
+import { TypedAppError } from "../../../../core/types/AppError";
+import { toAppError } from "../../../../core/utils/errorMapper";
 import { IUsersDataSource } from "../datasources/UsersDataSource";
 import { IUsersRepository } from "../../domain/repositories/IUsersRepository";
 import { UserEntity } from "../../domain/entities/UserEntity";
 import { PaginatedArray } from "../../../../core/types/PaginatedArray";
+import { MutationResult } from "../../../../core/types/MutationResult";
 import {
     GetUsersFiltersParams,
     CreateUserDataParams,
@@ -16,6 +18,7 @@ import {
  * Implémentation du repository Users.
  * Note : L'authentification (token Bearer) est gérée automatiquement
  * par AxiosInterceptor. Le repository n'a pas à s'en soucier.
+ * Les erreurs sont converties en AppError typée (toAppError) : les appelants branchent sur `error.kind`.
  */
 export class UsersRepository implements IUsersRepository {
     private dataSource: IUsersDataSource;
@@ -24,63 +27,48 @@ export class UsersRepository implements IUsersRepository {
         this.dataSource = dataSource;
     }
 
-    async getUsers(filters: GetUsersFiltersParams): Promise<Either<AppError, PaginatedArray<UserEntity>>> {
+    async getUsers(filters: GetUsersFiltersParams, signal?: AbortSignal): Promise<Either<TypedAppError, PaginatedArray<UserEntity>>> {
         try {
-            const users = await this.dataSource.getUsers(filters);
+            const users = await this.dataSource.getUsers(filters, signal);
             return right(users);
         } catch (error) {
-            if (error instanceof AppError) {
-                return left(error);
-            }
-            return left(new AppError("Une erreur s'est produite", "000", error));
+            return left(toAppError(error));
         }
     }
 
-    async getUserById(params: GetUserByIdParams): Promise<Either<AppError, UserEntity>> {
+    async getUserById(params: GetUserByIdParams): Promise<Either<TypedAppError, UserEntity>> {
         try {
             const user = await this.dataSource.getUserById(params);
             return right(user);
         } catch (error) {
-            if (error instanceof AppError) {
-                return left(error);
-            }
-            return left(new AppError("Une erreur s'est produite", "000", error));
+            return left(toAppError(error));
         }
     }
 
-    async createUser(data: CreateUserDataParams): Promise<Either<AppError, boolean>> {
+    async createUser(data: CreateUserDataParams): Promise<Either<TypedAppError, MutationResult>> {
         try {
             const result = await this.dataSource.createUser(data);
             return right(result);
         } catch (error) {
-            if (error instanceof AppError) {
-                return left(error);
-            }
-            return left(new AppError("Une erreur s'est produite", "000", error));
+            return left(toAppError(error));
         }
     }
 
-    async updateUser(id: string, data: UpdateUserDataParams): Promise<Either<AppError, boolean>> {
+    async updateUser(id: string, data: UpdateUserDataParams): Promise<Either<TypedAppError, MutationResult>> {
         try {
             const result = await this.dataSource.updateUser(id, data);
             return right(result);
         } catch (error) {
-            if (error instanceof AppError) {
-                return left(error);
-            }
-            return left(new AppError("Une erreur s'est produite", "000", error));
+            return left(toAppError(error));
         }
     }
 
-    async deleteUser(params: DeleteUserParams): Promise<Either<AppError, boolean>> {
+    async deleteUser(params: DeleteUserParams): Promise<Either<TypedAppError, boolean>> {
         try {
             const result = await this.dataSource.deleteUser(params);
             return right(result);
         } catch (error) {
-            if (error instanceof AppError) {
-                return left(error);
-            }
-            return left(new AppError("Une erreur s'est produite", "000", error));
+            return left(toAppError(error));
         }
     }
 }
@@ -1,7 +1,8 @@
 import { Either } from "@sweet-monads/either";
-import { AppError } from "../../../../core/types/AppError";
+import { TypedAppError } from "../../../../core/types/AppError";
 import { UserEntity } from "../entities/UserEntity";
 import { PaginatedArray } from "../../../../core/types/PaginatedArray";
+import { MutationResult } from "../../../../core/types/MutationResult";
 import { 
     GetUsersFiltersParams, 
     CreateUserDataParams, 
@@ -11,9 +12,9 @@ import {
 } from "../types/UsersDomainTypes";
 
 export interface IUsersUseCase {
-    getUsers(filters: GetUsersFiltersParams): Promise<Either<AppError, PaginatedArray<UserEntity>>>;
-    getUserById(params: GetUserByIdParams): Promise<Either<AppError, UserEntity>>;
-    createUser(data: CreateUserDataParams): Promise<Either<AppError, boolean>>;
-    updateUser(id: string, data: UpdateUserDataParams): Promise<Either<AppError, boolean>>;
-    deleteUser(params: DeleteUserParams): Promise<Either<AppError, boolean>>;
+    getUsers(filters: GetUsersFiltersParams, signal?: AbortSignal): Promise<Either<TypedAppError, PaginatedArray<UserEntity>>>;
+    getUserById(params: GetUserByIdParams): Promise<Either<TypedAppError, UserEntity>>;
+    createUser(data: CreateUserDataParams): Promise<Either<TypedAppError, MutationResult>>;
+    updateUser(id: string, data: UpdateUserDataParams): Promise<Either<TypedAppError, MutationResult>>;
+    deleteUser(params: DeleteUserParams): Promise<Either<TypedAppError, boolean>>;
 }
@@ -1,10 +1,11 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { right, left } from '@sweet-monads/either';
 import { UsersUseCase } from './UsersUseCase';
-import { AppError } from '@core/types/AppError';
+import { ServerError } from '@core/types/AppError';
 import { PaginatedArray } from '@core/types/PaginatedArray';
 import { UserEntity } from '../entities/UserEntity';
 import { IUsersRepository } from '../repositories/IUsersRepository';
+import { TokenPayload } from '@core/types/AuthTypes';
 
 // --- Helpers ---
 
@@ -26,29 +27,41 @@ const makePaginatedUsers = (users: UserEntity[] = [makeUser()]) =>
 const makeRepository = (): IUsersRepository => ({
     getUsers: vi.fn().mockResolvedValue(right(makePaginatedUsers())),
     getUserById: vi.fn().mockResolvedValue(right(makeUser())),
-    createUser: vi.fn().mockResolvedValue(right(true)),
-    updateUser: vi.fn().mockResolvedValue(right(true)),
+    createUser: vi.fn().mockResolvedValue(right('sent')),
+    updateUser: vi.fn().mockResolvedValue(right('sent')),
     deleteUser: vi.fn().mockResolvedValue(right(true)),
 });
 
+const makeCurrentUser = (overrides: Partial<TokenPayload> = {}): TokenPayload => ({
+    exp: 0,
+    iat: 0,
+    userId: 'admin-1',
+    role: 'ADMIN',
+    email: 'admin@example.com',
+    ...overrides,
+});
+
 // --- Tests ---
 
 describe('UsersUseCase', () => {
     let repository: IUsersRepository;
+    let currentUser: TokenPayload | null;
     let useCase: UsersUseCase;
 
     beforeEach(() => {
         repository = makeRepository();
-        useCase = new UsersUseCase(repository);
+        currentUser = makeCurrentUser();
+        useCase = new UsersUseCase(repository, () => currentUser);
     });
 
     // ------------------------------------------------------------------ getUsers
     describe('getUsers', () => {
-        it('delegue au repository avec des filtres valides', async () => {
-            const result = await useCase.getUsers({ page: 1 });
+        it('delegue au repository avec des filtres valides et le signal d annulation', async () => {
+            const controller = new AbortController();
+            const result = await useCase.getUsers({ page: 1 }, controller.signal);
 
             expect(result.isRight()).toBe(true);
-            expect(repository.getUsers).toHaveBeenCalledWith({ page: 1 });
+            expect(repository.getUsers).toHaveBeenCalledWith({ page: 1 }, controller.signal);
         });
 
         it('retourne une erreur si page < 1', async () => {
@@ -56,7 +69,7 @@ describe('UsersUseCase', () => {
 
             expect(result.isLeft()).toBe(true);
             if (result.isLeft()) {
-                expect(result.value.code).toBe('400');
+                expect(result.value).toMatchObject({ kind: 'validation', issues: [{ path: 'page' }] });
             }
         });
 
@@ -65,7 +78,7 @@ describe('UsersUseCase', () => {
 
             expect(result.isLeft()).toBe(true);
             if (result.isLeft()) {
-                expect(result.value.code).toBe('400');
+                expect(result.value.kind).toBe('validation');
             }
         });
 
@@ -137,7 +150,7 @@ describe('UsersUseCase', () => {
 
         it('propage l erreur du repository', async () => {
             vi.mocked(repository.createUser).mockResolvedValue(
-                left(new AppError('Erreur API', '001'))
+                left(new ServerError('Erreur API', 502))
             );
             const result = await useCase.createUser(validData);
             expect(result.isLeft()).toBe(true);
@@ -182,5 +195,25 @@ describe('UsersUseCase', () => {
             const result = await useCase.deleteUser({ id: '' });
             expect(result.isLeft()).toBe(true);
         });
+
+        it('refuse la suppression si l utilisateur n est pas ADMIN', async () => {
+            currentUser = makeCurrentUser({ role: 'USER' });
+
+            const result = await useCase.deleteUser({ id: 'user-1' });
+
+            expect(result.isLeft()).toBe(true);
+            if (result.isLeft()) {
+                expect(result.value.code).toBe('403');
+            }
+            expect(repository.deleteUser).not.toHaveBeenCalled();
+        });
+
+        it('refuse la suppression sans utilisateur connecte', async () => {
+            currentUser = null;
+
+            const result = await useCase.deleteUser({ id: 'user-1' });
+
+            expect(result.isLeft()).toBe(true);
+        });
     });
 });
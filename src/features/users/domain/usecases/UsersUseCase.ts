@@ -1,9 +1,10 @@
 import { Either, left } from "@sweet-monads/either";
-import { AppError } from "../../../../core/types/AppError";
+import { ForbiddenError, TypedAppError, ValidationError } from "../../../../core/types/AppError";
 import { IUsersRepository } from "../repositories/IUsersRepository";
 import { IUsersUseCase } from "./IUsersUseCase";
 import { UserEntity } from "../entities/UserEntity";
 import { PaginatedArray } from "../../../../core/types/PaginatedArray";
+import { MutationResult } from "../../../../core/types/MutationResult";
 import {
     GetUsersFiltersParams,
     CreateUserDataParams,
@@ -12,79 +13,90 @@ import {
     DeleteUserParams
 } from "../types/UsersDomainTypes";
 import { isValidEmail } from "../../../../core/utils/validators";
+import { canAccess, CurrentUserProvider, ROLES } from "../../../../core/policies/accessPolicy";
+
+// Règle métier non respectée, rattachée au champ concerné (affichable à côté du champ du formulaire)
+const invalidField = (path: string, message: string) => left(new ValidationError(message, [{ path, message }]));
 
 export class UsersUseCase implements IUsersUseCase {
     private repository: IUsersRepository;
+    private getCurrentUser: CurrentUserProvider;
 
-    constructor(repository: IUsersRepository) {
+    constructor(repository: IUsersRepository, getCurrentUser: CurrentUserProvider) {
         this.repository = repository;
+        this.getCurrentUser = getCurrentUser;
     }
 
-    async getUsers(filters: GetUsersFiltersParams): Promise<Either<AppError, PaginatedArray<UserEntity>>> {
+    async getUsers(filters: GetUsersFiltersParams, signal?: AbortSignal): Promise<Either<TypedAppError, PaginatedArray<UserEntity>>> {
         // Logique métier : validation des filtres
         if (filters.page !== undefined && filters.page < 1) {
-            return left(new AppError("Le numéro de page doit être supérieur à 0", "400", "validation_error"));
+            return invalidField('page', "Le numéro de page doit être supérieur à 0");
         }
 
         // Validation additionnelle pour les nouveaux filtres
         if (filters.status && !['ACTIVE', 'INACTIVE', 'SUSPENDED'].includes(filters.status)) {
-            return left(new AppError("Statut invalide", "400", "validation_error"));
+            return invalidField('status', "Statut invalide");
         }
 
-        return await this.repository.getUsers(filters);
+        return await this.repository.getUsers(filters, signal);
     }
 
-    async getUserById(params: GetUserByIdParams): Promise<Either<AppError, UserEntity>> {
+    async getUserById(params: GetUserByIdParams): Promise<Either<TypedAppError, UserEntity>> {
         // Logique métier : validation de l'ID
         if (!params.id || params.id.trim() === '') {
-            return left(new AppError("L'ID utilisateur est requis", "400", "validation_error"));
+            return invalidField('id', "L'ID utilisateur est requis");
         }
 
         return await this.repository.getUserById(params);
     }
 
-    async createUser(data: CreateUserDataParams): Promise<Either<AppError, boolean>> {
+    async createUser(data: CreateUserDataParams): Promise<Either<TypedAppError, MutationResult>> {
         // Logique métier : validation des données
         if (!data.firstName || data.firstName.trim() === '') {
-            return left(new AppError("Le prénom est requis", "400", "validation_error"));
+            return invalidField('firstName', "Le prénom est requis");
         }
 
         if (!data.lastName || data.lastName.trim() === '') {
-            return left(new AppError("Le nom est requis", "400", "validation_error"));
+            return invalidField('lastName', "Le nom est requis");
         }
 
         if (!data.email || !isValidEmail(data.email)) {
-            return left(new AppError("L'email est invalide", "400", "validation_error"));
+            return invalidField('email', "L'email est invalide");
         }
 
         if (!data.password || data.password.length < 6) {
-            return left(new AppError("Le mot de passe doit contenir au moins 6 caractères", "400", "validation_error"));
+            return invalidField('password', "Le mot de passe doit contenir au moins 6 caractères");
         }
 
         return await this.repository.createUser(data);
     }
 
-    async updateUser(id: string, data: UpdateUserDataParams): Promise<Either<AppError, boolean>> {
+    async updateUser(id: string, data: UpdateUserDataParams): Promise<Either<TypedAppError, MutationResult>> {
         // Logique métier : validation
         if (!id || id.trim() === '') {
-            return left(new AppError("L'ID utilisateur est requis", "400", "validation_error"));
+            return invalidField('id', "L'ID utilisateur est requis");
         }
 
         if (data.email && !isValidEmail(data.email)) {
-            return left(new AppError("L'email est invalide", "400", "validation_error"));
+            return invalidField('email', "L'email est invalide");
         }
 
         if (data.password && data.password.length < 6) {
-            return left(new AppError("Le mot de passe doit contenir au moins 6 caractères", "400", "validation_error"));
+            return invalidField('password', "Le mot de passe doit contenir au moins 6 caractères");
         }
 
         return await this.repository.updateUser(id, data);
     }
 
-    async deleteUser(params: DeleteUserParams): Promise<Either<AppError, boolean>> {
+    async deleteUser(params: DeleteUserParams): Promise<Either<TypedAppError, boolean>> {
+        // Règle d'accès : seul un administrateur peut supprimer un utilisateur
+        if (!canAccess(this.getCurrentUser(), { roles: [ROLES.ADMIN] })) {
+            return left(new ForbiddenError("Vous n'avez pas les droits pour supprimer un utilisateur"));
+        }
+
         // Logique métier : validation
         if (!params.id || params.id.trim() === '') {
-            return left(new AppError("L'ID utilisateur est requis", "400", "validation_error"));
+            return invalidField('id', "L'ID utilisateur est requis");
         }
 
         return await this.repository.deleteUser(params);
@@ -0,0 +1,48 @@
+import React from 'react';
+import { AlertDialog, Button } from '@heroui/react';
+import { UserEntity, getFullName } from '../../domain/entities/UserEntity';
+
+interface DeleteUserDialogProps {
+    user: UserEntity | null;      // Utilisateur a supprimer (null : dialogue ferme)
+    isDeleting: boolean;
+    onConfirm: () => void;
+    onCancel: () => void;
+}
+
+/**
+ * Confirmation avant la suppression definitive d'un utilisateur
+ */
+const DeleteUserDialog: React.FC<DeleteUserDialogProps> = ({ user, isDeleting, onConfirm, onCancel }) => {
+    return (
+        <AlertDialog.Backdrop isOpen={user !== null} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+            <AlertDialog.Container>
+                <AlertDialog.Dialog>
+                    <AlertDialog.Header>
+                        <AlertDialog.Icon status="danger" />
+                        <AlertDialog.Heading>Supprimer l'utilisateur</AlertDialog.Heading>
+                    </AlertDialog.Header>
+                    <AlertDialog.Body>
+                        <p className="text-secondary">
+                            {user && (
+                                <>
+                                    <span className="font-semibold text-primary">{getFullName(user)}</span> ({user.email}){' '}
+                                </>
+                            )}
+                            sera supprime definitivement. Cette action est irreversible.
+                        </p>
+                    </AlertDialog.Body>
+                    <AlertDialog.Footer>
+                        <Button variant="ghost" onPress={onCancel} isDisabled={isDeleting} autoFocus>
+                            Annuler
+                        </Button>
+                        <Button variant="danger" onPress={onConfirm} isDisabled={isDeleting}>
+                            Supprimer
+                        </Button>
+                    </AlertDialog.Footer>
+                </AlertDialog.Dialog>
+            </AlertDialog.Container>
+        </AlertDialog.Backdrop>
+    );
+};
+
+export default DeleteUserDialog;
@@ -1,5 +1,7 @@
 import { Button, Chip } from '@heroui/react';
 import { useNavigate } from 'react-router-dom';
+import Can from '../../../../core/components/Can';
+import { USERS_MANAGEMENT } from '../../../../core/policies/accessPolicy';
 
 const HomePage = () => {
     const navigate = useNavigate();
@@ -24,9 +26,11 @@ const HomePage = () => {
             </p>
 
             <div className="flex gap-3 mb-16">
-                <Button variant="primary" size="lg" onPress={() => navigate('/users')}>
-                    Voir l'exemple (Users)
-                </Button>
+                <Can {...USERS_MANAGEMENT}>
+                    <Button variant="primary" size="lg" onPress={() => navigate('/users')}>
+                        Voir l'exemple (Users)
+                    </Button>
+                </Can>
                 <a
                     href="https://github.com/gaetan-bloch/template-clean-architecture-react"
                     target="_blank"
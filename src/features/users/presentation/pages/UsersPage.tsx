@@ -1,4 +1,5 @@
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import {
     Button,
     Card,
@@ -18,10 +19,24 @@ import {
 import { useUsersStore } from '../store/usersStore';
 import { useUsersFilters } from '../hooks/useUsersFilters';
 import { usePagination } from '../hooks/usePagination';
-import { getFullName } from '../../domain/entities/UserEntity';
+import { UserEntity, getFullName } from '../../domain/entities/UserEntity';
+import DeleteUserDialog from '../components/DeleteUserDialog';
+import Can from '../../../../core/components/Can';
+import ErrorReference from '../../../../core/components/ErrorReference';
+import { useAuth } from '../../../../core/hooks/useAuth';
+import { useImpersonation } from '../../../../core/hooks/useImpersonation';
+import { ROLES } from '../../../../core/policies/accessPolicy';
 
 const UsersPage = () => {
-    const { users, loading, error, success, getUsers } = useUsersStore();
+    const { users, loading, error, errorReference, success, getUsers, cancelGetUsers, deleteUser } = useUsersStore();
+    const pendingChanges = useUsersStore((s) => s.pendingChanges);
+    const syncStatus = useUsersStore((s) => s.syncStatus);
+    const syncPendingChanges = useUsersStore((s) => s.syncPendingChanges);
+    const { user: currentUser } = useAuth();
+    const impersonation = useImpersonation();
+    const navigate = useNavigate();
+    // Utilisateur dont la suppression attend confirmation
+    const [userToDelete, setUserToDelete] = useState<UserEntity | null>(null);
 
     const {
         search,
@@ -41,13 +56,30 @@ const UsersPage = () => {
         isLastPage,
     } = usePagination(activeFilters);
 
-    // Chargement initial uniquement
+    // Chargement initial uniquement, annule si la page est quittee avant la reponse
     useEffect(() => {
         getUsers({ page: 1 });
+        return cancelGetUsers;
     }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
     const handleSearch = () => applyFilters(1);
 
+    const handleConfirmDelete = async () => {
+        if (!userToDelete) {
+            return;
+        }
+        await deleteUser({ id: userToDelete.id });
+        setUserToDelete(null);
+        applyFilters(currentPage);
+    };
+
+    // Voir l'application en tant que l'utilisateur (support), depuis l'accueil
+    const handleImpersonate = async (id: string) => {
+        if (await impersonation.impersonate(id)) {
+            navigate('/');
+        }
+    };
+
     return (
         <div className="max-w-6xl mx-auto px-4 py-8">
             <div className="mb-8">
@@ -59,6 +91,12 @@ const UsersPage = () => {
             {error && (
                 <div className="bg-red-50 text-red-700 border border-red-200 rounded-lg px-4 py-3 text-sm mb-4">
                     {error}
+                    <ErrorReference reference={errorReference} />
+                </div>
+            )}
+            {impersonation.error && !impersonation.isImpersonating && (
+                <div className="bg-red-50 text-red-700 border border-red-200 rounded-lg px-4 py-3 text-sm mb-4">
+                    {impersonation.error}
                 </div>
             )}
             {success && (
@@ -67,6 +105,23 @@ const UsersPage = () => {
                 </div>
             )}
 
+            {/* Modifications faites hors ligne, pas encore appliquees par le serveur */}
+            {pendingChanges > 0 && (
+                <div role="status" className="flex items-center justify-between gap-4 bg-amber-50 text-amber-800 border border-amber-200 rounded-lg px-4 py-3 text-sm mb-4">
+                    <span>
+                        {pendingChanges} modification{pendingChanges > 1 ? 's' : ''} en attente de synchronisation
+                        {syncStatus === 'offline' && ' (hors ligne)'}
+                        {syncStatus === 'syncing' && ' (synchronisation...)'}
+                        {syncStatus === 'error' && ' (synchronisation interrompue)'}
+                    </span>
+                    {syncStatus === 'error' && (
+                        <Button variant="secondary" size="sm" onPress={syncPendingChanges}>
+                            Reessayer
+                        </Button>
+                    )}
+                </div>
+            )}
+
             {/* Barre de recherche */}
             <div className="flex gap-3 mb-6">
                 <InputGroup fullWidth>
@@ -106,10 +161,33 @@ const UsersPage = () => {
                                     <p className="text-secondary text-sm">
                                         {user.phone || 'Pas de telephone'}
                                     </p>
-                                    <div className="mt-1">
+                                    <div className="mt-1 flex items-center justify-between">
                                         <Chip size="sm" variant="secondary">
                                             {user.role}
                                         </Chip>
+                                        {/* Actions reservees aux administrateurs */}
+                                        <Can roles={[ROLES.ADMIN]}>
+                                            <div className="flex gap-2">
+                                                {user.id !== currentUser?.userId && !impersonation.isImpersonating && (
+                                                    <Button
+                                                        variant="secondary"
+                                                        size="sm"
+                                                        onPress={() => handleImpersonate(user.id)}
+                                                        isDisabled={loading || impersonation.isPending}
+                                                    >
+                                                        Voir en tant que
+                                                    </Button>
+                                                )}
+                                                <Button
+                                                    variant="danger"
+                                                    size="sm"
+                                                    onPress={() => setUserToDelete(user)}
+                                                    isDisabled={loading}
+                                                >
+                                                    Supprimer
+                                                </Button>
+                                            </div>
+                                        </Can>
                                     </div>
                                 </CardContent>
                             </Card>
@@ -161,6 +239,13 @@ const UsersPage = () => {
                 </>
             )}
 
+            <DeleteUserDialog
+                user={userToDelete}
+                isDeleting={loading}
+                onConfirm={handleConfirmDelete}
+                onCancel={() => setUserToDelete(null)}
+            />
+
             {/* Aucun resultat */}
             {users && users.data.length === 0 && (
                 <div className="text-center py-12">
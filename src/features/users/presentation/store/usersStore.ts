@@ -2,9 +2,13 @@ import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
 import { UsersUseCase } from '../../domain/usecases/UsersUseCase';
 import { UsersRepository } from '../../data/repositories/UsersRepository';
-import { UsersDataSource } from '../../data/datasources/UsersDataSource';
+import { UsersDataSource, USERS_QUERY_TAG } from '../../data/datasources/UsersDataSource';
 import { UserEntity } from '../../domain/entities/UserEntity';
 import { PaginatedArray } from '../../../../core/types/PaginatedArray';
+import { useAuthStore } from '../../../../core/store/authStore';
+import QueryCache from '../../../../core/services/queryCache';
+import OfflineMutationQueue, { OfflineSyncStatus, QueuedMutation } from '../../../../core/services/offlineMutationQueue';
+import { TypedAppError } from '../../../../core/types/AppError';
 import {
     GetUsersFiltersParams,
     CreateUserDataParams,
@@ -16,23 +20,68 @@ import {
 // Initialisation de la chaîne de dépendances Clean Architecture
 const dataSource = new UsersDataSource();
 const repository = new UsersRepository(dataSource);
-const useCase = new UsersUseCase(repository);
+const useCase = new UsersUseCase(repository, () => useAuthStore.getState().user);
+
+// Requête getUsers en cours : une recherche ou une page plus récente l'annule
+let getUsersController: AbortController | null = null;
+// Filtres de la liste affichée, relus par refreshUsers après une revalidation du cache
+let lastUsersFilters: GetUsersFiltersParams | null = null;
+
+/**
+ * Message affiché pour chaque nature d'erreur. Le cas `never` fait échouer la compilation
+ * si une nature est ajoutée à TypedAppError sans être traitée ici.
+ */
+const errorMessage = (error: TypedAppError): string => {
+    switch (error.kind) {
+        case 'network':
+            return "Connexion au serveur impossible. Vérifiez votre réseau.";
+        case 'timeout':
+            return "Le serveur ne répond pas, réessayez dans un instant.";
+        case 'unauthorized':
+            return "Votre session a expiré, reconnectez-vous.";
+        case 'rate_limited':
+            return error.retryAfterSeconds
+                ? `Trop de requêtes, réessayez dans ${error.retryAfterSeconds} s.`
+                : "Trop de requêtes, réessayez plus tard.";
+        case 'server':
+            return "Le serveur a rencontré une erreur, réessayez plus tard.";
+        case 'forbidden':
+        case 'not_found':
+        case 'conflict':
+        case 'validation':
+        case 'cancelled':
+        case 'unknown':
+            return error.message;
+        default: {
+            const unhandled: never = error;
+            return unhandled;
+        }
+    }
+};
 
 // Définition du state
 interface UsersState {
     // State
     loading: boolean;
     error: string | null;
+    errorReference: string | null;     // Identifiant de corrélation de la requête en échec (référence support)
     success: string | null;
     users: PaginatedArray<UserEntity> | null;
     currentUser: UserEntity | null;
 
+    // Modifications d'utilisateurs faites hors ligne (compteur et refus de toutes les features : syncStore)
+    pendingChanges: number;
+    syncStatus: OfflineSyncStatus;
+
     // Actions
     getUsers: (filters: GetUsersFiltersParams) => Promise<void>;
+    cancelGetUsers: () => void;
+    refreshUsers: () => Promise<void>;
     getUserById: (params: GetUserByIdParams) => Promise<void>;
     createUser: (data: CreateUserDataParams) => Promise<void>;
     updateUser: (id: string, data: UpdateUserDataParams) => Promise<void>;
     deleteUser: (params: DeleteUserParams) => Promise<void>;
+    syncPendingChanges: () => Promise<void>;
 
     // Actions synchrones
     clearSuccess: () => void;
@@ -45,6 +94,7 @@ interface UsersState {
 const initialState = {
     loading: false,
     error: null as string | null,
+    errorReference: null as string | null,
     success: null as string | null,
     users: null as PaginatedArray<UserEntity> | null,
     currentUser: null as UserEntity | null,
@@ -54,27 +104,63 @@ export const useUsersStore = create<UsersState>()(
     devtools(
         (set) => ({
             ...initialState,
+            pendingChanges: 0,
+            syncStatus: 'idle',
 
             // Récupérer les utilisateurs
             getUsers: async (filters) => {
+                getUsersController?.abort();
+                const controller = new AbortController();
+                getUsersController = controller;
+                lastUsersFilters = filters;
+
                 set({ loading: true, error: null }, false, 'users/getUsers/pending');
-                const result = await useCase.getUsers(filters);
+                const result = await useCase.getUsers(filters, controller.signal);
+
+                // Requête annulée ou remplacée entre-temps : la plus récente fait foi, aucun message d'erreur
+                if (controller.signal.aborted || (result.isLeft() && result.value.kind === 'cancelled')) {
+                    return;
+                }
+                getUsersController = null;
 
                 if (result.isLeft()) {
-                    set({ loading: false, error: result.value.message }, false, 'users/getUsers/rejected');
+                    set({ loading: false, error: errorMessage(result.value), errorReference: result.value.requestId ?? null }, false, 'users/getUsers/rejected');
                     setTimeout(() => set({ error: null }, false, 'users/auto/clearError'), 3000);
                 } else {
                     set({ loading: false, users: result.value }, false, 'users/getUsers/fulfilled');
                 }
             },
 
+            // Annuler le chargement en cours (page quittée)
+            cancelGetUsers: () => {
+                if (!getUsersController) {
+                    return;
+                }
+                getUsersController.abort();
+                getUsersController = null;
+                set({ loading: false }, false, 'users/getUsers/cancelled');
+            },
+
+            // Relire la liste affichée sans indicateur de chargement (page renouvelée en arrière-plan)
+            refreshUsers: async () => {
+                const filters = lastUsersFilters;
+                if (!filters || getUsersController) {
+                    return;
+                }
+
+                const result = await useCase.getUsers(filters);
+                if (result.isRight() && filters === lastUsersFilters && !getUsersController) {
+                    set({ users: result.value }, false, 'users/refreshUsers/fulfilled');
+                }
+            },
+
             // Récupérer un utilisateur par ID
             getUserById: async (params) => {
                 set({ loading: true, error: null }, false, 'users/getUserById/pending');
                 const result = await useCase.getUserById(params);
 
                 if (result.isLeft()) {
-                    set({ loading: false, error: result.value.message }, false, 'users/getUserById/rejected');
+                    set({ loading: false, error: errorMessage(result.value), errorReference: result.value.requestId ?? null }, false, 'users/getUserById/rejected');
                     setTimeout(() => set({ error: null }, false, 'users/auto/clearError'), 3000);
                 } else {
                     set({ loading: false, currentUser: result.value }, false, 'users/getUserById/fulfilled');
@@ -87,8 +173,15 @@ export const useUsersStore = create<UsersState>()(
                 const result = await useCase.createUser(data);
 
                 if (result.isLeft()) {
-                    set({ loading: false, error: result.value.message }, false, 'users/createUser/rejected');
+                    set({ loading: false, error: errorMessage(result.value), errorReference: result.value.requestId ?? null }, false, 'users/createUser/rejected');
                     setTimeout(() => set({ error: null }, false, 'users/auto/clearError'), 3000);
+                } else if (result.value === 'queued') {
+                    // Hors ligne : la liste affichée reste valable jusqu'au rejeu
+                    set({
+                        loading: false,
+                        success: "Hors ligne : l'utilisateur sera créé au retour de la connexion.",
+                    }, false, 'users/createUser/queued');
+                    setTimeout(() => set({ success: null }, false, 'users/auto/clearSuccess'), 3000);
                 } else {
                     set({
                         loading: false,
@@ -105,8 +198,14 @@ export const useUsersStore = create<UsersState>()(
                 const result = await useCase.updateUser(id, data);
 
                 if (result.isLeft()) {
-                    set({ loading: false, error: result.value.message }, false, 'users/updateUser/rejected');
+                    set({ loading: false, error: errorMessage(result.value), errorReference: result.value.requestId ?? null }, false, 'users/updateUser/rejected');
                     setTimeout(() => set({ error: null }, false, 'users/auto/clearError'), 3000);
+                } else if (result.value === 'queued') {
+                    set({
+                        loading: false,
+                        success: "Hors ligne : la modification sera envoyée au retour de la connexion.",
+                    }, false, 'users/updateUser/queued');
+                    setTimeout(() => set({ success: null }, false, 'users/auto/clearSuccess'), 3000);
                 } else {
                     set({
                         loading: false,
@@ -123,7 +222,7 @@ export const useUsersStore = create<UsersState>()(
                 const result = await useCase.deleteUser(params);
 
                 if (result.isLeft()) {
-                    set({ loading: false, error: result.value.message }, false, 'users/deleteUser/rejected');
+                    set({ loading: false, error: errorMessage(result.value), errorReference: result.value.requestId ?? null }, false, 'users/deleteUser/rejected');
                     setTimeout(() => set({ error: null }, false, 'users/auto/clearError'), 3000);
                 } else {
                     set({
@@ -135,12 +234,43 @@ export const useUsersStore = create<UsersState>()(
                 }
             },
 
+            // Relancer le rejeu des modifications en attente (après une erreur serveur)
+            syncPendingChanges: async () => {
+                await OfflineMutationQueue.getInstance().replay();
+            },
+
             // Actions synchrones
             clearSuccess: () => set({ success: null }, false, 'users/clearSuccess'),
             clearError: () => set({ error: null }, false, 'users/clearError'),
             clearCurrentUser: () => set({ currentUser: null }, false, 'users/clearCurrentUser'),
-            resetUsersState: () => set(initialState, false, 'users/reset'),
+            resetUsersState: () => {
+                getUsersController?.abort();
+                getUsersController = null;
+                lastUsersFilters = null;
+                set(initialState, false, 'users/reset');
+            },
         }),
         { name: 'UsersStore' }
     )
 );
+
+// Stale-while-revalidate : la page servie depuis le cache vient d'être renouvelée
+QueryCache.getInstance().subscribe((event) => {
+    if (event.type === 'revalidated' && event.tags.includes(USERS_QUERY_TAG)) {
+        useUsersStore.getState().refreshUsers();
+    }
+});
+
+// File hors ligne : compteur et statut des modifications utilisateurs, liste relue après un rejeu
+const isUsersMutation = (mutation: QueuedMutation) => mutation.tags.includes(USERS_QUERY_TAG);
+
+OfflineMutationQueue.getInstance().subscribe((event) => {
+    if (event.type === 'changed') {
+        useUsersStore.setState({
+            pendingChanges: event.mutations.filter(isUsersMutation).length,
+            syncStatus: event.status,
+        }, false, 'users/sync/changed');
+    } else if (event.type === 'replayed' && isUsersMutation(event.mutation)) {
+        useUsersStore.getState().refreshUsers();
+    }
+});
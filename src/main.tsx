@@ -2,14 +2,86 @@ import React from 'react'
 import ReactDOM from 'react-dom/client'
 
 import { initializeApp } from './core/init'
+import { createAuthModule } from './features/auth/authModule'
+import ConfigService, { AppConfig } from './core/services/configService'
+import { BeaconLogSink, ConsoleLogSink, isLogLevel } from './core/services/logger'
 import AppRoutes from './core/routes'
+import ConfigErrorPage from './core/components/ConfigErrorPage'
+import { TypedAppError } from './core/types/AppError'
+import { toAppError } from './core/utils/errorMapper'
 import './core/index.css'
 
 // Initialiser les services de base (intercepteurs Axios, vérification auth)
-initializeApp();
+// a partir de la configuration d'execution (/config.json, repli sur les VITE_*)
+const startApp = (config: AppConfig) => {
+  initializeApp({
+    // Feature auth : fournisseurs d'identite OpenID Connect proposes sur la page de login
+    auth: createAuthModule(config.auth.providers),
+    apiBaseUrl: config.apiBaseUrl,
+    tokenStorage: config.auth.tokenStorage,
+    tokenValidation: {
+      issuer: config.auth.issuer,
+      audience: config.auth.audience,
+      publicKey: config.auth.publicKey,
+      jwks: config.auth.jwks,
+    },
+    idleTimeout: config.auth.idleTimeoutMinutes > 0
+      ? {
+        timeoutMs: config.auth.idleTimeoutMinutes * 60_000,
+        warningMs: config.auth.idleWarningSeconds * 1000,
+      }
+      : undefined,
+    httpRetry: import.meta.env.VITE_HTTP_RETRIES !== undefined && import.meta.env.VITE_HTTP_RETRIES !== ''
+      ? { retries: Math.max(0, Number(import.meta.env.VITE_HTTP_RETRIES) || 0) }
+      : undefined,
+    // Vide : en-tete par defaut (X-Request-ID), 'none' : identifiant non envoye
+    requestIdHeader: import.meta.env.VITE_REQUEST_ID_HEADER === 'none'
+      ? null
+      : import.meta.env.VITE_REQUEST_ID_HEADER || undefined,
+    // Backend simule (developpement sans API) : jamais active dans un build de production
+    mockBackend: import.meta.env.VITE_USE_MOCKS === 'true' && !import.meta.env.PROD
+      ? {
+        latencyMs: Number(import.meta.env.VITE_MOCK_LATENCY_MS) || 0,
+        errorRate: Number(import.meta.env.VITE_MOCK_ERROR_RATE) || 0,
+        issuer: config.auth.issuer,
+        audience: config.auth.audience,
+      }
+      : undefined,
+    logging: {
+      level: isLogLevel(import.meta.env.VITE_LOG_LEVEL) ? import.meta.env.VITE_LOG_LEVEL : undefined,
+      sinks: import.meta.env.VITE_LOG_ENDPOINT
+        ? [new ConsoleLogSink(), new BeaconLogSink(import.meta.env.VITE_LOG_ENDPOINT)]
+        : undefined,
+    },
+  });
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <AppRoutes />
-  </React.StrictMode>,
-)
+  document.title = config.appName;
+};
+
+const root = ReactDOM.createRoot(document.getElementById('root')!);
+
+const renderStartupError = (error: TypedAppError) => {
+  root.render(
+    <React.StrictMode>
+      <ConfigErrorPage error={error} />
+    </React.StrictMode>,
+  );
+};
+
+// Configuration chargee avant tout service : invalide, elle remplace l'application par un ecran d'erreur
+ConfigService.getInstance().load()
+  .then((result) => {
+    if (result.isLeft()) {
+      renderStartupError(result.value);
+      return;
+    }
+
+    startApp(result.value);
+    root.render(
+      <React.StrictMode>
+        <AppRoutes />
+      </React.StrictMode>,
+    );
+  })
+  // Echec inattendu (chargement ou initialisation des services) : jamais de page blanche
+  .catch((error: unknown) => renderStartupError(toAppError(error, 'Demarrage de l\'application impossible')));
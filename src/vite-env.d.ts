@@ -5,8 +5,29 @@ interface ImportMetaEnv {
   readonly VITE_APP_NAME: string
   readonly VITE_APP_VERSION: string
   readonly VITE_ENV: string
+  readonly VITE_FEATURES?: string
+  readonly VITE_TOKEN_STORAGE?: string
+  readonly VITE_JWT_ISSUER?: string
+  readonly VITE_JWT_AUDIENCE?: string
+  readonly VITE_JWT_PUBLIC_KEY?: string
+  readonly VITE_JWT_JWKS?: string
+  readonly VITE_OIDC_PROVIDERS?: string
+  readonly VITE_IDLE_TIMEOUT_MINUTES?: string
+  readonly VITE_IDLE_WARNING_SECONDS?: string
+  readonly VITE_HTTP_RETRIES?: string
+  readonly VITE_REQUEST_ID_HEADER?: string
+  readonly VITE_LOG_LEVEL?: string
+  readonly VITE_LOG_ENDPOINT?: string
+  readonly VITE_USE_MOCKS?: string
+  readonly VITE_MOCK_LATENCY_MS?: string
+  readonly VITE_MOCK_ERROR_RATE?: string
 }
 
 interface ImportMeta {
   readonly env: ImportMetaEnv
 }
+
+// Configuration d'execution injectee par l'hebergement avant le bundle (prioritaire sur /config.json)
+interface Window {
+  __APP_CONFIG__?: unknown
+}